@@ -85,6 +85,11 @@ export interface FirebaseAppInternals {
 
 export interface _FirebaseApp extends FirebaseApp {
   INTERNAL: FirebaseAppInternals;
+  /**
+   * Removes a service instance from the app's cache, so that the next call
+   * to the service's accessor creates a new instance.
+   */
+  _removeServiceInstance: (name: string, instanceIdentifier?: string) => void;
 }
 export interface _FirebaseNamespace extends FirebaseNamespace {
   INTERNAL: {
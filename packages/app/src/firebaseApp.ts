@@ -178,6 +178,22 @@ class FirebaseAppImpl implements FirebaseApp {
     return this.services_[name][instanceIdentifier];
   }
 
+  /**
+   * Remove a service instance from the cache, so we will create a new instance
+   * for this service next time when _getService is called, e.g. after the
+   * service instance was terminated.
+   *
+   * @internal
+   */
+  _removeServiceInstance(
+    name: string,
+    instanceIdentifier: string = DEFAULT_ENTRY_NAME
+  ): void {
+    if (this.services_[name]) {
+      delete this.services_[name][instanceIdentifier];
+    }
+  }
+
   /**
    * Callback function used to extend an App instance at the time
    * of service instance creation.
@@ -197,6 +197,25 @@ describe('Firebase App Class', () => {
     assert.equal(registrations, 2);
   });
 
+  it('Creates a new service instance after it was removed.', () => {
+    let registrations = 0;
+    (firebase as _FirebaseNamespace).INTERNAL.registerService(
+      'test',
+      (app: FirebaseApp) => {
+        registrations += 1;
+        return new TestService(app);
+      }
+    );
+    const app = firebase.initializeApp({});
+    const service = (firebase as any).test();
+    assert.equal(registrations, 1);
+    assert.strictEqual((firebase as any).test(), service);
+
+    (app as _FirebaseApp)._removeServiceInstance('test');
+    assert.notStrictEqual((firebase as any).test(), service);
+    assert.equal(registrations, 2);
+  });
+
   it('Can lazy load a service', () => {
     let registrations = 0;
 
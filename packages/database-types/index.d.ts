@@ -35,10 +35,12 @@ export class FirebaseDatabase {
   private constructor();
 
   app: FirebaseApp;
+  enablePersistence(): Promise<void>;
   goOffline(): void;
   goOnline(): void;
   ref(path?: string | Reference): Reference;
   refFromURL(url: string): Reference;
+  useEmulator(host: string, port: number): void;
 }
 
 export interface OnDisconnect {
@@ -63,7 +65,9 @@ type EventType =
 export interface Query {
   endAt(value: number | string | boolean | null, key?: string): Query;
   equalTo(value: number | string | boolean | null, key?: string): Query;
+  get(): Promise<DataSnapshot>;
   isEqual(other: Query | null): boolean;
+  keepSynced(keepSynced: boolean): void;
   limitToFirst(limit: number): Query;
   limitToLast(limit: number): Query;
   off(
@@ -123,6 +127,7 @@ export interface ServerValue {
   TIMESTAMP: {
     '.sv': string;
   };
+  increment(delta: number): { '.sv': Object };
 }
 
 export interface ThenableReference extends Reference, PromiseLike<Reference> {}
@@ -21,7 +21,7 @@ import { Reference } from './Reference';
 import { Repo } from '../core/Repo';
 import { RepoManager } from '../core/RepoManager';
 import { validateArgCount } from '@firebase/util';
-import { validateUrl } from '../core/util/validation';
+import { validateString, validateUrl } from '../core/util/validation';
 import { FirebaseApp } from '@firebase/app-types';
 import { FirebaseService } from '@firebase/app-types/private';
 import { RepoInfo } from '../core/RepoInfo';
@@ -33,10 +33,28 @@ import { RepoInfo } from '../core/RepoInfo';
 export class Database implements FirebaseService {
   INTERNAL: DatabaseInternals;
   private root_: Reference;
+  // Set once the database is used, after which the emulator can't be configured anymore.
+  private instanceStarted_ = false;
 
   static readonly ServerValue = {
     TIMESTAMP: {
       '.sv': 'timestamp'
+    },
+
+    /**
+     * Returns a placeholder value that atomically increments the current
+     * value at its location by the given delta on the server. Locally, the
+     * increment is applied to the value currently known to the client.
+     * @param {number} delta The amount to add, which may be negative.
+     * @return {!Object}
+     */
+    increment(delta: number): { '.sv': { increment: number } } {
+      validateArgCount('ServerValue.increment', 1, 1, arguments.length);
+      return {
+        '.sv': {
+          increment: delta
+        }
+      };
     }
   };
 
@@ -76,6 +94,7 @@ export class Database implements FirebaseService {
   ref(path?: string | Reference): Reference {
     this.checkDeleted_('ref');
     validateArgCount('database.ref', 0, 1, arguments.length);
+    this.instanceStarted_ = true;
 
     if (path instanceof Reference) {
       return this.refFromURL(path.toString());
@@ -124,6 +143,48 @@ export class Database implements FirebaseService {
     }
   }
 
+  /**
+   * Connects to the Realtime Database emulator at the given host and port,
+   * instead of the production servers. Must be called before any other
+   * operation on the database.
+   *
+   * @param {string} host The host of the emulator, e.g. 'localhost'.
+   * @param {number} port The port of the emulator.
+   */
+  useEmulator(host: string, port: number): void {
+    validateArgCount('database.useEmulator', 2, 2, arguments.length);
+    this.checkDeleted_('useEmulator');
+    validateString('database.useEmulator', 1, host, false);
+    if (typeof port !== 'number' || Math.floor(port) !== port || port <= 0) {
+      throw new Error(
+        'database.useEmulator: Second argument must be a positive integer.'
+      );
+    }
+    if (this.instanceStarted_) {
+      fatal(
+        'database.useEmulator() must be called before any other operation ' +
+          'on the database.'
+      );
+    }
+    this.repo_.useEmulator(host + ':' + port);
+  }
+
+  /**
+   * Stores pending writes and cached data in IndexedDB, so that they survive
+   * page reloads. Must be called before any data is read or written, and data
+   * can only be written once the returned promise resolves, after the writes
+   * of the previous session were replayed.
+   *
+   * Transactions are not persisted.
+   * @return {!Promise<void>}
+   */
+  enablePersistence(): Promise<void> {
+    validateArgCount('database.enablePersistence', 0, 0, arguments.length);
+    this.checkDeleted_('enablePersistence');
+    this.instanceStarted_ = true;
+    return this.repo_.enablePersistence();
+  }
+
   // Make individual repo go offline.
   goOffline() {
     validateArgCount('database.goOffline', 0, 0, arguments.length);
@@ -23,6 +23,7 @@ import { MIN_NAME, MAX_NAME, ObjectToUniqueKey } from '../core/util/util';
 import { Path } from '../core/util/Path';
 import {
   isValidPriority,
+  validateBoolean,
   validateEventType,
   validatePathString,
   validateFirebaseDataArg,
@@ -37,7 +38,8 @@ import {
 import {
   ValueEventRegistration,
   ChildEventRegistration,
-  EventRegistration
+  EventRegistration,
+  KeepSyncedEventRegistration
 } from '../core/view/EventRegistration';
 import { Deferred } from '@firebase/util';
 import { Repo } from '../core/Repo';
@@ -349,6 +351,40 @@ export class Query {
     return deferred.promise;
   }
 
+  /**
+   * Reads the data of this query from the server. If the client is offline, the data is read from the cache
+   * instead, which only succeeds while a listener keeps the query's location up to date.
+   * @return {!firebase.Promise}
+   */
+  get(): Promise<DataSnapshot> {
+    validateArgCount('Query.get', 0, 0, arguments.length);
+    return this.repo.getValue(this);
+  }
+
+  /**
+   * Keeps the data of this query synced while no callbacks are attached to it, so that it's ready as soon as
+   * callbacks are attached. Each call with true needs a matching call with false to stop syncing the query.
+   * @param {boolean} keepSynced
+   */
+  keepSynced(keepSynced: boolean) {
+    validateArgCount('Query.keepSynced', 1, 1, arguments.length);
+    validateBoolean('Query.keepSynced', 1, keepSynced, false);
+    if (this.path.getFront() === '.info') {
+      throw new Error(
+        "Query.keepSynced failed: Can't keep data under /.info/ synced."
+      );
+    }
+
+    const registration = new KeepSyncedEventRegistration(
+      this.queryIdentifier()
+    );
+    if (keepSynced) {
+      this.repo.addEventCallbackForQuery(this, registration);
+    } else {
+      this.repo.removeEventCallbackForQuery(this, registration);
+    }
+  }
+
   /**
    * Set a limit and anchor it to the start of the window.
    * @param {!number} limit
@@ -37,6 +37,10 @@ const RECONNECT_MAX_DELAY_FOR_ADMINS = 30 * 1000; // 30 seconds for admin client
 const RECONNECT_DELAY_MULTIPLIER = 1.3;
 const RECONNECT_DELAY_RESET_TIMEOUT = 30000; // Reset delay back to MIN_DELAY after being connected for 30sec.
 const SERVER_KILL_INTERRUPT_REASON = 'server_kill';
+// How long a get() waits for a connection before it reports that the client is offline.
+const GET_CONNECT_TIMEOUT = 3000;
+// The emulator accepts this token as an admin credential.
+const EMULATOR_OWNER_TOKEN = 'owner';
 
 // If auth fails repeatedly, we'll assume something is wrong and log a warning / back off.
 const INVALID_AUTH_TOKEN_THRESHOLD = 3;
@@ -57,6 +61,11 @@ interface OnDisconnectRequest {
   onComplete?: (a: string, b: string) => void;
 }
 
+interface OutstandingGet {
+  request: { [k: string]: any };
+  onComplete: (a: string, b?: any) => void;
+}
+
 interface OutstandingPut {
   action: string;
   request: Object;
@@ -80,6 +89,8 @@ export class PersistentConnection extends ServerActions {
   private listens_: { [path: string]: { [queryId: string]: ListenSpec } } = {};
   private outstandingPuts_: OutstandingPut[] = [];
   private outstandingPutCount_ = 0;
+  private outstandingGets_: OutstandingGet[] = [];
+  private outstandingGetCount_ = 0;
   private onDisconnectRequestQueue_: OnDisconnectRequest[] = [];
   private connected_ = false;
   private reconnectDelay_ = RECONNECT_MIN_DELAY;
@@ -190,6 +201,94 @@ export class PersistentConnection extends ServerActions {
     }
   }
 
+  /**
+   * @inheritDoc
+   */
+  get(query: Query, onComplete: (a: string, b: any) => void) {
+    const pathString = query.path.toString();
+    const request: { [k: string]: any } = {
+      /*path*/ p: pathString,
+      /*query*/ q: query.queryObject()
+    };
+    const outstandingGet: OutstandingGet = { request, onComplete };
+
+    this.outstandingGets_.push(outstandingGet);
+    this.outstandingGetCount_++;
+    const index = this.outstandingGets_.length - 1;
+
+    if (this.connected_) {
+      this.sendGet_(index);
+    } else if (!this.shouldReconnect_()) {
+      this.log_('Get for ' + pathString + ' failed: not connected');
+      this.removeGet_(index);
+      onComplete('offline', null);
+    } else {
+      this.log_('Buffering get: ' + pathString);
+      setTimeout(() => {
+        // The get is still buffered if it wasn't sent and answered yet.
+        if (
+          this.outstandingGets_[index] === outstandingGet &&
+          !this.connected_
+        ) {
+          this.log_(
+            'Get for ' + pathString + ' timed out waiting for a connection'
+          );
+          this.removeGet_(index);
+          onComplete('offline', null);
+        }
+      }, GET_CONNECT_TIMEOUT);
+    }
+  }
+
+  private sendGet_(index: number) {
+    const outstandingGet = this.outstandingGets_[index];
+
+    this.sendRequest(
+      'g',
+      outstandingGet.request,
+      (message: { [k: string]: any }) => {
+        this.log_('get response', message);
+        if (this.outstandingGets_[index] === outstandingGet) {
+          this.removeGet_(index);
+          outstandingGet.onComplete(
+            message[/*status*/ 's'],
+            message[/*data*/ 'd']
+          );
+        }
+      }
+    );
+  }
+
+  /**
+   * Completes all outstanding gets with 'offline', so that they are answered from the cache instead of waiting for
+   * the next connection.
+   */
+  private failSentGets_() {
+    const outstandingGets = this.outstandingGets_;
+    this.outstandingGets_ = [];
+    this.outstandingGetCount_ = 0;
+    for (let i = 0; i < outstandingGets.length; i++) {
+      if (outstandingGets[i]) {
+        this.log_(
+          'Get for ' +
+            outstandingGets[i].request[/*path*/ 'p'] +
+            ' failed: disconnected'
+        );
+        outstandingGets[i].onComplete('offline', null);
+      }
+    }
+  }
+
+  private removeGet_(index: number) {
+    delete this.outstandingGets_[index];
+    this.outstandingGetCount_--;
+
+    // Clean up array occasionally.
+    if (this.outstandingGetCount_ === 0) {
+      this.outstandingGets_ = [];
+    }
+  }
+
   /**
    * @inheritDoc
    */
@@ -303,7 +402,7 @@ export class PersistentConnection extends ServerActions {
    * @inheritDoc
    */
   refreshAuthToken(token: string) {
-    this.authToken_ = token;
+    this.authToken_ = this.tokenOrEmulatorToken_(token);
     this.log_('Auth token refreshed');
     if (this.authToken_) {
       this.tryAuth();
@@ -334,6 +433,18 @@ export class PersistentConnection extends ServerActions {
     }
   }
 
+  /**
+   * @param {?string} token
+   * @return {?string} The token, or a mock admin token if there's none and we're connected to an emulator.
+   * @private
+   */
+  private tokenOrEmulatorToken_(token: string | null): string | null {
+    if (!token && this.repoInfo_.isUsingEmulator) {
+      return EMULATOR_OWNER_TOKEN;
+    }
+    return token;
+  }
+
   /**
    * Attempts to authenticate with the given credentials. If the authentication attempt fails, it's triggered like
    * a auth revoked (the connection is closed).
@@ -700,6 +811,7 @@ export class PersistentConnection extends ServerActions {
 
   private onRealtimeDisconnect_() {
     this.log_('data client disconnected');
+    const wasConnected = this.connected_;
     this.connected_ = false;
     this.realtime_ = null;
 
@@ -709,6 +821,11 @@ export class PersistentConnection extends ServerActions {
     // Clear out the pending requests.
     this.requestCBHash_ = {};
 
+    // While connected, all gets are sent right away, so their responses are lost along with the connection.
+    if (wasConnected) {
+      this.failSentGets_();
+    }
+
     if (this.shouldReconnect_()) {
       if (!this.visible_) {
         this.log_("Window isn't visible.  Delaying reconnect.");
@@ -786,7 +903,9 @@ export class PersistentConnection extends ServerActions {
         .then(function(result) {
           if (!canceled) {
             log('getToken() completed. Creating connection.');
-            self.authToken_ = result && result.accessToken;
+            self.authToken_ = self.tokenOrEmulatorToken_(
+              result && result.accessToken
+            );
             connection = new Connection(
               connId,
               self.repoInfo_,
@@ -957,6 +1076,10 @@ export class PersistentConnection extends ServerActions {
       if (this.outstandingPuts_[i]) this.sendPut_(i);
     }
 
+    for (let i = 0; i < this.outstandingGets_.length; i++) {
+      if (this.outstandingGets_[i]) this.sendGet_(i);
+    }
+
     while (this.onDisconnectRequestQueue_.length) {
       const request = this.onDisconnectRequestQueue_.shift();
       this.sendOnDisconnect_(
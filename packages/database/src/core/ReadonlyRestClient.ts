@@ -140,6 +140,30 @@ export class ReadonlyRestClient extends ServerActions {
     delete this.listens_[listenId];
   }
 
+  /** @inheritDoc */
+  get(query: Query, onComplete: (a: string, b: any) => void) {
+    const queryStringParamaters = query
+      .getQueryParams()
+      .toRestQueryStringParameters();
+
+    this.restRequest_(
+      query.path.toString() + '.json',
+      queryStringParamaters,
+      (error, result) => {
+        if (error === null || error === 404) {
+          onComplete('ok', error === null ? result : null);
+        } else if (error === 0) {
+          // The request didn't reach the server.
+          onComplete('offline', null);
+        } else if (error == 401) {
+          onComplete('permission_denied', null);
+        } else {
+          onComplete('rest_error:' + error, null);
+        }
+      }
+    );
+  }
+
   /** @inheritDoc */
   refreshAuthToken(token: string) {
     // no-op since we just always call getToken.
@@ -25,8 +25,16 @@ import { SparseSnapshotTree } from './SparseSnapshotTree';
 import { SyncTree } from './SyncTree';
 import { SnapshotHolder } from './SnapshotHolder';
 import { stringify } from '@firebase/util';
-import { beingCrawled, each, exceptionGuard, warn, log } from './util/util';
-import { map, forEach, isEmpty } from '@firebase/util';
+import {
+  beingCrawled,
+  each,
+  errorForServerCode,
+  exceptionGuard,
+  fatal,
+  warn,
+  log
+} from './util/util';
+import { map, forEach, isEmpty, Deferred } from '@firebase/util';
 import { AuthTokenProvider } from './AuthTokenProvider';
 import { StatsManager } from './stats/StatsManager';
 import { StatsReporter } from './stats/StatsReporter';
@@ -37,14 +45,18 @@ import { ReadonlyRestClient } from './ReadonlyRestClient';
 import { FirebaseApp } from '@firebase/app-types';
 import { RepoInfo } from './RepoInfo';
 import { Database } from '../api/Database';
+import { DataSnapshot } from '../api/DataSnapshot';
 import { ServerActions } from './ServerActions';
 import { Query } from '../api/Query';
 import { EventRegistration } from './view/EventRegistration';
 import { StatsCollection } from './stats/StatsCollection';
 import { Event } from './view/Event';
 import { Node } from './snap/Node';
+import { ChildrenNode } from './snap/ChildrenNode';
+import { IndexedDbPersistence } from './storage/IndexedDbPersistence';
 
 const INTERRUPT_REASON = 'repo_interrupt';
+const EMULATOR_INTERRUPT_REASON = 'emulator';
 
 /**
  * A connection to a single data repository.
@@ -68,6 +80,13 @@ export class Repo {
     | ((a: string, b: any) => void)
     | null = null;
   private __database: Database;
+  private persistenceEnabled_ = false;
+  private persistence_: IndexedDbPersistence | null = null;
+  // Set once the repo is deleted, so that a database that is still being opened is closed right away.
+  private persistenceClosed_ = false;
+  // Set while persistence is being enabled. Writes fail in the meantime, since they would be applied before the writes
+  // of the previous session are replayed.
+  private persistencePending_ = false;
 
   // A list of data pieces and paths to be set when this client disconnects.
   private onDisconnect_ = new SparseSnapshotTree();
@@ -328,6 +347,139 @@ export class Repo {
     return this.nextWriteId_++;
   }
 
+  /**
+   * Stores pending writes and server data in IndexedDB from now on. The writes of a previous session are replayed,
+   * and its server data is used to raise events for new listeners right away. Writes fail until the data of the
+   * previous session is restored, since they would otherwise be applied before the replayed writes.
+   *
+   * @return {!Promise<void>} Resolves once the data of the previous session is restored.
+   */
+  enablePersistence(): Promise<void> {
+    if (this.persistenceEnabled_) {
+      fatal('database.enablePersistence() was already called.');
+    }
+    if (!this.serverSyncTree_.isEmpty()) {
+      fatal(
+        'database.enablePersistence() must be called before any data is ' +
+          'read or written.'
+      );
+    }
+    if (!IndexedDbPersistence.isAvailable()) {
+      return Promise.reject(
+        new Error(
+          'Persistence is not supported in this environment, since ' +
+            'IndexedDB is not available.'
+        )
+      );
+    }
+    this.persistenceEnabled_ = true;
+    this.persistencePending_ = true;
+
+    const name =
+      'firebase:database:' + this.app.name + ':' + this.repoInfo_.toURLString();
+    return IndexedDbPersistence.open(name).then(
+      persistence => {
+        this.persistencePending_ = false;
+        if (this.persistenceClosed_) {
+          persistence.close();
+          return;
+        }
+        this.persistence_ = persistence;
+        this.serverSyncTree_.setPersistence(persistence);
+        persistence.replayUserWrites(write => {
+          const path = new Path(write.path);
+          if (write.isMerge) {
+            this.update(path, write.data, /*onComplete=*/ null);
+          } else {
+            this.setWithPriority(
+              path,
+              write.data,
+              /*newPriority=*/ null,
+              /*onComplete=*/ null
+            );
+          }
+        });
+      },
+      error => {
+        this.persistencePending_ = false;
+        this.persistenceEnabled_ = false;
+        throw error;
+      }
+    );
+  }
+
+  /**
+   * Throws if persistence is still being enabled. Writes must wait until `enablePersistence()` resolves, so that they
+   * are applied after the writes of the previous session.
+   */
+  private checkPersistenceNotPending_() {
+    if (this.persistencePending_) {
+      fatal(
+        'Data was written before the promise returned by ' +
+          'database.enablePersistence() resolved. Wait for it before writing ' +
+          'data.'
+      );
+    }
+  }
+
+  /**
+   * Closes the IndexedDB database once the repo is deleted.
+   */
+  closePersistence() {
+    this.persistenceClosed_ = true;
+    if (this.persistence_) {
+      this.persistence_.close();
+    }
+  }
+
+  /**
+   * Reads the data of a query from the server, and updates the cache with it. If the client is offline, the data
+   * is read from the cache instead, which requires an active listener for the query's location or persisted data.
+   *
+   * @param {!Query} query
+   * @return {!Promise<!DataSnapshot>}
+   */
+  getValue(query: Query): Promise<DataSnapshot> {
+    const deferred = new Deferred<DataSnapshot>();
+    const index = query.getQueryParams().getIndex();
+
+    if (query.path.getFront() === '.info') {
+      // .info data is local, so it's always up to date.
+      const node = this.infoData_.getNode(query.path);
+      deferred.resolve(new DataSnapshot(node, query.getRef(), index));
+      return deferred.promise;
+    }
+
+    this.server_.get(query, (status, payload) => {
+      if (status === 'ok') {
+        const node = nodeFromJSON(payload);
+        const events = this.serverSyncTree_.applyServerQueryOverwrite(
+          query,
+          node
+        );
+        let affectedPath = query.path;
+        if (events.length > 0) {
+          affectedPath = this.rerunTransactions_(query.path);
+        }
+        this.eventQueue_.raiseEventsForChangedPath(affectedPath, events);
+        deferred.resolve(new DataSnapshot(node, query.getRef(), index));
+        return;
+      }
+
+      this.log_('get for ' + query.path.toString() + ' failed: ' + status);
+      const cached =
+        status === 'offline'
+          ? this.serverSyncTree_.calcCompleteQueryCache(query)
+          : null;
+      if (cached) {
+        deferred.resolve(new DataSnapshot(cached, query.getRef(), index));
+      } else {
+        deferred.reject(errorForServerCode(status, query));
+      }
+    });
+    return deferred.promise;
+  }
+
   /**
    * @param {!Path} path
    * @param {*} newVal
@@ -340,6 +492,7 @@ export class Repo {
     newPriority: number | string | null,
     onComplete: ((status: Error | null, errorReason?: string) => void) | null
   ) {
+    this.checkPersistenceNotPending_();
     this.log_('set', {
       path: path.toString(),
       value: newVal,
@@ -350,8 +503,12 @@ export class Repo {
     // (b) store unresolved paths on JSON parse
     const serverValues = this.generateServerValues();
     const newNodeUnresolved = nodeFromJSON(newVal, newPriority);
+    const existing =
+      this.serverSyncTree_.calcCompleteEventCache(path) ||
+      ChildrenNode.EMPTY_NODE;
     const newNode = resolveDeferredValueSnapshot(
       newNodeUnresolved,
+      existing,
       serverValues
     );
 
@@ -363,14 +520,25 @@ export class Repo {
       true
     );
     this.eventQueue_.queueEvents(events);
+    const newValUnresolved = newNodeUnresolved.val(/*export=*/ true);
+    if (this.persistence_) {
+      this.persistence_.saveUserWrite(writeId, {
+        path: path.toString(),
+        isMerge: false,
+        data: newValUnresolved
+      });
+    }
     this.server_.put(
       path.toString(),
-      newNodeUnresolved.val(/*export=*/ true),
+      newValUnresolved,
       (status, errorReason) => {
         const success = status === 'ok';
         if (!success) {
           warn('set at ' + path + ' failed: ' + status);
         }
+        if (this.persistence_) {
+          this.persistence_.removeUserWrite(writeId);
+        }
 
         const clearEvents = this.serverSyncTree_.ackUserWrite(
           writeId,
@@ -396,6 +564,7 @@ export class Repo {
     childrenToMerge: { [k: string]: any },
     onComplete: ((status: Error | null, errorReason?: string) => void) | null
   ) {
+    this.checkPersistenceNotPending_();
     this.log_('update', { path: path.toString(), value: childrenToMerge });
 
     // Start with our existing data and merge each child into it.
@@ -405,8 +574,12 @@ export class Repo {
     forEach(childrenToMerge, (changedKey: string, changedValue: any) => {
       empty = false;
       const newNodeUnresolved = nodeFromJSON(changedValue);
+      const existing =
+        this.serverSyncTree_.calcCompleteEventCache(path.child(changedKey)) ||
+        ChildrenNode.EMPTY_NODE;
       changedChildren[changedKey] = resolveDeferredValueSnapshot(
         newNodeUnresolved,
+        existing,
         serverValues
       );
     });
@@ -419,6 +592,13 @@ export class Repo {
         writeId
       );
       this.eventQueue_.queueEvents(events);
+      if (this.persistence_) {
+        this.persistence_.saveUserWrite(writeId, {
+          path: path.toString(),
+          isMerge: true,
+          data: childrenToMerge
+        });
+      }
       this.server_.merge(
         path.toString(),
         childrenToMerge,
@@ -427,6 +607,9 @@ export class Repo {
           if (!success) {
             warn('update at ' + path + ' failed: ' + status);
           }
+          if (this.persistence_) {
+            this.persistence_.removeUserWrite(writeId);
+          }
 
           const clearEvents = this.serverSyncTree_.ackUserWrite(
             writeId,
@@ -462,6 +645,7 @@ export class Repo {
     const serverValues = this.generateServerValues();
     const resolvedOnDisconnectTree = resolveDeferredValueTree(
       this.onDisconnect_,
+      this.serverSyncTree_,
       serverValues
     );
     let events: Event[] = [];
@@ -486,6 +670,7 @@ export class Repo {
     path: Path,
     onComplete: ((status: Error | null, errorReason?: string) => void) | null
   ) {
+    this.checkPersistenceNotPending_();
     this.server_.onDisconnectCancel(path.toString(), (status, errorReason) => {
       if (status === 'ok') {
         this.onDisconnect_.forget(path);
@@ -504,6 +689,7 @@ export class Repo {
     value: any,
     onComplete: ((status: Error | null, errorReason?: string) => void) | null
   ) {
+    this.checkPersistenceNotPending_();
     const newNode = nodeFromJSON(value);
     this.server_.onDisconnectPut(
       path.toString(),
@@ -529,6 +715,7 @@ export class Repo {
     priority: any,
     onComplete: ((status: Error | null, errorReason?: string) => void) | null
   ) {
+    this.checkPersistenceNotPending_();
     const newNode = nodeFromJSON(value, priority);
     this.server_.onDisconnectPut(
       path.toString(),
@@ -552,6 +739,7 @@ export class Repo {
     childrenToMerge: { [k: string]: any },
     onComplete: ((status: Error | null, errorReason?: string) => void) | null
   ) {
+    this.checkPersistenceNotPending_();
     if (isEmpty(childrenToMerge)) {
       log(
         "onDisconnect().update() called with empty data.  Don't do anything."
@@ -620,6 +808,19 @@ export class Repo {
     this.eventQueue_.raiseEventsAtPath(query.path, events);
   }
 
+  /**
+   * Connects to the emulator at the given host from now on.
+   * @param {string} host The host of the emulator, including its port.
+   */
+  useEmulator(host: string) {
+    this.repoInfo_.useEmulator(host);
+    if (this.persistentConnection_) {
+      // A connection to the production servers may already be in progress, so start over.
+      this.persistentConnection_.interrupt(EMULATOR_INTERRUPT_REASON);
+      this.persistentConnection_.resume(EMULATOR_INTERRUPT_REASON);
+    }
+  }
+
   interrupt() {
     if (this.persistentConnection_) {
       this.persistentConnection_.interrupt(INTERRUPT_REASON);
@@ -28,6 +28,7 @@ export class RepoInfo {
   host: string;
   domain: string;
   internalHost: string;
+  isUsingEmulator = false;
 
   /**
    * @param {string} host Hostname portion of the url for the repo
@@ -49,7 +50,11 @@ export class RepoInfo {
   }
 
   needsQueryParam(): boolean {
-    return this.host !== this.internalHost || this.isCustomHost();
+    return (
+      this.host !== this.internalHost ||
+      this.isCustomHost() ||
+      this.isUsingEmulator
+    );
   }
 
   isCacheableHost(): boolean {
@@ -66,7 +71,24 @@ export class RepoInfo {
     );
   }
 
+  /**
+   * Connects to the emulator at the given host instead of the production servers. The emulator is reached over an
+   * insecure websocket, and the namespace is always passed as a query parameter.
+   *
+   * @param {string} host The host of the emulator, including its port.
+   */
+  useEmulator(host: string) {
+    this.isUsingEmulator = true;
+    this.webSocketOnly = true;
+    // Don't use the host that was cached for the production servers.
+    this.internalHost = host;
+  }
+
   updateHost(newHost: string) {
+    if (this.isUsingEmulator) {
+      // Stay connected to the emulator.
+      return;
+    }
     if (newHost !== this.internalHost) {
       this.internalHost = newHost;
       if (this.isCacheableHost()) {
@@ -85,13 +107,12 @@ export class RepoInfo {
     assert(typeof type === 'string', 'typeof type must == string');
     assert(typeof params === 'object', 'typeof params must == object');
 
+    const secure = this.secure && !this.isUsingEmulator;
     let connURL: string;
     if (type === WEBSOCKET) {
-      connURL =
-        (this.secure ? 'wss://' : 'ws://') + this.internalHost + '/.ws?';
+      connURL = (secure ? 'wss://' : 'ws://') + this.internalHost + '/.ws?';
     } else if (type === LONG_POLLING) {
-      connURL =
-        (this.secure ? 'https://' : 'http://') + this.internalHost + '/.lp?';
+      connURL = (secure ? 'https://' : 'http://') + this.internalHost + '/.lp?';
     } else {
       throw new Error('Unknown connection type: ' + type);
     }
@@ -118,6 +118,7 @@ export class RepoManager {
       );
     }
     repo.interrupt();
+    repo.closePersistence();
     delete appRepos[repo.repoInfo_.toURLString()];
   }
 
@@ -141,6 +141,7 @@ Repo.prototype.startTransaction = function(
   onComplete: ((a: Error, b: boolean, c: DataSnapshot) => void) | null,
   applyLocally: boolean
 ) {
+  this.checkPersistenceNotPending_();
   this.log_('transaction on ' + path);
 
   // Add a watch to make sure we get server updates.
@@ -244,6 +245,7 @@ Repo.prototype.startTransaction = function(
     const newNodeUnresolved = nodeFromJSON(newVal, priorityForNode);
     const newNode = resolveDeferredValueSnapshot(
       newNodeUnresolved,
+      currentState,
       serverValues
     );
     transaction.currentOutputSnapshotRaw = newNodeUnresolved;
@@ -521,6 +523,7 @@ Repo.prototype.startTransaction = function(
           const serverValues = this.generateServerValues();
           const newNodeResolved = resolveDeferredValueSnapshot(
             newDataNode,
+            currentNode,
             serverValues
           );
 
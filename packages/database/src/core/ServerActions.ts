@@ -44,6 +44,15 @@ export abstract class ServerActions {
    */
   abstract unlisten(query: Query, tag: number | null): void;
 
+  /**
+   * Reads the data of a query once, without listening to it. Completes with the 'offline' status
+   * if the client can't reach the server.
+   *
+   * @param {!Query} query
+   * @param {function(string, *)} onComplete
+   */
+  abstract get(query: Query, onComplete: (a: string, b: any) => void): void;
+
   /**
    * @param {string} pathString
    * @param {*} data
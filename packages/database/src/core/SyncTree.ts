@@ -32,6 +32,7 @@ import { Node } from './snap/Node';
 import { Event } from './view/Event';
 import { EventRegistration } from './view/EventRegistration';
 import { View } from './view/View';
+import { IndexedDbPersistence } from './storage/IndexedDbPersistence';
 
 /**
  * @typedef {{
@@ -96,12 +97,36 @@ export class SyncTree {
   private tagToQueryMap_: { [k: string]: string } = {};
   private queryToTagMap_: { [k: string]: number } = {};
 
+  /**
+   * Stores the server data across sessions, if persistence is enabled.
+   * @type {?IndexedDbPersistence}
+   * @private
+   */
+  private persistence_: IndexedDbPersistence | null = null;
+
   /**
    * @param {!ListenProvider} listenProvider_ Used by SyncTree to start / stop listening
    *   to server data.
    */
   constructor(private listenProvider_: ListenProvider) {}
 
+  /**
+   * Stores the server data that is received from now on, and uses the stored data as the initial server cache of new
+   * listens.
+   *
+   * @param {!IndexedDbPersistence} persistence
+   */
+  setPersistence(persistence: IndexedDbPersistence) {
+    this.persistence_ = persistence;
+  }
+
+  /**
+   * @return {boolean} Whether there are no active listens and no pending writes.
+   */
+  isEmpty(): boolean {
+    return this.syncPointTree_.isEmpty() && this.pendingWriteTree_.isEmpty();
+  }
+
   /**
    * Apply the data changes for a user-generated set() or transaction() call.
    *
@@ -188,6 +213,9 @@ export class SyncTree {
    * @return {!Array.<!Event>} Events to raise.
    */
   applyServerOverwrite(path: Path, newData: Node): Event[] {
+    if (this.persistence_) {
+      this.persistence_.updateServerCache(path, newData);
+    }
     return this.applyOperationToSyncPoints_(
       new Overwrite(OperationSource.Server, path, newData)
     );
@@ -204,6 +232,9 @@ export class SyncTree {
     path: Path,
     changedChildren: { [k: string]: Node }
   ): Event[] {
+    if (this.persistence_) {
+      this.persistence_.updateServerCacheChildren(path, changedChildren);
+    }
     const changeTree = ImmutableTree.fromObject(changedChildren);
 
     return this.applyOperationToSyncPoints_(
@@ -339,6 +370,10 @@ export class SyncTree {
         foundAncestorDefaultView || syncPoint.hasCompleteView();
       serverCache = serverCache || syncPoint.getCompleteServerCache(Path.Empty);
     }
+    if (serverCache == null && this.persistence_) {
+      // Start from the data of a previous session, so that events can be raised right away.
+      serverCache = this.persistence_.getServerCache(path);
+    }
 
     let serverCacheComplete;
     if (serverCache != null) {
@@ -535,6 +570,52 @@ export class SyncTree {
     );
   }
 
+  /**
+   * Returns the cached data for a query, if there is a complete cache of the query's location. This is only the
+   * case while a listener for the location, or one of its parents, is active, or if persistence stored the data.
+   *
+   * @param {!Query} query
+   * @return {?Node}
+   */
+  calcCompleteQueryCache(query: Query): Node | null {
+    let cache = this.calcCompleteEventCache(query.path);
+    if (!cache && this.persistence_) {
+      const persistedCache = this.persistence_.getServerCache(query.path);
+      cache =
+        persistedCache &&
+        this.pendingWriteTree_.calcCompleteEventCache(
+          query.path,
+          persistedCache
+        );
+    }
+    if (!cache) {
+      return null;
+    }
+    return query
+      .getQueryParams()
+      .getNodeFilter()
+      .updateFullNode(ChildrenNode.EMPTY_NODE, cache, null);
+  }
+
+  /**
+   * Apply the data that was read once for a query. Data of a filtered query doesn't describe the complete location,
+   * so it's only applied to an active listen for the same query.
+   *
+   * @param {!Query} query
+   * @param {!Node} snap
+   * @return {!Array.<!Event>} Events to raise.
+   */
+  applyServerQueryOverwrite(query: Query, snap: Node): Event[] {
+    if (query.getQueryParams().loadsAllData()) {
+      return this.applyServerOverwrite(query.path, snap);
+    }
+    const tag = this.tagForQuery_(query);
+    if (tag == null) {
+      return [];
+    }
+    return this.applyTaggedQueryOverwrite(query.path, snap, tag);
+  }
+
   /**
    * This collapses multiple unfiltered views into a single view, since we only need a single
    * listener for them.
@@ -131,6 +131,13 @@ export class WriteTree {
     this.lastWriteId_ = writeId;
   }
 
+  /**
+   * @return {boolean} Whether there are no pending writes.
+   */
+  isEmpty(): boolean {
+    return this.allWrites_.length === 0;
+  }
+
   /**
    * @param {!number} writeId
    * @return {?WriteRecord}
@@ -0,0 +1,543 @@
+/**
+ * Copyright 2019 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { contains, forEach } from '@firebase/util';
+import { ImmutableTree } from '../util/ImmutableTree';
+import { nextPushId } from '../util/NextPushId';
+import { Path } from '../util/Path';
+import { logWrapper, warn } from '../util/util';
+import { Node } from '../snap/Node';
+import { nodeFromJSON } from '../snap/nodeFromJSON';
+import { PersistentStorage } from './storage';
+
+declare const window: any;
+
+const SCHEMA_VERSION = 2;
+const WRITES_STORE = 'writes';
+const SERVER_CACHE_STORE = 'serverCache';
+const OWNER_STORE = 'owner';
+const OWNER_KEY = 'owner';
+
+/** The time after which the lease of a session that stopped refreshing it expires. */
+const OWNER_LEASE_MAX_AGE_MS = 5000;
+const OWNER_LEASE_REFRESH_INTERVAL_MS = 4000;
+
+/** The default size of the stored server data above which the least recently used rows are removed. */
+const DEFAULT_CACHE_SIZE_BYTES = 10 * 1024 * 1024;
+
+/** The fraction of the cache size that the stored server data is reduced to when rows are removed. */
+const CACHE_SIZE_AFTER_PRUNING = 0.75;
+
+/**
+ * A set() or update() that wasn't acknowledged by the server yet.
+ */
+export interface PersistedWrite {
+  path: string;
+  isMerge: boolean;
+  /** The data as it's sent to the server, i.e. the children for a merge. */
+  data: any;
+}
+
+interface StoredWrite {
+  key: number;
+  write: PersistedWrite;
+}
+
+/** The session that may write to the database, as long as it keeps refreshing its lease. */
+interface Owner {
+  ownerId: string;
+  leaseTimestampMs: number;
+}
+
+/**
+ * Stores the pending writes and the data received from the server in IndexedDB, so that they survive a reload of the
+ * page.
+ *
+ * Server data is stored in rows of complete data, keyed by their path. Rows never overlap: data that is received for
+ * a location below an existing row is merged into that row. All rows are kept in memory, and changed rows are written
+ * back to IndexedDB asynchronously. Once the rows exceed the cache size, the least recently used rows are removed.
+ *
+ * Only one session (i.e. one tab) can use the database at a time. The session holds a lease, which it refreshes while
+ * it's open, and it stops persisting data if another session took over the lease after it expired.
+ */
+export class IndexedDbPersistence {
+  private log_ = logWrapper('persistence:');
+  private nextWriteKey_ = 1;
+  private writeKeys_: { [writeId: number]: number } = {};
+  private replayedWriteKey_: number | null = null;
+  private dirtyRows_: { [path: string]: boolean } = {};
+  private flushScheduled_ = false;
+  private rowSizes_: { [path: string]: number } = {};
+  private cacheSize_ = 0;
+  // The number of the last use of each row, to find the least recently used rows.
+  private rowUses_: { [path: string]: number } = {};
+  private lastRowUse_ = 0;
+  private leaseRefresher_: any = null;
+  private unloadHandler_: (() => void) | null = null;
+  private closed_ = false;
+
+  /**
+   * @return {boolean} Whether IndexedDB can be used in this environment.
+   */
+  static isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  /**
+   * Opens the IndexedDB database with the given name, and reads the data that a previous session stored in it. Fails
+   * if another session holds the lease of the database.
+   *
+   * @param {!string} name
+   * @param {number=} cacheSizeBytes The size of the stored server data above which the least recently used rows are
+   *   removed.
+   * @return {!Promise<!IndexedDbPersistence>}
+   */
+  static open(
+    name: string,
+    cacheSizeBytes: number = DEFAULT_CACHE_SIZE_BYTES
+  ): Promise<IndexedDbPersistence> {
+    const ownerId = nextPushId(new Date().getTime());
+    return new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(name, SCHEMA_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        [WRITES_STORE, SERVER_CACHE_STORE, OWNER_STORE].forEach(storeName => {
+          if (!db.objectStoreNames.contains(storeName)) {
+            db.createObjectStore(storeName);
+          }
+        });
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Don't block other tabs from upgrading or deleting the database.
+        db.onversionchange = () => db.close();
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+    }).then(db =>
+      IndexedDbPersistence.load_(db, ownerId, cacheSizeBytes).catch(error => {
+        db.close();
+        throw error;
+      })
+    );
+  }
+
+  /**
+   * Acquires the lease of the database, and reads the data that a previous session stored in it.
+   *
+   * @param {!IDBDatabase} db
+   * @param {!string} ownerId
+   * @param {!number} cacheSizeBytes
+   * @return {!Promise<!IndexedDbPersistence>}
+   * @private
+   */
+  private static load_(
+    db: IDBDatabase,
+    ownerId: string,
+    cacheSizeBytes: number
+  ): Promise<IndexedDbPersistence> {
+    return new Promise((resolve, reject) => {
+      const writes: StoredWrite[] = [];
+      let rows: ImmutableTree<Node> = ImmutableTree.Empty;
+      const rowSizes: { [path: string]: number } = {};
+
+      const txn = db.transaction(
+        [OWNER_STORE, WRITES_STORE, SERVER_CACHE_STORE],
+        'readwrite'
+      );
+      const ownerStore = txn.objectStore(OWNER_STORE);
+      const request = ownerStore.get(OWNER_KEY);
+      request.onsuccess = () => {
+        const owner: Owner | undefined = request.result;
+        if (owner && !isLeaseExpired(owner)) {
+          txn.abort();
+          reject(
+            new Error(
+              'Persistence is already enabled for this database in another ' +
+                'tab. It can only be enabled in one tab at a time.'
+            )
+          );
+          return;
+        }
+        if (owner) {
+          PersistentStorage.remove(zombieKey(owner.ownerId));
+        }
+        ownerStore.put(
+          { ownerId, leaseTimestampMs: new Date().getTime() },
+          OWNER_KEY
+        );
+        // Cursors iterate in key order, so the writes are read in the order in which they were made.
+        iterate(txn.objectStore(WRITES_STORE), (key, write) => {
+          writes.push({ key: key as number, write });
+        });
+        iterate(txn.objectStore(SERVER_CACHE_STORE), (key, data) => {
+          rows = rows.set(new Path(key as string), nodeFromJSON(data));
+          rowSizes[key as string] = JSON.stringify(data).length;
+        });
+      };
+      txn.oncomplete = () => {
+        resolve(
+          new IndexedDbPersistence(
+            db,
+            ownerId,
+            cacheSizeBytes,
+            writes,
+            rows,
+            rowSizes
+          )
+        );
+      };
+      txn.onerror = () => reject(txn.error);
+    });
+  }
+
+  /**
+   * @param {!IDBDatabase} db_
+   * @param {!string} ownerId_ The ID of this session, under which it holds the lease.
+   * @param {!number} cacheSizeBytes_
+   * @param {!Array<!StoredWrite>} restoredWrites_ The writes of previous sessions, in the order in which they
+   *   were made.
+   * @param {!ImmutableTree<!Node>} rows_ The rows of server data, keyed by their path.
+   * @param {!Object<string, number>} rowSizes The size of each row, keyed by its path.
+   */
+  private constructor(
+    private db_: IDBDatabase,
+    private ownerId_: string,
+    private cacheSizeBytes_: number,
+    private restoredWrites_: StoredWrite[],
+    private rows_: ImmutableTree<Node>,
+    rowSizes: { [path: string]: number }
+  ) {
+    restoredWrites_.forEach(stored => {
+      this.nextWriteKey_ = Math.max(this.nextWriteKey_, stored.key + 1);
+    });
+    forEach(rowSizes, (pathString: string, size: number) => {
+      this.rowSizes_[pathString] = size;
+      this.rowUses_[pathString] = 0;
+      this.cacheSize_ += size;
+    });
+
+    this.leaseRefresher_ = setInterval(() => {
+      this.write_(OWNER_STORE, store => {
+        store.put(
+          { ownerId: this.ownerId_, leaseTimestampMs: new Date().getTime() },
+          OWNER_KEY
+        );
+      });
+    }, OWNER_LEASE_REFRESH_INTERVAL_MS);
+
+    if (
+      typeof window !== 'undefined' &&
+      typeof window.addEventListener === 'function'
+    ) {
+      // The database may not be written while the page unloads, so the next session is told via local storage that
+      // the lease can be taken over right away.
+      this.unloadHandler_ = () => {
+        PersistentStorage.set(zombieKey(this.ownerId_), true);
+        this.close();
+      };
+      window.addEventListener('unload', this.unloadHandler_);
+    }
+  }
+
+  /**
+   * Writes the remaining changes, releases the lease and closes the database. Nothing is persisted afterwards.
+   */
+  close() {
+    if (this.closed_) {
+      return;
+    }
+    if (this.flushScheduled_) {
+      this.flush_();
+    }
+    this.write_(OWNER_STORE, store => {
+      store.delete(OWNER_KEY);
+    });
+    this.stop_();
+  }
+
+  /**
+   * Replays the writes of previous sessions. The callback is expected to redo each write, which saves it under its
+   * new write id.
+   *
+   * @param {function(!PersistedWrite)} replay
+   */
+  replayUserWrites(replay: (write: PersistedWrite) => void) {
+    const writes = this.restoredWrites_;
+    this.restoredWrites_ = [];
+    writes.forEach(stored => {
+      this.log_('Replaying write', stored.write);
+      // The write is already stored, so it keeps its place in the queue.
+      this.replayedWriteKey_ = stored.key;
+      try {
+        replay(stored.write);
+      } finally {
+        this.replayedWriteKey_ = null;
+      }
+    });
+  }
+
+  /**
+   * @param {!number} writeId
+   * @param {!PersistedWrite} write
+   */
+  saveUserWrite(writeId: number, write: PersistedWrite) {
+    if (this.replayedWriteKey_ !== null) {
+      this.writeKeys_[writeId] = this.replayedWriteKey_;
+      return;
+    }
+    const key = this.nextWriteKey_++;
+    this.writeKeys_[writeId] = key;
+    this.write_(WRITES_STORE, store => {
+      store.put(write, key);
+    });
+  }
+
+  /**
+   * Removes a write once the server acknowledged or rejected it.
+   *
+   * @param {!number} writeId
+   */
+  removeUserWrite(writeId: number) {
+    if (contains(this.writeKeys_, writeId)) {
+      const key = this.writeKeys_[writeId];
+      delete this.writeKeys_[writeId];
+      this.write_(WRITES_STORE, store => {
+        store.delete(key);
+      });
+    }
+  }
+
+  /**
+   * @param {!Path} path
+   * @return {?Node} The stored server data at the path, or null if no complete data is stored for it.
+   */
+  getServerCache(path: Path): Node | null {
+    const row = this.rows_.findRootMostValueAndPath(path);
+    if (!row) {
+      return null;
+    }
+    this.rowUses_[row.path.toString()] = ++this.lastRowUse_;
+    return row.value.getChild(Path.relativePath(row.path, path));
+  }
+
+  /**
+   * Stores the complete server data at the path.
+   *
+   * @param {!Path} path
+   * @param {!Node} node
+   */
+  updateServerCache(path: Path, node: Node) {
+    const row = this.rows_.findRootMostValueAndPath(path);
+    if (row) {
+      const relativePath = Path.relativePath(row.path, path);
+      this.rows_ = this.rows_.set(
+        row.path,
+        row.value.updateChild(relativePath, node)
+      );
+      this.dirtyRows_[row.path.toString()] = true;
+      this.rowUses_[row.path.toString()] = ++this.lastRowUse_;
+    } else {
+      // The new row replaces the rows below it.
+      this.rows_.subtree(path).foreach(relativePath => {
+        this.dirtyRows_[path.child(relativePath).toString()] = true;
+      });
+      this.rows_ = this.rows_.setTree(path, new ImmutableTree(node));
+      this.dirtyRows_[path.toString()] = true;
+      this.rowUses_[path.toString()] = ++this.lastRowUse_;
+    }
+    this.scheduleFlush_();
+  }
+
+  /**
+   * Stores the complete server data of the changed children of the path.
+   *
+   * @param {!Path} path
+   * @param {!Object.<string, !Node>} changedChildren
+   */
+  updateServerCacheChildren(
+    path: Path,
+    changedChildren: { [k: string]: Node }
+  ) {
+    forEach(changedChildren, (childPath: string, node: Node) => {
+      this.updateServerCache(path.child(childPath), node);
+    });
+  }
+
+  private scheduleFlush_() {
+    if (!this.flushScheduled_) {
+      this.flushScheduled_ = true;
+      setTimeout(() => this.flush_(), 0);
+    }
+  }
+
+  private flush_() {
+    this.flushScheduled_ = false;
+    const dirtyRows = this.dirtyRows_;
+    this.dirtyRows_ = {};
+    this.write_(SERVER_CACHE_STORE, store => {
+      forEach(dirtyRows, (pathString: string) => {
+        const row = this.rows_.get(new Path(pathString));
+        if (row) {
+          const data = row.val(/*export=*/ true);
+          store.put(data, pathString);
+          this.setRowSize_(pathString, JSON.stringify(data).length);
+        } else {
+          store.delete(pathString);
+          this.setRowSize_(pathString, null);
+        }
+      });
+      if (this.cacheSize_ > this.cacheSizeBytes_) {
+        this.prune_(store);
+      }
+    });
+  }
+
+  /**
+   * Removes the least recently used rows until the stored server data is reduced to a fraction of the cache size.
+   *
+   * @param {!IDBObjectStore} store The server cache store.
+   * @private
+   */
+  private prune_(store: IDBObjectStore) {
+    const pathStrings = Object.keys(this.rowSizes_).sort(
+      (a, b) => this.rowUses_[a] - this.rowUses_[b]
+    );
+    const targetSize = this.cacheSizeBytes_ * CACHE_SIZE_AFTER_PRUNING;
+    for (
+      let i = 0;
+      i < pathStrings.length && this.cacheSize_ > targetSize;
+      i++
+    ) {
+      this.log_('Removing least recently used server data', pathStrings[i]);
+      this.rows_ = this.rows_.remove(new Path(pathStrings[i]));
+      store.delete(pathStrings[i]);
+      this.setRowSize_(pathStrings[i], null);
+    }
+  }
+
+  /**
+   * @param {!string} pathString
+   * @param {?number} size The size of the stored row, or null if the row was removed.
+   * @private
+   */
+  private setRowSize_(pathString: string, size: number | null) {
+    this.cacheSize_ -= this.rowSizes_[pathString] || 0;
+    if (size === null) {
+      delete this.rowSizes_[pathString];
+      delete this.rowUses_[pathString];
+    } else {
+      this.rowSizes_[pathString] = size;
+      this.cacheSize_ += size;
+    }
+  }
+
+  /**
+   * Changes a store, if this session still holds the lease of the database. The lease is checked in the same
+   * transaction, so that a session that lost its lease never overwrites the data of the session that took it over.
+   *
+   * @param {!string} storeName
+   * @param {function(!IDBObjectStore)} fn Performs the changes to the store.
+   * @private
+   */
+  private write_(storeName: string, fn: (store: IDBObjectStore) => void) {
+    if (this.closed_) {
+      return;
+    }
+    let txn: IDBTransaction;
+    try {
+      txn = this.db_.transaction(
+        storeName === OWNER_STORE ? [OWNER_STORE] : [OWNER_STORE, storeName],
+        'readwrite'
+      );
+    } catch (e) {
+      // The database was closed.
+      warn('Failed to persist data to IndexedDB: ' + e);
+      return;
+    }
+    txn.onerror = () => {
+      warn('Failed to persist data to IndexedDB: ' + txn.error);
+    };
+    const request = txn.objectStore(OWNER_STORE).get(OWNER_KEY);
+    request.onsuccess = () => {
+      const owner: Owner | undefined = request.result;
+      if (owner && owner.ownerId === this.ownerId_) {
+        fn(txn.objectStore(storeName));
+      } else if (!this.closed_) {
+        warn(
+          'Persistence was enabled in another tab, which took over the ' +
+            'database. Data is no longer persisted in this tab.'
+        );
+        this.stop_();
+      }
+    };
+  }
+
+  /**
+   * Stops refreshing the lease and closes the database, without releasing the lease.
+   *
+   * @private
+   */
+  private stop_() {
+    this.closed_ = true;
+    clearInterval(this.leaseRefresher_);
+    if (this.unloadHandler_) {
+      window.removeEventListener('unload', this.unloadHandler_);
+      this.unloadHandler_ = null;
+    }
+    // The database is only closed once the pending transactions completed.
+    this.db_.close();
+  }
+}
+
+/**
+ * @param {!Owner} owner
+ * @return {boolean} Whether the lease of the owner expired, or the owner's page was unloaded.
+ */
+function isLeaseExpired(owner: Owner): boolean {
+  return (
+    new Date().getTime() - owner.leaseTimestampMs > OWNER_LEASE_MAX_AGE_MS ||
+    !!PersistentStorage.get(zombieKey(owner.ownerId))
+  );
+}
+
+/**
+ * @param {!string} ownerId
+ * @return {!string} The key in local storage that marks the session as unloaded.
+ */
+function zombieKey(ownerId: string): string {
+  return 'database-persistence-zombie:' + ownerId;
+}
+
+/**
+ * Calls the callback for each entry of the object store, in key order.
+ *
+ * @param {!IDBObjectStore} store
+ * @param {function(IDBValidKey, *)} callback
+ */
+function iterate(
+  store: IDBObjectStore,
+  callback: (key: IDBValidKey, value: any) => void
+) {
+  const request = store.openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (cursor) {
+      callback(cursor.key, cursor.value);
+      cursor.continue();
+    }
+  };
+}
@@ -14,7 +14,7 @@
  * limitations under the License.
  */
 
-import { assert } from '@firebase/util';
+import { assert, assertionError } from '@firebase/util';
 import { Path } from './Path';
 import { SparseSnapshotTree } from '../SparseSnapshotTree';
 import { LeafNode } from '../snap/LeafNode';
@@ -22,6 +22,7 @@ import { nodeFromJSON } from '../snap/nodeFromJSON';
 import { PRIORITY_INDEX } from '../snap/indexes/PriorityIndex';
 import { Node } from '../snap/Node';
 import { ChildrenNode } from '../snap/ChildrenNode';
+import { SyncTree } from '../SyncTree';
 
 /**
  * Generate placeholders for deferred values.
@@ -42,37 +43,69 @@ export const generateWithValues = function(
  * Value to use when firing local events. When writing server values, fire
  * local events with an approximate value, otherwise return value as-is.
  * @param {(Object|string|number|boolean)} value
+ * @param {!Node} existing The current value at the location of the server
+ *   value, which increments are applied to.
  * @param {!Object} serverValues
  * @return {!(string|number|boolean)}
  */
 export const resolveDeferredValue = function(
   value: { [k: string]: any } | string | number | boolean,
+  existing: Node,
   serverValues: { [k: string]: any }
 ): string | number | boolean {
   if (!value || typeof value !== 'object') {
     return value as string | number | boolean;
+  }
+  assert('.sv' in value, 'Unexpected leaf node or priority contents');
+  const op = value['.sv'];
+  if (typeof op === 'string') {
+    return serverValues[op];
+  } else if (op && typeof op === 'object' && 'increment' in op) {
+    return resolveIncrement(op['increment'], existing);
   } else {
-    assert('.sv' in value, 'Unexpected leaf node or priority contents');
-    return serverValues[value['.sv']];
+    throw assertionError('Unexpected server value: ' + JSON.stringify(value));
+  }
+};
+
+/**
+ * Applies an increment to the current value. The server treats any value that
+ * is not a number as 0, so the increment replaces it.
+ * @param {number} delta
+ * @param {!Node} existing
+ * @return {number}
+ */
+const resolveIncrement = function(delta: number, existing: Node): number {
+  assert(typeof delta === 'number', 'Unexpected increment value: ' + delta);
+  if (existing.isLeafNode()) {
+    const existingValue = (existing as LeafNode).getValue();
+    if (typeof existingValue === 'number') {
+      return existingValue + delta;
+    }
   }
+  return delta;
 };
 
 /**
  * Recursively replace all deferred values and priorities in the tree with the
- * specified generated replacement values.
+ * specified generated replacement values. Increments are applied to the
+ * current values in the sync tree, including any pending writes.
  * @param {!SparseSnapshotTree} tree
+ * @param {!SyncTree} syncTree
  * @param {!Object} serverValues
  * @return {!SparseSnapshotTree}
  */
 export const resolveDeferredValueTree = function(
   tree: SparseSnapshotTree,
+  syncTree: SyncTree,
   serverValues: Object
 ): SparseSnapshotTree {
   const resolvedTree = new SparseSnapshotTree();
   tree.forEachTree(new Path(''), function(path, node) {
+    const existing =
+      syncTree.calcCompleteEventCache(path) || ChildrenNode.EMPTY_NODE;
     resolvedTree.remember(
       path,
-      resolveDeferredValueSnapshot(node, serverValues)
+      resolveDeferredValueSnapshot(node, existing, serverValues)
     );
   });
   return resolvedTree;
@@ -83,11 +116,13 @@ export const resolveDeferredValueTree = function(
  * specified generated replacement values.  If there are no server values in the node,
  * it'll be returned as-is.
  * @param {!Node} node
+ * @param {!Node} existing The current value at the location of the node.
  * @param {!Object} serverValues
  * @return {!Node}
  */
 export const resolveDeferredValueSnapshot = function(
   node: Node,
+  existing: Node,
   serverValues: Object
 ): Node {
   const rawPri = node.getPriority().val() as
@@ -96,12 +131,20 @@ export const resolveDeferredValueSnapshot = function(
     | null
     | number
     | string;
-  const priority = resolveDeferredValue(rawPri, serverValues);
+  const priority = resolveDeferredValue(
+    rawPri,
+    existing.getPriority(),
+    serverValues
+  );
   let newNode: Node;
 
   if (node.isLeafNode()) {
     const leafNode = node as LeafNode;
-    const value = resolveDeferredValue(leafNode.getValue(), serverValues);
+    const value = resolveDeferredValue(
+      leafNode.getValue(),
+      existing,
+      serverValues
+    );
     if (
       value !== leafNode.getValue() ||
       priority !== leafNode.getPriority().val()
@@ -119,6 +162,7 @@ export const resolveDeferredValueSnapshot = function(
     childrenNode.forEachChild(PRIORITY_INDEX, function(childName, childNode) {
       const newChildNode = resolveDeferredValueSnapshot(
         childNode,
+        existing.getImmediateChild(childName),
         serverValues
       );
       if (newChildNode !== childNode) {
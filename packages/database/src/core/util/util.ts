@@ -532,6 +532,8 @@ export const errorForServerCode = function(code: string, query: Query): Error {
     reason = "Client doesn't have permission to access the desired data.";
   } else if (code == 'unavailable') {
     reason = 'The service is unavailable';
+  } else if (code == 'offline') {
+    reason = 'The client is offline and no cached data is available.';
   }
 
   const error = new Error(
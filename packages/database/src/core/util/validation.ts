@@ -78,6 +78,28 @@ export const isValidRootPathString = function(pathString: string): boolean {
   return isValidPathString(pathString);
 };
 
+/**
+ * True for the contents of a '.sv' placeholder: either the name of a server
+ * value such as 'timestamp', or an increment by a finite number.
+ * @param {*} serverValue
+ * @return {boolean}
+ */
+export const isValidServerValue = function(serverValue: any): boolean {
+  if (typeof serverValue === 'string') {
+    return true;
+  }
+  if (!serverValue || typeof serverValue !== 'object') {
+    return false;
+  }
+  const keys = Object.keys(serverValue);
+  return (
+    keys.length === 1 &&
+    keys[0] === 'increment' &&
+    typeof serverValue['increment'] === 'number' &&
+    !isInvalidJSONNumber(serverValue['increment'])
+  );
+};
+
 /**
  * @param {*} priority
  * @return {boolean}
@@ -195,6 +217,16 @@ export const validateFirebaseData = function(
       path.pop();
     });
 
+    if (contains(data, '.sv') && !isValidServerValue(data['.sv'])) {
+      throw new Error(
+        errorPrefix +
+          ' contains an invalid server value ' +
+          path.toErrorString() +
+          '.  Server values must be ServerValue.TIMESTAMP or the result of ' +
+          'ServerValue.increment() with a finite number.'
+      );
+    }
+
     if (hasDotValue && hasActualChild) {
       throw new Error(
         errorPrefix +
@@ -17,7 +17,7 @@
 import { DataSnapshot } from '../../api/DataSnapshot';
 import { DataEvent, CancelEvent, Event } from './Event';
 import { contains, getCount, getAnyKey, every } from '@firebase/util';
-import { assert } from '@firebase/util';
+import { assert, assertionError } from '@firebase/util';
 import { Path } from '../util/Path';
 import { Change } from './Change';
 import { Query } from '../../api/Query';
@@ -301,3 +301,60 @@ export class ChildEventRegistration implements EventRegistration {
     return this.callbacks_ !== null;
   }
 }
+
+/**
+ * A registration without callbacks, used by keepSynced() to keep a query's listen active while the user has no
+ * callbacks for it. It only matches other keepSynced() registrations of the same query identifier, so it survives
+ * off() and is counted separately for each query.
+ */
+export class KeepSyncedEventRegistration implements EventRegistration {
+  /**
+   * @param {!string} queryIdentifier_
+   */
+  constructor(private queryIdentifier_: string) {}
+
+  /**
+   * @inheritDoc
+   */
+  respondsTo(eventType: string): boolean {
+    return false;
+  }
+
+  /**
+   * @inheritDoc
+   */
+  createEvent(change: Change, query: Query): Event {
+    throw assertionError('KeepSyncedEventRegistration does not raise events.');
+  }
+
+  /**
+   * @inheritDoc
+   */
+  getEventRunner(eventData: Event): () => void {
+    throw assertionError('KeepSyncedEventRegistration does not raise events.');
+  }
+
+  /**
+   * @inheritDoc
+   */
+  createCancelEvent(error: Error, path: Path): CancelEvent | null {
+    return null;
+  }
+
+  /**
+   * @inheritDoc
+   */
+  matches(other: EventRegistration): boolean {
+    return (
+      other instanceof KeepSyncedEventRegistration &&
+      other.queryIdentifier_ === this.queryIdentifier_
+    );
+  }
+
+  /**
+   * @inheritDoc
+   */
+  hasAnyCallback(): boolean {
+    return true;
+  }
+}
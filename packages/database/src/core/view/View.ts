@@ -25,7 +25,10 @@ import { Operation, OperationType } from '../operation/Operation';
 import { Change } from './Change';
 import { PRIORITY_INDEX } from '../snap/indexes/PriorityIndex';
 import { Query } from '../../api/Query';
-import { EventRegistration } from './EventRegistration';
+import {
+  EventRegistration,
+  KeepSyncedEventRegistration
+} from './EventRegistration';
 import { Node } from '../snap/Node';
 import { Path } from '../util/Path';
 import { WriteTreeRef } from '../WriteTree';
@@ -150,7 +153,8 @@ export class View {
   }
 
   /**
-   * @param {?EventRegistration} eventRegistration If null, remove all callbacks.
+   * @param {?EventRegistration} eventRegistration If null, remove all callbacks, except for keepSynced() unless the
+   *   registrations are canceled.
    * @param {Error=} cancelError If a cancelError is provided, appropriate cancel events will be returned.
    * @return {!Array.<!Event>} Cancel events, if cancelError was provided.
    */
@@ -187,8 +191,13 @@ export class View {
         }
       }
       this.eventRegistrations_ = remaining;
-    } else {
+    } else if (cancelError) {
       this.eventRegistrations_ = [];
+    } else {
+      // Removing all callbacks doesn't undo keepSynced().
+      this.eventRegistrations_ = this.eventRegistrations_.filter(
+        registration => registration instanceof KeepSyncedEventRegistration
+      );
     }
     return cancelEvents;
   }
@@ -0,0 +1,304 @@
+/**
+ * Copyright 2019 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+import firebase from '@firebase/app';
+import { FirebaseApp } from '@firebase/app-types';
+import { Database } from '../../src/api/Database';
+import { Reference } from '../../src/api/Reference';
+import { nodeFromJSON } from '../../src/core/snap/nodeFromJSON';
+import {
+  IndexedDbPersistence,
+  PersistedWrite
+} from '../../src/core/storage/IndexedDbPersistence';
+import { Path } from '../../src/core/util/Path';
+import {
+  TEST_PROJECT,
+  getFreshRepo,
+  getRandomNode,
+  patchFakeAuthFunctions,
+  pause
+} from '../helpers/util';
+
+describe('IndexedDbPersistence', function() {
+  let dbName: string;
+  let dbCount = 0;
+
+  beforeEach(function() {
+    dbName = 'firebase-database-persistence-test-' + dbCount++;
+  });
+
+  afterEach(function(done) {
+    // Open connections close themselves once the database is deleted.
+    const request = indexedDB.deleteDatabase(dbName);
+    request.onsuccess = () => done();
+    request.onerror = () => done(request.error);
+  });
+
+  function restoredWrites(persistence: IndexedDbPersistence): PersistedWrite[] {
+    const writes: PersistedWrite[] = [];
+    persistence.replayUserWrites(write => writes.push(write));
+    return writes;
+  }
+
+  it('restores pending writes in order', async function() {
+    const first = await IndexedDbPersistence.open(dbName);
+    const a = { path: '/a', isMerge: false, data: 1 };
+    const b = { path: '/b', isMerge: true, data: { c: 2 } };
+    const c = { path: '/c', isMerge: false, data: null };
+    first.saveUserWrite(1, a);
+    first.saveUserWrite(2, b);
+    first.saveUserWrite(3, c);
+    first.removeUserWrite(1);
+    first.close();
+
+    const second = await IndexedDbPersistence.open(dbName);
+    expect(restoredWrites(second)).to.deep.equal([b, c]);
+    second.close();
+  });
+
+  it('keeps replayed writes until they are removed', async function() {
+    const first = await IndexedDbPersistence.open(dbName);
+    const a = { path: '/a', isMerge: false, data: 1 };
+    const b = { path: '/b', isMerge: false, data: 2 };
+    first.saveUserWrite(1, a);
+    first.saveUserWrite(2, b);
+    first.close();
+
+    // Replay the writes under new write ids, then acknowledge the first one.
+    const second = await IndexedDbPersistence.open(dbName);
+    let writeId = 10;
+    second.replayUserWrites(write => second.saveUserWrite(writeId++, write));
+    second.removeUserWrite(10);
+    const c = { path: '/c', isMerge: false, data: 3 };
+    second.saveUserWrite(writeId++, c);
+    second.close();
+
+    const third = await IndexedDbPersistence.open(dbName);
+    expect(restoredWrites(third)).to.deep.equal([b, c]);
+    third.close();
+  });
+
+  it('restores server data', async function() {
+    const first = await IndexedDbPersistence.open(dbName);
+    first.updateServerCache(
+      new Path('/a'),
+      nodeFromJSON({ b: 1, c: { '.value': 2, '.priority': 'p' } })
+    );
+    first.updateServerCache(new Path('/a/b'), nodeFromJSON(3));
+    first.updateServerCacheChildren(new Path('/x'), {
+      y: nodeFromJSON('y'),
+      'z/0': nodeFromJSON(0)
+    });
+    first.close();
+
+    const second = await IndexedDbPersistence.open(dbName);
+    expect(second.getServerCache(new Path('/a')).val(true)).to.deep.equal({
+      b: 3,
+      c: { '.value': 2, '.priority': 'p' }
+    });
+    expect(second.getServerCache(new Path('/a/c')).val()).to.equal(2);
+    expect(second.getServerCache(new Path('/x/y')).val()).to.equal('y');
+    expect(second.getServerCache(new Path('/x/z/0')).val()).to.equal(0);
+    second.close();
+  });
+
+  it('only returns complete server data', async function() {
+    const persistence = await IndexedDbPersistence.open(dbName);
+    persistence.updateServerCache(new Path('/a/b'), nodeFromJSON(1));
+    expect(persistence.getServerCache(new Path('/a'))).to.be.null;
+    expect(persistence.getServerCache(new Path('/a/b/c')).val()).to.be.null;
+    expect(persistence.getServerCache(new Path('/b'))).to.be.null;
+    persistence.close();
+  });
+
+  it('replaces server data below new data', async function() {
+    const first = await IndexedDbPersistence.open(dbName);
+    first.updateServerCache(new Path('/a/b'), nodeFromJSON(1));
+    first.updateServerCache(new Path('/a/c'), nodeFromJSON(2));
+    first.updateServerCache(new Path('/a'), nodeFromJSON({ d: 3 }));
+    first.close();
+
+    const second = await IndexedDbPersistence.open(dbName);
+    expect(second.getServerCache(new Path('/a')).val()).to.deep.equal({
+      d: 3
+    });
+    expect(second.getServerCache(new Path('/a/b')).val()).to.be.null;
+    second.close();
+  });
+
+  it('removes the least recently used server data', async function() {
+    // Each row takes up 102 bytes, so that the third row exceeds the cache.
+    const value = new Array(101).join('x');
+    const first = await IndexedDbPersistence.open(dbName, 300);
+    first.updateServerCache(new Path('/a'), nodeFromJSON(value));
+    first.updateServerCache(new Path('/b'), nodeFromJSON(value));
+    first.getServerCache(new Path('/a'));
+    first.updateServerCache(new Path('/c'), nodeFromJSON(value));
+    await pause(10);
+    expect(first.getServerCache(new Path('/b'))).to.be.null;
+    first.close();
+
+    const second = await IndexedDbPersistence.open(dbName, 300);
+    expect(second.getServerCache(new Path('/a')).val()).to.equal(value);
+    expect(second.getServerCache(new Path('/b'))).to.be.null;
+    expect(second.getServerCache(new Path('/c')).val()).to.equal(value);
+    second.close();
+  });
+
+  it('can only be opened by one session at a time', async function() {
+    const first = await IndexedDbPersistence.open(dbName);
+    first.saveUserWrite(1, { path: '/a', isMerge: false, data: 1 });
+    try {
+      await IndexedDbPersistence.open(dbName);
+      expect.fail('open() should have failed');
+    } catch (err) {
+      expect(err.message).to.contain('already enabled');
+    }
+
+    first.close();
+    const second = await IndexedDbPersistence.open(dbName);
+    expect(restoredWrites(second)).to.have.length(1);
+    second.close();
+  });
+});
+
+describe('Database.enablePersistence()', function() {
+  it('fails once data was read.', function() {
+    const ref = getFreshRepo((getRandomNode() as Reference).root.toString());
+    ref.on('value', () => {});
+    expect(() => ref.database.enablePersistence()).to.throw(
+      /must be called before any data is read or written/
+    );
+    ref.off();
+  });
+
+  it('can only be called once.', function() {
+    const ref = getFreshRepo((getRandomNode() as Reference).root.toString());
+    const enabled = ref.database.enablePersistence();
+    expect(() => ref.database.enablePersistence()).to.throw(
+      /was already called/
+    );
+    return enabled;
+  });
+
+  it('validates its arguments.', function() {
+    const ref = getFreshRepo((getRandomNode() as Reference).root.toString());
+    expect(() => ref.database.enablePersistence('foo')).to.throw(
+      /database.enablePersistence failed/
+    );
+  });
+});
+
+describe('Repo with persistence', function() {
+  let appName: string;
+  let appCount = 0;
+  let app: FirebaseApp | null = null;
+  let dbName: string;
+
+  beforeEach(function() {
+    appName = 'PERSISTENCE_TEST_' + appCount++;
+  });
+
+  afterEach(function(done) {
+    const deleted = app ? app.delete() : Promise.resolve();
+    app = null;
+    deleted.then(() => {
+      const request = indexedDB.deleteDatabase(dbName);
+      request.onsuccess = () => done();
+      request.onerror = () => done(request.error);
+    }, done);
+  });
+
+  /**
+   * Starts a new session of the same app. The database is offline, so that
+   * writes stay pending.
+   */
+  async function restartApp(): Promise<Database> {
+    if (app) {
+      await app.delete();
+    }
+    app = firebase.initializeApp(
+      { databaseURL: TEST_PROJECT.databaseURL },
+      appName
+    );
+    patchFakeAuthFunctions(app);
+    const database = (app as any).database() as Database;
+    database.goOffline();
+    dbName =
+      'firebase:database:' +
+      appName +
+      ':' +
+      (database as any).repo_.repoInfo_.toURLString();
+    return database;
+  }
+
+  function getValue(ref: Reference): Promise<any> {
+    return ref.once('value').then(snap => snap.val());
+  }
+
+  it('replays pending writes after a cold start', async function() {
+    let database = await restartApp();
+    await database.enablePersistence();
+    database.ref('a').set(1);
+    database.ref('a').set(2);
+    database.ref('b').update({ c: 3 });
+    await pause(10);
+
+    database = await restartApp();
+    await database.enablePersistence();
+    expect(await getValue(database.ref('a'))).to.equal(2);
+    expect(await getValue(database.ref('b/c'))).to.equal(3);
+  });
+
+  it('raises events from the persisted server cache', async function() {
+    const database = await restartApp();
+    const previousSession = await IndexedDbPersistence.open(dbName);
+    previousSession.updateServerCache(
+      new Path('/a'),
+      nodeFromJSON({ b: 1, c: 2 })
+    );
+    previousSession.close();
+
+    await database.enablePersistence();
+    expect(await getValue(database.ref('a'))).to.deep.equal({ b: 1, c: 2 });
+    expect(await getValue(database.ref('a/c'))).to.equal(2);
+  });
+
+  it('fails writes that are made before persistence is enabled', async function() {
+    let database = await restartApp();
+    await database.enablePersistence();
+    database.ref('a').set(1);
+    await pause(10);
+
+    database = await restartApp();
+    const enabled = database.enablePersistence();
+    const ref = database.ref('a');
+    expect(() => ref.set(2)).to.throw(/before the promise returned by/);
+    expect(() => ref.update({ b: 2 })).to.throw(/before the promise returned/);
+    expect(() => ref.transaction(() => 2)).to.throw(
+      /before the promise returned/
+    );
+    expect(() => ref.onDisconnect().set(2)).to.throw(
+      /before the promise returned/
+    );
+    await enabled;
+
+    expect(await getValue(ref)).to.equal(1);
+    ref.set(2);
+    expect(await getValue(ref)).to.equal(2);
+  });
+});
@@ -199,4 +199,25 @@ describe('Database Tests', function() {
       const ref = (db as any).refFromURL();
     }).to.throw(/Expects at least 1/);
   });
+
+  it('useEmulator() validates arguments', function() {
+    const db = (firebase as any).database();
+    expect(function() {
+      db.useEmulator('localhost');
+    }).to.throw(/Expects at least 2/);
+    expect(function() {
+      db.useEmulator('localhost', 'foo');
+    }).to.throw(/must be a positive integer/);
+    expect(function() {
+      db.useEmulator(9000, 9000);
+    }).to.throw(/must be a valid string/);
+  });
+
+  it('useEmulator() fails after the database was used', function() {
+    const db = (firebase as any).database();
+    db.ref();
+    expect(function() {
+      db.useEmulator('localhost', 9000);
+    }).to.throw(/must be called before any other operation/);
+  });
 });
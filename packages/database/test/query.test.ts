@@ -3253,6 +3253,151 @@ describe('Query Tests', function() {
     });
   });
 
+  it('get() reads data from the server.', async function() {
+    const [reader, writer] = getRandomNode(2) as Reference[];
+    await writer.set({ a: 1, b: 2, c: 3 });
+
+    const snap = await reader.get();
+    expect(snap.val()).to.deep.equal({ a: 1, b: 2, c: 3 });
+
+    const limited = await reader.limitToLast(2).get();
+    expect(limited.val()).to.deep.equal({ b: 2, c: 3 });
+  });
+
+  it('get() of a missing location returns null.', async function() {
+    const ref = getRandomNode() as Reference;
+    const snap = await ref.get();
+    expect(snap.exists()).to.be.false;
+  });
+
+  it('get() reads cached data while offline.', async function() {
+    const [reader, writer] = getRandomNode(2) as Reference[];
+    await writer.set({ a: 1, b: 2, c: 3 });
+
+    const ea = EventAccumulatorFactory.waitsForCount(1);
+    reader.on('value', () => ea.addEvent());
+    await ea.promise;
+
+    reader.database.goOffline();
+    try {
+      const snap = await reader.child('b').get();
+      expect(snap.val()).to.equal(2);
+
+      const limited = await reader.limitToFirst(1).get();
+      expect(limited.val()).to.deep.equal({ a: 1 });
+    } finally {
+      reader.off();
+      reader.database.goOnline();
+    }
+  });
+
+  it('get() fails while offline without cached data.', async function() {
+    const ref = getRandomNode() as Reference;
+    ref.database.goOffline();
+    try {
+      await ref.get();
+      expect.fail('get() should have failed');
+    } catch (err) {
+      expect(err.code).to.equal('OFFLINE');
+      expect(err.message).to.contain('The client is offline');
+    } finally {
+      ref.database.goOnline();
+    }
+  });
+
+  it('get() fails if the connection drops before the server responds.', async function() {
+    const ref = getRandomNode() as Reference;
+    // Once the write is acknowledged, the client is connected and sends the
+    // get right away.
+    await ref.set({ a: 1 });
+
+    const getPromise = ref.get();
+    ref.database.goOffline();
+    try {
+      await getPromise;
+      expect.fail('get() should have failed');
+    } catch (err) {
+      expect(err.code).to.equal('OFFLINE');
+    } finally {
+      ref.database.goOnline();
+    }
+  });
+
+  it('get() validates its arguments.', function() {
+    const ref = getRandomNode() as Reference;
+    expect(() => (ref as any).get('value')).to.throw(/Query.get failed/);
+  });
+
+  it('keepSynced() keeps data cached after off().', async function() {
+    const ref = getRandomNode() as Reference;
+    await ref.set({ a: 1 });
+
+    ref.keepSynced(true);
+    await ref.once('value');
+    ref.on('value', () => {});
+    ref.off();
+
+    ref.database.goOffline();
+    try {
+      const snap = await ref.get();
+      expect(snap.val()).to.deep.equal({ a: 1 });
+    } finally {
+      ref.keepSynced(false);
+      ref.database.goOnline();
+    }
+  });
+
+  it('keepSynced() is ref-counted.', async function() {
+    const ref = getRandomNode() as Reference;
+    await ref.set('value');
+
+    ref.keepSynced(true);
+    ref.keepSynced(true);
+    await ref.once('value');
+    ref.keepSynced(false);
+
+    ref.database.goOffline();
+    try {
+      expect((await ref.get()).val()).to.equal('value');
+      ref.keepSynced(false);
+      await ref
+        .get()
+        .then(
+          () => expect.fail('get() should have failed'),
+          err => expect(err.code).to.equal('OFFLINE')
+        );
+    } finally {
+      ref.database.goOnline();
+    }
+  });
+
+  it('keepSynced() is counted per query.', async function() {
+    const ref = getRandomNode() as Reference;
+    await ref.set({ a: 1, b: 2 });
+
+    ref.keepSynced(true);
+    await ref.once('value');
+    ref.limitToLast(1).keepSynced(false);
+    ref.orderByKey().keepSynced(false);
+
+    ref.database.goOffline();
+    try {
+      expect((await ref.get()).val()).to.deep.equal({ a: 1, b: 2 });
+    } finally {
+      ref.keepSynced(false);
+      ref.database.goOnline();
+    }
+  });
+
+  it('keepSynced() validates its arguments.', function() {
+    const ref = getRandomNode() as Reference;
+    expect(() => (ref as any).keepSynced()).to.throw(/Query.keepSynced failed/);
+    expect(() => (ref as any).keepSynced('true')).to.throw(/must be a boolean/);
+    expect(() => ref.root.child('.info/connected').keepSynced(true)).to.throw(
+      /Can't keep data under \/.info\/ synced/
+    );
+  });
+
   it('Can JSON serialize refs', function() {
     const ref = getRandomNode() as Reference;
     expect(JSON.stringify(ref)).to.equal('"' + ref.toString() + '"');
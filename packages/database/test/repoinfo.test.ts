@@ -42,4 +42,20 @@ describe('RepoInfo', function() {
       'https://test-ns.firebaseio.com/.lp?v=5&ls=test'
     );
   });
+
+  it('should connect insecurely to the emulator', function() {
+    const repoInfo = testRepoInfo('https://test-ns.firebaseio.com');
+    repoInfo.useEmulator('localhost:9000');
+
+    const urlParams = {};
+    urlParams[VERSION_PARAM] = PROTOCOL_VERSION;
+
+    const websocketUrl = repoInfo.connectionURL(WEBSOCKET, urlParams);
+    expect(websocketUrl).to.equal('ws://localhost:9000/.ws?v=5&ns=test-ns');
+    expect(repoInfo.webSocketOnly).to.be.true;
+
+    // The cached host of the namespace is not used.
+    repoInfo.updateHost('s1.firebaseio.com');
+    expect(repoInfo.connectionURL(WEBSOCKET, urlParams)).to.equal(websocketUrl);
+  });
 });
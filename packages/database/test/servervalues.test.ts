@@ -0,0 +1,122 @@
+/**
+ * Copyright 2019 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { Database } from '../src/api/Database';
+import { Reference } from '../src/api/Reference';
+import { ChildrenNode } from '../src/core/snap/ChildrenNode';
+import { nodeFromJSON } from '../src/core/snap/nodeFromJSON';
+import { resolveDeferredValueSnapshot } from '../src/core/util/ServerValues';
+import { getRandomNode } from './helpers/util';
+
+describe('ServerValue Tests', function() {
+  const increment = Database.ServerValue.increment;
+  const serverValues = { timestamp: 1234 };
+
+  function resolve(value: any, existing: any): any {
+    return resolveDeferredValueSnapshot(
+      nodeFromJSON(value),
+      nodeFromJSON(existing),
+      serverValues
+    ).val(/*export=*/ true);
+  }
+
+  it('increment() creates a placeholder.', function() {
+    expect(increment(2)).to.deep.equal({ '.sv': { increment: 2 } });
+  });
+
+  it('Increments are applied to the existing number.', function() {
+    expect(resolve(increment(2), 40)).to.equal(42);
+    expect(resolve(increment(-0.5), 1)).to.equal(0.5);
+  });
+
+  it('Increments replace values that are not numbers.', function() {
+    expect(resolve(increment(2), null)).to.equal(2);
+    expect(resolve(increment(2), 'foo')).to.equal(2);
+    expect(resolve(increment(2), { a: 1 })).to.equal(2);
+  });
+
+  it('Increments in children use the existing children.', function() {
+    const resolved = resolve(
+      { a: increment(1), b: { c: increment(1) }, d: increment(1) },
+      { a: 1, b: { c: 10 } }
+    );
+    expect(resolved).to.deep.equal({ a: 2, b: { c: 11 }, d: 1 });
+  });
+
+  it('Increments are resolved alongside timestamps.', function() {
+    const resolved = resolveDeferredValueSnapshot(
+      nodeFromJSON({
+        count: increment(1),
+        time: Database.ServerValue.TIMESTAMP
+      }),
+      ChildrenNode.EMPTY_NODE,
+      serverValues
+    );
+    expect(resolved.val()).to.deep.equal({ count: 1, time: 1234 });
+  });
+
+  it('Pending increments stack locally.', function() {
+    const ref = getRandomNode() as Reference;
+    const values = [];
+    ref.on('value', snap => {
+      values.push(snap.val());
+    });
+
+    // Stay offline so that only local events are raised.
+    ref.database.goOffline();
+    ref.set(5);
+    ref.set(increment(1));
+    ref.set(increment(-3));
+    ref.update({ count: increment(1) });
+    ref.child('count').set(increment(2));
+    ref.off();
+    ref.database.goOnline();
+
+    expect(values).to.deep.equal([5, 6, 3, { count: 1 }, { count: 3 }]);
+  });
+
+  it('Increments are applied on the server.', function() {
+    const ref = getRandomNode() as Reference;
+    return ref
+      .set(40)
+      .then(() => ref.set(increment(2)))
+      .then(() => ref.once('value'))
+      .then(snap => {
+        expect(snap.val()).to.equal(42);
+      });
+  });
+
+  it('Increments are accepted by set(), update() and onDisconnect().', function() {
+    const ref = getRandomNode() as Reference;
+    expect(() => ref.set(increment(1))).not.to.throw();
+    expect(() => ref.update({ a: increment(1) })).not.to.throw();
+    expect(() => ref.onDisconnect().set(increment(1))).not.to.throw();
+    expect(() => ref.onDisconnect().update({ a: increment(1) })).not.to.throw();
+    return ref.onDisconnect().cancel();
+  });
+
+  it('Invalid increments throw.', function() {
+    const ref = getRandomNode() as Reference;
+    expect(() => ref.set(increment('1' as any))).to.throw(
+      /contains an invalid server value/
+    );
+    expect(() => ref.update({ a: increment(Infinity) })).to.throw();
+    expect(() => ref.set({ '.sv': { decrement: 1 } })).to.throw(
+      /contains an invalid server value/
+    );
+  });
+});
@@ -55,12 +55,102 @@ export interface Settings {
    * use Timestamp now and opt-in to this new behavior as soon as you can.
    */
   timestampsInSnapshots?: boolean;
+
+  /**
+   * An approximate cache size threshold for the on-disk data. If the cache
+   * grows beyond this size, Firestore will start removing data that hasn't been
+   * recently used. The size is not a guarantee that the cache will stay below
+   * that size, only that if the cache exceeds the given size, cleanup will be
+   * attempted.
+   *
+   * The default value is 40 MB. The threshold must be set to at least 1 MB, and
+   * can be set to CACHE_SIZE_UNLIMITED to disable garbage collection.
+   */
+  cacheSizeBytes?: number;
+
+  /**
+   * Forces the SDK's underlying network transport (WebChannel) to use
+   * long-polling. Each response from the backend will be closed immediately
+   * after the backend sends data (by default responses are kept open in
+   * case the backend has more data to send). This avoids incompatibility
+   * issues with certain proxies, antivirus software, etc. that incorrectly
+   * buffer traffic indefinitely. Use of this option will cause some
+   * performance degradation though.
+   *
+   * This setting cannot be used together with
+   * `experimentalAutoDetectLongPolling` and has no effect in Node.js.
+   */
+  experimentalForceLongPolling?: boolean;
+
+  /**
+   * Configures the SDK's underlying transport (WebChannel) to automatically
+   * detect if long-polling should be used. This is very similar to
+   * `experimentalForceLongPolling`, but only uses long-polling if a proxy
+   * that buffers responses is detected.
+   *
+   * This setting cannot be used together with
+   * `experimentalForceLongPolling` and has no effect in Node.js.
+   */
+  experimentalAutoDetectLongPolling?: boolean;
+}
+
+/**
+ * Settings that can be passed to Firestore.enablePersistence() to configure
+ * Firestore persistence.
+ */
+export interface PersistenceSettings {
+  /**
+   * Whether to synchronize the in-memory state of multiple tabs. Setting
+   * this to 'true' in all open tabs enables shared access to local
+   * persistence, shared execution of queries and latency-compensated local
+   * document updates across all connected instances.
+   *
+   * To enable this mode, `experimentalTabSynchronization:true` needs to be
+   * set globally in all active tabs. If omitted or set to 'false',
+   * `enablePersistence()` will fail in all but the first tab.
+   *
+   * NOTE: This mode is experimental and not yet recommended for production
+   * use.
+   */
+  experimentalTabSynchronization?: boolean;
 }
 
+/**
+ * Constant used to indicate the LRU garbage collection should be disabled.
+ * Set this value as the `cacheSizeBytes` on the settings passed to the
+ * `Firestore` instance.
+ */
+export const CACHE_SIZE_UNLIMITED: number;
+
 export type LogLevel = 'debug' | 'error' | 'silent';
 
 export function setLogLevel(logLevel: LogLevel): void;
 
+/**
+ * Converter used by `withConverter()` to transform user objects of type T
+ * into Firestore data.
+ *
+ * Using the converter allows you to specify generic type arguments when
+ * storing and retrieving objects from Firestore.
+ */
+export interface FirestoreDataConverter<T> {
+  /**
+   * Called by the Firestore SDK to convert a custom model object of type T
+   * into a plain JavaScript object (suitable for writing directly to the
+   * Firestore database).
+   */
+  toFirestore(modelObject: T): DocumentData;
+
+  /**
+   * Called by the Firestore SDK to convert Firestore data into an object of
+   * type T. You can access your data by calling: `snapshot.data(options)`.
+   *
+   * @param snapshot A QueryDocumentSnapshot containing your data and metadata.
+   * @param options The SnapshotOptions from the initial call to `data()`.
+   */
+  fromFirestore(snapshot: QueryDocumentSnapshot, options: SnapshotOptions): T;
+}
+
 /**
  * `Firestore` represents a Firestore Database and is the entry point for all
  * Firestore operations.
@@ -87,14 +177,44 @@ export class FirebaseFirestore {
    * There are several reasons why this can fail, which can be identified by
    * the `code` on the error.
    *
-   *   * failed-precondition: The app is already open in another browser tab.
+   *   * failed-precondition: The app is already open in another browser tab
+   *     and multi-tab is not enabled.
    *   * unimplemented: The browser is incompatible with the offline
    *     persistence implementation.
    *
+   * @param settings Optional settings object to configure persistence.
    * @return A promise that represents successfully enabling persistent
    * storage.
    */
-  enablePersistence(): Promise<void>;
+  enablePersistence(settings?: PersistenceSettings): Promise<void>;
+
+  /**
+   * Clears the persistent storage. This includes pending writes and cached
+   * documents.
+   *
+   * Must be called before any other methods (other than settings()) or
+   * after the `Firestore` instance has been terminated via `terminate()`. If
+   * the instance has been started but not terminated, the returned promise
+   * is rejected with a `failed-precondition` error.
+   *
+   * The data can only be cleared while no other tab uses it. A tab that
+   * holds the owner lease of the persisted data (or, with multi-tab
+   * synchronization, that recently refreshed its client state) blocks the
+   * deletion and the returned promise is rejected with a
+   * `failed-precondition` error. The lease of a closed tab does not block
+   * the deletion.
+   *
+   * Note: clearPersistence() is primarily intended to help write reliable
+   * tests that use Firestore. It uses the most efficient mechanism possible
+   * for dropping existing data but does not attempt to securely overwrite or
+   * otherwise make cached data unrecoverable. For applications that are
+   * sensitive to the disclosure of cache data in between user sessions we
+   * strongly recommend not to enable persistence at all.
+   *
+   * @return A promise that is resolved once the persistent storage has been
+   * cleared.
+   */
+  clearPersistence(): Promise<void>;
 
   /**
    * Gets a `CollectionReference` instance that refers to the collection at
@@ -103,7 +223,19 @@ export class FirebaseFirestore {
    * @param collectionPath A slash-separated path to a collection.
    * @return The `CollectionReference` instance.
    */
-  collection(collectionPath: string): CollectionReference;
+  collection(collectionPath: string): CollectionReference<DocumentData>;
+
+  /**
+   * Creates and returns a new Query that includes all documents in the
+   * database that are contained in a collection or subcollection with the
+   * given collectionId.
+   *
+   * @param collectionId Identifies the collections to query over. Every
+   * collection or subcollection with this ID as the last segment of its path
+   * will be included. Cannot contain a slash.
+   * @return The created Query.
+   */
+  collectionGroup(collectionId: string): Query<DocumentData>;
 
   /**
    * Gets a `DocumentReference` instance that refers to the document at the
@@ -112,24 +244,48 @@ export class FirebaseFirestore {
    * @param documentPath A slash-separated path to a document.
    * @return The `DocumentReference` instance.
    */
-  doc(documentPath: string): DocumentReference;
+  doc(documentPath: string): DocumentReference<DocumentData>;
+
+  /**
+   * Reads the documents referred to by the provided `DocumentReference`s in
+   * a single request.
+   *
+   * By default, `getAll()` reads the documents from the server and falls back
+   * to the cache if the server can't be reached. Pending writes are merged
+   * into the returned documents. Unlike `DocumentReference.get()`, the
+   * documents read from the server are not added to the cache.
+   *
+   * @param documentRefsOrOptions The `DocumentReference`s to read, optionally
+   * followed by a `GetAllOptions` object that specifies the source of the
+   * documents and the fields to return.
+   * @return A Promise that resolves with a `DocumentSnapshot` for each of the
+   * provided references, in the order in which they were provided.
+   */
+  getAll<T = DocumentData>(
+    ...documentRefsOrOptions: Array<DocumentReference<T> | GetAllOptions>
+  ): Promise<Array<DocumentSnapshot<T>>>;
 
   /**
    * Executes the given updateFunction and then attempts to commit the
    * changes applied within the transaction. If any document read within the
    * transaction has changed, the updateFunction will be retried. If it fails
-   * to commit after 5 attempts, the transaction will fail.
+   * to commit after `maxAttempts` attempts (5 by default), the transaction
+   * will fail. Read-only transactions are never retried.
    *
    * @param updateFunction The function to execute within the transaction
    * context.
+   * @param options An options object to configure the number of attempts and
+   * whether the transaction is read-only.
    * @return If the transaction completed successfully or was explicitly
    * aborted (by the updateFunction returning a failed Promise), the Promise
    * returned by the updateFunction will be returned here. Else if the
-   * transaction failed, a rejected Promise with the corresponding failure
-   * error will be returned.
+   * transaction failed, a rejected Promise with a `FirestoreError` that
+   * includes the number of attempts and the last failure reason will be
+   * returned.
    */
   runTransaction<T>(
-    updateFunction: (transaction: Transaction) => Promise<T>
+    updateFunction: (transaction: Transaction) => Promise<T>,
+    options?: TransactionOptions
   ): Promise<T>;
 
   /**
@@ -161,9 +317,219 @@ export class FirebaseFirestore {
    */
   disableNetwork(): Promise<void>;
 
+  /**
+   * Waits until all currently pending writes for the active user have been
+   * acknowledged by the backend.
+   *
+   * The returned promise resolves immediately if there are no outstanding
+   * writes. Otherwise, it waits for all writes that were issued before
+   * calling this method to be acknowledged or rejected by the backend,
+   * even if the client disconnects and reconnects in the meantime. Writes
+   * issued after calling this method are not waited for. If you want to
+   * wait for additional writes, call `waitForPendingWrites()` again.
+   *
+   * Any outstanding `waitForPendingWrites()` promises are rejected with a
+   * `cancelled` error when the user changes.
+   *
+   * @return A promise which resolves when all currently pending writes have
+   * been acknowledged by the backend.
+   */
+  waitForPendingWrites(): Promise<void>;
+
+  /**
+   * Terminates this `Firestore` instance.
+   *
+   * After calling `terminate()`, only `clearPersistence()` can be used. Any
+   * other method fails with a `failed-precondition` error, and the promises
+   * of writes and of `waitForPendingWrites()` calls that are still pending
+   * are rejected with a `cancelled` error. Writes that were persisted with
+   * offline persistence are sent to the backend by the next instance that
+   * uses the same persisted data.
+   *
+   * Termination stops all network streams, releases the lease of the
+   * persisted data and removes the instance from its app, so that a new
+   * instance can be obtained via `firebase.firestore()`.
+   *
+   * @return A promise that is resolved once the instance has been terminated.
+   */
+  terminate(): Promise<void>;
+
+  /**
+   * Attaches a listener for a snapshots-in-sync event. The snapshots-in-sync
+   * event indicates that all listeners affected by a given change have
+   * fired, even if a single server-generated change affects multiple
+   * listeners.
+   *
+   * NOTE: The snapshots-in-sync event only indicates that listeners are in
+   * sync with each other, but does not relate to whether those snapshots
+   * are in sync with the server. Use SnapshotMetadata in the individual
+   * listeners to determine if a snapshot is from the cache or the server.
+   *
+   * @param observer A single object containing `next` and `error`
+   * callbacks.
+   * @return An unsubscribe function that can be called to cancel the
+   * snapshot listener.
+   */
+  onSnapshotsInSync(observer: {
+    next?: (value: void) => void;
+    error?: (error: Error) => void;
+    complete?: () => void;
+  }): () => void;
+
+  /**
+   * Attaches a listener for a snapshots-in-sync event. The snapshots-in-sync
+   * event indicates that all listeners affected by a given change have
+   * fired, even if a single server-generated change affects multiple
+   * listeners.
+   *
+   * NOTE: The snapshots-in-sync event only indicates that listeners are in
+   * sync with each other, but does not relate to whether those snapshots
+   * are in sync with the server. Use SnapshotMetadata in the individual
+   * listeners to determine if a snapshot is from the cache or the server.
+   *
+   * @param onSync A callback to be called every time all snapshot listeners
+   * are in sync with each other.
+   * @return An unsubscribe function that can be called to cancel the
+   * snapshot listener.
+   */
+  onSnapshotsInSync(onSync: () => void): () => void;
+
+  /**
+   * Loads a Firestore bundle into the local cache.
+   *
+   * The documents of the bundle are only applied if they are newer than the
+   * cached documents, and the named queries of the bundle can be retrieved
+   * via `namedQuery()` afterwards. Loading a bundle that was already loaded
+   * has no effect.
+   *
+   * @param bundleData An object representing the bundle to be loaded. Valid
+   * objects are `ArrayBuffer` and `string`.
+   *
+   * @return A `LoadBundleTask`, which notifies callers with progress updates,
+   * and completion or error events. It can be used as a
+   * `Promise<LoadBundleTaskProgress>`.
+   */
+  loadBundle(bundleData: ArrayBuffer | string): LoadBundleTask;
+
+  /**
+   * Reads a Firestore `Query` from the local cache, identified by the given
+   * name.
+   *
+   * The named queries are packaged into bundles on the server side (along
+   * with their resulting documents), and loaded into the local cache using
+   * `loadBundle()`. Once in the local cache, use this method to extract a
+   * `Query` by name.
+   *
+   * @param name The name of the query.
+   * @return A promise which resolves with the `Query`, or with `null` if no
+   * loaded bundle contains a query with the given name.
+   */
+  namedQuery(name: string): Promise<Query | null>;
+
+  /**
+   * Configures the client-side field indexes that are used to execute
+   * queries against the local cache. Without an index, a query scans all
+   * cached documents of its collection; with an index on a field that the
+   * query filters on, only the documents that match the filter are read.
+   *
+   * The given configuration replaces any previously configured indexes.
+   * The indexes are stored along with the cache if persistence is enabled,
+   * and documents that are already cached are added to new indexes.
+   *
+   * @param configuration The field indexes to use.
+   * @return A promise that resolves once the indexes have been configured.
+   */
+  setIndexConfiguration(configuration: IndexConfiguration): Promise<void>;
+
+  /**
+   * Recreates a `DocumentSnapshot` or `QuerySnapshot` from the result of its
+   * `toJSON()` method, without contacting the backend. This allows snapshots
+   * that were read on a server to be passed to the client, for example as
+   * part of a server-side rendered page.
+   *
+   * The snapshot is not associated with a converter, and a recreated
+   * `QuerySnapshot` reports all of its documents as added.
+   *
+   * @param json The result of `DocumentSnapshot.toJSON()` or
+   * `QuerySnapshot.toJSON()` for a snapshot of this database.
+   * @return The recreated snapshot.
+   */
+  snapshotFromJSON(json: object): DocumentSnapshot | QuerySnapshot;
+
   INTERNAL: { delete: () => Promise<void> };
 }
 
+/**
+ * Represents the task of loading a Firestore bundle. It provides progress of
+ * bundle loading, as well as task completion and error events.
+ *
+ * The API is compatible with `Promise<LoadBundleTaskProgress>`.
+ */
+export interface LoadBundleTask extends PromiseLike<LoadBundleTaskProgress> {
+  /**
+   * Registers functions to listen to bundle loading progress events.
+   *
+   * @param next Called when there is a progress update from bundle loading.
+   * Typically `next` calls occur each time a Firestore document is loaded
+   * from the bundle.
+   * @param error Called when an error occurs during bundle loading. The task
+   * aborts after reporting the error, and there should be no more updates
+   * after this.
+   * @param complete Called when the loading task is complete.
+   */
+  onProgress(
+    next?: (progress: LoadBundleTaskProgress) => any,
+    error?: (error: Error) => any,
+    complete?: () => void
+  ): void;
+
+  /**
+   * Implements the `Promise<LoadBundleTaskProgress>.then` interface.
+   *
+   * @param onFulfilled Called on the completion of the loading task with a
+   * final `LoadBundleTaskProgress` update. The update will always have its
+   * `taskState` set to `"Success"`.
+   * @param onRejected Called when an error occurs during bundle loading.
+   */
+  then<T, R>(
+    onFulfilled?: (a: LoadBundleTaskProgress) => T | PromiseLike<T>,
+    onRejected?: (a: Error) => R | PromiseLike<R>
+  ): Promise<T | R>;
+
+  /**
+   * Implements the `Promise<LoadBundleTaskProgress>.catch` interface.
+   *
+   * @param onRejected Called when an error occurs during bundle loading.
+   */
+  catch<R>(
+    onRejected: (a: Error) => R | PromiseLike<R>
+  ): Promise<R | LoadBundleTaskProgress>;
+}
+
+/**
+ * Represents a progress update or a final state from loading bundles.
+ */
+export interface LoadBundleTaskProgress {
+  /** How many documents have been loaded. */
+  documentsLoaded: number;
+  /** How many documents are in the bundle being loaded. */
+  totalDocuments: number;
+  /** How many bytes have been loaded. */
+  bytesLoaded: number;
+  /** How many bytes are in the bundle being loaded. */
+  totalBytes: number;
+  /** Current task state. */
+  taskState: TaskState;
+}
+
+/**
+ * Represents the state of bundle loading tasks.
+ *
+ * Both 'Error' and 'Success' are sinking states: the task will abort or
+ * complete and there will be no more updates after they are reported.
+ */
+export type TaskState = 'Error' | 'Running' | 'Success';
+
 /**
  * An immutable object representing a geo point in Firestore. The geo point
  * is represented as latitude/longitude pair.
@@ -323,7 +689,7 @@ export class Transaction {
    * @param documentRef A reference to the document to be read.
    * @return A DocumentSnapshot for the read data.
    */
-  get(documentRef: DocumentReference): Promise<DocumentSnapshot>;
+  get<T>(documentRef: DocumentReference<T>): Promise<DocumentSnapshot<T>>;
 
   /**
    * Writes to the document referred to by the provided `DocumentReference`.
@@ -335,9 +701,9 @@ export class Transaction {
    * @param options An object to configure the set behavior.
    * @return This `Transaction` instance. Used for chaining method calls.
    */
-  set(
-    documentRef: DocumentReference,
-    data: DocumentData,
+  set<T>(
+    documentRef: DocumentReference<T>,
+    data: T,
     options?: SetOptions
   ): Transaction;
 
@@ -352,7 +718,7 @@ export class Transaction {
    * within the document.
    * @return This `Transaction` instance. Used for chaining method calls.
    */
-  update(documentRef: DocumentReference, data: UpdateData): Transaction;
+  update(documentRef: DocumentReference<any>, data: UpdateData): Transaction;
 
   /**
    * Updates fields in the document referred to by the provided
@@ -370,7 +736,7 @@ export class Transaction {
    * to the backend (Note that it won't resolve while you're offline).
    */
   update(
-    documentRef: DocumentReference,
+    documentRef: DocumentReference<any>,
     field: string | FieldPath,
     value: any,
     ...moreFieldsAndValues: any[]
@@ -382,7 +748,7 @@ export class Transaction {
    * @param documentRef A reference to the document to be deleted.
    * @return This `Transaction` instance. Used for chaining method calls.
    */
-  delete(documentRef: DocumentReference): Transaction;
+  delete(documentRef: DocumentReference<any>): Transaction;
 }
 
 /**
@@ -409,9 +775,9 @@ export class WriteBatch {
    * @param options An object to configure the set behavior.
    * @return This `WriteBatch` instance. Used for chaining method calls.
    */
-  set(
-    documentRef: DocumentReference,
-    data: DocumentData,
+  set<T>(
+    documentRef: DocumentReference<T>,
+    data: T,
     options?: SetOptions
   ): WriteBatch;
 
@@ -426,7 +792,7 @@ export class WriteBatch {
    * within the document.
    * @return This `WriteBatch` instance. Used for chaining method calls.
    */
-  update(documentRef: DocumentReference, data: UpdateData): WriteBatch;
+  update(documentRef: DocumentReference<any>, data: UpdateData): WriteBatch;
 
   /**
    * Updates fields in the document referred to by this `DocumentReference`.
@@ -443,7 +809,7 @@ export class WriteBatch {
    * to the backend (Note that it won't resolve while you're offline).
    */
   update(
-    documentRef: DocumentReference,
+    documentRef: DocumentReference<any>,
     field: string | FieldPath,
     value: any,
     ...moreFieldsAndValues: any[]
@@ -455,7 +821,7 @@ export class WriteBatch {
    * @param documentRef A reference to the document to be deleted.
    * @return This `WriteBatch` instance. Used for chaining method calls.
    */
-  delete(documentRef: DocumentReference): WriteBatch;
+  delete(documentRef: DocumentReference<any>): WriteBatch;
 
   /**
    * Commits all of the writes in this write batch as a single atomic unit.
@@ -533,13 +899,69 @@ export interface GetOptions {
   readonly source?: 'default' | 'server' | 'cache';
 }
 
+/**
+ * An options object that configures the behavior of `Firestore.getAll()`.
+ */
+export interface GetAllOptions extends GetOptions {
+  /**
+   * The fields to return for each document. If set, the returned documents
+   * only contain the specified fields (and the subfields of these fields).
+   * All fields are returned if not set.
+   */
+  readonly fieldMask?: Array<string | FieldPath>;
+}
+
+/**
+ * An options object that configures the behavior of
+ * `Firestore.runTransaction()`.
+ */
+export interface TransactionOptions {
+  /**
+   * The maximum number of times the transaction's updateFunction is run
+   * before the transaction fails. Must be a positive integer. Defaults to 5.
+   */
+  readonly maxAttempts?: number;
+
+  /**
+   * If true, the transaction is read-only: all reads happen at a consistent
+   * snapshot, writes are rejected and the transaction is never retried.
+   * Defaults to false.
+   */
+  readonly readOnly?: boolean;
+}
+
+/**
+ * A client-side index on a single field of the documents in a collection
+ * group, as used by `Firestore.setIndexConfiguration()`.
+ */
+export interface FieldIndexConfiguration {
+  /**
+   * The collection ID of the collections whose documents are indexed.
+   */
+  readonly collectionGroup: string;
+
+  /**
+   * The indexed field, either as a dot-separated string or a `FieldPath`.
+   */
+  readonly fieldPath: string | FieldPath;
+}
+
+/**
+ * The client-side field indexes configured via
+ * `Firestore.setIndexConfiguration()`.
+ */
+export interface IndexConfiguration {
+  /** The field indexes to use. */
+  readonly indexes: FieldIndexConfiguration[];
+}
+
 /**
  * A `DocumentReference` refers to a document location in a Firestore database
  * and can be used to write, read, or listen to the location. The document at
  * the referenced location may or may not exist. A `DocumentReference` can
  * also be used to create a `CollectionReference` to a subcollection.
  */
-export class DocumentReference {
+export class DocumentReference<T = DocumentData> {
   private constructor();
 
   /** The identifier of the document within its collection. */
@@ -554,7 +976,7 @@ export class DocumentReference {
   /**
    * A reference to the Collection to which this DocumentReference belongs.
    */
-  readonly parent: CollectionReference;
+  readonly parent: CollectionReference<T>;
 
   /**
    * A string representing the path of the referenced document (relative
@@ -569,7 +991,7 @@ export class DocumentReference {
    * @param collectionPath A slash-separated path to a collection.
    * @return The `CollectionReference` instance.
    */
-  collection(collectionPath: string): CollectionReference;
+  collection(collectionPath: string): CollectionReference<DocumentData>;
 
   /**
    * Returns true if this `DocumentReference` is equal to the provided one.
@@ -577,7 +999,7 @@ export class DocumentReference {
    * @param other The `DocumentReference` to compare against.
    * @return true if this `DocumentReference` is equal to the provided one.
    */
-  isEqual(other: DocumentReference): boolean;
+  isEqual(other: DocumentReference<T>): boolean;
 
   /**
    * Writes to the document referred to by this `DocumentReference`. If the
@@ -589,7 +1011,7 @@ export class DocumentReference {
    * @return A Promise resolved once the data has been successfully written
    * to the backend (Note that it won't resolve while you're offline).
    */
-  set(data: DocumentData, options?: SetOptions): Promise<void>;
+  set(data: T, options?: SetOptions): Promise<void>;
 
   /**
    * Updates fields in the document referred to by this `DocumentReference`.
@@ -643,7 +1065,7 @@ export class DocumentReference {
    * @return A Promise resolved with a DocumentSnapshot containing the
    * current document contents.
    */
-  get(options?: GetOptions): Promise<DocumentSnapshot>;
+  get(options?: GetOptions): Promise<DocumentSnapshot<T>>;
 
   /**
    * Attaches a listener for DocumentSnapshot events. You may either pass
@@ -663,29 +1085,41 @@ export class DocumentReference {
    * the snapshot listener.
    */
   onSnapshot(observer: {
-    next?: (snapshot: DocumentSnapshot) => void;
+    next?: (snapshot: DocumentSnapshot<T>) => void;
     error?: (error: FirestoreError) => void;
     complete?: () => void;
   }): () => void;
   onSnapshot(
     options: SnapshotListenOptions,
     observer: {
-      next?: (snapshot: DocumentSnapshot) => void;
+      next?: (snapshot: DocumentSnapshot<T>) => void;
       error?: (error: Error) => void;
       complete?: () => void;
     }
   ): () => void;
   onSnapshot(
-    onNext: (snapshot: DocumentSnapshot) => void,
+    onNext: (snapshot: DocumentSnapshot<T>) => void,
     onError?: (error: Error) => void,
     onCompletion?: () => void
   ): () => void;
   onSnapshot(
     options: SnapshotListenOptions,
-    onNext: (snapshot: DocumentSnapshot) => void,
+    onNext: (snapshot: DocumentSnapshot<T>) => void,
     onError?: (error: Error) => void,
     onCompletion?: () => void
   ): () => void;
+
+  /**
+   * Applies a custom data converter to this DocumentReference, allowing you
+   * to use your own custom model objects with Firestore. When you call
+   * set(), get(), etc. on the returned DocumentReference instance, the
+   * provided converter will convert between Firestore data and your custom
+   * type U.
+   *
+   * @param converter Converts objects to and from Firestore.
+   * @return A DocumentReference<U> that uses the provided converter.
+   */
+  withConverter<U>(converter: FirestoreDataConverter<U>): DocumentReference<U>;
 }
 
 /**
@@ -750,13 +1184,13 @@ export interface SnapshotMetadata {
  * access will return 'undefined'. You can use the `exists` property to
  * explicitly verify a document's existence.
  */
-export class DocumentSnapshot {
+export class DocumentSnapshot<T = DocumentData> {
   protected constructor();
 
   /** True if the document exists. */
   readonly exists: boolean;
   /** A `DocumentReference` to the document location. */
-  readonly ref: DocumentReference;
+  readonly ref: DocumentReference<T>;
   /**
    * The ID of the document for which this `DocumentSnapshot` contains data.
    */
@@ -781,7 +1215,7 @@ export class DocumentSnapshot {
    * @return An Object containing all fields in the document or 'undefined' if
    * the document doesn't exist.
    */
-  data(options?: SnapshotOptions): DocumentData | undefined;
+  data(options?: SnapshotOptions): T | undefined;
 
   /**
    * Retrieves the field specified by `fieldPath`. Returns 'undefined' if the
@@ -800,13 +1234,21 @@ export class DocumentSnapshot {
    */
   get(fieldPath: string | FieldPath, options?: SnapshotOptions): any;
 
+  /**
+   * Returns a JSON-serializable representation of this snapshot, which can
+   * be turned back into a snapshot via `Firestore.snapshotFromJSON()`.
+   * Fails if the document contains server timestamps that have not been
+   * written to the backend yet.
+   */
+  toJSON(): object;
+
   /**
    * Returns true if this `DocumentSnapshot` is equal to the provided one.
    *
    * @param other The `DocumentSnapshot` to compare against.
    * @return true if this `DocumentSnapshot` is equal to the provided one.
    */
-  isEqual(other: DocumentSnapshot): boolean;
+  isEqual(other: DocumentSnapshot<T>): boolean;
 }
 
 /**
@@ -820,7 +1262,9 @@ export class DocumentSnapshot {
  * `exists` property will always be true and `data()` will never return
  * 'undefined'.
  */
-export class QueryDocumentSnapshot extends DocumentSnapshot {
+export class QueryDocumentSnapshot<T = DocumentData> extends DocumentSnapshot<
+  T
+> {
   private constructor();
 
   /**
@@ -836,7 +1280,7 @@ export class QueryDocumentSnapshot extends DocumentSnapshot {
    * not yet been set to their final value).
    * @return An Object containing all fields in the document.
    */
-  data(options?: SnapshotOptions): DocumentData;
+  data(options?: SnapshotOptions): T;
 }
 
 /**
@@ -847,16 +1291,25 @@ export type OrderByDirection = 'desc' | 'asc';
 
 /**
  * Filter conditions in a `Query.where()` clause are specified using the
- * strings '<', '<=', '==', '>=', and '>'.
+ * strings '<', '<=', '==', '>=', '>', 'in' and 'array-contains-any'.
  */
 // TODO(array-features): Add 'array-contains' once backend support lands.
-export type WhereFilterOp = '<' | '<=' | '==' | '>=' | '>';
+export type WhereFilterOp =
+  | '<'
+  | '<='
+  | '=='
+  | '>='
+  | '>'
+  | 'in'
+  | 'array-contains-any'
+  | '!='
+  | 'not-in';
 
 /**
  * A `Query` refers to a Query which you can read or listen to. You can also
  * construct refined `Query` objects by adding filters and ordering.
  */
-export class Query {
+export class Query<T = DocumentData> {
   protected constructor();
 
   /**
@@ -871,11 +1324,16 @@ export class Query {
    * relation constraint provided.
    *
    * @param fieldPath The path to compare
-   * @param opStr The operation string (e.g "<", "<=", "==", ">", ">=").
+   * @param opStr The operation string (e.g "<", "<=", "==", "!=", ">",
+   * ">=").
    * @param value The value for comparison
    * @return The created Query.
    */
-  where(fieldPath: string | FieldPath, opStr: WhereFilterOp, value: any): Query;
+  where(
+    fieldPath: string | FieldPath,
+    opStr: WhereFilterOp,
+    value: any
+  ): Query<T>;
 
   /**
    * Creates and returns a new Query that's additionally sorted by the
@@ -889,7 +1347,7 @@ export class Query {
   orderBy(
     fieldPath: string | FieldPath,
     directionStr?: OrderByDirection
-  ): Query;
+  ): Query<T>;
 
   /**
    * Creates and returns a new Query that's additionally limited to only
@@ -898,7 +1356,19 @@ export class Query {
    * @param limit The maximum number of items to return.
    * @return The created Query.
    */
-  limit(limit: number): Query;
+  limit(limit: number): Query<T>;
+
+  /**
+   * Creates and returns a new Query that only returns the last matching
+   * documents.
+   *
+   * You must specify at least one `orderBy` clause for `limitToLast` queries,
+   * otherwise an exception will be thrown during execution.
+   *
+   * @param limit The maximum number of items to return.
+   * @return The created Query.
+   */
+  limitToLast(limit: number): Query<T>;
 
   /**
    * Creates and returns a new Query that starts at the provided document
@@ -909,7 +1379,7 @@ export class Query {
    * @param snapshot The snapshot of the document to start at.
    * @return The created Query.
    */
-  startAt(snapshot: DocumentSnapshot): Query;
+  startAt(snapshot: DocumentSnapshot<any>): Query<T>;
 
   /**
    * Creates and returns a new Query that starts at the provided fields
@@ -920,7 +1390,7 @@ export class Query {
    * of the query's order by.
    * @return The created Query.
    */
-  startAt(...fieldValues: any[]): Query;
+  startAt(...fieldValues: any[]): Query<T>;
 
   /**
    * Creates and returns a new Query that starts after the provided document
@@ -931,7 +1401,7 @@ export class Query {
    * @param snapshot The snapshot of the document to start after.
    * @return The created Query.
    */
-  startAfter(snapshot: DocumentSnapshot): Query;
+  startAfter(snapshot: DocumentSnapshot<any>): Query<T>;
 
   /**
    * Creates and returns a new Query that starts after the provided fields
@@ -942,7 +1412,7 @@ export class Query {
    * of the query's order by.
    * @return The created Query.
    */
-  startAfter(...fieldValues: any[]): Query;
+  startAfter(...fieldValues: any[]): Query<T>;
 
   /**
    * Creates and returns a new Query that ends before the provided document
@@ -953,7 +1423,7 @@ export class Query {
    * @param snapshot The snapshot of the document to end before.
    * @return The created Query.
    */
-  endBefore(snapshot: DocumentSnapshot): Query;
+  endBefore(snapshot: DocumentSnapshot<any>): Query<T>;
 
   /**
    * Creates and returns a new Query that ends before the provided fields
@@ -964,7 +1434,7 @@ export class Query {
    * of the query's order by.
    * @return The created Query.
    */
-  endBefore(...fieldValues: any[]): Query;
+  endBefore(...fieldValues: any[]): Query<T>;
 
   /**
    * Creates and returns a new Query that ends at the provided document
@@ -975,7 +1445,7 @@ export class Query {
    * @param snapshot The snapshot of the document to end at.
    * @return The created Query.
    */
-  endAt(snapshot: DocumentSnapshot): Query;
+  endAt(snapshot: DocumentSnapshot<any>): Query<T>;
 
   /**
    * Creates and returns a new Query that ends at the provided fields
@@ -986,7 +1456,7 @@ export class Query {
    * of the query's order by.
    * @return The created Query.
    */
-  endAt(...fieldValues: any[]): Query;
+  endAt(...fieldValues: any[]): Query<T>;
 
   /**
    * Returns true if this `Query` is equal to the provided one.
@@ -994,7 +1464,7 @@ export class Query {
    * @param other The `Query` to compare against.
    * @return true if this `Query` is equal to the provided one.
    */
-  isEqual(other: Query): boolean;
+  isEqual(other: Query<T>): boolean;
 
   /**
    * Executes the query and returns the results as a QuerySnapshot.
@@ -1007,7 +1477,40 @@ export class Query {
    * @param options An object to configure the get behavior.
    * @return A Promise that will be resolved with the results of the Query.
    */
-  get(options?: GetOptions): Promise<QuerySnapshot>;
+  get(options?: GetOptions): Promise<QuerySnapshot<T>>;
+
+  /**
+   * Creates an `AggregateQuery` that counts the documents in the result set of
+   * this query on the server, without downloading the documents.
+   *
+   * @return An `AggregateQuery` whose snapshot data contains the number of
+   * documents under the `count` key.
+   */
+  count(): AggregateQuery<{ count: number }>;
+
+  /**
+   * Creates an `AggregateQuery` that sums the numeric values of the given
+   * field across the documents in the result set of this query on the server.
+   * Values that are not numbers are ignored.
+   *
+   * @param field The field to sum.
+   * @return An `AggregateQuery` whose snapshot data contains the sum under the
+   * `sum` key.
+   */
+  sum(field: string | FieldPath): AggregateQuery<{ sum: number }>;
+
+  /**
+   * Creates an `AggregateQuery` that averages the numeric values of the given
+   * field across the documents in the result set of this query on the server.
+   * Values that are not numbers are ignored.
+   *
+   * @param field The field to average.
+   * @return An `AggregateQuery` whose snapshot data contains the average under
+   * the `average` key, which is null if there are no numeric values.
+   */
+  average(
+    field: string | FieldPath
+  ): AggregateQuery<{ average: number | null }>;
 
   /**
    * Attaches a listener for QuerySnapshot events. You may either pass
@@ -1027,29 +1530,89 @@ export class Query {
    * the snapshot listener.
    */
   onSnapshot(observer: {
-    next?: (snapshot: QuerySnapshot) => void;
+    next?: (snapshot: QuerySnapshot<T>) => void;
     error?: (error: Error) => void;
     complete?: () => void;
   }): () => void;
   onSnapshot(
     options: SnapshotListenOptions,
     observer: {
-      next?: (snapshot: QuerySnapshot) => void;
+      next?: (snapshot: QuerySnapshot<T>) => void;
       error?: (error: Error) => void;
       complete?: () => void;
     }
   ): () => void;
   onSnapshot(
-    onNext: (snapshot: QuerySnapshot) => void,
+    onNext: (snapshot: QuerySnapshot<T>) => void,
     onError?: (error: Error) => void,
     onCompletion?: () => void
   ): () => void;
   onSnapshot(
     options: SnapshotListenOptions,
-    onNext: (snapshot: QuerySnapshot) => void,
+    onNext: (snapshot: QuerySnapshot<T>) => void,
     onError?: (error: Error) => void,
     onCompletion?: () => void
   ): () => void;
+
+  /**
+   * Applies a custom data converter to this Query, allowing you to use your
+   * own custom model objects with Firestore. When you call get() on the
+   * returned Query, the provided converter will convert between Firestore
+   * data and your custom type U.
+   *
+   * @param converter Converts objects to and from Firestore.
+   * @return A Query<U> that uses the provided converter.
+   */
+  withConverter<U>(converter: FirestoreDataConverter<U>): Query<U>;
+}
+
+/**
+ * The results of the aggregations of an `AggregateQuery`, keyed by the name
+ * of each aggregation.
+ */
+export interface AggregateData {
+  [aggregation: string]: number | null;
+}
+
+/**
+ * An `AggregateQuery` computes aggregations, such as the number of documents,
+ * over the result set of a `Query` on the server. Aggregate queries are only
+ * run on the server and fail with an `unavailable` error while offline.
+ */
+export class AggregateQuery<T extends AggregateData> {
+  private constructor();
+
+  /** The query whose result set is aggregated. */
+  readonly query: Query;
+
+  /**
+   * Runs the aggregations on the server. The results do not include pending
+   * local writes.
+   *
+   * @return A Promise that will be resolved with the results of the
+   * aggregations, or rejected with an `unavailable` error if the client is
+   * offline.
+   */
+  get(): Promise<AggregateQuerySnapshot<T>>;
+}
+
+/**
+ * An `AggregateQuerySnapshot` contains the results of running an
+ * `AggregateQuery`.
+ */
+export class AggregateQuerySnapshot<T extends AggregateData> {
+  private constructor();
+
+  /** The aggregate query that was run to produce this snapshot. */
+  readonly query: AggregateQuery<T>;
+
+  /**
+   * Returns the results of the aggregations.
+   *
+   * @return An object that contains the result of each aggregation under its
+   * name.
+   */
+  data(): T;
 }
 
 /**
@@ -1059,14 +1622,14 @@ export class Query {
  * number of documents can be determined via the `empty` and `size`
  * properties.
  */
-export class QuerySnapshot {
+export class QuerySnapshot<T = DocumentData> {
   private constructor();
 
   /**
    * The query on which you called `get` or `onSnapshot` in order to get this
    * `QuerySnapshot`.
    */
-  readonly query: Query;
+  readonly query: Query<T>;
   /**
    * Metadata about this snapshot, concerning its source and if it has local
    * modifications.
@@ -1074,7 +1637,7 @@ export class QuerySnapshot {
   readonly metadata: SnapshotMetadata;
 
   /** An array of all the documents in the QuerySnapshot. */
-  readonly docs: QueryDocumentSnapshot[];
+  readonly docs: Array<QueryDocumentSnapshot<T>>;
 
   /** The number of documents in the QuerySnapshot. */
   readonly size: number;
@@ -1090,7 +1653,7 @@ export class QuerySnapshot {
    * changes (i.e. only `DocumentSnapshot.metadata` changed) should trigger
    * snapshot events.
    */
-  docChanges(options?: SnapshotListenOptions): DocumentChange[];
+  docChanges(options?: SnapshotListenOptions): Array<DocumentChange<T>>;
 
   /**
    * Enumerates all of the documents in the QuerySnapshot.
@@ -1100,17 +1663,25 @@ export class QuerySnapshot {
    * @param thisArg The `this` binding for the callback.
    */
   forEach(
-    callback: (result: QueryDocumentSnapshot) => void,
+    callback: (result: QueryDocumentSnapshot<T>) => void,
     thisArg?: any
   ): void;
 
+  /**
+   * Returns a JSON-serializable representation of this snapshot, which can
+   * be turned back into a snapshot via `Firestore.snapshotFromJSON()`.
+   * Fails if one of its documents contains server timestamps that have not
+   * been written to the backend yet.
+   */
+  toJSON(): object;
+
   /**
    * Returns true if this `QuerySnapshot` is equal to the provided one.
    *
    * @param other The `QuerySnapshot` to compare against.
    * @return true if this `QuerySnapshot` is equal to the provided one.
    */
-  isEqual(other: QuerySnapshot): boolean;
+  isEqual(other: QuerySnapshot<T>): boolean;
 }
 
 /**
@@ -1122,12 +1693,12 @@ export type DocumentChangeType = 'added' | 'removed' | 'modified';
  * A `DocumentChange` represents a change to the documents matching a query.
  * It contains the document affected and the type of change that occurred.
  */
-export interface DocumentChange {
+export interface DocumentChange<T = DocumentData> {
   /** The type of change ('added', 'modified', or 'removed'). */
   readonly type: DocumentChangeType;
 
   /** The document affected by this change. */
-  readonly doc: QueryDocumentSnapshot;
+  readonly doc: QueryDocumentSnapshot<T>;
 
   /**
    * The index of the changed document in the result set immediately prior to
@@ -1150,7 +1721,7 @@ export interface DocumentChange {
  * document references, and querying for documents (using the methods
  * inherited from `Query`).
  */
-export class CollectionReference extends Query {
+export class CollectionReference<T = DocumentData> extends Query<T> {
   private constructor();
 
   /** The identifier of the collection. */
@@ -1160,7 +1731,7 @@ export class CollectionReference extends Query {
    * A reference to the containing Document if this is a subcollection, else
    * null.
    */
-  readonly parent: DocumentReference | null;
+  readonly parent: DocumentReference<DocumentData> | null;
 
   /**
    * A string representing the path of the referenced collection (relative
@@ -1176,7 +1747,7 @@ export class CollectionReference extends Query {
    * @param documentPath A slash-separated path to a document.
    * @return The `DocumentReference` instance.
    */
-  doc(documentPath?: string): DocumentReference;
+  doc(documentPath?: string): DocumentReference<T>;
 
   /**
    * Add a new document to this collection with the specified data, assigning
@@ -1186,7 +1757,7 @@ export class CollectionReference extends Query {
    * @return A Promise resolved with a `DocumentReference` pointing to the
    * newly created document after it has been written to the backend.
    */
-  add(data: DocumentData): Promise<DocumentReference>;
+  add(data: T): Promise<DocumentReference<T>>;
 
   /**
    * Returns true if this `CollectionReference` is equal to the provided one.
@@ -1194,7 +1765,20 @@ export class CollectionReference extends Query {
    * @param other The `CollectionReference` to compare against.
    * @return true if this `CollectionReference` is equal to the provided one.
    */
-  isEqual(other: CollectionReference): boolean;
+  isEqual(other: CollectionReference<T>): boolean;
+
+  /**
+   * Applies a custom data converter to this CollectionReference, allowing you
+   * to use your own custom model objects with Firestore. When you call add()
+   * on the returned CollectionReference instance, the provided converter will
+   * convert between Firestore data and your custom type U.
+   *
+   * @param converter Converts objects to and from Firestore.
+   * @return A CollectionReference<U> that uses the provided converter.
+   */
+  withConverter<U>(
+    converter: FirestoreDataConverter<U>
+  ): CollectionReference<U>;
 }
 
 /**
@@ -1226,8 +1810,7 @@ export class FieldValue {
    * @param elements The elements to union into the array.
    * @return The FieldValue sentinel for use in a call to set() or update().
    */
-  // TODO(array-features): Expose this once backend support lands.
-  //static arrayUnion(...elements: any[]): FieldValue;
+  static arrayUnion(...elements: any[]): FieldValue;
 
   /**
    * Returns a special value that can be used with set() or update() that tells
@@ -1239,8 +1822,26 @@ export class FieldValue {
    * @param elements The elements to remove from the array.
    * @return The FieldValue sentinel for use in a call to set() or update().
    */
-  // TODO(array-features): Expose this once backend support lands.
-  //static arrayRemove(...elements: any[]): FieldValue;
+  static arrayRemove(...elements: any[]): FieldValue;
+
+  /**
+   * Returns a special value that can be used with set() or update() that tells
+   * the server to increment the field's current value by the given value.
+   *
+   * If either the operand or the current field value uses floating point
+   * precision, all arithmetic follows IEEE 754 semantics. If both values are
+   * integers, the locally computed result is capped to JavaScript's safe
+   * number range (`Number.MIN_SAFE_INTEGER` to `Number.MAX_SAFE_INTEGER`)
+   * until the write is acknowledged; once processed by the Firestore backend,
+   * all integer operations are capped between -2^63 and 2^63-1.
+   *
+   * If the current field value is not of type `number`, or if the field does
+   * not yet exist, the transformation sets the field to the given value.
+   *
+   * @param n The value to increment by.
+   * @return The FieldValue sentinel for use in a call to set() or update().
+   */
+  static increment(n: number): FieldValue;
 
   /**
    * Returns true if this `FieldValue` is equal to the provided one.
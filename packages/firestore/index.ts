@@ -45,6 +45,7 @@ declare module '@firebase/app-types' {
       Transaction: typeof types.Transaction;
       WriteBatch: typeof types.WriteBatch;
       setLogLevel: typeof types.setLogLevel;
+      CACHE_SIZE_UNLIMITED: typeof types.CACHE_SIZE_UNLIMITED;
     };
   }
   interface FirebaseApp {
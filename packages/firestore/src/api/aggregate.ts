@@ -0,0 +1,84 @@
+/**
+ * Copyright 2019 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as firestore from '@firebase/firestore-types';
+import { Aggregate } from '../core/aggregate';
+import { ObjectValue } from '../model/field_value';
+import { FieldPath } from '../model/path';
+import { makeConstructorPrivate } from '../util/api';
+import { validateExactNumberOfArgs } from '../util/input_validation';
+
+import { Query } from './database';
+
+/**
+ * A query that computes aggregations over the documents of a query on the
+ * backend, without downloading the documents.
+ */
+export class AggregateQuery<T extends firestore.AggregateData>
+  implements firestore.AggregateQuery<T> {
+  constructor(
+    readonly query: Query<firestore.DocumentData>,
+    private readonly _aggregates: Aggregate[]
+  ) {}
+
+  get(): Promise<firestore.AggregateQuerySnapshot<T>> {
+    validateExactNumberOfArgs('AggregateQuery.get', arguments, 0);
+    return this.query.firestore
+      .ensureClientConfigured()
+      .runAggregationQuery(this.query._query, this._aggregates)
+      .then(result => new AggregateQuerySnapshot(this, this.toData(result)));
+  }
+
+  /**
+   * Converts the result of the aggregations into the user-facing data.
+   * Aggregations that are missing in the result did not aggregate any values.
+   */
+  private toData(result: ObjectValue): T {
+    const data: firestore.AggregateData = {};
+    for (const aggregate of this._aggregates) {
+      const value = result.field(new FieldPath([aggregate.alias]));
+      if (value !== undefined) {
+        data[aggregate.alias] = value.value() as number | null;
+      } else {
+        data[aggregate.alias] = aggregate.type === 'avg' ? null : 0;
+      }
+    }
+    return data as T;
+  }
+}
+
+/** The results of running an `AggregateQuery`. */
+export class AggregateQuerySnapshot<T extends firestore.AggregateData>
+  implements firestore.AggregateQuerySnapshot<T> {
+  constructor(readonly query: AggregateQuery<T>, private readonly _data: T) {}
+
+  data(): T {
+    validateExactNumberOfArgs('AggregateQuerySnapshot.data', arguments, 0);
+    return { ...(this._data as {}) } as T;
+  }
+}
+
+// Export the classes with a private constructor (it will fail if invoked
+// at runtime). Note that these still allow instanceof checks.
+// tslint:disable:variable-name We're treating these as class names.
+export const PublicAggregateQuery = makeConstructorPrivate(
+  AggregateQuery,
+  'Use Query.count(), Query.sum() or Query.average() instead.'
+);
+export const PublicAggregateQuerySnapshot = makeConstructorPrivate(
+  AggregateQuerySnapshot
+);
+// tslint:enable:variable-name
@@ -0,0 +1,107 @@
+/**
+ * Copyright 2019 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as firestore from '@firebase/firestore-types';
+import { LoadBundleTaskProgress } from '../core/bundle';
+import { assert } from '../util/assert';
+import { FirestoreError } from '../util/error';
+import { AnyJs } from '../util/misc';
+import { Deferred } from '../util/promise';
+
+import { PartialObserver } from './observer';
+
+export class LoadBundleTask
+  implements firestore.LoadBundleTask, PromiseLike<LoadBundleTaskProgress> {
+  private progressObserver: PartialObserver<LoadBundleTaskProgress> = {};
+  private taskCompletionResolver = new Deferred<LoadBundleTaskProgress>();
+
+  private lastProgress: LoadBundleTaskProgress = {
+    taskState: 'Running',
+    totalBytes: 0,
+    totalDocuments: 0,
+    bytesLoaded: 0,
+    documentsLoaded: 0
+  };
+
+  onProgress(
+    next?: (progress: LoadBundleTaskProgress) => AnyJs,
+    error?: (err: Error) => AnyJs,
+    complete?: () => void
+  ): void {
+    this.progressObserver = { next, error, complete };
+  }
+
+  catch<R>(
+    onRejected: (a: Error) => R | PromiseLike<R>
+  ): Promise<R | LoadBundleTaskProgress> {
+    return this.taskCompletionResolver.promise.catch(onRejected);
+  }
+
+  then<T, R>(
+    onFulfilled?: (a: LoadBundleTaskProgress) => T | PromiseLike<T>,
+    onRejected?: (a: Error) => R | PromiseLike<R>
+  ): Promise<T | R> {
+    return this.taskCompletionResolver.promise.then(onFulfilled, onRejected);
+  }
+
+  /**
+   * Notifies all observers that bundle loading has completed, with the given
+   * final progress.
+   */
+  _completeWith(progress: LoadBundleTaskProgress): void {
+    assert(
+      progress.taskState === 'Success',
+      'Task is not completed with Success.'
+    );
+    this._updateProgress(progress);
+    if (this.progressObserver.complete) {
+      this.progressObserver.complete();
+    }
+
+    this.taskCompletionResolver.resolve(progress);
+  }
+
+  /**
+   * Notifies all observers that bundle loading has failed, with a progress
+   * update whose `taskState` is 'Error'.
+   */
+  _failWith(error: FirestoreError): void {
+    this.lastProgress = { ...this.lastProgress, taskState: 'Error' };
+
+    if (this.progressObserver.next) {
+      this.progressObserver.next(this.lastProgress);
+    }
+
+    if (this.progressObserver.error) {
+      this.progressObserver.error(error);
+    }
+
+    this.taskCompletionResolver.reject(error);
+  }
+
+  /** Notifies the progress observer of a new progress update. */
+  _updateProgress(progress: LoadBundleTaskProgress): void {
+    assert(
+      this.lastProgress.taskState === 'Running',
+      'Cannot update progress on a completed or failed task.'
+    );
+
+    this.lastProgress = progress;
+    if (this.progressObserver.next) {
+      this.progressObserver.next(progress);
+    }
+  }
+}
@@ -17,11 +17,18 @@
 import * as firestore from '@firebase/firestore-types';
 
 import { FirebaseApp } from '@firebase/app-types';
-import { FirebaseService } from '@firebase/app-types/private';
+import { _FirebaseApp, FirebaseService } from '@firebase/app-types/private';
+import { AggregateQuery } from './aggregate';
+import { LoadBundleTask } from './bundle';
 import { FieldPath as ExternalFieldPath } from './field_path';
 import { DatabaseId, DatabaseInfo } from '../core/database_info';
 import { ListenOptions } from '../core/event_manager';
-import { FirestoreClient } from '../core/firestore_client';
+import {
+  FirestoreClient,
+  IndexedDbPersistenceSettings,
+  InternalPersistenceSettings,
+  MemoryPersistenceSettings
+} from '../core/firestore_client';
 import {
   Bound,
   Direction,
@@ -32,10 +39,23 @@ import {
   RelationFilter,
   RelationOp
 } from '../core/query';
-import { Transaction as InternalTransaction } from '../core/transaction';
+import { Aggregate } from '../core/aggregate';
+import {
+  DocumentSnapshotJson,
+  QuerySnapshotJson,
+  SnapshotJsonConverter
+} from '../core/snapshot_json';
+import {
+  DEFAULT_MAX_TRANSACTION_ATTEMPTS,
+  Transaction as InternalTransaction
+} from '../core/transaction';
 import { ChangeType, ViewSnapshot } from '../core/view_snapshot';
+import { IndexedDbPersistence } from '../local/indexeddb_persistence';
+import { LruParams } from '../local/lru_garbage_collector';
+import { documentKeySet } from '../model/collections';
 import { Document, MaybeDocument, NoDocument } from '../model/document';
 import { DocumentKey } from '../model/document_key';
+import { FieldIndex } from '../model/field_index';
 import {
   ArrayValue,
   FieldValue,
@@ -43,9 +63,15 @@ import {
   ObjectValue,
   RefValue
 } from '../model/field_value';
-import { DeleteMutation, Mutation, Precondition } from '../model/mutation';
+import {
+  DeleteMutation,
+  FieldMask,
+  Mutation,
+  Precondition
+} from '../model/mutation';
 import { FieldPath, ResourcePath } from '../model/path';
 import { PlatformSupport } from '../platform/platform';
+import { JsonProtoSerializer } from '../remote/serializer';
 import { makeConstructorPrivate } from '../util/api';
 import { assert, fail } from '../util/assert';
 import { AsyncObserver } from '../util/async_observer';
@@ -53,7 +79,9 @@ import { AsyncQueue } from '../util/async_queue';
 import { Code, FirestoreError } from '../util/error';
 import {
   invalidClassError,
+  isPlainObject,
   validateArgType,
+  validateArrayElements,
   validateAtLeastNumberOfArgs,
   validateBetweenNumberOfArgs,
   validateDefined,
@@ -101,6 +129,22 @@ import {
 const DEFAULT_HOST = 'firestore.googleapis.com';
 const DEFAULT_SSL = true;
 const DEFAULT_TIMESTAMPS_IN_SNAPSHOTS = false;
+const DEFAULT_SYNCHRONIZE_TABS = false;
+const DEFAULT_FORCE_LONG_POLLING = false;
+const DEFAULT_AUTO_DETECT_LONG_POLLING = false;
+
+/**
+ * Constant used to indicate the LRU garbage collection should be disabled.
+ * Set this value as the `cacheSizeBytes` on the settings passed to the
+ * `Firestore` instance.
+ */
+export const CACHE_SIZE_UNLIMITED = LruParams.COLLECTION_DISABLED;
+
+/**
+ * The maximum number of disjuncts (array elements) that the backend supports
+ * in a single 'in' or 'array-contains-any' filter.
+ */
+const MAX_DISJUNCTIVE_FILTER_ELEMENTS = 10;
 
 /** Undocumented, private additional settings not exposed in our public API. */
 interface PrivateSettings extends firestore.Settings {
@@ -131,6 +175,21 @@ class FirestoreSettings {
 
   timestampsInSnapshots: boolean;
 
+  /**
+   * The size threshold (in bytes) above which the persisted cache is garbage
+   * collected, or CACHE_SIZE_UNLIMITED to disable garbage collection.
+   */
+  cacheSizeBytes: number;
+
+  /** Whether the WebChannel transport always uses long-polling. */
+  experimentalForceLongPolling: boolean;
+
+  /**
+   * Whether the WebChannel transport detects buffering proxies and falls back
+   * to long-polling if it finds one.
+   */
+  experimentalAutoDetectLongPolling: boolean;
+
   // Can be a google-auth-library or gapi client.
   // tslint:disable-next-line:no-any
   credentials?: any;
@@ -156,7 +215,10 @@ class FirestoreSettings {
       'host',
       'ssl',
       'credentials',
-      'timestampsInSnapshots'
+      'timestampsInSnapshots',
+      'cacheSizeBytes',
+      'experimentalForceLongPolling',
+      'experimentalAutoDetectLongPolling'
     ]);
 
     validateNamedOptionalType(
@@ -177,6 +239,61 @@ class FirestoreSettings {
       settings.timestampsInSnapshots,
       DEFAULT_TIMESTAMPS_IN_SNAPSHOTS
     );
+
+    validateNamedOptionalType(
+      'settings',
+      'number',
+      'cacheSizeBytes',
+      settings.cacheSizeBytes
+    );
+    if (settings.cacheSizeBytes === undefined) {
+      this.cacheSizeBytes = LruParams.DEFAULT_CACHE_SIZE_BYTES;
+    } else {
+      if (
+        settings.cacheSizeBytes !== CACHE_SIZE_UNLIMITED &&
+        settings.cacheSizeBytes < LruParams.MINIMUM_CACHE_SIZE_BYTES
+      ) {
+        throw new FirestoreError(
+          Code.INVALID_ARGUMENT,
+          `cacheSizeBytes must be at least ` +
+            `${LruParams.MINIMUM_CACHE_SIZE_BYTES}`
+        );
+      }
+      this.cacheSizeBytes = settings.cacheSizeBytes;
+    }
+
+    validateNamedOptionalType(
+      'settings',
+      'boolean',
+      'experimentalForceLongPolling',
+      settings.experimentalForceLongPolling
+    );
+    this.experimentalForceLongPolling = objUtils.defaulted(
+      settings.experimentalForceLongPolling,
+      DEFAULT_FORCE_LONG_POLLING
+    );
+
+    validateNamedOptionalType(
+      'settings',
+      'boolean',
+      'experimentalAutoDetectLongPolling',
+      settings.experimentalAutoDetectLongPolling
+    );
+    this.experimentalAutoDetectLongPolling = objUtils.defaulted(
+      settings.experimentalAutoDetectLongPolling,
+      DEFAULT_AUTO_DETECT_LONG_POLLING
+    );
+
+    if (
+      this.experimentalForceLongPolling &&
+      this.experimentalAutoDetectLongPolling
+    ) {
+      throw new FirestoreError(
+        Code.INVALID_ARGUMENT,
+        'experimentalForceLongPolling and experimentalAutoDetectLongPolling ' +
+          'cannot be used together.'
+      );
+    }
   }
 
   isEqual(other: FirestoreSettings): boolean {
@@ -184,6 +301,11 @@ class FirestoreSettings {
       this.host === other.host &&
       this.ssl === other.ssl &&
       this.timestampsInSnapshots === other.timestampsInSnapshots &&
+      this.cacheSizeBytes === other.cacheSizeBytes &&
+      this.experimentalForceLongPolling ===
+        other.experimentalForceLongPolling &&
+      this.experimentalAutoDetectLongPolling ===
+        other.experimentalAutoDetectLongPolling &&
       this.credentials === other.credentials
     );
   }
@@ -213,6 +335,11 @@ export class Firestore implements firestore.FirebaseFirestore, FirebaseService {
   // are already set to synchronize on the async queue.
   private _firestoreClient: FirestoreClient | undefined;
 
+  // Set once terminate() is called and resolved once the client shut down. An
+  // instance that was terminated before it was ever used has no client, so API
+  // calls check this promise instead.
+  private _terminateTask: Promise<void> | null = null;
+
   // Public for use in tests.
   // TODO(mikelehen): Use modularized initialization instead.
   readonly _queue = new AsyncQueue();
@@ -291,7 +418,128 @@ export class Firestore implements firestore.FirebaseFirestore, FirebaseService {
     return this._firestoreClient.disableNetwork();
   }
 
-  enablePersistence(): Promise<void> {
+  waitForPendingWrites(): Promise<void> {
+    validateExactNumberOfArgs('Firestore.waitForPendingWrites', arguments, 0);
+    return this.ensureClientConfigured().waitForPendingWrites();
+  }
+
+  onSnapshotsInSync(observer: PartialObserver<void>): Unsubscribe;
+  onSnapshotsInSync(onSync: () => void): Unsubscribe;
+  onSnapshotsInSync(arg: AnyJs): Unsubscribe {
+    validateExactNumberOfArgs('Firestore.onSnapshotsInSync', arguments, 1);
+    this.ensureClientConfigured();
+
+    if (isPartialObserver(arg)) {
+      return this.onSnapshotsInSyncInternal(arg as PartialObserver<void>);
+    } else {
+      validateArgType('Firestore.onSnapshotsInSync', 'function', 1, arg);
+      const observer: PartialObserver<void> = {
+        next: arg as () => void
+      };
+      return this.onSnapshotsInSyncInternal(observer);
+    }
+  }
+
+  private onSnapshotsInSyncInternal(
+    observer: PartialObserver<void>
+  ): Unsubscribe {
+    const errHandler = (err: Error) => {
+      throw fail('Uncaught Error in onSnapshotsInSync');
+    };
+    const asyncObserver = new AsyncObserver<void>({
+      next: () => {
+        if (observer.next) {
+          observer.next(undefined);
+        }
+      },
+      error: errHandler
+    });
+    this._firestoreClient!.addSnapshotsInSyncListener(asyncObserver);
+    return () => {
+      asyncObserver.mute();
+      this._firestoreClient!.removeSnapshotsInSyncListener(asyncObserver);
+    };
+  }
+
+  loadBundle(bundleData: ArrayBuffer | string): firestore.LoadBundleTask {
+    validateExactNumberOfArgs('Firestore.loadBundle', arguments, 1);
+    if (
+      typeof bundleData !== 'string' &&
+      !(bundleData instanceof ArrayBuffer)
+    ) {
+      throw invalidClassError(
+        'Firestore.loadBundle',
+        'string or ArrayBuffer',
+        1,
+        bundleData
+      );
+    }
+    const task = new LoadBundleTask();
+    this.ensureClientConfigured().loadBundle(bundleData, task);
+    return task;
+  }
+
+  namedQuery(name: string): Promise<firestore.Query | null> {
+    validateExactNumberOfArgs('Firestore.namedQuery', arguments, 1);
+    validateArgType('Firestore.namedQuery', 'string', 1, name);
+    return this.ensureClientConfigured()
+      .getNamedQuery(name)
+      .then(
+        namedQuery => (namedQuery ? new Query(namedQuery.query, this) : null)
+      );
+  }
+
+  setIndexConfiguration(
+    configuration: firestore.IndexConfiguration
+  ): Promise<void> {
+    validateExactNumberOfArgs('Firestore.setIndexConfiguration', arguments, 1);
+    validateArgType(
+      'Firestore.setIndexConfiguration',
+      'object',
+      1,
+      configuration
+    );
+    const indexes = fieldIndexesFromConfiguration(
+      'Firestore.setIndexConfiguration',
+      configuration
+    );
+    return this.ensureClientConfigured().setIndexConfiguration(indexes);
+  }
+
+  snapshotFromJSON(
+    json: object
+  ): firestore.DocumentSnapshot | firestore.QuerySnapshot {
+    validateExactNumberOfArgs('Firestore.snapshotFromJSON', arguments, 1);
+    validateArgType('Firestore.snapshotFromJSON', 'object', 1, json);
+    const type = (json as { type?: string }).type;
+    if (type === 'documentSnapshot') {
+      const contents = this._snapshotJsonConverter().fromDocumentSnapshotJson(
+        json as DocumentSnapshotJson
+      );
+      return new DocumentSnapshot(
+        this,
+        contents.key,
+        contents.document,
+        contents.fromCache
+      );
+    } else if (type === 'querySnapshot') {
+      const snapshot = this._snapshotJsonConverter().fromQuerySnapshotJson(
+        json as QuerySnapshotJson
+      );
+      return new QuerySnapshot(this, snapshot.query, snapshot);
+    } else {
+      throw new FirestoreError(
+        Code.INVALID_ARGUMENT,
+        'Function Firestore.snapshotFromJSON() requires its first argument ' +
+          'to be the result of DocumentSnapshot.toJSON() or ' +
+          'QuerySnapshot.toJSON().'
+      );
+    }
+  }
+
+  enablePersistence(settings?: firestore.PersistenceSettings): Promise<void> {
+    validateBetweenNumberOfArgs('Firestore.enablePersistence', arguments, 0, 1);
+    this.verifyNotTerminated();
     if (this._firestoreClient) {
       throw new FirestoreError(
         Code.FAILED_PRECONDITION,
@@ -301,17 +549,75 @@ export class Firestore implements firestore.FirebaseFirestore, FirebaseService {
       );
     }
 
-    return this.configureClient(/* persistence= */ true);
+    let synchronizeTabs = DEFAULT_SYNCHRONIZE_TABS;
+    if (settings !== undefined) {
+      validateOptionNames('enablePersistence', settings, [
+        'experimentalTabSynchronization'
+      ]);
+      validateNamedOptionalType(
+        'enablePersistence',
+        'boolean',
+        'experimentalTabSynchronization',
+        settings.experimentalTabSynchronization
+      );
+      synchronizeTabs = objUtils.defaulted(
+        settings.experimentalTabSynchronization,
+        DEFAULT_SYNCHRONIZE_TABS
+      );
+    }
+
+    return this.configureClient(
+      new IndexedDbPersistenceSettings(
+        this._config.settings.cacheSizeBytes,
+        synchronizeTabs
+      )
+    );
+  }
+
+  clearPersistence(): Promise<void> {
+    validateExactNumberOfArgs('Firestore.clearPersistence', arguments, 0);
+    if (this._firestoreClient && !this._terminateTask) {
+      return Promise.reject(
+        new FirestoreError(
+          Code.FAILED_PRECONDITION,
+          'Firestore has already been started and persistence can no longer ' +
+            'be cleared. You can only call clearPersistence() before calling ' +
+            'any other methods on a Firestore object or after calling ' +
+            'terminate().'
+        )
+      );
+    }
+
+    const storagePrefix = IndexedDbPersistence.buildStoragePrefix(
+      this.makeDatabaseInfo()
+    );
+    // The client may still hold the database open until terminate() resolves.
+    const terminateTask = this._terminateTask || Promise.resolve();
+    return terminateTask.then(() =>
+      IndexedDbPersistence.clearPersistence(storagePrefix)
+    );
   }
 
   ensureClientConfigured(): FirestoreClient {
     if (!this._firestoreClient) {
-      this.configureClient(/* persistence= */ false);
+      this.verifyNotTerminated();
+      this.configureClient(new MemoryPersistenceSettings());
     }
     return this._firestoreClient as FirestoreClient;
   }
 
-  private configureClient(persistence: boolean): Promise<void> {
+  private verifyNotTerminated(): void {
+    if (this._terminateTask) {
+      throw new FirestoreError(
+        Code.FAILED_PRECONDITION,
+        'The client has already been terminated.'
+      );
+    }
+  }
+
+  private configureClient(
+    persistenceSettings: InternalPersistenceSettings
+  ): Promise<void> {
     assert(
       !!this._config.settings.host,
       'FirestoreSettings.host cannot be falsey'
@@ -345,12 +651,7 @@ follow these steps, YOUR APP MAY BREAK.`);
 
     assert(!this._firestoreClient, 'configureClient() called multiple times');
 
-    const databaseInfo = new DatabaseInfo(
-      this._config.databaseId,
-      this._config.persistenceKey,
-      this._config.settings.host,
-      this._config.settings.ssl
-    );
+    const databaseInfo = this.makeDatabaseInfo();
 
     const preConverter = (value: AnyJs) => {
       if (value instanceof DocumentReference) {
@@ -377,7 +678,18 @@ follow these steps, YOUR APP MAY BREAK.`);
       this._config.credentials,
       this._queue
     );
-    return this._firestoreClient.start(persistence);
+    return this._firestoreClient.start(persistenceSettings);
+  }
+
+  private makeDatabaseInfo(): DatabaseInfo {
+    return new DatabaseInfo(
+      this._config.databaseId,
+      this._config.persistenceKey,
+      this._config.settings.host,
+      this._config.settings.ssl,
+      this._config.settings.experimentalForceLongPolling,
+      this._config.settings.experimentalAutoDetectLongPolling
+    );
   }
 
   private static databaseIdFromApp(app: FirebaseApp): DatabaseId {
@@ -429,13 +741,28 @@ follow these steps, YOUR APP MAY BREAK.`);
     return this._config.firebaseApp;
   }
 
+  terminate(): Promise<void> {
+    validateExactNumberOfArgs('Firestore.terminate', arguments, 0);
+    // Let the app create a new instance on the next call to `firestore()`.
+    if (this._config.firebaseApp) {
+      (this._config.firebaseApp as _FirebaseApp)._removeServiceInstance(
+        'firestore'
+      );
+    }
+    return this.INTERNAL.delete();
+  }
+
   INTERNAL = {
-    delete: async (options?: {
+    delete: (options?: {
       purgePersistenceWithDataLoss?: boolean;
     }): Promise<void> => {
-      if (this._firestoreClient) {
-        return this._firestoreClient.shutdown(options);
+      if (!this._terminateTask) {
+        // An instance that was never used has no client to shut down.
+        this._terminateTask = this._firestoreClient
+          ? this._firestoreClient.terminate(options)
+          : Promise.resolve();
       }
+      return this._terminateTask;
     }
   };
 
@@ -453,6 +780,23 @@ follow these steps, YOUR APP MAY BREAK.`);
     return new CollectionReference(ResourcePath.fromString(pathString), this);
   }
 
+  collectionGroup(collectionId: string): firestore.Query {
+    validateExactNumberOfArgs('Firestore.collectionGroup', arguments, 1);
+    validateArgType('Firestore.collectionGroup', 'string', 1, collectionId);
+    if (collectionId.indexOf('/') >= 0) {
+      throw new FirestoreError(
+        Code.INVALID_ARGUMENT,
+        `Invalid collection ID '${collectionId}' passed to function ` +
+          `Firestore.collectionGroup(). Collection IDs must not contain '/'.`
+      );
+    }
+    this.ensureClientConfigured();
+    return new Query(
+      new InternalQuery(ResourcePath.EMPTY_PATH, collectionId),
+      this
+    );
+  }
+
   doc(pathString: string): firestore.DocumentReference {
     validateExactNumberOfArgs('Firestore.doc', arguments, 1);
     validateArgType('Firestore.doc', 'string', 1, pathString);
@@ -466,14 +810,102 @@ follow these steps, YOUR APP MAY BREAK.`);
     return DocumentReference.forPath(ResourcePath.fromString(pathString), this);
   }
 
+  getAll<T>(
+    ...documentRefsOrOptions: Array<
+      firestore.DocumentReference<T> | firestore.GetAllOptions
+    >
+  ): Promise<Array<firestore.DocumentSnapshot<T>>> {
+    validateAtLeastNumberOfArgs('Firestore.getAll', arguments, 1);
+    let refs = documentRefsOrOptions;
+    let options: firestore.GetAllOptions = {};
+    const lastArg = refs[refs.length - 1];
+    if (!(lastArg instanceof DocumentReference) && isPlainObject(lastArg)) {
+      options = lastArg as firestore.GetAllOptions;
+      refs = refs.slice(0, -1);
+      validateGetAllOptions('Firestore.getAll', options);
+    }
+    if (refs.length === 0) {
+      throw new FirestoreError(
+        Code.INVALID_ARGUMENT,
+        'Function Firestore.getAll() requires at least one DocumentReference.'
+      );
+    }
+
+    const documentRefs = refs.map(ref =>
+      validateReference(
+        'Firestore.getAll',
+        ref as firestore.DocumentReference<T>,
+        this
+      )
+    );
+    let keys = documentKeySet();
+    for (const ref of documentRefs) {
+      keys = keys.add(ref._key);
+    }
+    const fieldMask = options.fieldMask
+      ? new FieldMask(
+          options.fieldMask.map(field =>
+            fieldPathFromArgument('Firestore.getAll', field as
+              | string
+              | ExternalFieldPath)
+          )
+        )
+      : null;
+
+    const client = this.ensureClientConfigured();
+    const getFromCache = () =>
+      client
+        .lookupDocumentsFromLocalCache(keys, fieldMask)
+        .then(docs => ({ docs, fromCache: true }));
+    const result =
+      options.source === 'cache'
+        ? getFromCache()
+        : client.lookupDocuments(keys, fieldMask).then(
+            docs => ({ docs, fromCache: false }),
+            (err: FirestoreError) => {
+              // Fall back to the cache if the backend cannot be reached,
+              // unless the documents must be read from the server.
+              if (
+                options.source !== 'server' &&
+                err.code === Code.UNAVAILABLE
+              ) {
+                return getFromCache();
+              }
+              throw err;
+            }
+          );
+    return result.then(({ docs, fromCache }) =>
+      documentRefs.map(ref => {
+        const doc = docs.get(ref._key);
+        return new DocumentSnapshot(
+          this,
+          ref._key,
+          doc instanceof Document ? doc : null,
+          fromCache,
+          ref._converter
+        );
+      })
+    );
+  }
+
   runTransaction<T>(
-    updateFunction: (transaction: firestore.Transaction) => Promise<T>
+    updateFunction: (transaction: firestore.Transaction) => Promise<T>,
+    options?: firestore.TransactionOptions
   ): Promise<T> {
-    validateExactNumberOfArgs('Firestore.runTransaction', arguments, 1);
+    validateBetweenNumberOfArgs('Firestore.runTransaction', arguments, 1, 2);
     validateArgType('Firestore.runTransaction', 'function', 1, updateFunction);
+    validateOptionalArgType('Firestore.runTransaction', 'object', 2, options);
+    if (options) {
+      validateTransactionOptions('Firestore.runTransaction', options);
+    }
     return this.ensureClientConfigured().transaction(
       (transaction: InternalTransaction) => {
         return updateFunction(new Transaction(this, transaction));
+      },
+      {
+        maxAttempts:
+          (options && options.maxAttempts) || DEFAULT_MAX_TRANSACTION_ATTEMPTS,
+        readOnly: !!(options && options.readOnly)
       }
     );
   }
@@ -523,6 +955,16 @@ follow these steps, YOUR APP MAY BREAK.`);
   _areTimestampsInSnapshotsEnabled(): boolean {
     return this._config.settings.timestampsInSnapshots;
   }
+
+  /**
+   * Returns the converter for the JSON representation of snapshots, which
+   * encodes values in proto3 JSON like bundles do.
+   */
+  _snapshotJsonConverter(): SnapshotJsonConverter {
+    return new SnapshotJsonConverter(
+      new JsonProtoSerializer(this._databaseId, { useProto3Json: true })
+    );
+  }
 }
 
 /**
@@ -534,9 +976,9 @@ export class Transaction implements firestore.Transaction {
     private _transaction: InternalTransaction
   ) {}
 
-  get(
-    documentRef: firestore.DocumentReference
-  ): Promise<firestore.DocumentSnapshot> {
+  get<T>(
+    documentRef: firestore.DocumentReference<T>
+  ): Promise<firestore.DocumentSnapshot<T>> {
     validateExactNumberOfArgs('Transaction.get', arguments, 1);
     const ref = validateReference(
       'Transaction.get',
@@ -551,15 +993,27 @@ export class Transaction implements firestore.Transaction {
         }
         const doc = docs[0];
         if (doc instanceof NoDocument) {
-          return new DocumentSnapshot(this._firestore, ref._key, null, false);
+          return new DocumentSnapshot(
+            this._firestore,
+            ref._key,
+            null,
+            /* fromCache= */ false,
+            ref._converter
+          );
         }
-        return new DocumentSnapshot(this._firestore, ref._key, doc, false);
+        return new DocumentSnapshot(
+          this._firestore,
+          ref._key,
+          doc,
+          /* fromCache= */ false,
+          ref._converter
+        );
       });
   }
 
-  set(
-    documentRef: firestore.DocumentReference,
-    value: firestore.DocumentData,
+  set<T>(
+    documentRef: firestore.DocumentReference<T>,
+    value: T,
     options?: firestore.SetOptions
   ): Transaction {
     validateBetweenNumberOfArgs('Transaction.set', arguments, 2, 3);
@@ -568,31 +1022,39 @@ export class Transaction implements firestore.Transaction {
       documentRef,
       this._firestore
     );
+    const [convertedValue, functionName] = applyFirestoreDataConverter(
+      ref._converter,
+      value,
+      'Transaction.set'
+    );
     options = validateSetOptions('Transaction.set', options);
     const parsed =
       options.merge || options.mergeFields
         ? this._firestore._dataConverter.parseMergeData(
-            'Transaction.set',
-            value,
+            functionName,
+            convertedValue,
             options.mergeFields
           )
-        : this._firestore._dataConverter.parseSetData('Transaction.set', value);
+        : this._firestore._dataConverter.parseSetData(
+            functionName,
+            convertedValue
+          );
     this._transaction.set(ref._key, parsed);
     return this;
   }
 
   update(
-    documentRef: firestore.DocumentReference,
+    documentRef: firestore.DocumentReference<AnyJs>,
     value: firestore.UpdateData
   ): Transaction;
   update(
-    documentRef: firestore.DocumentReference,
+    documentRef: firestore.DocumentReference<AnyJs>,
     field: string | ExternalFieldPath,
     value: AnyJs,
     ...moreFieldsAndValues: AnyJs[]
   ): Transaction;
   update(
-    documentRef: firestore.DocumentReference,
+    documentRef: firestore.DocumentReference<AnyJs>,
     fieldOrUpdateData: string | ExternalFieldPath | firestore.UpdateData,
     value?: AnyJs,
     ...moreFieldsAndValues: AnyJs[]
@@ -633,7 +1095,7 @@ export class Transaction implements firestore.Transaction {
     return this;
   }
 
-  delete(documentRef: firestore.DocumentReference): Transaction {
+  delete(documentRef: firestore.DocumentReference<AnyJs>): Transaction {
     validateExactNumberOfArgs('Transaction.delete', arguments, 1);
     const ref = validateReference(
       'Transaction.delete',
@@ -651,9 +1113,9 @@ export class WriteBatch implements firestore.WriteBatch {
 
   constructor(private _firestore: Firestore) {}
 
-  set(
-    documentRef: firestore.DocumentReference,
-    value: firestore.DocumentData,
+  set<T>(
+    documentRef: firestore.DocumentReference<T>,
+    value: T,
     options?: firestore.SetOptions
   ): WriteBatch {
     validateBetweenNumberOfArgs('WriteBatch.set', arguments, 2, 3);
@@ -663,15 +1125,23 @@ export class WriteBatch implements firestore.WriteBatch {
       documentRef,
       this._firestore
     );
+    const [convertedValue, functionName] = applyFirestoreDataConverter(
+      ref._converter,
+      value,
+      'WriteBatch.set'
+    );
     options = validateSetOptions('WriteBatch.set', options);
     const parsed =
       options.merge || options.mergeFields
         ? this._firestore._dataConverter.parseMergeData(
-            'WriteBatch.set',
-            value,
+            functionName,
+            convertedValue,
             options.mergeFields
           )
-        : this._firestore._dataConverter.parseSetData('WriteBatch.set', value);
+        : this._firestore._dataConverter.parseSetData(
+            functionName,
+            convertedValue
+          );
     this._mutations = this._mutations.concat(
       parsed.toMutations(ref._key, Precondition.NONE)
     );
@@ -679,17 +1149,17 @@ export class WriteBatch implements firestore.WriteBatch {
   }
 
   update(
-    documentRef: firestore.DocumentReference,
+    documentRef: firestore.DocumentReference<AnyJs>,
     value: firestore.UpdateData
   ): WriteBatch;
   update(
-    documentRef: firestore.DocumentReference,
+    documentRef: firestore.DocumentReference<AnyJs>,
     field: string | ExternalFieldPath,
     value: AnyJs,
     ...moreFieldsAndValues: AnyJs[]
   ): WriteBatch;
   update(
-    documentRef: firestore.DocumentReference,
+    documentRef: firestore.DocumentReference<AnyJs>,
     fieldOrUpdateData: string | ExternalFieldPath | firestore.UpdateData,
     value?: AnyJs,
     ...moreFieldsAndValues: AnyJs[]
@@ -734,7 +1204,7 @@ export class WriteBatch implements firestore.WriteBatch {
     return this;
   }
 
-  delete(documentRef: firestore.DocumentReference): WriteBatch {
+  delete(documentRef: firestore.DocumentReference<AnyJs>): WriteBatch {
     validateExactNumberOfArgs('WriteBatch.delete', arguments, 1);
     this.verifyNotCommitted();
     const ref = validateReference(
@@ -770,14 +1240,23 @@ export class WriteBatch implements firestore.WriteBatch {
 /**
  * A reference to a particular document in a collection in the database.
  */
-export class DocumentReference implements firestore.DocumentReference {
+export class DocumentReference<T = firestore.DocumentData>
+  implements firestore.DocumentReference<T> {
   private _firestoreClient: FirestoreClient;
 
-  constructor(public _key: DocumentKey, readonly firestore: Firestore) {
+  constructor(
+    public _key: DocumentKey,
+    readonly firestore: Firestore,
+    readonly _converter?: firestore.FirestoreDataConverter<T>
+  ) {
     this._firestoreClient = this.firestore.ensureClientConfigured();
   }
 
-  static forPath(path: ResourcePath, firestore: Firestore): DocumentReference {
+  static forPath<U>(
+    path: ResourcePath,
+    firestore: Firestore,
+    converter?: firestore.FirestoreDataConverter<U>
+  ): DocumentReference<U> {
     if (path.length % 2 !== 0) {
       throw new FirestoreError(
         Code.INVALID_ARGUMENT,
@@ -786,22 +1265,28 @@ export class DocumentReference implements firestore.DocumentReference {
           `${path.canonicalString()} has ${path.length}`
       );
     }
-    return new DocumentReference(new DocumentKey(path), firestore);
+    return new DocumentReference(new DocumentKey(path), firestore, converter);
   }
 
   get id(): string {
     return this._key.path.lastSegment();
   }
 
-  get parent(): firestore.CollectionReference {
-    return new CollectionReference(this._key.path.popLast(), this.firestore);
+  get parent(): firestore.CollectionReference<T> {
+    return new CollectionReference(
+      this._key.path.popLast(),
+      this.firestore,
+      this._converter
+    );
   }
 
   get path(): string {
     return this._key.path.canonicalString();
   }
 
-  collection(pathString: string): firestore.CollectionReference {
+  collection(
+    pathString: string
+  ): firestore.CollectionReference<firestore.DocumentData> {
     validateExactNumberOfArgs('DocumentReference.collection', arguments, 1);
     validateArgType('DocumentReference.collection', 'string', 1, pathString);
     if (!pathString) {
@@ -814,30 +1299,36 @@ export class DocumentReference implements firestore.DocumentReference {
     return new CollectionReference(this._key.path.child(path), this.firestore);
   }
 
-  isEqual(other: firestore.DocumentReference): boolean {
+  isEqual(other: firestore.DocumentReference<T>): boolean {
     if (!(other instanceof DocumentReference)) {
       throw invalidClassError('isEqual', 'DocumentReference', 1, other);
     }
-    return this.firestore === other.firestore && this._key.isEqual(other._key);
+    return (
+      this.firestore === other.firestore &&
+      this._key.isEqual(other._key) &&
+      this._converter === other._converter
+    );
   }
 
-  set(
-    value: firestore.DocumentData,
-    options?: firestore.SetOptions
-  ): Promise<void> {
+  set(value: T, options?: firestore.SetOptions): Promise<void> {
     validateBetweenNumberOfArgs('DocumentReference.set', arguments, 1, 2);
+    const [convertedValue, functionName] = applyFirestoreDataConverter(
+      this._converter,
+      value,
+      'DocumentReference.set'
+    );
     options = validateSetOptions('DocumentReference.set', options);
 
     const parsed =
       options.merge || options.mergeFields
         ? this.firestore._dataConverter.parseMergeData(
-            'DocumentReference.set',
-            value,
+            functionName,
+            convertedValue,
             options.mergeFields
           )
         : this.firestore._dataConverter.parseSetData(
-            'DocumentReference.set',
-            value
+            functionName,
+            convertedValue
           );
     return this._firestoreClient.write(
       parsed.toMutations(this._key, Precondition.NONE)
@@ -889,20 +1380,20 @@ export class DocumentReference implements firestore.DocumentReference {
   }
 
   onSnapshot(
-    observer: PartialObserver<firestore.DocumentSnapshot>
+    observer: PartialObserver<firestore.DocumentSnapshot<T>>
   ): Unsubscribe;
   onSnapshot(
     options: firestore.SnapshotListenOptions,
-    observer: PartialObserver<firestore.DocumentSnapshot>
+    observer: PartialObserver<firestore.DocumentSnapshot<T>>
   ): Unsubscribe;
   onSnapshot(
-    onNext: NextFn<firestore.DocumentSnapshot>,
+    onNext: NextFn<firestore.DocumentSnapshot<T>>,
     onError?: ErrorFn,
     onCompletion?: CompleteFn
   ): Unsubscribe;
   onSnapshot(
     options: firestore.SnapshotListenOptions,
-    onNext: NextFn<firestore.DocumentSnapshot>,
+    onNext: NextFn<firestore.DocumentSnapshot<T>>,
     onError?: ErrorFn,
     onCompletion?: CompleteFn
   ): Unsubscribe;
@@ -917,7 +1408,7 @@ export class DocumentReference implements firestore.DocumentReference {
     let options: firestore.SnapshotListenOptions = {
       includeMetadataChanges: false
     };
-    let observer: PartialObserver<firestore.DocumentSnapshot>;
+    let observer: PartialObserver<firestore.DocumentSnapshot<T>>;
     let currArg = 0;
     if (
       typeof args[currArg] === 'object' &&
@@ -941,7 +1432,9 @@ export class DocumentReference implements firestore.DocumentReference {
     };
 
     if (isPartialObserver(args[currArg])) {
-      observer = args[currArg] as PartialObserver<firestore.DocumentSnapshot>;
+      observer = args[currArg] as PartialObserver<
+        firestore.DocumentSnapshot<T>
+      >;
     } else {
       validateArgType(
         'DocumentReference.onSnapshot',
@@ -962,7 +1455,7 @@ export class DocumentReference implements firestore.DocumentReference {
         args[currArg + 2]
       );
       observer = {
-        next: args[currArg] as NextFn<firestore.DocumentSnapshot>,
+        next: args[currArg] as NextFn<firestore.DocumentSnapshot<T>>,
         error: args[currArg + 1] as ErrorFn,
         complete: args[currArg + 2] as CompleteFn
       };
@@ -972,7 +1465,7 @@ export class DocumentReference implements firestore.DocumentReference {
 
   private onSnapshotInternal(
     options: ListenOptions,
-    observer: PartialObserver<firestore.DocumentSnapshot>
+    observer: PartialObserver<firestore.DocumentSnapshot<T>>
   ): Unsubscribe {
     let errHandler = (err: Error) => {
       console.error('Uncaught Error in onSnapshot:', err);
@@ -995,7 +1488,8 @@ export class DocumentReference implements firestore.DocumentReference {
               this.firestore,
               this._key,
               doc,
-              snapshot.fromCache
+              snapshot.fromCache,
+              this._converter
             )
           );
         }
@@ -1014,7 +1508,7 @@ export class DocumentReference implements firestore.DocumentReference {
     };
   }
 
-  get(options?: firestore.GetOptions): Promise<firestore.DocumentSnapshot> {
+  get(options?: firestore.GetOptions): Promise<firestore.DocumentSnapshot<T>> {
     validateOptionNames('DocumentReference.get', options, ['source']);
     if (options) {
       validateNamedOptionalPropertyEquals(
@@ -1026,7 +1520,7 @@ export class DocumentReference implements firestore.DocumentReference {
       );
     }
     return new Promise(
-      (resolve: Resolver<firestore.DocumentSnapshot>, reject: Rejecter) => {
+      (resolve: Resolver<firestore.DocumentSnapshot<T>>, reject: Rejecter) => {
         if (options && options.source === 'cache') {
           this.firestore
             .ensureClientConfigured()
@@ -1037,7 +1531,8 @@ export class DocumentReference implements firestore.DocumentReference {
                   this.firestore,
                   this._key,
                   doc,
-                  /*fromCache=*/ true
+                  /*fromCache=*/ true,
+                  this._converter
                 )
               );
             }, reject);
@@ -1048,8 +1543,15 @@ export class DocumentReference implements firestore.DocumentReference {
     );
   }
 
+  withConverter<U>(
+    converter: firestore.FirestoreDataConverter<U>
+  ): firestore.DocumentReference<U> {
+    validateExactNumberOfArgs('DocumentReference.withConverter', arguments, 1);
+    return new DocumentReference<U>(this._key, this.firestore, converter);
+  }
+
   private getViaSnapshotListener(
-    resolve: Resolver<firestore.DocumentSnapshot>,
+    resolve: Resolver<firestore.DocumentSnapshot<T>>,
     reject: Rejecter,
     options?: firestore.GetOptions
   ): void {
@@ -1059,7 +1561,7 @@ export class DocumentReference implements firestore.DocumentReference {
         waitForSyncWhenOnline: true
       },
       {
-        next: (snap: firestore.DocumentSnapshot) => {
+        next: (snap: firestore.DocumentSnapshot<T>) => {
           // Remove query first before passing event to user to avoid
           // user actions affecting the now stale query.
           unlisten();
@@ -1123,28 +1625,40 @@ class SnapshotMetadata implements firestore.SnapshotMetadata {
  */
 export interface SnapshotOptions extends firestore.SnapshotOptions {}
 
-export class DocumentSnapshot implements firestore.DocumentSnapshot {
+export class DocumentSnapshot<T = firestore.DocumentData>
+  implements firestore.DocumentSnapshot<T> {
   constructor(
     private _firestore: Firestore,
     private _key: DocumentKey,
     public _document: Document | null,
-    private _fromCache: boolean
+    private _fromCache: boolean,
+    private readonly _converter?: firestore.FirestoreDataConverter<T>
   ) {}
 
-  data(
-    options?: firestore.SnapshotOptions
-  ): firestore.DocumentData | undefined {
+  data(options?: firestore.SnapshotOptions): T | undefined {
     validateBetweenNumberOfArgs('DocumentSnapshot.data', arguments, 0, 1);
     options = validateSnapshotOptions('DocumentSnapshot.data', options);
-    return !this._document
-      ? undefined
-      : this.convertObject(
-          this._document.data,
-          FieldValueOptions.fromSnapshotOptions(
-            options,
-            this._firestore._areTimestampsInSnapshotsEnabled()
-          )
-        );
+    if (!this._document) {
+      return undefined;
+    } else if (this._converter) {
+      // The converter is handed a snapshot without a converter so that it can
+      // read the raw document data via `data()`.
+      const snapshot = new QueryDocumentSnapshot(
+        this._firestore,
+        this._key,
+        this._document,
+        this._fromCache
+      );
+      return this._converter.fromFirestore(snapshot, options);
+    } else {
+      return this.convertObject(
+        this._document.data,
+        FieldValueOptions.fromSnapshotOptions(
+          options,
+          this._firestore._areTimestampsInSnapshotsEnabled()
+        )
+      ) as T;
+    }
   }
 
   get(
@@ -1174,8 +1688,12 @@ export class DocumentSnapshot implements firestore.DocumentSnapshot {
     return this._key.path.lastSegment();
   }
 
-  get ref(): firestore.DocumentReference {
-    return new DocumentReference(this._key, this._firestore);
+  get ref(): firestore.DocumentReference<T> {
+    return new DocumentReference<T>(
+      this._key,
+      this._firestore,
+      this._converter
+    );
   }
 
   get exists(): boolean {
@@ -1189,7 +1707,13 @@ export class DocumentSnapshot implements firestore.DocumentSnapshot {
     );
   }
 
-  isEqual(other: firestore.DocumentSnapshot): boolean {
+  toJSON(): object {
+    return this._firestore
+      ._snapshotJsonConverter()
+      .toDocumentSnapshotJson(this._key, this._document, this._fromCache);
+  }
+
+  isEqual(other: firestore.DocumentSnapshot<T>): boolean {
     if (!(other instanceof DocumentSnapshot)) {
       throw invalidClassError('isEqual', 'DocumentSnapshot', 1, other);
     }
@@ -1199,7 +1723,8 @@ export class DocumentSnapshot implements firestore.DocumentSnapshot {
       this._key.isEqual(other._key) &&
       (this._document === null
         ? other._document === null
-        : this._document.isEqual(other._document))
+        : this._document.isEqual(other._document)) &&
+      this._converter === other._converter
     );
   }
 
@@ -1248,35 +1773,41 @@ export class DocumentSnapshot implements firestore.DocumentSnapshot {
   }
 }
 
-export class QueryDocumentSnapshot extends DocumentSnapshot
-  implements firestore.QueryDocumentSnapshot {
+export class QueryDocumentSnapshot<T = firestore.DocumentData>
+  extends DocumentSnapshot<T>
+  implements firestore.QueryDocumentSnapshot<T> {
   constructor(
     firestore: Firestore,
     key: DocumentKey,
     document: Document,
-    fromCache: boolean
+    fromCache: boolean,
+    converter?: firestore.FirestoreDataConverter<T>
   ) {
-    super(firestore, key, document, fromCache);
+    super(firestore, key, document, fromCache, converter);
   }
 
-  data(options?: SnapshotOptions): firestore.DocumentData {
+  data(options?: SnapshotOptions): T {
     const data = super.data(options);
     assert(
-      typeof data === 'object',
+      data !== undefined,
       'Document in a QueryDocumentSnapshot should exist'
     );
-    return data as firestore.DocumentData;
+    return data as T;
   }
 }
 
-export class Query implements firestore.Query {
-  constructor(public _query: InternalQuery, readonly firestore: Firestore) {}
+export class Query<T = firestore.DocumentData> implements firestore.Query<T> {
+  constructor(
+    public _query: InternalQuery,
+    readonly firestore: Firestore,
+    readonly _converter?: firestore.FirestoreDataConverter<T>
+  ) {}
 
   where(
     field: string | ExternalFieldPath,
     opStr: firestore.WhereFilterOp,
     value: AnyJs
-  ): firestore.Query {
+  ): firestore.Query<T> {
     validateExactNumberOfArgs('Query.where', arguments, 3);
     validateArgType('Query.where', 'string', 2, opStr);
     validateDefined('Query.where', 3, value);
@@ -1284,50 +1815,36 @@ export class Query implements firestore.Query {
     const fieldPath = fieldPathFromArgument('Query.where', field);
     const relationOp = RelationOp.fromString(opStr);
     if (fieldPath.isKeyField()) {
-      if (relationOp === RelationOp.ARRAY_CONTAINS) {
+      if (
+        relationOp === RelationOp.ARRAY_CONTAINS ||
+        relationOp === RelationOp.ARRAY_CONTAINS_ANY
+      ) {
         throw new FirestoreError(
           Code.INVALID_ARGUMENT,
-          "Invalid Query. You can't perform array-contains queries on " +
-            'FieldPath.documentId() since document IDs are not arrays.'
+          `Invalid Query. You can't perform ${relationOp.toString()} ` +
+            'queries on FieldPath.documentId() since document IDs are not ' +
+            'arrays.'
         );
-      }
-      if (typeof value === 'string') {
-        if (value.indexOf('/') !== -1) {
-          // TODO(dimond): Allow slashes once ancestor queries are supported
-          throw new FirestoreError(
-            Code.INVALID_ARGUMENT,
-            'Function Query.where() requires its third parameter to be a ' +
-              'valid document ID if the first parameter is ' +
-              'FieldPath.documentId(), but it contains a slash.'
-          );
-        }
-        if (value === '') {
-          throw new FirestoreError(
-            Code.INVALID_ARGUMENT,
-            'Function Query.where() requires its third parameter to be a ' +
-              'valid document ID if the first parameter is ' +
-              'FieldPath.documentId(), but it was an empty string.'
-          );
-        }
-        const path = this._query.path.child(new ResourcePath([value]));
-        assert(path.length % 2 === 0, 'Path should be a document key');
-        fieldValue = new RefValue(
-          this.firestore._databaseId,
-          new DocumentKey(path)
+      } else if (
+        relationOp === RelationOp.IN ||
+        relationOp === RelationOp.NOT_IN
+      ) {
+        this.validateDisjunctiveFilterElements(value, relationOp);
+        const referenceList = (value as AnyJs[]).map(documentId =>
+          this.parseDocumentIdValue(documentId)
         );
-      } else if (value instanceof DocumentReference) {
-        const ref = value as DocumentReference;
-        fieldValue = new RefValue(this.firestore._databaseId, ref._key);
+        fieldValue = new ArrayValue(referenceList);
       } else {
-        throw new FirestoreError(
-          Code.INVALID_ARGUMENT,
-          `Function Query.where() requires its third parameter to be a ` +
-            `string or a DocumentReference if the first parameter is ` +
-            `FieldPath.documentId(), but it was: ` +
-            `${valueDescription(value)}.`
-        );
+        fieldValue = this.parseDocumentIdValue(value);
       }
     } else {
+      if (
+        relationOp === RelationOp.IN ||
+        relationOp === RelationOp.NOT_IN ||
+        relationOp === RelationOp.ARRAY_CONTAINS_ANY
+      ) {
+        this.validateDisjunctiveFilterElements(value, relationOp);
+      }
       fieldValue = this.firestore._dataConverter.parseQueryValue(
         'Query.where',
         value
@@ -1335,13 +1852,17 @@ export class Query implements firestore.Query {
     }
     const filter = fieldFilter(fieldPath, relationOp, fieldValue);
     this.validateNewFilter(filter);
-    return new Query(this._query.addFilter(filter), this.firestore);
+    return new Query(
+      this._query.addFilter(filter),
+      this.firestore,
+      this._converter
+    );
   }
 
   orderBy(
     field: string | ExternalFieldPath,
     directionStr?: firestore.OrderByDirection
-  ): firestore.Query {
+  ): firestore.Query<T> {
     validateBetweenNumberOfArgs('Query.orderBy', arguments, 1, 2);
     validateOptionalArgType('Query.orderBy', 'string', 2, directionStr);
     let direction: Direction;
@@ -1373,10 +1894,14 @@ export class Query implements firestore.Query {
     const fieldPath = fieldPathFromArgument('Query.orderBy', field);
     const orderBy = new OrderBy(fieldPath, direction);
     this.validateNewOrderBy(orderBy);
-    return new Query(this._query.addOrderBy(orderBy), this.firestore);
+    return new Query(
+      this._query.addOrderBy(orderBy),
+      this.firestore,
+      this._converter
+    );
   }
 
-  limit(n: number): firestore.Query {
+  limit(n: number): firestore.Query<T> {
     validateExactNumberOfArgs('Query.limit', arguments, 1);
     validateArgType('Query.limit', 'number', 1, n);
     if (n <= 0) {
@@ -1386,13 +1911,34 @@ export class Query implements firestore.Query {
           'positive.'
       );
     }
-    return new Query(this._query.withLimit(n), this.firestore);
+    return new Query(
+      this._query.withLimitToFirst(n),
+      this.firestore,
+      this._converter
+    );
+  }
+
+  limitToLast(n: number): firestore.Query<T> {
+    validateExactNumberOfArgs('Query.limitToLast', arguments, 1);
+    validateArgType('Query.limitToLast', 'number', 1, n);
+    if (n <= 0) {
+      throw new FirestoreError(
+        Code.INVALID_ARGUMENT,
+        `Invalid Query. Query limitToLast (${n}) is invalid. Limit must ` +
+          'be positive.'
+      );
+    }
+    return new Query(
+      this._query.withLimitToLast(n),
+      this.firestore,
+      this._converter
+    );
   }
 
   startAt(
     docOrField: AnyJs | firestore.DocumentSnapshot,
     ...fields: AnyJs[]
-  ): firestore.Query {
+  ): firestore.Query<T> {
     validateAtLeastNumberOfArgs('Query.startAt', arguments, 1);
     const bound = this.boundFromDocOrFields(
       'Query.startAt',
@@ -1400,13 +1946,17 @@ export class Query implements firestore.Query {
       fields,
       /*before=*/ true
     );
-    return new Query(this._query.withStartAt(bound), this.firestore);
+    return new Query(
+      this._query.withStartAt(bound),
+      this.firestore,
+      this._converter
+    );
   }
 
   startAfter(
     docOrField: AnyJs | firestore.DocumentSnapshot,
     ...fields: AnyJs[]
-  ): firestore.Query {
+  ): firestore.Query<T> {
     validateAtLeastNumberOfArgs('Query.startAfter', arguments, 1);
     const bound = this.boundFromDocOrFields(
       'Query.startAfter',
@@ -1414,13 +1964,17 @@ export class Query implements firestore.Query {
       fields,
       /*before=*/ false
     );
-    return new Query(this._query.withStartAt(bound), this.firestore);
+    return new Query(
+      this._query.withStartAt(bound),
+      this.firestore,
+      this._converter
+    );
   }
 
   endBefore(
     docOrField: AnyJs | firestore.DocumentSnapshot,
     ...fields: AnyJs[]
-  ): firestore.Query {
+  ): firestore.Query<T> {
     validateAtLeastNumberOfArgs('Query.endBefore', arguments, 1);
     const bound = this.boundFromDocOrFields(
       'Query.endBefore',
@@ -1428,13 +1982,17 @@ export class Query implements firestore.Query {
       fields,
       /*before=*/ true
     );
-    return new Query(this._query.withEndAt(bound), this.firestore);
+    return new Query(
+      this._query.withEndAt(bound),
+      this.firestore,
+      this._converter
+    );
   }
 
   endAt(
     docOrField: AnyJs | firestore.DocumentSnapshot,
     ...fields: AnyJs[]
-  ): firestore.Query {
+  ): firestore.Query<T> {
     validateAtLeastNumberOfArgs('Query.endAt', arguments, 1);
     const bound = this.boundFromDocOrFields(
       'Query.endAt',
@@ -1442,18 +2000,31 @@ export class Query implements firestore.Query {
       fields,
       /*before=*/ false
     );
-    return new Query(this._query.withEndAt(bound), this.firestore);
+    return new Query(
+      this._query.withEndAt(bound),
+      this.firestore,
+      this._converter
+    );
   }
 
-  isEqual(other: firestore.Query): boolean {
+  isEqual(other: firestore.Query<T>): boolean {
     if (!(other instanceof Query)) {
       throw invalidClassError('isEqual', 'Query', 1, other);
     }
     return (
-      this.firestore === other.firestore && this._query.isEqual(other._query)
+      this.firestore === other.firestore &&
+      this._query.isEqual(other._query) &&
+      this._converter === other._converter
     );
   }
 
+  withConverter<U>(
+    converter: firestore.FirestoreDataConverter<U>
+  ): firestore.Query<U> {
+    validateExactNumberOfArgs('Query.withConverter', arguments, 1);
+    return new Query<U>(this._query, this.firestore, converter);
+  }
+
   /** Helper function to create a bound from a document or fields */
   private boundFromDocOrFields(
     methodName: string,
@@ -1560,14 +2131,27 @@ export class Query implements firestore.Query {
               `${methodName}(), but got a ${typeof rawValue}`
           );
         }
-        if (rawValue.indexOf('/') !== -1) {
+        if (
+          !this._query.isCollectionGroupQuery() &&
+          rawValue.indexOf('/') !== -1
+        ) {
           throw new FirestoreError(
             Code.INVALID_ARGUMENT,
             `Invalid query. Document ID '${rawValue}' contains a slash in ` +
               `${methodName}()`
           );
         }
-        const key = new DocumentKey(this._query.path.child(rawValue));
+        const path = this._query.path.child(ResourcePath.fromString(rawValue));
+        if (!DocumentKey.isDocumentKey(path)) {
+          throw new FirestoreError(
+            Code.INVALID_ARGUMENT,
+            `Invalid query. When querying a collection group and ordering ` +
+              `by FieldPath.documentId(), the value passed to ${methodName}() ` +
+              `must result in a valid document path, but '${path}' is not ` +
+              `because it contains an odd number of segments.`
+          );
+        }
+        const key = new DocumentKey(path);
         components.push(new RefValue(this.firestore._databaseId, key));
       } else {
         const wrapped = this.firestore._dataConverter.parseQueryValue(
@@ -1581,27 +2165,30 @@ export class Query implements firestore.Query {
     return new Bound(components, before);
   }
 
-  onSnapshot(observer: PartialObserver<firestore.QuerySnapshot>): Unsubscribe;
+  onSnapshot(
+    observer: PartialObserver<firestore.QuerySnapshot<T>>
+  ): Unsubscribe;
   onSnapshot(
     options: firestore.SnapshotListenOptions,
-    observer: PartialObserver<firestore.QuerySnapshot>
+    observer: PartialObserver<firestore.QuerySnapshot<T>>
   ): Unsubscribe;
   onSnapshot(
-    onNext: NextFn<firestore.QuerySnapshot>,
+    onNext: NextFn<firestore.QuerySnapshot<T>>,
     onError?: ErrorFn,
     onCompletion?: CompleteFn
   ): Unsubscribe;
   onSnapshot(
     options: firestore.SnapshotListenOptions,
-    onNext: NextFn<firestore.QuerySnapshot>,
+    onNext: NextFn<firestore.QuerySnapshot<T>>,
     onError?: ErrorFn,
     onCompletion?: CompleteFn
   ): Unsubscribe;
 
   onSnapshot(...args: AnyJs[]): Unsubscribe {
     validateBetweenNumberOfArgs('Query.onSnapshot', arguments, 1, 4);
+    this.validateHasExplicitOrderByForLimitToLast();
     let options: firestore.SnapshotListenOptions = {};
-    let observer: PartialObserver<firestore.QuerySnapshot>;
+    let observer: PartialObserver<firestore.QuerySnapshot<T>>;
     let currArg = 0;
     if (
       typeof args[currArg] === 'object' &&
@@ -1621,7 +2208,7 @@ export class Query implements firestore.Query {
     }
 
     if (isPartialObserver(args[currArg])) {
-      observer = args[currArg] as PartialObserver<firestore.QuerySnapshot>;
+      observer = args[currArg] as PartialObserver<firestore.QuerySnapshot<T>>;
     } else {
       validateArgType('Query.onSnapshot', 'function', currArg, args[currArg]);
       validateOptionalArgType(
@@ -1637,7 +2224,7 @@ export class Query implements firestore.Query {
         args[currArg + 2]
       );
       observer = {
-        next: args[currArg] as NextFn<firestore.QuerySnapshot>,
+        next: args[currArg] as NextFn<firestore.QuerySnapshot<T>>,
         error: args[currArg + 1] as ErrorFn,
         complete: args[currArg + 2] as CompleteFn
       };
@@ -1647,7 +2234,7 @@ export class Query implements firestore.Query {
 
   private onSnapshotInternal(
     options: ListenOptions,
-    observer: PartialObserver<firestore.QuerySnapshot>
+    observer: PartialObserver<firestore.QuerySnapshot<T>>
   ): Unsubscribe {
     let errHandler = (err: Error) => {
       console.error('Uncaught Error in onSnapshot:', err);
@@ -1659,7 +2246,14 @@ export class Query implements firestore.Query {
     const asyncObserver = new AsyncObserver<ViewSnapshot>({
       next: (result: ViewSnapshot): void => {
         if (observer.next) {
-          observer.next(new QuerySnapshot(this.firestore, this._query, result));
+          observer.next(
+            new QuerySnapshot(
+              this.firestore,
+              this._query,
+              result,
+              this._converter
+            )
+          );
         }
       },
       error: errHandler
@@ -1677,16 +2271,24 @@ export class Query implements firestore.Query {
     };
   }
 
-  get(options?: firestore.GetOptions): Promise<firestore.QuerySnapshot> {
+  get(options?: firestore.GetOptions): Promise<firestore.QuerySnapshot<T>> {
     validateBetweenNumberOfArgs('Query.get', arguments, 0, 1);
+    this.validateHasExplicitOrderByForLimitToLast();
     return new Promise(
-      (resolve: Resolver<firestore.QuerySnapshot>, reject: Rejecter) => {
+      (resolve: Resolver<firestore.QuerySnapshot<T>>, reject: Rejecter) => {
         if (options && options.source === 'cache') {
           this.firestore
             .ensureClientConfigured()
             .getDocumentsFromLocalCache(this._query)
             .then((viewSnap: ViewSnapshot) => {
-              resolve(new QuerySnapshot(this.firestore, this._query, viewSnap));
+              resolve(
+                new QuerySnapshot(
+                  this.firestore,
+                  this._query,
+                  viewSnap,
+                  this._converter
+                )
+              );
             }, reject);
         } else {
           this.getViaSnapshotListener(resolve, reject, options);
@@ -1695,8 +2297,46 @@ export class Query implements firestore.Query {
     );
   }
 
+  count(): firestore.AggregateQuery<{ count: number }> {
+    validateExactNumberOfArgs('Query.count', arguments, 0);
+    return this.aggregate([new Aggregate('count', 'count')]);
+  }
+
+  sum(
+    field: string | ExternalFieldPath
+  ): firestore.AggregateQuery<{
+    sum: number;
+  }> {
+    validateExactNumberOfArgs('Query.sum', arguments, 1);
+    return this.aggregate([
+      new Aggregate('sum', 'sum', fieldPathFromArgument('Query.sum', field))
+    ]);
+  }
+
+  average(
+    field: string | ExternalFieldPath
+  ): firestore.AggregateQuery<{
+    average: number | null;
+  }> {
+    validateExactNumberOfArgs('Query.average', arguments, 1);
+    return this.aggregate([
+      new Aggregate(
+        'average',
+        'avg',
+        fieldPathFromArgument('Query.average', field)
+      )
+    ]);
+  }
+
+  private aggregate<R extends firestore.AggregateData>(
+    aggregates: Aggregate[]
+  ): AggregateQuery<R> {
+    this.validateHasExplicitOrderByForLimitToLast();
+    return new AggregateQuery<R>(this, aggregates);
+  }
+
   private getViaSnapshotListener(
-    resolve: Resolver<firestore.QuerySnapshot>,
+    resolve: Resolver<firestore.QuerySnapshot<T>>,
     reject: Rejecter,
     options?: firestore.GetOptions
   ): void {
@@ -1706,7 +2346,7 @@ export class Query implements firestore.Query {
         waitForSyncWhenOnline: true
       },
       {
-        next: (result: firestore.QuerySnapshot) => {
+        next: (result: firestore.QuerySnapshot<T>) => {
           // Remove query first before passing event to user to avoid
           // user actions affecting the now stale query.
           unlisten();
@@ -1734,6 +2374,101 @@ export class Query implements firestore.Query {
     );
   }
 
+  /**
+   * Throws if this is a limitToLast() query without an explicit orderBy()
+   * clause.
+   */
+  private validateHasExplicitOrderByForLimitToLast(): void {
+    if (
+      this._query.hasLimitToLast() &&
+      this._query.explicitOrderBy.length === 0
+    ) {
+      throw new FirestoreError(
+        Code.UNIMPLEMENTED,
+        'limitToLast() queries require specifying at least one orderBy() clause'
+      );
+    }
+  }
+
+  /**
+   * Parses the given documentIdValue into a RefValue, throwing appropriate
+   * errors if the value is anything other than a DocumentReference or a
+   * document ID string.
+   */
+  private parseDocumentIdValue(documentIdValue: AnyJs): RefValue {
+    if (typeof documentIdValue === 'string') {
+      if (documentIdValue === '') {
+        throw new FirestoreError(
+          Code.INVALID_ARGUMENT,
+          'Function Query.where() requires its third parameter to be a ' +
+            'valid document ID if the first parameter is ' +
+            'FieldPath.documentId(), but it was an empty string.'
+        );
+      }
+      if (
+        !this._query.isCollectionGroupQuery() &&
+        documentIdValue.indexOf('/') !== -1
+      ) {
+        throw new FirestoreError(
+          Code.INVALID_ARGUMENT,
+          'Function Query.where() requires its third parameter to be a ' +
+            'valid document ID if the first parameter is ' +
+            'FieldPath.documentId(), but it contains a slash.'
+        );
+      }
+      const path = this._query.path.child(
+        ResourcePath.fromString(documentIdValue)
+      );
+      if (!DocumentKey.isDocumentKey(path)) {
+        throw new FirestoreError(
+          Code.INVALID_ARGUMENT,
+          `Invalid third parameter to Query.where(). When querying a ` +
+            `collection group by FieldPath.documentId(), the value provided ` +
+            `must result in a valid document path, but '${path}' is not ` +
+            `because it has an odd number of segments (${path.length}).`
+        );
+      }
+      return new RefValue(this.firestore._databaseId, new DocumentKey(path));
+    } else if (documentIdValue instanceof DocumentReference) {
+      const ref = documentIdValue as DocumentReference;
+      return new RefValue(this.firestore._databaseId, ref._key);
+    } else {
+      throw new FirestoreError(
+        Code.INVALID_ARGUMENT,
+        `Function Query.where() requires its third parameter to be a ` +
+          `string or a DocumentReference if the first parameter is ` +
+          `FieldPath.documentId(), but it was: ` +
+          `${valueDescription(documentIdValue)}.`
+      );
+    }
+  }
+
+  /**
+   * Validates that the value passed into a disjunctive filter ('in',
+   * 'array-contains-any' or 'not-in') is a non-empty array with at most
+   * MAX_DISJUNCTIVE_FILTER_ELEMENTS elements.
+   */
+  private validateDisjunctiveFilterElements(
+    value: AnyJs,
+    operator: RelationOp
+  ): void {
+    if (!(value instanceof Array) || value.length === 0) {
+      throw new FirestoreError(
+        Code.INVALID_ARGUMENT,
+        'Invalid Query. A non-empty array is required for ' +
+          `'${operator.toString()}' filters.`
+      );
+    }
+    if (value.length > MAX_DISJUNCTIVE_FILTER_ELEMENTS) {
+      throw new FirestoreError(
+        Code.INVALID_ARGUMENT,
+        `Invalid Query. '${operator.toString()}' filters support a ` +
+          `maximum of ${MAX_DISJUNCTIVE_FILTER_ELEMENTS} elements in the ` +
+          'value array.'
+      );
+    }
+  }
+
   private validateNewFilter(filter: Filter): void {
     if (filter instanceof RelationFilter) {
       if (filter.isInequality()) {
@@ -1742,8 +2477,9 @@ export class Query implements firestore.Query {
           throw new FirestoreError(
             Code.INVALID_ARGUMENT,
             'Invalid query. All where filters with an inequality' +
-              ' (<, <=, >, or >=) must be on the same field. But you have' +
-              ` inequality filters on '${existingField.toString()}'` +
+              ' (<, <=, !=, not-in, >, or >=) must be on the same field.' +
+              ` But you have inequality filters on` +
+              ` '${existingField.toString()}'` +
               ` and '${filter.field.toString()}'`
           );
         }
@@ -1755,14 +2491,35 @@ export class Query implements firestore.Query {
             firstOrderByField
           );
         }
-      } else if (filter.op === RelationOp.ARRAY_CONTAINS) {
-        if (this._query.hasArrayContainsFilter()) {
-          throw new FirestoreError(
-            Code.INVALID_ARGUMENT,
-            'Invalid query. Queries only support a single array-contains ' +
-              'filter.'
-          );
-        }
+      }
+
+      const conflictingOp = this._query.findFilterOperator(
+        conflictingOps(filter.op)
+      );
+      if (conflictingOp === null) {
+        return;
+      }
+      if (
+        conflictingOp === RelationOp.ARRAY_CONTAINS &&
+        filter.op === RelationOp.ARRAY_CONTAINS
+      ) {
+        throw new FirestoreError(
+          Code.INVALID_ARGUMENT,
+          'Invalid query. Queries only support a single array-contains ' +
+            'filter.'
+        );
+      } else if (conflictingOp === filter.op) {
+        throw new FirestoreError(
+          Code.INVALID_ARGUMENT,
+          'Invalid query. You cannot use more than one ' +
+            `'${filter.op.toString()}' filter.`
+        );
+      } else {
+        throw new FirestoreError(
+          Code.INVALID_ARGUMENT,
+          `Invalid query. You cannot use '${filter.op.toString()}' filters ` +
+            `with '${conflictingOp.toString()}' filters.`
+        );
       }
     }
   }
@@ -1785,7 +2542,7 @@ export class Query implements firestore.Query {
       throw new FirestoreError(
         Code.INVALID_ARGUMENT,
         `Invalid query. You have a where filter with an inequality ` +
-          `(<, <=, >, or >=) on field '${inequality.toString()}' ` +
+          `(<, <=, !=, not-in, >, or >=) on field '${inequality.toString()}' ` +
           `and so you must also use '${inequality.toString()}' ` +
           `as your first Query.orderBy(), but your first Query.orderBy() ` +
           `is on field '${orderBy.toString()}' instead.`
@@ -1794,8 +2551,45 @@ export class Query implements firestore.Query {
   }
 }
 
-export class QuerySnapshot implements firestore.QuerySnapshot {
-  private _cachedChanges: firestore.DocumentChange[] | null = null;
+/**
+ * Returns the operators that cannot be combined with the given operator in a
+ * single query.
+ */
+function conflictingOps(op: RelationOp): RelationOp[] {
+  switch (op) {
+    case RelationOp.NOT_EQUAL:
+      return [RelationOp.NOT_EQUAL, RelationOp.NOT_IN];
+    case RelationOp.ARRAY_CONTAINS:
+      return [
+        RelationOp.ARRAY_CONTAINS,
+        RelationOp.ARRAY_CONTAINS_ANY,
+        RelationOp.NOT_IN
+      ];
+    case RelationOp.IN:
+      return [RelationOp.ARRAY_CONTAINS_ANY, RelationOp.IN, RelationOp.NOT_IN];
+    case RelationOp.ARRAY_CONTAINS_ANY:
+      return [
+        RelationOp.ARRAY_CONTAINS,
+        RelationOp.ARRAY_CONTAINS_ANY,
+        RelationOp.IN,
+        RelationOp.NOT_IN
+      ];
+    case RelationOp.NOT_IN:
+      return [
+        RelationOp.ARRAY_CONTAINS,
+        RelationOp.ARRAY_CONTAINS_ANY,
+        RelationOp.IN,
+        RelationOp.NOT_IN,
+        RelationOp.NOT_EQUAL
+      ];
+    default:
+      return [];
+  }
+}
+
+export class QuerySnapshot<T = firestore.DocumentData>
+  implements firestore.QuerySnapshot<T> {
+  private _cachedChanges: Array<firestore.DocumentChange<T>> | null = null;
   private _cachedChangesIncludeMetadataChanges: boolean | null = null;
 
   readonly metadata: firestore.SnapshotMetadata;
@@ -1803,7 +2597,8 @@ export class QuerySnapshot implements firestore.QuerySnapshot {
   constructor(
     private _firestore: Firestore,
     private _originalQuery: InternalQuery,
-    private _snapshot: ViewSnapshot
+    private _snapshot: ViewSnapshot,
+    private _converter?: firestore.FirestoreDataConverter<T>
   ) {
     this.metadata = new SnapshotMetadata(
       _snapshot.hasPendingWrites,
@@ -1811,8 +2606,8 @@ export class QuerySnapshot implements firestore.QuerySnapshot {
     );
   }
 
-  get docs(): firestore.QueryDocumentSnapshot[] {
-    const result: firestore.QueryDocumentSnapshot[] = [];
+  get docs(): Array<firestore.QueryDocumentSnapshot<T>> {
+    const result: Array<firestore.QueryDocumentSnapshot<T>> = [];
     this.forEach(doc => result.push(doc));
     return result;
   }
@@ -1826,7 +2621,7 @@ export class QuerySnapshot implements firestore.QuerySnapshot {
   }
 
   forEach(
-    callback: (result: firestore.QueryDocumentSnapshot) => void,
+    callback: (result: firestore.QueryDocumentSnapshot<T>) => void,
     thisArg?: AnyJs
   ): void {
     validateBetweenNumberOfArgs('QuerySnapshot.forEach', arguments, 1, 2);
@@ -1836,13 +2631,13 @@ export class QuerySnapshot implements firestore.QuerySnapshot {
     });
   }
 
-  get query(): firestore.Query {
-    return new Query(this._originalQuery, this._firestore);
+  get query(): firestore.Query<T> {
+    return new Query(this._originalQuery, this._firestore, this._converter);
   }
 
   docChanges(
     options?: firestore.SnapshotListenOptions
-  ): firestore.DocumentChange[] {
+  ): Array<firestore.DocumentChange<T>> {
     validateOptionNames('QuerySnapshot.docChanges', options, [
       'includeMetadataChanges'
     ]);
@@ -1873,7 +2668,8 @@ export class QuerySnapshot implements firestore.QuerySnapshot {
       this._cachedChanges = changesFromSnapshot(
         this._firestore,
         includeMetadataChanges,
-        this._snapshot
+        this._snapshot,
+        this._converter
       );
       this._cachedChangesIncludeMetadataChanges = includeMetadataChanges;
     }
@@ -1881,8 +2677,14 @@ export class QuerySnapshot implements firestore.QuerySnapshot {
     return this._cachedChanges;
   }
 
+  toJSON(): object {
+    return this._firestore
+      ._snapshotJsonConverter()
+      .toQuerySnapshotJson(this._originalQuery, this._snapshot);
+  }
+
   /** Check the equality. The call can be very expensive. */
-  isEqual(other: firestore.QuerySnapshot): boolean {
+  isEqual(other: firestore.QuerySnapshot<T>): boolean {
     if (!(other instanceof QuerySnapshot)) {
       throw invalidClassError('isEqual', 'QuerySnapshot', 1, other);
     }
@@ -1890,16 +2692,18 @@ export class QuerySnapshot implements firestore.QuerySnapshot {
     return (
       this._firestore === other._firestore &&
       this._originalQuery.isEqual(other._originalQuery) &&
-      this._snapshot.isEqual(other._snapshot)
+      this._snapshot.isEqual(other._snapshot) &&
+      this._converter === other._converter
     );
   }
 
-  private convertToDocumentImpl(doc: Document): QueryDocumentSnapshot {
+  private convertToDocumentImpl(doc: Document): QueryDocumentSnapshot<T> {
     return new QueryDocumentSnapshot(
       this._firestore,
       doc.key,
       doc,
-      this.metadata.fromCache
+      this.metadata.fromCache,
+      this._converter
     );
   }
 }
@@ -1940,10 +2744,14 @@ docChangesPropertiesToOverride.forEach(property => {
   } catch (err) {} // Ignore this failure intentionally
 });
 
-export class CollectionReference extends Query
-  implements firestore.CollectionReference {
-  constructor(path: ResourcePath, firestore: Firestore) {
-    super(InternalQuery.atPath(path), firestore);
+export class CollectionReference<T = firestore.DocumentData> extends Query<T>
+  implements firestore.CollectionReference<T> {
+  constructor(
+    path: ResourcePath,
+    firestore: Firestore,
+    converter?: firestore.FirestoreDataConverter<T>
+  ) {
+    super(InternalQuery.atPath(path), firestore, converter);
     if (path.length % 2 !== 1) {
       throw new FirestoreError(
         Code.INVALID_ARGUMENT,
@@ -1958,7 +2766,7 @@ export class CollectionReference extends Query
     return this._query.path.lastSegment();
   }
 
-  get parent(): firestore.DocumentReference | null {
+  get parent(): firestore.DocumentReference<firestore.DocumentData> | null {
     const parentPath = this._query.path.popLast();
     if (parentPath.isEmpty()) {
       return null;
@@ -1971,7 +2779,7 @@ export class CollectionReference extends Query
     return this._query.path.canonicalString();
   }
 
-  doc(pathString?: string): firestore.DocumentReference {
+  doc(pathString?: string): firestore.DocumentReference<T> {
     validateBetweenNumberOfArgs('CollectionReference.doc', arguments, 0, 1);
     // We allow omission of 'pathString' but explicitly prohibit passing in both
     // 'undefined' and 'null'.
@@ -1988,15 +2796,38 @@ export class CollectionReference extends Query
     const path = ResourcePath.fromString(pathString);
     return DocumentReference.forPath(
       this._query.path.child(path),
-      this.firestore
+      this.firestore,
+      this._converter
     );
   }
 
-  add(value: firestore.DocumentData): Promise<firestore.DocumentReference> {
+  add(value: T): Promise<firestore.DocumentReference<T>> {
     validateExactNumberOfArgs('CollectionReference.add', arguments, 1);
-    validateArgType('CollectionReference.add', 'object', 1, value);
-    const docRef = this.doc();
-    return docRef.set(value).then(() => docRef);
+    const convertedValue = this._converter
+      ? this._converter.toFirestore(value)
+      : value;
+    validateArgType('CollectionReference.add', 'object', 1, convertedValue);
+    const docRef = this.doc() as DocumentReference<T>;
+    // Set the converted value directly, so that toFirestore() is only called
+    // once.
+    return new DocumentReference(docRef._key, this.firestore)
+      .set(convertedValue)
+      .then(() => docRef);
+  }
+
+  withConverter<U>(
+    converter: firestore.FirestoreDataConverter<U>
+  ): firestore.CollectionReference<U> {
+    validateExactNumberOfArgs(
+      'CollectionReference.withConverter',
+      arguments,
+      1
+    );
+    return new CollectionReference<U>(
+      this._query.path,
+      this.firestore,
+      converter
+    );
   }
 }
 
@@ -2050,11 +2881,105 @@ function validateSnapshotOptions(
   return options;
 }
 
-function validateReference(
+function validateGetAllOptions(
   methodName: string,
-  documentRef: firestore.DocumentReference,
+  options: firestore.GetAllOptions
+): void {
+  validateOptionNames(methodName, options, ['source', 'fieldMask']);
+  validateNamedOptionalPropertyEquals(
+    methodName,
+    'options',
+    'source',
+    options.source,
+    ['default', 'server', 'cache']
+  );
+  validateOptionalArrayElements(
+    methodName,
+    'fieldMask',
+    'a string or a FieldPath',
+    options.fieldMask,
+    element =>
+      typeof element === 'string' || element instanceof ExternalFieldPath
+  );
+}
+
+function fieldIndexesFromConfiguration(
+  methodName: string,
+  configuration: firestore.IndexConfiguration
+): FieldIndex[] {
+  validateOptionNames(methodName, configuration, ['indexes']);
+  validateArrayElements(
+    methodName,
+    'indexes',
+    'objects',
+    configuration.indexes,
+    isPlainObject
+  );
+  return configuration.indexes.map(index => {
+    validateOptionNames(methodName, index, ['collectionGroup', 'fieldPath']);
+    validateNamedType(
+      methodName,
+      'string',
+      'collectionGroup',
+      index.collectionGroup
+    );
+    if (!index.collectionGroup || index.collectionGroup.indexOf('/') >= 0) {
+      throw new FirestoreError(
+        Code.INVALID_ARGUMENT,
+        `Invalid collection ID '${index.collectionGroup}' passed to ` +
+          `function ${methodName}(). Collection IDs must be non-empty and ` +
+          `must not contain '/'.`
+      );
+    }
+    const fieldPath = fieldPathFromArgument(methodName, index.fieldPath as
+      | string
+      | ExternalFieldPath);
+    if (fieldPath.isKeyField()) {
+      throw new FirestoreError(
+        Code.INVALID_ARGUMENT,
+        `Function ${methodName}() cannot create an index on the document ` +
+          'ID. Cached documents are already ordered by their ID.'
+      );
+    }
+    return new FieldIndex(index.collectionGroup, fieldPath);
+  });
+}
+
+function validateTransactionOptions(
+  methodName: string,
+  options: firestore.TransactionOptions
+): void {
+  validateOptionNames(methodName, options, ['maxAttempts', 'readOnly']);
+  validateNamedOptionalType(
+    methodName,
+    'number',
+    'maxAttempts',
+    options.maxAttempts
+  );
+  validateNamedOptionalType(
+    methodName,
+    'boolean',
+    'readOnly',
+    options.readOnly
+  );
+  const maxAttempts = options.maxAttempts;
+  if (
+    maxAttempts !== undefined &&
+    (maxAttempts < 1 || Math.floor(maxAttempts) !== maxAttempts)
+  ) {
+    throw new FirestoreError(
+      Code.INVALID_ARGUMENT,
+      `Function ${methodName}() requires its maxAttempts option to be a ` +
+        `positive integer, but it was: ${maxAttempts}`
+    );
+  }
+}
+
+function validateReference<T>(
+  methodName: string,
+  documentRef: firestore.DocumentReference<T>,
   firestore: Firestore
-): DocumentReference {
+): DocumentReference<T> {
   if (!(documentRef instanceof DocumentReference)) {
     throw invalidClassError(methodName, 'DocumentReference', 1, documentRef);
   } else if (documentRef.firestore !== firestore) {
@@ -2067,16 +2992,41 @@ function validateReference(
   }
 }
 
+/**
+ * Converts a custom model object of type T into DocumentData by applying the
+ * converter if it exists.
+ *
+ * This function is used when converting user objects to DocumentData
+ * because we want to provide the user with a more specific error message if
+ * their set() call fails due to invalid data originating from a toFirestore()
+ * call.
+ */
+function applyFirestoreDataConverter<T>(
+  converter: firestore.FirestoreDataConverter<T> | undefined,
+  value: T,
+  functionName: string
+): [firestore.DocumentData, string] {
+  let convertedValue;
+  if (converter) {
+    convertedValue = converter.toFirestore(value);
+    functionName = 'toFirestore() in ' + functionName;
+  } else {
+    convertedValue = value as firestore.DocumentData;
+  }
+  return [convertedValue, functionName];
+}
+
 /**
  * Calculates the array of firestore.DocumentChange's for a given ViewSnapshot.
  *
  * Exported for testing.
  */
-export function changesFromSnapshot(
+export function changesFromSnapshot<T>(
   firestore: Firestore,
   includeMetadataChanges: boolean,
-  snapshot: ViewSnapshot
-): firestore.DocumentChange[] {
+  snapshot: ViewSnapshot,
+  converter?: firestore.FirestoreDataConverter<T>
+): Array<firestore.DocumentChange<T>> {
   if (snapshot.oldDocs.isEmpty()) {
     // Special case the first snapshot because index calculation is easy and
     // fast
@@ -2087,7 +3037,8 @@ export function changesFromSnapshot(
         firestore,
         change.doc.key,
         change.doc,
-        snapshot.fromCache
+        snapshot.fromCache,
+        converter
       );
       assert(
         change.type === ChangeType.Added,
@@ -2118,7 +3069,8 @@ export function changesFromSnapshot(
           firestore,
           change.doc.key,
           change.doc,
-          snapshot.fromCache
+          snapshot.fromCache,
+          converter
         );
         let oldIndex = -1;
         let newIndex = -1;
@@ -17,7 +17,11 @@
 import * as firestore from '@firebase/firestore-types';
 
 import { makeConstructorPrivate } from '../util/api';
-import { validateAtLeastNumberOfArgs } from '../util/input_validation';
+import {
+  validateArgType,
+  validateAtLeastNumberOfArgs,
+  validateExactNumberOfArgs
+} from '../util/input_validation';
 import { AnyJs } from '../util/misc';
 
 /**
@@ -36,22 +40,26 @@ export abstract class FieldValueImpl implements firestore.FieldValue {
     return ServerTimestampFieldValueImpl.instance;
   }
 
-  // TODO(array-features): Expose this once backend support lands.
-  static _arrayUnion(...elements: AnyJs[]): FieldValueImpl {
+  static arrayUnion(...elements: AnyJs[]): FieldValueImpl {
     validateAtLeastNumberOfArgs('FieldValue.arrayUnion', arguments, 1);
     // NOTE: We don't actually parse the data until it's used in set() or
     // update() since we need access to the Firestore instance.
     return new ArrayUnionFieldValueImpl(elements);
   }
 
-  // TODO(array-features): Expose this once backend support lands.
-  static _arrayRemove(...elements: AnyJs[]): FieldValueImpl {
+  static arrayRemove(...elements: AnyJs[]): FieldValueImpl {
     validateAtLeastNumberOfArgs('FieldValue.arrayRemove', arguments, 1);
     // NOTE: We don't actually parse the data until it's used in set() or
     // update() since we need access to the Firestore instance.
     return new ArrayRemoveFieldValueImpl(elements);
   }
 
+  static increment(n: number): FieldValueImpl {
+    validateExactNumberOfArgs('FieldValue.increment', arguments, 1);
+    validateArgType('FieldValue.increment', 'number', 1, n);
+    return new NumericIncrementFieldValueImpl(n);
+  }
+
   isEqual(other: FieldValueImpl): boolean {
     return this === other;
   }
@@ -85,6 +93,19 @@ export class ArrayRemoveFieldValueImpl extends FieldValueImpl {
   }
 }
 
+export class NumericIncrementFieldValueImpl extends FieldValueImpl {
+  constructor(readonly _operand: number) {
+    super('FieldValue.increment');
+  }
+
+  isEqual(other: FieldValueImpl): boolean {
+    return (
+      other instanceof NumericIncrementFieldValueImpl &&
+      other._operand === this._operand
+    );
+  }
+}
+
 // Public instance that disallows construction at runtime. This constructor is
 // used when exporting FieldValueImpl on firebase.firestore.FieldValue and will
 // be called FieldValue publicly. Internally we still use FieldValueImpl which
@@ -28,6 +28,7 @@ import {
   GeoPointValue,
   IntegerValue,
   NullValue,
+  NumberValue,
   RefValue,
   StringValue,
   TimestampValue
@@ -61,13 +62,15 @@ import {
   FieldValueImpl,
   ServerTimestampFieldValueImpl,
   ArrayUnionFieldValueImpl,
-  ArrayRemoveFieldValueImpl
+  ArrayRemoveFieldValueImpl,
+  NumericIncrementFieldValueImpl
 } from './field_value';
 import { GeoPoint } from './geo_point';
 import {
   ServerTimestampTransform,
   ArrayUnionTransformOperation,
-  ArrayRemoveTransformOperation
+  ArrayRemoveTransformOperation,
+  NumericIncrementTransformOperation
 } from '../model/transform_operation';
 
 const RESERVED_FIELD_REGEX = /^__.*__$/;
@@ -128,7 +131,13 @@ enum UserDataSource {
    * Indicates the source is a where clause, cursor bound, arrayUnion()
    * element, etc. Of note, isWrite(source) will return false.
    */
-  Argument
+  Argument,
+  /**
+   * Indicates the source is an element passed to arrayUnion() or
+   * arrayRemove(). Behaves like Argument, except that FieldValue sentinels
+   * produce an error specific to array transforms.
+   */
+  ArrayArgument
 }
 
 function isWrite(dataSource: UserDataSource): boolean {
@@ -137,7 +146,8 @@ function isWrite(dataSource: UserDataSource): boolean {
     case UserDataSource.MergeSet: // fall through
     case UserDataSource.Update:
       return true;
-    case UserDataSource.Argument:
+    case UserDataSource.Argument: // fall through
+    case UserDataSource.ArrayArgument:
       return false;
     default:
       throw fail(`Unexpected case for UserDataSource: ${dataSource}`);
@@ -577,6 +587,12 @@ export class UserDataConverter {
     context: ParseContext
   ): void {
     // Sentinels are only supported with writes, and not within arrays.
+    if (context.dataSource === UserDataSource.ArrayArgument) {
+      throw context.createError(
+        `${value.methodName}() cannot be used as an element of ` +
+          `${context.methodName}()`
+      );
+    }
     if (!isWrite(context.dataSource)) {
       throw context.createError(
         `${value.methodName}() can only be used with update() and set()`
@@ -632,6 +648,15 @@ export class UserDataConverter {
       context.fieldTransforms.push(
         new FieldTransform(context.path, arrayRemove)
       );
+    } else if (value instanceof NumericIncrementFieldValueImpl) {
+      const operand = this.parseQueryValue(
+        'FieldValue.increment',
+        value._operand
+      ) as NumberValue;
+      const numericIncrement = new NumericIncrementTransformOperation(operand);
+      context.fieldTransforms.push(
+        new FieldTransform(context.path, numericIncrement)
+      );
     } else {
       fail('Unknown FieldValue type: ' + value);
     }
@@ -689,7 +714,7 @@ export class UserDataConverter {
       // being unioned or removed are not considered writes since they cannot
       // contain any FieldValue sentinels, etc.
       const context = new ParseContext(
-        UserDataSource.Argument,
+        UserDataSource.ArrayArgument,
         methodName,
         FieldPath.EMPTY_PATH
       );
@@ -0,0 +1,33 @@
+/**
+ * Copyright 2019 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { FieldPath } from '../model/path';
+
+/** The aggregation functions that can be run over the results of a query. */
+export type AggregateType = 'count' | 'sum' | 'avg';
+
+/**
+ * An aggregation over the results of a query, whose result is returned under
+ * the given alias.
+ */
+export class Aggregate {
+  constructor(
+    readonly alias: string,
+    readonly type: AggregateType,
+    /** The field to aggregate, which is null for 'count'. */
+    readonly fieldPath: FieldPath | null = null
+  ) {}
+}
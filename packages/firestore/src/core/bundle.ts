@@ -0,0 +1,273 @@
+/**
+ * Copyright 2019 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as api from '../protos/firestore_proto_api';
+import * as bundleProto from '../protos/firestore_bundle_proto';
+import { LocalStore } from '../local/local_store';
+import {
+  DocumentKeySet,
+  documentKeySet,
+  MaybeDocumentMap,
+  maybeDocumentMap
+} from '../model/collections';
+import { MaybeDocument, NoDocument } from '../model/document';
+import { DocumentKey } from '../model/document_key';
+import { JsonProtoSerializer } from '../remote/serializer';
+import { assert } from '../util/assert';
+import { SizedBundleElement } from '../util/bundle_reader';
+import { Code, FirestoreError } from '../util/error';
+import { sequence } from '../util/promise';
+
+import { Query } from './query';
+import { SnapshotVersion } from './snapshot_version';
+
+/** The state of a bundle loading task. */
+export type TaskState = 'Error' | 'Running' | 'Success';
+
+/** The progress of a bundle loading task, as reported to the user. */
+export interface LoadBundleTaskProgress {
+  documentsLoaded: number;
+  totalDocuments: number;
+  bytesLoaded: number;
+  totalBytes: number;
+  taskState: TaskState;
+}
+
+/** A bundle whose contents have been saved to local storage. */
+export interface Bundle {
+  readonly id: string;
+  readonly version: number;
+  /** The time at which the bundle was created. */
+  readonly createTime: SnapshotVersion;
+}
+
+/** A query from a bundle that has been saved to local storage. */
+export interface NamedQuery {
+  readonly name: string;
+  readonly query: Query;
+  /** The time at which the results of the query were read. */
+  readonly readTime: SnapshotVersion;
+}
+
+/** A document from a bundle, consisting of its metadata and its contents. */
+interface BundledDocument {
+  metadata: bundleProto.BundledDocumentMetadata;
+  /** The contents of the document, unless the document does not exist. */
+  document?: api.Document;
+}
+
+/** The result of loading the elements of a bundle into local storage. */
+export interface BundleLoadResult {
+  readonly progress: LoadBundleTaskProgress;
+  /** The documents whose local view changed because of the bundle. */
+  readonly changedDocs: MaybeDocumentMap;
+}
+
+/**
+ * Returns the progress of a task that has started loading the given bundle.
+ */
+export function bundleInitialProgress(
+  metadata: bundleProto.BundleMetadata
+): LoadBundleTaskProgress {
+  return {
+    taskState: 'Running',
+    documentsLoaded: 0,
+    bytesLoaded: 0,
+    totalDocuments: metadata.totalDocuments || 0,
+    totalBytes: metadata.totalBytes || 0
+  };
+}
+
+/**
+ * Returns the progress of a task that has finished loading the given bundle.
+ */
+export function bundleSuccessProgress(
+  metadata: bundleProto.BundleMetadata
+): LoadBundleTaskProgress {
+  return {
+    taskState: 'Success',
+    documentsLoaded: metadata.totalDocuments || 0,
+    bytesLoaded: metadata.totalBytes || 0,
+    totalDocuments: metadata.totalDocuments || 0,
+    totalBytes: metadata.totalBytes || 0
+  };
+}
+
+/** Converts the elements of a bundle into their model representation. */
+export class BundleConverter {
+  constructor(private readonly serializer: JsonProtoSerializer) {}
+
+  toBundle(metadata: bundleProto.BundleMetadata): Bundle {
+    return {
+      id: metadata.id!,
+      version: metadata.version!,
+      createTime: this.serializer.fromVersion(metadata.createTime!)
+    };
+  }
+
+  toNamedQuery(namedQuery: bundleProto.NamedQuery): NamedQuery {
+    const bundledQuery = namedQuery.bundledQuery!;
+    let query = this.serializer.fromQueryTarget({
+      parent: bundledQuery.parent,
+      structuredQuery: bundledQuery.structuredQuery
+    });
+    if (bundledQuery.limitType === 'LAST') {
+      query = query.withLimitToLast(query.limit);
+    }
+    return {
+      name: namedQuery.name!,
+      query,
+      readTime: this.serializer.fromVersion(namedQuery.readTime!)
+    };
+  }
+
+  toDocumentKey(name: string): DocumentKey {
+    return this.serializer.fromName(name);
+  }
+
+  /**
+   * Converts a bundled document into a Document, or into a NoDocument at the
+   * document's read time if it does not exist.
+   */
+  toMaybeDocument(bundledDoc: BundledDocument): MaybeDocument {
+    if (bundledDoc.metadata.exists) {
+      assert(
+        !!bundledDoc.document,
+        'Document is missing although its metadata says it exists.'
+      );
+      return this.serializer.fromDocument(bundledDoc.document!);
+    } else {
+      return new NoDocument(
+        this.toDocumentKey(bundledDoc.metadata.name!),
+        this.serializer.fromVersion(bundledDoc.metadata.readTime!)
+      );
+    }
+  }
+}
+
+/**
+ * Collects the elements of a bundle and saves them to local storage once all
+ * elements have been read.
+ */
+export class BundleLoader {
+  /** The named queries of the bundle, in the order they were read. */
+  private queries: bundleProto.NamedQuery[] = [];
+  /** The documents of the bundle, in the order they were read. */
+  private documents: BundledDocument[] = [];
+
+  private documentsLoaded = 0;
+  private bytesLoaded = 0;
+
+  constructor(
+    private readonly metadata: bundleProto.BundleMetadata,
+    private readonly localStore: LocalStore,
+    private readonly converter: BundleConverter
+  ) {}
+
+  /**
+   * Adds an element from the bundle to the loader.
+   *
+   * Returns the new progress if adding the element completed another
+   * document, and null otherwise.
+   */
+  addSizedElement(element: SizedBundleElement): LoadBundleTaskProgress | null {
+    assert(!element.isBundleMetadata(), 'Unexpected bundle metadata element.');
+    this.bytesLoaded += element.byteLength;
+
+    const documentsLoaded = this.documentsLoaded;
+    const payload = element.payload;
+    if (payload.namedQuery) {
+      this.queries.push(payload.namedQuery);
+    } else if (payload.documentMetadata) {
+      this.documents.push({ metadata: payload.documentMetadata });
+      if (!payload.documentMetadata.exists) {
+        ++this.documentsLoaded;
+      }
+    } else if (payload.document) {
+      const lastDocument = this.documents[this.documents.length - 1];
+      if (
+        !lastDocument ||
+        lastDocument.document ||
+        lastDocument.metadata.name !== payload.document.name
+      ) {
+        throw new FirestoreError(
+          Code.INVALID_ARGUMENT,
+          `Invalid bundle. The document '${payload.document.name}' is not ` +
+            'preceded by its metadata.'
+        );
+      }
+      lastDocument.document = payload.document;
+      ++this.documentsLoaded;
+    }
+
+    return this.documentsLoaded !== documentsLoaded
+      ? this.currentProgress('Running')
+      : null;
+  }
+
+  /**
+   * Saves the collected documents and named queries to local storage.
+   *
+   * The named queries are associated with the documents that the bundle lists
+   * as their results, so that listening to them can resume from the bundle's
+   * read time.
+   */
+  complete(): Promise<BundleLoadResult> {
+    let documents = maybeDocumentMap();
+    const queryResults: { [name: string]: DocumentKeySet } = {};
+    for (const bundledDoc of this.documents) {
+      if (bundledDoc.metadata.exists && !bundledDoc.document) {
+        return Promise.reject(
+          new FirestoreError(
+            Code.INVALID_ARGUMENT,
+            `Invalid bundle. The document '${bundledDoc.metadata.name}' is ` +
+              'missing.'
+          )
+        );
+      }
+      const maybeDoc = this.converter.toMaybeDocument(bundledDoc);
+      documents = documents.insert(maybeDoc.key, maybeDoc);
+      for (const queryName of bundledDoc.metadata.queries || []) {
+        const keys = queryResults[queryName] || documentKeySet();
+        queryResults[queryName] = keys.add(maybeDoc.key);
+      }
+    }
+
+    let changedDocs: MaybeDocumentMap;
+    return this.localStore
+      .applyBundleDocuments(documents, this.metadata.id!)
+      .then(result => {
+        changedDocs = result;
+        return sequence(this.queries, namedQuery =>
+          this.localStore.saveNamedQuery(
+            this.converter.toNamedQuery(namedQuery),
+            queryResults[namedQuery.name!] || documentKeySet()
+          )
+        );
+      })
+      .then(() => ({ progress: this.currentProgress('Success'), changedDocs }));
+  }
+
+  private currentProgress(taskState: TaskState): LoadBundleTaskProgress {
+    return {
+      taskState,
+      documentsLoaded: this.documentsLoaded,
+      bytesLoaded: this.bytesLoaded,
+      totalDocuments: this.metadata.totalDocuments || 0,
+      totalBytes: this.metadata.totalBytes || 0
+    };
+  }
+}
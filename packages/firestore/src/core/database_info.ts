@@ -26,12 +26,18 @@ export class DatabaseInfo {
    * storage (used in conjunction with the databaseId).
    * @param host The Firestore backend host to connect to.
    * @param ssl Whether to use SSL when connecting.
+   * @param forceLongPolling Whether to use the forceLongPolling option
+   * when using WebChannel as the network transport.
+   * @param autoDetectLongPolling Whether to run the WebChannel connection
+   * test that detects buffering proxies and falls back to long-polling.
    */
   constructor(
     readonly databaseId: DatabaseId,
     readonly persistenceKey: string,
     readonly host: string,
-    readonly ssl: boolean
+    readonly ssl: boolean,
+    readonly forceLongPolling: boolean,
+    readonly autoDetectLongPolling: boolean
   ) {}
 }
 
@@ -54,6 +54,8 @@ export class EventManager {
 
   private onlineState: OnlineState = OnlineState.Unknown;
 
+  private snapshotsInSyncListeners: Array<Observer<void>> = [];
+
   constructor(private syncEngine: SyncEngine) {
     this.syncEngine.subscribe(
       this.onChange.bind(this),
@@ -73,9 +75,14 @@ export class EventManager {
     }
     queryInfo.listeners.push(listener);
 
-    listener.applyOnlineStateChange(this.onlineState);
-
-    if (queryInfo.viewSnap) listener.onViewSnapshot(queryInfo.viewSnap);
+    // Run global snapshot listeners if a consistent snapshot has been emitted.
+    let raisedEvent = listener.applyOnlineStateChange(this.onlineState);
+    if (queryInfo.viewSnap) {
+      raisedEvent = listener.onViewSnapshot(queryInfo.viewSnap) || raisedEvent;
+    }
+    if (raisedEvent) {
+      this.raiseSnapshotsInSyncEvent();
+    }
 
     if (firstListen) {
       return this.syncEngine.listen(query).then(targetId => {
@@ -107,16 +114,22 @@ export class EventManager {
   }
 
   onChange(viewSnaps: ViewSnapshot[]): void {
+    let raisedEvent = false;
     for (const viewSnap of viewSnaps) {
       const query = viewSnap.query;
       const queryInfo = this.queries.get(query);
       if (queryInfo) {
         for (const listener of queryInfo.listeners) {
-          listener.onViewSnapshot(viewSnap);
+          if (listener.onViewSnapshot(viewSnap)) {
+            raisedEvent = true;
+          }
         }
         queryInfo.viewSnap = viewSnap;
       }
     }
+    if (raisedEvent) {
+      this.raiseSnapshotsInSyncEvent();
+    }
   }
 
   onError(query: Query, error: Error): void {
@@ -134,11 +147,45 @@ export class EventManager {
 
   applyOnlineStateChange(onlineState: OnlineState): void {
     this.onlineState = onlineState;
+    let raisedEvent = false;
     this.queries.forEach((_, queryInfo) => {
       for (const listener of queryInfo.listeners) {
-        listener.applyOnlineStateChange(onlineState);
+        // Run global snapshot listeners if a consistent snapshot has been
+        // emitted.
+        if (listener.applyOnlineStateChange(onlineState)) {
+          raisedEvent = true;
+        }
       }
     });
+    if (raisedEvent) {
+      this.raiseSnapshotsInSyncEvent();
+    }
+  }
+
+  /**
+   * Adds a listener that is notified whenever all snapshot listeners have
+   * received events from the same consistent state. The listener is notified
+   * right away, since all existing listeners are in sync when it is added.
+   */
+  addSnapshotsInSyncListener(observer: Observer<void>): void {
+    this.snapshotsInSyncListeners.push(observer);
+    // Immediately fire an initial event, indicating all existing listeners
+    // are in-sync.
+    observer.next(undefined);
+  }
+
+  removeSnapshotsInSyncListener(observer: Observer<void>): void {
+    const i = this.snapshotsInSyncListeners.indexOf(observer);
+    if (i >= 0) {
+      this.snapshotsInSyncListeners.splice(i, 1);
+    }
+  }
+
+  // Call all global snapshot listeners that have been set.
+  private raiseSnapshotsInSyncEvent(): void {
+    for (const observer of this.snapshotsInSyncListeners) {
+      observer.next(undefined);
+    }
   }
 }
 
@@ -180,7 +227,13 @@ export class QueryListener {
     this.options = options || {};
   }
 
-  onViewSnapshot(snap: ViewSnapshot): void {
+  /**
+   * Applies the new ViewSnapshot to this listener, raising a user-facing event
+   * if applicable (depending on what changed, whether the user has opted into
+   * metadata-only changes, etc.). Returns true if a user-facing event was
+   * indeed raised.
+   */
+  onViewSnapshot(snap: ViewSnapshot): boolean {
     assert(
       snap.docChanges.length > 0 || snap.syncStateChanged,
       'We got a new snapshot with no changes?'
@@ -206,30 +259,41 @@ export class QueryListener {
       );
     }
 
+    let raisedEvent = false;
     if (!this.raisedInitialEvent) {
       if (this.shouldRaiseInitialEvent(snap, this.onlineState)) {
         this.raiseInitialEvent(snap);
+        raisedEvent = true;
       }
     } else if (this.shouldRaiseEvent(snap)) {
       this.queryObserver.next(snap);
+      raisedEvent = true;
     }
 
     this.snap = snap;
+    return raisedEvent;
   }
 
   onError(error: Error): void {
     this.queryObserver.error(error);
   }
 
-  applyOnlineStateChange(onlineState: OnlineState): void {
+  /**
+   * Applies an OnlineState change to this listener. Returns true if the change
+   * caused the initial event to be raised.
+   */
+  applyOnlineStateChange(onlineState: OnlineState): boolean {
     this.onlineState = onlineState;
+    let raisedEvent = false;
     if (
       this.snap &&
       !this.raisedInitialEvent &&
       this.shouldRaiseInitialEvent(this.snap, onlineState)
     ) {
       this.raiseInitialEvent(this.snap);
+      raisedEvent = true;
     }
+    return raisedEvent;
   }
 
   private shouldRaiseInitialEvent(
@@ -14,6 +14,7 @@
  * limitations under the License.
  */
 
+import { LoadBundleTask } from '../api/bundle';
 import { CredentialsProvider } from '../api/credentials';
 import { User } from '../auth/user';
 import {
@@ -28,29 +29,46 @@ import { EagerGarbageCollector } from '../local/eager_garbage_collector';
 import { GarbageCollector } from '../local/garbage_collector';
 import { IndexedDbPersistence } from '../local/indexeddb_persistence';
 import { LocalStore } from '../local/local_store';
+import {
+  LruGarbageCollector,
+  LruParams,
+  LruScheduler
+} from '../local/lru_garbage_collector';
 import { MemoryPersistence } from '../local/memory_persistence';
-import { NoOpGarbageCollector } from '../local/no_op_garbage_collector';
 import { Persistence } from '../local/persistence';
+import {
+  MemorySharedClientState,
+  SharedClientState,
+  WebStorageSharedClientState
+} from '../local/shared_client_state';
 import {
   DocumentKeySet,
   documentKeySet,
-  DocumentMap
+  DocumentMap,
+  MaybeDocumentMap,
+  maybeDocumentMap
 } from '../model/collections';
 import { Document, MaybeDocument } from '../model/document';
 import { DocumentKey } from '../model/document_key';
-import { Mutation } from '../model/mutation';
+import { FieldIndex } from '../model/field_index';
+import { ObjectValue } from '../model/field_value';
+import { FieldMask, Mutation } from '../model/mutation';
 import { Platform } from '../platform/platform';
 import { Datastore } from '../remote/datastore';
 import { RemoteStore } from '../remote/remote_store';
 import { JsonProtoSerializer } from '../remote/serializer';
 import { AsyncQueue } from '../util/async_queue';
+import { BundleReader } from '../util/bundle_reader';
 import { Code, FirestoreError } from '../util/error';
 import { debug } from '../util/log';
+import { AutoId } from '../util/misc';
 import { Deferred } from '../util/promise';
 
+import { Aggregate } from './aggregate';
+import { NamedQuery } from './bundle';
 import { DatabaseId, DatabaseInfo } from './database_info';
 import { Query } from './query';
-import { Transaction } from './transaction';
+import { Transaction, TransactionOptions } from './transaction';
 import { OnlineState } from './types';
 import { ViewSnapshot } from './view_snapshot';
 
@@ -62,6 +80,21 @@ const DOM_EXCEPTION_ABORTED = 20;
 /** The DOMException code for quota exceeded. */
 const DOM_EXCEPTION_QUOTA_EXCEEDED = 22;
 
+/** Settings for IndexedDB-backed persistence. */
+export class IndexedDbPersistenceSettings {
+  constructor(
+    readonly cacheSizeBytes: number,
+    readonly experimentalTabSynchronization: boolean
+  ) {}
+}
+
+/** Settings for memory-only persistence. */
+export class MemoryPersistenceSettings {}
+
+export type InternalPersistenceSettings =
+  | IndexedDbPersistenceSettings
+  | MemoryPersistenceSettings;
+
 /**
  * FirestoreClient is a top-level class that constructs and owns all of the
  * pieces of the client SDK architecture. It is responsible for creating the
@@ -77,9 +110,15 @@ export class FirestoreClient {
   private eventMgr: EventManager;
   private garbageCollector: GarbageCollector;
   private persistence: Persistence;
+  private sharedClientState: SharedClientState;
   private localStore: LocalStore;
   private remoteStore: RemoteStore;
   private syncEngine: SyncEngine;
+  private lruScheduler: LruScheduler | null = null;
+  /** The promise returned by `terminate()`, or null if it was not called. */
+  private terminationPromise: Promise<void> | null = null;
+
+  private readonly clientId = AutoId.newId();
 
   constructor(
     private platform: Platform,
@@ -124,13 +163,14 @@ export class FirestoreClient {
    * fallback succeeds we signal success to the async queue even though the
    * start() itself signals failure.
    *
-   * @param usePersistence Whether or not to attempt to enable persistence.
+   * @param persistenceSettings Settings object to configure offline
+   *     persistence.
    * @returns A deferred result indicating the user-visible result of enabling
    *     offline persistence. This method will reject this if IndexedDB fails to
    *     start for any reason. If usePersistence is false this is
    *     unconditionally resolved.
    */
-  start(usePersistence: boolean): Promise<void> {
+  start(persistenceSettings: InternalPersistenceSettings): Promise<void> {
     // We defer our initialization until we get the current user from
     // setUserChangeListener(). We block the async queue until we got the
     // initial user and the initialization is completed. This will prevent
@@ -153,7 +193,7 @@ export class FirestoreClient {
       if (!initialized) {
         initialized = true;
 
-        this.initializePersistence(usePersistence, persistenceResult)
+        this.initializePersistence(persistenceSettings, persistenceResult, user)
           .then(() => this.initializeRest(user))
           .then(initializationDone.resolve, initializationDone.reject);
       } else {
@@ -176,6 +216,7 @@ export class FirestoreClient {
 
   /** Enables the network connection and requeues all pending operations. */
   enableNetwork(): Promise<void> {
+    this.verifyNotTerminated();
     return this.asyncQueue.enqueue(() => {
       return this.remoteStore.enableNetwork();
     });
@@ -189,21 +230,25 @@ export class FirestoreClient {
    * platform can't possibly support our implementation then this method rejects
    * the persistenceResult and falls back on memory-only persistence.
    *
-   * @param usePersistence indicates whether or not to use offline persistence
+   * @param persistenceSettings Settings object to configure offline
+   *     persistence.
    * @param persistenceResult A deferred result indicating the user-visible
    *     result of enabling offline persistence. This method will reject this if
    *     IndexedDB fails to start for any reason. If usePersistence is false
    *     this is unconditionally resolved.
+   * @param user The initial user, used to filter the mutations that are
+   *     shared between tabs.
    * @returns a Promise indicating whether or not initialization should
    *     continue, i.e. that one of the persistence implementations actually
    *     succeeded.
    */
   private initializePersistence(
-    usePersistence: boolean,
-    persistenceResult: Deferred<void>
+    persistenceSettings: InternalPersistenceSettings,
+    persistenceResult: Deferred<void>,
+    user: User
   ): Promise<void> {
-    if (usePersistence) {
-      return this.startIndexedDbPersistence()
+    if (persistenceSettings instanceof IndexedDbPersistenceSettings) {
+      return this.startIndexedDbPersistence(user, persistenceSettings)
         .then(persistenceResult.resolve)
         .catch(error => {
           // Regardless of whether or not the retry succeeds, from an user
@@ -266,10 +311,25 @@ export class FirestoreClient {
    *
    * @returns A promise indicating success or failure.
    */
-  private startIndexedDbPersistence(): Promise<void> {
-    // TODO(http://b/33384523): For now we just disable garbage collection
-    // when persistence is enabled.
-    this.garbageCollector = new NoOpGarbageCollector();
+  private startIndexedDbPersistence(
+    user: User,
+    settings: IndexedDbPersistenceSettings
+  ): Promise<void> {
+    // TODO(multitab): Remove the `experimentalTabSynchronization` flag once
+    // multi-tab synchronization is stable.
+    if (settings.experimentalTabSynchronization) {
+      // Throws UNIMPLEMENTED if WebStorage is not available, in which case we
+      // fall back to memory persistence.
+      this.sharedClientState = new WebStorageSharedClientState(
+        this.asyncQueue,
+        this.databaseInfo.persistenceKey,
+        this.clientId,
+        user
+      );
+    } else {
+      this.sharedClientState = new MemorySharedClientState();
+    }
+
     const storagePrefix = IndexedDbPersistence.buildStoragePrefix(
       this.databaseInfo
     );
@@ -277,7 +337,17 @@ export class FirestoreClient {
     const serializer = new JsonProtoSerializer(this.databaseInfo.databaseId, {
       useProto3Json: true
     });
-    this.persistence = new IndexedDbPersistence(storagePrefix, serializer);
+    const persistence = new IndexedDbPersistence(
+      storagePrefix,
+      this.clientId,
+      serializer,
+      settings.experimentalTabSynchronization
+    );
+    this.garbageCollector = new LruGarbageCollector(
+      persistence.lruDelegate,
+      LruParams.withCacheSize(settings.cacheSizeBytes)
+    );
+    this.persistence = persistence;
     return this.persistence.start();
   }
 
@@ -288,7 +358,8 @@ export class FirestoreClient {
    */
   private startMemoryPersistence(): Promise<void> {
     this.garbageCollector = new EagerGarbageCollector();
-    this.persistence = new MemoryPersistence();
+    this.persistence = new MemoryPersistence(this.clientId);
+    this.sharedClientState = new MemorySharedClientState();
     return this.persistence.start();
   }
 
@@ -306,6 +377,13 @@ export class FirestoreClient {
           user,
           this.garbageCollector
         );
+        if (this.garbageCollector instanceof LruGarbageCollector) {
+          this.lruScheduler = new LruScheduler(
+            this.garbageCollector,
+            this.asyncQueue,
+            this.localStore
+          );
+        }
         const serializer = this.platform.newSerializer(
           this.databaseInfo.databaseId
         );
@@ -316,27 +394,48 @@ export class FirestoreClient {
           serializer
         );
 
-        const onlineStateChangedHandler = (onlineState: OnlineState) => {
+        const applyOnlineStateChange = (onlineState: OnlineState) => {
           this.syncEngine.applyOnlineStateChange(onlineState);
           this.eventMgr.applyOnlineStateChange(onlineState);
         };
 
+        // The primary client determines the online state of all clients.
+        const remoteStoreOnlineStateChangedHandler = (
+          onlineState: OnlineState
+        ) => {
+          if (this.syncEngine.isPrimaryClient) {
+            applyOnlineStateChange(onlineState);
+            this.sharedClientState.setOnlineState(onlineState);
+          }
+        };
+        const sharedClientStateOnlineStateChangedHandler = (
+          onlineState: OnlineState
+        ) => {
+          if (!this.syncEngine.isPrimaryClient) {
+            applyOnlineStateChange(onlineState);
+          }
+        };
+
         this.remoteStore = new RemoteStore(
           this.localStore,
           datastore,
           this.asyncQueue,
-          onlineStateChangedHandler
+          remoteStoreOnlineStateChangedHandler
         );
 
         this.syncEngine = new SyncEngine(
           this.localStore,
           this.remoteStore,
+          this.sharedClientState,
           user
         );
 
         // Setup wiring between sync engine and remote store
         this.remoteStore.syncEngine = this.syncEngine;
 
+        this.sharedClientState.syncEngine = this.syncEngine;
+        this.sharedClientState.onlineStateHandler = sharedClientStateOnlineStateChangedHandler;
+
         this.eventMgr = new EventManager(this.syncEngine);
 
         // NOTE: RemoteStore depends on LocalStore (for persisting stream
@@ -344,6 +443,26 @@ export class FirestoreClient {
         // LocalStore.
         return this.localStore.start();
       })
+      .then(() => {
+        // NOTE: The primary state changes are scheduled on the async queue
+        // without waiting for them, since the queue is blocked until the
+        // initialization is done.
+        return this.persistence.setPrimaryStateListener(isPrimary => {
+          this.asyncQueue.enqueue(() =>
+            this.syncEngine.applyPrimaryState(isPrimary).then(() => {
+              if (this.lruScheduler) {
+                this.lruScheduler.applyPrimaryState(isPrimary);
+              }
+            })
+          );
+          return Promise.resolve();
+        });
+      })
+      .then(() => {
+        // NOTE: SharedClientState needs the LocalStore to backfill the state
+        // of the existing clients.
+        return this.sharedClientState.start();
+      })
       .then(() => {
         return this.remoteStore.start();
       });
@@ -358,25 +477,49 @@ export class FirestoreClient {
 
   /** Disables the network connection. Pending operations will not complete. */
   disableNetwork(): Promise<void> {
+    this.verifyNotTerminated();
     return this.asyncQueue.enqueue(() => {
       return this.remoteStore.disableNetwork();
     });
   }
 
-  shutdown(options?: {
+  /**
+   * Terminates the client: stops all network streams, releases the
+   * persistence lease and rejects the callbacks of all pending writes. All
+   * subsequent calls to the client fail with a 'failed-precondition' error.
+   *
+   * Calling `terminate()` more than once returns the promise of the first
+   * call.
+   */
+  terminate(options?: {
     purgePersistenceWithDataLoss?: boolean;
   }): Promise<void> {
-    return this.asyncQueue
-      .enqueue(() => {
-        this.credentials.removeUserChangeListener();
-        return this.remoteStore.shutdown();
-      })
-      .then(() => {
-        // PORTING NOTE: LocalStore does not need an explicit shutdown on web.
-        return this.persistence.shutdown(
-          options && options.purgePersistenceWithDataLoss
-        );
-      });
+    if (!this.terminationPromise) {
+      this.terminationPromise = this.asyncQueue
+        .enqueue(() => {
+          this.credentials.removeUserChangeListener();
+          if (this.lruScheduler) {
+            this.lruScheduler.stop();
+          }
+          this.syncEngine.handleClientTerminated();
+          return this.remoteStore.shutdown();
+        })
+        .then(() => {
+          this.sharedClientState.shutdown();
+        })
+        .then(() => {
+          // PORTING NOTE: LocalStore does not need an explicit shutdown on web.
+          return this.persistence.shutdown(
+            options && options.purgePersistenceWithDataLoss
+          );
+        });
+    }
+    return this.terminationPromise;
+  }
+
+  /** Returns whether `terminate()` has been called on this client. */
+  get clientTerminated(): boolean {
+    return this.terminationPromise !== null;
   }
 
   listen(
@@ -384,6 +527,7 @@ export class FirestoreClient {
     observer: Observer<ViewSnapshot>,
     options: ListenOptions
   ): QueryListener {
+    this.verifyNotTerminated();
     const listener = new QueryListener(query, observer, options);
     this.asyncQueue.enqueue(() => {
       return this.eventMgr.listen(listener);
@@ -392,12 +536,36 @@ export class FirestoreClient {
   }
 
   unlisten(listener: QueryListener): void {
+    // Listeners that are removed after termination have already been stopped.
+    if (this.clientTerminated) {
+      return;
+    }
     this.asyncQueue.enqueue(() => {
       return this.eventMgr.unlisten(listener);
     });
   }
 
+  addSnapshotsInSyncListener(observer: Observer<void>): void {
+    this.verifyNotTerminated();
+    this.asyncQueue.enqueue(() => {
+      this.eventMgr.addSnapshotsInSyncListener(observer);
+      return Promise.resolve();
+    });
+  }
+
+  removeSnapshotsInSyncListener(observer: Observer<void>): void {
+    // No snapshots-in-sync events are raised after termination.
+    if (this.clientTerminated) {
+      return;
+    }
+    this.asyncQueue.enqueue(() => {
+      this.eventMgr.removeSnapshotsInSyncListener(observer);
+      return Promise.resolve();
+    });
+  }
+
   getDocumentFromLocalCache(docKey: DocumentKey): Promise<Document> {
+    this.verifyNotTerminated();
     return this.asyncQueue
       .enqueue(() => {
         return this.localStore.readDocument(docKey);
@@ -418,6 +586,7 @@ export class FirestoreClient {
   }
 
   getDocumentsFromLocalCache(query: Query): Promise<ViewSnapshot> {
+    this.verifyNotTerminated();
     return this.asyncQueue
       .enqueue(() => {
         return this.localStore.executeQuery(query);
@@ -433,22 +602,176 @@ export class FirestoreClient {
       });
   }
 
+  /**
+   * Reads the given documents from the backend in a single request and
+   * applies the local mutations to them. Documents that exist only contain
+   * the fields in `fieldMask`, if a field mask is provided.
+   */
+  lookupDocuments(
+    keys: DocumentKeySet,
+    fieldMask: FieldMask | null
+  ): Promise<MaybeDocumentMap> {
+    this.verifyNotTerminated();
+    const keyArray: DocumentKey[] = [];
+    keys.forEach(key => keyArray.push(key));
+    // We have to wait for the async queue to be sure remoteStore is
+    // initialized. The lookup itself does not block the queue.
+    return this.asyncQueue
+      .enqueue(async () => {})
+      .then(() => this.remoteStore.lookup(keyArray, fieldMask || undefined))
+      .then(docs => {
+        let remoteDocs = maybeDocumentMap();
+        for (const doc of docs) {
+          remoteDocs = remoteDocs.insert(doc.key, doc);
+        }
+        return this.asyncQueue.enqueue(() =>
+          this.localStore.applyLocalMutations(remoteDocs)
+        );
+      })
+      .then(docs => applyFieldMask(docs, fieldMask));
+  }
+
+  /**
+   * Returns the local view of the given documents. Fails with an
+   * 'unavailable' error if any of the documents is not cached. Documents that
+   * exist only contain the fields in `fieldMask`, if a field mask is provided.
+   */
+  lookupDocumentsFromLocalCache(
+    keys: DocumentKeySet,
+    fieldMask: FieldMask | null
+  ): Promise<MaybeDocumentMap> {
+    this.verifyNotTerminated();
+    return this.asyncQueue
+      .enqueue(() => this.localStore.readDocuments(keys))
+      .then(docs => {
+        if (docs.size !== keys.size) {
+          throw new FirestoreError(
+            Code.UNAVAILABLE,
+            'Failed to get documents from cache. (However, these documents ' +
+              "may exist on the server. Run again without setting 'source' " +
+              'in the GetOptions to attempt to retrieve the documents from ' +
+              'the server.)'
+          );
+        }
+        return applyFieldMask(docs, fieldMask);
+      });
+  }
+  /**
+   * Runs the given aggregations over the results of `query` on the backend.
+   * The results do not include pending local writes.
+   */
+  runAggregationQuery(
+    query: Query,
+    aggregates: Aggregate[]
+  ): Promise<ObjectValue> {
+    this.verifyNotTerminated();
+    // We have to wait for the async queue to be sure remoteStore is
+    // initialized. The aggregation itself does not block the queue.
+    return this.asyncQueue
+      .enqueue(async () => {})
+      .then(() => this.remoteStore.runAggregationQuery(query, aggregates));
+  }
+
   write(mutations: Mutation[]): Promise<void> {
+    this.verifyNotTerminated();
     const deferred = new Deferred<void>();
     this.asyncQueue.enqueue(() => this.syncEngine.write(mutations, deferred));
     return deferred.promise;
   }
 
+  /**
+   * Returns a promise that resolves once all mutations that are pending at the
+   * time of calling have been acknowledged or rejected by the backend.
+   */
+  waitForPendingWrites(): Promise<void> {
+    this.verifyNotTerminated();
+    const deferred = new Deferred<void>();
+    this.asyncQueue.enqueue(() =>
+      this.syncEngine.registerPendingWritesCallback(deferred)
+    );
+    return deferred.promise;
+  }
+
+  /**
+   * Loads the given bundle into local storage, reporting its progress and
+   * outcome to `task`.
+   */
+  loadBundle(data: ArrayBuffer | string, task: LoadBundleTask): void {
+    this.verifyNotTerminated();
+    // Bundles are always encoded in Proto3 JSON, independent of the platform.
+    const serializer = new JsonProtoSerializer(this.databaseInfo.databaseId, {
+      useProto3Json: true
+    });
+    const reader = new BundleReader(data, serializer);
+    this.asyncQueue.enqueue(() => this.syncEngine.loadBundle(reader, task));
+  }
+
+  /**
+   * Returns the named query with the given name from the bundles that have
+   * been loaded, or null if there is no such query.
+   */
+  getNamedQuery(name: string): Promise<NamedQuery | null> {
+    this.verifyNotTerminated();
+    return this.asyncQueue.enqueue(() => this.localStore.getNamedQuery(name));
+  }
+
+  /**
+   * Replaces the client-side field indexes that are used to execute queries
+   * against the local cache.
+   */
+  setIndexConfiguration(indexes: FieldIndex[]): Promise<void> {
+    this.verifyNotTerminated();
+    return this.asyncQueue.enqueue(() =>
+      this.localStore.configureFieldIndexes(indexes)
+    );
+  }
+
+  private verifyNotTerminated(): void {
+    if (this.clientTerminated) {
+      throw new FirestoreError(
+        Code.FAILED_PRECONDITION,
+        'The client has already been terminated.'
+      );
+    }
+  }
+
   databaseId(): DatabaseId {
     return this.databaseInfo.databaseId;
   }
 
   transaction<T>(
-    updateFunction: (transaction: Transaction) => Promise<T>
+    updateFunction: (transaction: Transaction) => Promise<T>,
+    options: TransactionOptions
   ): Promise<T> {
+    this.verifyNotTerminated();
     // We have to wait for the async queue to be sure syncEngine is initialized.
     return this.asyncQueue
       .enqueue(async () => {})
-      .then(() => this.syncEngine.runTransaction(updateFunction));
+      .then(() => this.syncEngine.runTransaction(updateFunction, options));
   }
 }
+
+/**
+ * Removes all fields that are not part of `fieldMask` from the documents that
+ * exist. Returns the documents unchanged if `fieldMask` is null.
+ */
+function applyFieldMask(
+  docs: MaybeDocumentMap,
+  fieldMask: FieldMask | null
+): MaybeDocumentMap {
+  if (!fieldMask) {
+    return docs;
+  }
+  let result = docs;
+  docs.forEach((key, doc) => {
+    if (doc instanceof Document) {
+      result = result.insert(
+        key,
+        new Document(key, doc.version, fieldMask.applyTo(doc.data), {
+          hasLocalMutations: doc.hasLocalMutations
+        })
+      );
+    }
+  });
+  return result;
+}
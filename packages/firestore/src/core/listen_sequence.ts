@@ -0,0 +1,35 @@
+/**
+ * Copyright 2018 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { ListenSequenceNumber } from './types';
+
+/**
+ * ListenSequence generates monotonically increasing sequence numbers that
+ * record the order in which targets were last used. It is seeded on startup
+ * with the highest sequence number persisted in the query cache so that
+ * numbers keep increasing across restarts.
+ */
+export class ListenSequence {
+  /** A sequence number used for targets that are never persisted. */
+  static readonly INVALID: ListenSequenceNumber = -1;
+
+  constructor(private previousValue: ListenSequenceNumber) {}
+
+  next(): ListenSequenceNumber {
+    this.previousValue += 1;
+    return this.previousValue;
+  }
+}
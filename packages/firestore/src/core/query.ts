@@ -28,6 +28,17 @@ import { assert, fail } from '../util/assert';
 import { Code, FirestoreError } from '../util/error';
 import { isNullOrUndefined } from '../util/types';
 
+/**
+ * Whether a query's limit applies to the first or to the last documents in
+ * the query's order.
+ *
+ * The string values are persisted as part of a target in IndexedDb.
+ */
+export enum LimitType {
+  First = 'F',
+  Last = 'L'
+}
+
 export class Query {
   static atPath(path: ResourcePath): Query {
     return new Query(path);
@@ -36,13 +47,19 @@ export class Query {
   private memoizedCanonicalId: string | null = null;
   private memoizedOrderBy: OrderBy[] | null = null;
 
+  /**
+   * Initializes a Query with a path and optional additional query constraints.
+   * Path must currently be empty if this is a collection group query.
+   */
   constructor(
     readonly path: ResourcePath,
+    readonly collectionGroup: string | null = null,
     readonly explicitOrderBy: OrderBy[] = [],
     readonly filters: Filter[] = [],
     readonly limit: number | null = null,
     readonly startAt: Bound | null = null,
-    readonly endAt: Bound | null = null
+    readonly endAt: Bound | null = null,
+    readonly limitType: LimitType = LimitType.First
   ) {
     if (this.startAt) {
       this.assertValidBound(this.startAt);
@@ -110,69 +127,150 @@ export class Query {
       'Query must only have one inequality field.'
     );
 
-    assert(
-      !DocumentKey.isDocumentKey(this.path),
-      'No filtering allowed for document query'
-    );
+    assert(!this.isDocumentQuery(), 'No filtering allowed for document query');
     const newFilters = this.filters.concat([filter]);
     return new Query(
       this.path,
+      this.collectionGroup,
       this.explicitOrderBy.slice(),
       newFilters,
       this.limit,
       this.startAt,
-      this.endAt
+      this.endAt,
+      this.limitType
     );
   }
 
   addOrderBy(orderBy: OrderBy): Query {
-    assert(
-      !DocumentKey.isDocumentKey(this.path),
-      'No ordering allowed for document query'
-    );
+    assert(!this.isDocumentQuery(), 'No ordering allowed for document query');
     assert(!this.startAt && !this.endAt, 'Bounds must be set after orderBy');
     // TODO(dimond): validate that orderBy does not list the same key twice.
     const newOrderBy = this.explicitOrderBy.concat([orderBy]);
     return new Query(
       this.path,
+      this.collectionGroup,
       newOrderBy,
       this.filters.slice(),
       this.limit,
       this.startAt,
-      this.endAt
+      this.endAt,
+      this.limitType
     );
   }
 
-  withLimit(limit: number | null): Query {
+  withLimitToFirst(limit: number | null): Query {
     return new Query(
       this.path,
+      this.collectionGroup,
       this.explicitOrderBy.slice(),
       this.filters.slice(),
       limit,
       this.startAt,
-      this.endAt
+      this.endAt,
+      LimitType.First
+    );
+  }
+
+  withLimitToLast(limit: number | null): Query {
+    return new Query(
+      this.path,
+      this.collectionGroup,
+      this.explicitOrderBy.slice(),
+      this.filters.slice(),
+      limit,
+      this.startAt,
+      this.endAt,
+      LimitType.Last
     );
   }
 
   withStartAt(bound: Bound): Query {
     return new Query(
       this.path,
+      this.collectionGroup,
       this.explicitOrderBy.slice(),
       this.filters.slice(),
       this.limit,
       bound,
-      this.endAt
+      this.endAt,
+      this.limitType
     );
   }
 
   withEndAt(bound: Bound): Query {
     return new Query(
       this.path,
+      this.collectionGroup,
+      this.explicitOrderBy.slice(),
+      this.filters.slice(),
+      this.limit,
+      this.startAt,
+      bound,
+      this.limitType
+    );
+  }
+
+  /**
+   * Returns the query that is sent to the backend for this query.
+   *
+   * The backend does not support limitToLast queries. Instead, they are sent as
+   * queries with all orderBy directions flipped and with their bounds swapped.
+   * The results are then ordered locally by the View, which uses the original
+   * query.
+   */
+  toBackendQuery(): Query {
+    if (this.limitType === LimitType.First) {
+      return this;
+    }
+
+    const flippedOrderBy = this.orderBy.map(
+      orderBy =>
+        new OrderBy(
+          orderBy.field,
+          orderBy.dir === Direction.DESCENDING
+            ? Direction.ASCENDING
+            : Direction.DESCENDING
+        )
+    );
+
+    // The bounds need to be swapped to match the flipped ordering. A bound that
+    // included its position (`before`) as a start bound has to exclude it as
+    // an end bound, and vice versa.
+    const startAt = this.endAt
+      ? new Bound(this.endAt.position, !this.endAt.before)
+      : null;
+    const endAt = this.startAt
+      ? new Bound(this.startAt.position, !this.startAt.before)
+      : null;
+
+    return new Query(
+      this.path,
+      this.collectionGroup,
+      flippedOrderBy,
+      this.filters.slice(),
+      this.limit,
+      startAt,
+      endAt,
+      LimitType.First
+    );
+  }
+
+  /**
+   * Helper to convert a collection group query into a collection query at a
+   * specific path. This is used when executing collection group queries, since
+   * we have to split the query into a set of collection queries at multiple
+   * paths.
+   */
+  asCollectionQueryAtPath(path: ResourcePath): Query {
+    return new Query(
+      path,
+      /*collectionGroup=*/ null,
       this.explicitOrderBy.slice(),
       this.filters.slice(),
       this.limit,
       this.startAt,
-      bound
+      this.endAt,
+      this.limitType
     );
   }
 
@@ -182,6 +280,9 @@ export class Query {
   canonicalId(): string {
     if (this.memoizedCanonicalId === null) {
       let canonicalId = this.path.canonicalString();
+      if (this.isCollectionGroupQuery()) {
+        canonicalId += '|cg:' + this.collectionGroup;
+      }
       canonicalId += '|f:';
       for (const filter of this.filters) {
         canonicalId += filter.canonicalId();
@@ -196,6 +297,11 @@ export class Query {
       if (!isNullOrUndefined(this.limit)) {
         canonicalId += '|l:';
         canonicalId += this.limit!;
+        // The limit type is only included for limitToLast queries to keep the
+        // canonical IDs of already persisted targets stable.
+        if (this.limitType === LimitType.Last) {
+          canonicalId += '|lt:' + this.limitType;
+        }
       }
       if (this.startAt) {
         canonicalId += '|lb:';
@@ -212,11 +318,17 @@ export class Query {
 
   toString(): string {
     let str = 'Query(' + this.path.canonicalString();
+    if (this.isCollectionGroupQuery()) {
+      str += ' collectionGroup=' + this.collectionGroup;
+    }
     if (this.filters.length > 0) {
       str += `, filters: [${this.filters.join(', ')}]`;
     }
     if (!isNullOrUndefined(this.limit)) {
       str += ', limit: ' + this.limit;
+      if (this.limitType === LimitType.Last) {
+        str += ' (limitToLast)';
+      }
     }
     if (this.explicitOrderBy.length > 0) {
       str += `, orderBy: [${this.explicitOrderBy.join(', ')}]`;
@@ -236,6 +348,10 @@ export class Query {
       return false;
     }
 
+    if (this.limitType !== other.limitType) {
+      return false;
+    }
+
     if (this.orderBy.length !== other.orderBy.length) {
       return false;
     }
@@ -256,6 +372,10 @@ export class Query {
       }
     }
 
+    if (this.collectionGroup !== other.collectionGroup) {
+      return false;
+    }
+
     if (!this.path.isEqual(other.path)) {
       return false;
     }
@@ -297,8 +417,12 @@ export class Query {
     );
   }
 
-  hasLimit(): boolean {
-    return !isNullOrUndefined(this.limit);
+  hasLimitToFirst(): boolean {
+    return this.limitType === LimitType.First && !isNullOrUndefined(this.limit);
+  }
+
+  hasLimitToLast(): boolean {
+    return this.limitType === LimitType.Last && !isNullOrUndefined(this.limit);
   }
 
   getFirstOrderByField(): FieldPath | null {
@@ -316,23 +440,44 @@ export class Query {
     return null;
   }
 
-  hasArrayContainsFilter(): boolean {
+  /**
+   * Returns the first operator among `operators` that is used by one of this
+   * query's RelationFilters, or null if none of them are used.
+   */
+  findFilterOperator(operators: RelationOp[]): RelationOp | null {
+    for (const filter of this.filters) {
+      if (filter instanceof RelationFilter) {
+        const op = filter.op;
+        if (operators.find(candidate => candidate.isEqual(op))) {
+          return op;
+        }
+      }
+    }
+    return null;
+  }
+
+  isDocumentQuery(): boolean {
     return (
-      this.filters.find(
-        filter =>
-          filter instanceof RelationFilter &&
-          filter.op === RelationOp.ARRAY_CONTAINS
-      ) !== undefined
+      DocumentKey.isDocumentKey(this.path) &&
+      this.collectionGroup === null &&
+      this.filters.length === 0
     );
   }
 
-  isDocumentQuery(): boolean {
-    return DocumentKey.isDocumentKey(this.path) && this.filters.length === 0;
+  isCollectionGroupQuery(): boolean {
+    return this.collectionGroup !== null;
   }
 
   private matchesAncestor(doc: Document): boolean {
     const docPath = doc.key.path;
-    if (DocumentKey.isDocumentKey(this.path)) {
+    if (this.collectionGroup !== null) {
+      // NOTE: this.path is currently always empty since we don't expose
+      // collection group queries rooted at a document path yet.
+      return (
+        doc.key.hasCollectionId(this.collectionGroup) &&
+        this.path.isPrefixOf(docPath)
+      );
+    } else if (DocumentKey.isDocumentKey(this.path)) {
       // exact match for document queries
       return this.path.isEqual(docPath);
     } else {
@@ -403,6 +548,10 @@ export class RelationOp {
   static GREATER_THAN = new RelationOp('>');
   static GREATER_THAN_OR_EQUAL = new RelationOp('>=');
   static ARRAY_CONTAINS = new RelationOp('array-contains');
+  static IN = new RelationOp('in');
+  static ARRAY_CONTAINS_ANY = new RelationOp('array-contains-any');
+  static NOT_EQUAL = new RelationOp('!=');
+  static NOT_IN = new RelationOp('not-in');
 
   static fromString(op: string): RelationOp {
     switch (op) {
@@ -418,6 +567,14 @@ export class RelationOp {
         return RelationOp.GREATER_THAN;
       case 'array-contains':
         return RelationOp.ARRAY_CONTAINS;
+      case 'in':
+        return RelationOp.IN;
+      case 'array-contains-any':
+        return RelationOp.ARRAY_CONTAINS_ANY;
+      case '!=':
+        return RelationOp.NOT_EQUAL;
+      case 'not-in':
+        return RelationOp.NOT_IN;
       default:
         return fail('Unknown relation: ' + op);
     }
@@ -444,13 +601,23 @@ export class RelationFilter implements Filter {
   matches(doc: Document): boolean {
     if (this.field.isKeyField()) {
       assert(
-        this.value instanceof RefValue,
+        this.value instanceof RefValue ||
+          ((this.op === RelationOp.IN || this.op === RelationOp.NOT_IN) &&
+            this.value instanceof ArrayValue),
         'Comparing on key, but filter value not a RefValue'
       );
       assert(
-        this.op !== RelationOp.ARRAY_CONTAINS,
+        this.op !== RelationOp.ARRAY_CONTAINS &&
+          this.op !== RelationOp.ARRAY_CONTAINS_ANY,
         "array-contains queries don't make sense on document keys."
       );
+      if (this.op === RelationOp.IN || this.op === RelationOp.NOT_IN) {
+        const found = this.inValues().some(
+          refValue =>
+            refValue instanceof RefValue && refValue.key.isEqual(doc.key)
+        );
+        return this.op === RelationOp.IN ? found : !found;
+      }
       const refValue = this.value as RefValue;
       const comparison = DocumentKey.comparator(doc.key, refValue.key);
       return this.matchesComparison(comparison);
@@ -467,6 +634,32 @@ export class RelationFilter implements Filter {
         value.internalValue.find(element => element.isEqual(this.value)) !==
           undefined
       );
+    } else if (this.op === RelationOp.IN) {
+      return this.inValues().some(element => element.isEqual(value));
+    } else if (this.op === RelationOp.NOT_IN) {
+      // Like the backend, `not-in` never matches null values, and matches
+      // nothing at all if null is one of its disjuncts.
+      const candidates = this.inValues();
+      return (
+        !(value instanceof NullValue) &&
+        !candidates.some(element => element.isEqual(NullValue.INSTANCE)) &&
+        !candidates.some(element => element.isEqual(value))
+      );
+    } else if (this.op === RelationOp.NOT_EQUAL) {
+      // Unlike the other comparisons, `!=` matches values of any type (such as
+      // NaN) as long as they differ from the filter value, but never null.
+      return (
+        !(value instanceof NullValue) &&
+        this.matchesComparison(value.compareTo(this.value))
+      );
+    } else if (this.op === RelationOp.ARRAY_CONTAINS_ANY) {
+      const candidates = this.inValues();
+      return (
+        value instanceof ArrayValue &&
+        value.internalValue.some(element =>
+          candidates.some(candidate => candidate.isEqual(element))
+        )
+      );
     } else {
       // Only compare types with matching backend order (such as double and int).
       return (
@@ -484,6 +677,8 @@ export class RelationFilter implements Filter {
         return comparison <= 0;
       case RelationOp.EQUAL:
         return comparison === 0;
+      case RelationOp.NOT_EQUAL:
+        return comparison !== 0;
       case RelationOp.GREATER_THAN:
         return comparison > 0;
       case RelationOp.GREATER_THAN_OR_EQUAL:
@@ -495,8 +690,23 @@ export class RelationFilter implements Filter {
 
   isInequality(): boolean {
     return (
-      this.op !== RelationOp.EQUAL && this.op !== RelationOp.ARRAY_CONTAINS
+      this.op !== RelationOp.EQUAL &&
+      this.op !== RelationOp.ARRAY_CONTAINS &&
+      this.op !== RelationOp.IN &&
+      this.op !== RelationOp.ARRAY_CONTAINS_ANY
+    );
+  }
+
+  /**
+   * Returns the disjuncts of an `in`, `not-in` or `array-contains-any` filter,
+   * whose value is always an ArrayValue.
+   */
+  private inValues(): FieldValue[] {
+    assert(
+      this.value instanceof ArrayValue,
+      `${this.op} filters require an array value`
     );
+    return (this.value as ArrayValue).internalValue;
   }
 
   canonicalId(): string {
@@ -590,18 +800,24 @@ export function fieldFilter(
   value: FieldValue
 ): Filter {
   if (value.isEqual(NullValue.INSTANCE)) {
-    if (op !== RelationOp.EQUAL) {
+    if (op === RelationOp.NOT_EQUAL) {
+      return new RelationFilter(field, op, value);
+    } else if (op !== RelationOp.EQUAL) {
       throw new FirestoreError(
         Code.INVALID_ARGUMENT,
-        'Invalid query. You can only perform equals ' + 'comparisons on null.'
+        "Invalid query. You can only perform '==' and '!=' comparisons on " +
+          'null.'
       );
     }
     return new NullFilter(field);
   } else if (value.isEqual(DoubleValue.NAN)) {
-    if (op !== RelationOp.EQUAL) {
+    if (op === RelationOp.NOT_EQUAL) {
+      return new RelationFilter(field, op, value);
+    } else if (op !== RelationOp.EQUAL) {
       throw new FirestoreError(
         Code.INVALID_ARGUMENT,
-        'Invalid query. You can only perform equals ' + 'comparisons on NaN.'
+        "Invalid query. You can only perform '==' and '!=' comparisons on " +
+          'NaN.'
       );
     }
     return new NanFilter(field);
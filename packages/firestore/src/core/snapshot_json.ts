@@ -0,0 +1,245 @@
+/**
+ * Copyright 2019 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as api from '../protos/firestore_proto_api';
+import * as bundleProto from '../protos/firestore_bundle_proto';
+import { Document } from '../model/document';
+import { DocumentKey } from '../model/document_key';
+import { DocumentSet } from '../model/document_set';
+import {
+  ArrayValue,
+  FieldValue,
+  ObjectValue,
+  ServerTimestampValue
+} from '../model/field_value';
+import { JsonProtoSerializer } from '../remote/serializer';
+import { Code, FirestoreError } from '../util/error';
+
+import { Query } from './query';
+import { ChangeType, DocumentViewChange, ViewSnapshot } from './view_snapshot';
+
+/** The metadata of a snapshot, in its JSON representation. */
+export interface SnapshotMetadataJson {
+  hasPendingWrites: boolean;
+  fromCache: boolean;
+}
+
+/** The JSON representation of a `DocumentSnapshot`. */
+export interface DocumentSnapshotJson {
+  type: 'documentSnapshot';
+  /** The resource name of the document. */
+  name: string;
+  /** The contents of the document, unless the document does not exist. */
+  document?: api.Document;
+  metadata: SnapshotMetadataJson;
+}
+
+/** A document that is part of the JSON representation of a `QuerySnapshot`. */
+export interface QuerySnapshotDocumentJson {
+  document: api.Document;
+  hasPendingWrites: boolean;
+}
+
+/** The JSON representation of a `QuerySnapshot`. */
+export interface QuerySnapshotJson {
+  type: 'querySnapshot';
+  /** The query, encoded in the same way as the queries of a bundle. */
+  query: bundleProto.BundledQuery;
+  /** The results of the query, in query order. */
+  documents: QuerySnapshotDocumentJson[];
+  metadata: SnapshotMetadataJson;
+}
+
+/** The document of a `DocumentSnapshot`, as read from its JSON. */
+export interface DocumentSnapshotContents {
+  key: DocumentKey;
+  document: Document | null;
+  fromCache: boolean;
+}
+
+/**
+ * Converts snapshots to and from a JSON representation, so that snapshots
+ * that were produced on a server can be recreated on the client without
+ * contacting the backend.
+ *
+ * Documents and queries use the same proto3 JSON encoding as bundles.
+ */
+export class SnapshotJsonConverter {
+  constructor(private readonly serializer: JsonProtoSerializer) {}
+
+  toDocumentSnapshotJson(
+    key: DocumentKey,
+    document: Document | null,
+    fromCache: boolean
+  ): DocumentSnapshotJson {
+    const result: DocumentSnapshotJson = {
+      type: 'documentSnapshot',
+      name: this.serializer.toName(key),
+      metadata: {
+        hasPendingWrites: document !== null && document.hasLocalMutations,
+        fromCache
+      }
+    };
+    if (document) {
+      result.document = this.toDocument(document);
+    }
+    return result;
+  }
+
+  toQuerySnapshotJson(query: Query, snapshot: ViewSnapshot): QuerySnapshotJson {
+    const documents: QuerySnapshotDocumentJson[] = [];
+    snapshot.docs.forEach(doc => {
+      documents.push({
+        document: this.toDocument(doc),
+        hasPendingWrites: doc.hasLocalMutations
+      });
+    });
+    return {
+      type: 'querySnapshot',
+      query: {
+        ...this.serializer.toQueryTarget(query),
+        limitType: query.hasLimitToLast() ? 'LAST' : 'FIRST'
+      },
+      documents,
+      metadata: {
+        hasPendingWrites: snapshot.hasPendingWrites,
+        fromCache: snapshot.fromCache
+      }
+    };
+  }
+
+  /**
+   * Reads the document of a `DocumentSnapshot` from its JSON representation.
+   *
+   * @throws FirestoreError if the JSON belongs to a different database.
+   */
+  fromDocumentSnapshotJson(
+    json: DocumentSnapshotJson
+  ): DocumentSnapshotContents {
+    const key = this.toDocumentKey(json.name);
+    const document = json.document
+      ? this.fromDocument(json.document, json.metadata.hasPendingWrites)
+      : null;
+    return { key, document, fromCache: json.metadata.fromCache };
+  }
+
+  /**
+   * Recreates the `ViewSnapshot` of a `QuerySnapshot` from its JSON
+   * representation. The snapshot is an initial snapshot, in which all
+   * documents were added.
+   *
+   * @throws FirestoreError if the JSON belongs to a different database.
+   */
+  fromQuerySnapshotJson(json: QuerySnapshotJson): ViewSnapshot {
+    this.verifyResourceName(json.query.parent!);
+    let query = this.serializer.fromQueryTarget({
+      parent: json.query.parent,
+      structuredQuery: json.query.structuredQuery
+    });
+    if (json.query.limitType === 'LAST') {
+      query = query.withLimitToLast(query.limit);
+    }
+
+    let docs = new DocumentSet(query.docComparator.bind(query));
+    const docChanges: DocumentViewChange[] = [];
+    for (const documentJson of json.documents) {
+      const doc = this.fromDocument(
+        documentJson.document,
+        documentJson.hasPendingWrites
+      );
+      docs = docs.add(doc);
+      docChanges.push({ type: ChangeType.Added, doc });
+    }
+
+    return new ViewSnapshot(
+      query,
+      docs,
+      DocumentSet.emptySet(docs),
+      docChanges,
+      json.metadata.fromCache,
+      json.metadata.hasPendingWrites,
+      /* syncStateChanged= */ true,
+      /* excludesMetadataChanges= */ false
+    );
+  }
+
+  /**
+   * Encodes a document along with its version. Unlike
+   * `JsonProtoSerializer.toDocument()`, this supports documents with local
+   * mutations, as long as they do not contain pending server timestamps.
+   */
+  private toDocument(document: Document): api.Document {
+    if (document.hasLocalMutations && containsServerTimestamp(document.data)) {
+      throw new FirestoreError(
+        Code.FAILED_PRECONDITION,
+        `Cannot convert the document '${document.key}' to JSON because ` +
+          'it contains server timestamps that have not been written to the ' +
+          'backend yet.'
+      );
+    }
+    return {
+      ...this.serializer.toMutationDocument(document.key, document.data),
+      updateTime: this.serializer.toVersion(document.version)
+    };
+  }
+
+  private fromDocument(
+    document: api.Document,
+    hasLocalMutations: boolean
+  ): Document {
+    return new Document(
+      this.toDocumentKey(document.name!),
+      this.serializer.fromVersion(document.updateTime!),
+      this.serializer.fromFields(document.fields || {}),
+      { hasLocalMutations }
+    );
+  }
+
+  private toDocumentKey(name: string): DocumentKey {
+    this.verifyResourceName(name);
+    return this.serializer.fromName(name);
+  }
+
+  /** Throws if the resource name belongs to a different database. */
+  private verifyResourceName(name: string): void {
+    const databaseName = this.serializer.encodedDatabaseId;
+    if (name !== databaseName && name.indexOf(databaseName + '/') !== 0) {
+      throw new FirestoreError(
+        Code.INVALID_ARGUMENT,
+        `The snapshot refers to '${name}', which is not part of the ` +
+          `database '${databaseName}'.`
+      );
+    }
+  }
+}
+
+/** Returns whether the value is or contains a pending server timestamp. */
+function containsServerTimestamp(value: FieldValue): boolean {
+  if (value instanceof ServerTimestampValue) {
+    return true;
+  }
+  let result = false;
+  if (value instanceof ObjectValue) {
+    value.forEach((key, element) => {
+      result = result || containsServerTimestamp(element);
+    });
+  } else if (value instanceof ArrayValue) {
+    value.forEach(element => {
+      result = result || containsServerTimestamp(element);
+    });
+  }
+  return result;
+}
@@ -14,12 +14,20 @@
  * limitations under the License.
  */
 
+import { LoadBundleTask } from '../api/bundle';
 import { User } from '../auth/user';
 import { EagerGarbageCollector } from '../local/eager_garbage_collector';
 import { LocalStore } from '../local/local_store';
 import { LocalViewChanges } from '../local/local_view_changes';
+import { ignoreIfPrimaryLeaseLoss } from '../local/persistence';
 import { QueryData, QueryPurpose } from '../local/query_data';
 import { ReferenceSet } from '../local/reference_set';
+import { ClientId, SharedClientState } from '../local/shared_client_state';
+import {
+  MutationBatchState,
+  QueryTargetState,
+  SharedClientStateSyncer
+} from '../local/shared_client_state_syncer';
 import {
   MaybeDocumentMap,
   documentKeySet,
@@ -28,23 +36,38 @@ import {
 import { MaybeDocument, NoDocument } from '../model/document';
 import { DocumentKey } from '../model/document_key';
 import { Mutation } from '../model/mutation';
-import { MutationBatchResult } from '../model/mutation_batch';
-import { RemoteEvent } from '../remote/remote_event';
+import { BATCHID_UNKNOWN, MutationBatchResult } from '../model/mutation_batch';
+import { emptyByteString } from '../platform/platform';
+import * as bundleProto from '../protos/firestore_bundle_proto';
+import { RemoteEvent, TargetChange } from '../remote/remote_event';
 import { RemoteStore } from '../remote/remote_store';
 import { RemoteSyncer } from '../remote/remote_syncer';
 import { assert, fail } from '../util/assert';
-import { FirestoreError } from '../util/error';
+import { Code, FirestoreError } from '../util/error';
 import * as log from '../util/log';
+import { BundleReader } from '../util/bundle_reader';
 import { AnyJs, primitiveComparator } from '../util/misc';
+import * as objUtils from '../util/obj';
 import { ObjectMap } from '../util/obj_map';
 import { Deferred } from '../util/promise';
 import { SortedMap } from '../util/sorted_map';
 import { isNullOrUndefined } from '../util/types';
 
+import {
+  BundleConverter,
+  BundleLoader,
+  bundleInitialProgress,
+  bundleSuccessProgress
+} from './bundle';
+import { ListenSequence } from './listen_sequence';
 import { Query } from './query';
 import { SnapshotVersion } from './snapshot_version';
 import { TargetIdGenerator } from './target_id_generator';
-import { Transaction } from './transaction';
+import {
+  DEFAULT_MAX_TRANSACTION_ATTEMPTS,
+  Transaction,
+  TransactionOptions
+} from './transaction';
 import { BatchId, OnlineState, ProtoByteString, TargetId } from './types';
 import {
   AddedLimboDocument,
@@ -103,10 +126,16 @@ class QueryView {
  * 3. Notifying the RemoteStore when the LocalStore has new mutations in its
  *    queue that need sending to the backend.
  *
+ * In multi-tab mode, only the SyncEngine of the primary client talks to the
+ * RemoteStore. It listens to the targets of all clients and relays mutation
+ * results and target changes to the other clients via the SharedClientState.
+ * Secondary clients update their views from the persisted state whenever the
+ * primary client notifies them of a change.
+ *
  * The SyncEngine’s methods should only ever be called by methods running in the
  * global async queue.
  */
-export class SyncEngine implements RemoteSyncer {
+export class SyncEngine implements RemoteSyncer, SharedClientStateSyncer {
   private viewHandler: ViewHandler | null = null;
   private errorHandler: ErrorHandler | null = null;
 
@@ -124,14 +153,34 @@ export class SyncEngine implements RemoteSyncer {
   private mutationUserCallbacks = {} as {
     [uidKey: string]: SortedMap<BatchId, Deferred<void>>;
   };
+  /**
+   * Stores the callbacks of `waitForPendingWrites()`, indexed by the highest
+   * batch ID that was pending when the callback was registered.
+   */
+  private pendingWritesCallbacks: {
+    [batchId: number]: Array<Deferred<void>>;
+  } = {};
+  /**
+   * The remote document keys of the targets that the primary client listens to
+   * on behalf of other clients. Targets with a local view track their remote
+   * keys in the view instead.
+   */
+  private remoteKeysByTarget: { [targetId: number]: DocumentKeySet } = {};
   private targetIdGenerator = TargetIdGenerator.forSyncEngine();
+  private isPrimary: boolean | null = null;
 
   constructor(
     private localStore: LocalStore,
     private remoteStore: RemoteStore,
+    private sharedClientState: SharedClientState,
     private currentUser: User
   ) {}
 
+  /** Returns whether this client is the primary client. */
+  get isPrimaryClient(): boolean {
+    return this.isPrimary === true;
+  }
+
   /** Subscribes view and error handler. Can be called only once. */
   subscribe(viewHandler: ViewHandler, errorHandler: ErrorHandler): void {
     assert(
@@ -160,39 +209,130 @@ export class SyncEngine implements RemoteSyncer {
     );
 
     return this.localStore.allocateQuery(query).then(queryData => {
+      const targetId = queryData.targetId;
+      // If another client already listens to this target, the primary client
+      // has an active listen for it and we can pick up its state.
+      const isActive = this.sharedClientState.isActiveQueryTarget(targetId);
+      const status = this.sharedClientState.addLocalQueryTarget(targetId);
+      return this.initializeViewAndComputeSnapshot(
+        queryData,
+        status === 'current'
+      ).then(viewSnapshot => {
+        if (this.isPrimary) {
+          if (isActive) {
+            // The view tracks the remote keys from now on.
+            delete this.remoteKeysByTarget[targetId];
+          } else {
+            this.remoteStore.listen(queryData);
+          }
+        }
+        this.viewHandler!([viewSnapshot]);
+        return targetId;
+      });
+    });
+  }
+
+  /**
+   * Registers a view for a previously unknown query and computes its initial
+   * snapshot.
+   */
+  private initializeViewAndComputeSnapshot(
+    queryData: QueryData,
+    current: boolean
+  ): Promise<ViewSnapshot> {
+    const query = queryData.query;
+
+    return this.localStore.executeQuery(query).then(docs => {
       return this.localStore
-        .executeQuery(query)
-        .then(docs => {
+        .remoteDocumentKeys(queryData.targetId)
+        .then(remoteKeys => {
+          const view = new View(query, remoteKeys);
+          const viewDocChanges = view.computeDocChanges(docs);
+          // A target that is already current in another client starts out as
+          // current, which allows the view to compute limbo documents.
+          const synthesizedTargetChange = new TargetChange(
+            emptyByteString(),
+            current,
+            documentKeySet(),
+            documentKeySet(),
+            documentKeySet()
+          );
+          const viewChange = view.applyChanges(
+            viewDocChanges,
+            synthesizedTargetChange
+          );
+          assert(
+            current || viewChange.limboChanges.length === 0,
+            'View returned limbo docs before target ack from the server.'
+          );
+          assert(
+            !!viewChange.snapshot,
+            'applyChanges for new view should always return a snapshot'
+          );
+
+          const data = new QueryView(
+            query,
+            queryData.targetId,
+            queryData.resumeToken,
+            view
+          );
+          this.queryViewsByQuery.set(query, data);
+          this.queryViewsByTarget[queryData.targetId] = data;
+          return this.updateTrackedLimbos(
+            queryData.targetId,
+            viewChange.limboChanges
+          ).then(() => viewChange.snapshot!);
+        });
+    });
+  }
+
+  /**
+   * Reconciles the query views of the provided query targets with the state
+   * from persistence and raises snapshots for any changes. Used by secondary
+   * clients, which don't receive remote events.
+   */
+  private synchronizeQueryViewsAndRaiseSnapshots(
+    targetIds: TargetId[],
+    current?: boolean
+  ): Promise<void> {
+    const newSnaps: ViewSnapshot[] = [];
+    const docChangesInAllViews: LocalViewChanges[] = [];
+    const queriesProcessed: Array<Promise<void>> = [];
+
+    for (const targetId of targetIds) {
+      const queryView = this.queryViewsByTarget[targetId];
+      if (!queryView) {
+        continue;
+      }
+      queriesProcessed.push(
+        this.localStore.executeQuery(queryView.query).then(docs => {
           return this.localStore
-            .remoteDocumentKeys(queryData.targetId)
+            .remoteDocumentKeys(targetId)
             .then(remoteKeys => {
-              const view = new View(query, remoteKeys);
-              const viewDocChanges = view.computeDocChanges(docs);
-              const viewChange = view.applyChanges(viewDocChanges);
-              assert(
-                viewChange.limboChanges.length === 0,
-                'View returned limbo docs before target ack from the server.'
-              );
-              assert(
-                !!viewChange.snapshot,
-                'applyChanges for new view should always return a snapshot'
+              const viewChange = queryView.view.synchronizeWithPersistedState(
+                docs,
+                remoteKeys,
+                current
               );
-
-              const data = new QueryView(
-                query,
-                queryData.targetId,
-                queryData.resumeToken,
-                view
-              );
-              this.queryViewsByQuery.set(query, data);
-              this.queryViewsByTarget[queryData.targetId] = data;
-              this.viewHandler!([viewChange.snapshot!]);
-              this.remoteStore.listen(queryData);
+              return this.updateTrackedLimbos(
+                targetId,
+                viewChange.limboChanges
+              ).then(() => {
+                if (viewChange.snapshot) {
+                  newSnaps.push(viewChange.snapshot);
+                  docChangesInAllViews.push(
+                    LocalViewChanges.fromSnapshot(viewChange.snapshot)
+                  );
+                }
+              });
             });
         })
-        .then(() => {
-          return queryData.targetId;
-        });
+      );
+    }
+
+    return Promise.all(queriesProcessed).then(() => {
+      this.viewHandler!(newSnaps);
+      return this.localStore.notifyLocalViewChanges(docChangesInAllViews);
     });
   }
 
@@ -203,8 +343,24 @@ export class SyncEngine implements RemoteSyncer {
     const queryView = this.queryViewsByQuery.get(query)!;
     assert(!!queryView, 'Trying to unlisten on query not found:' + query);
 
+    const targetId = queryView.targetId;
+    this.sharedClientState.removeLocalQueryTarget(targetId);
+
+    if (
+      this.isPrimary &&
+      this.sharedClientState.isActiveQueryTarget(targetId)
+    ) {
+      // Other clients still listen to this target. We keep the remote listen
+      // and only remove the local view.
+      this.remoteKeysByTarget[targetId] = queryView.view.syncedDocuments;
+      return this.removeAndCleanupQuery(queryView);
+    }
+
     return this.localStore.releaseQuery(query).then(() => {
-      this.remoteStore.unlisten(queryView.targetId);
+      if (this.isPrimary) {
+        this.remoteStore.unlisten(targetId);
+      }
+      this.sharedClientState.clearQueryState(targetId);
       return this.removeAndCleanupQuery(queryView).then(() => {
         return this.localStore.collectGarbage();
       });
@@ -226,11 +382,16 @@ export class SyncEngine implements RemoteSyncer {
     return this.localStore
       .localWrite(batch)
       .then(result => {
+        // The pending state notifies the primary client (and all other
+        // clients) of the new batch.
+        this.sharedClientState.addPendingMutation(result.batchId);
         this.addMutationCallback(result.batchId, userCallback);
         return this.emitNewSnapsAndNotifyLocalStore(result.changes);
       })
       .then(() => {
-        return this.remoteStore.fillWritePipeline();
+        if (this.isPrimary) {
+          return this.remoteStore.fillWritePipeline();
+        }
       });
   }
 
@@ -245,8 +406,9 @@ export class SyncEngine implements RemoteSyncer {
    * using the supplied transaction object. After the updateFunction, all
    * changes will be committed. If some other client has changed any of the data
    * referenced, then the updateFunction will be called again. If the
-   * updateFunction still fails after the given number of retries, then the
-   * transaction will be rejection.
+   * transaction still fails after `options.maxAttempts` attempts, or if it is
+   * read-only and fails at all, then the transaction will be rejected with a
+   * FirestoreError that includes the number of attempts and the last error.
    *
    * The transaction object passed to the updateFunction contains methods for
    * accessing documents and collections. Unlike other datastore access, data
@@ -258,10 +420,17 @@ export class SyncEngine implements RemoteSyncer {
    */
   runTransaction<T>(
     updateFunction: (transaction: Transaction) => Promise<T>,
-    retries = 5
+    options: TransactionOptions = {
+      maxAttempts: DEFAULT_MAX_TRANSACTION_ATTEMPTS,
+      readOnly: false
+    },
+    attempt = 1
   ): Promise<T> {
-    assert(retries >= 0, 'Got negative number of retries for transaction.');
-    const transaction = this.remoteStore.createTransaction();
+    assert(
+      options.maxAttempts >= 1,
+      'Got non-positive number of attempts for transaction.'
+    );
+    const transaction = this.remoteStore.createTransaction(options.readOnly);
     const wrappedUpdateFunction = () => {
       try {
         const userPromise = updateFunction(transaction);
@@ -288,11 +457,11 @@ export class SyncEngine implements RemoteSyncer {
           return result;
         })
         .catch(error => {
-          if (retries === 0) {
-            return Promise.reject<T>(error);
+          if (options.readOnly || attempt >= options.maxAttempts) {
+            return Promise.reject<T>(transactionFailedError(attempt, error));
           }
           // TODO(klimt): Put in a retry delay?
-          return this.runTransaction(updateFunction, retries - 1);
+          return this.runTransaction(updateFunction, options, attempt + 1);
         });
     });
   }
@@ -300,9 +469,34 @@ export class SyncEngine implements RemoteSyncer {
   applyRemoteEvent(remoteEvent: RemoteEvent): Promise<void> {
     this.assertSubscribed('applyRemoteEvent()');
 
-    return this.localStore.applyRemoteEvent(remoteEvent).then(changes => {
-      return this.emitNewSnapsAndNotifyLocalStore(changes, remoteEvent);
+    objUtils.forEachNumber(remoteEvent.targetChanges, (targetId, change) => {
+      let remoteKeys = this.remoteKeysByTarget[targetId];
+      if (remoteKeys) {
+        remoteKeys = remoteKeys.unionWith(change.addedDocuments);
+        change.removedDocuments.forEach(key => {
+          remoteKeys = remoteKeys.delete(key);
+        });
+        this.remoteKeysByTarget[targetId] = remoteKeys;
+      }
     });
+
+    return this.localStore
+      .applyRemoteEvent(remoteEvent)
+      .then(changes => {
+        return this.emitNewSnapsAndNotifyLocalStore(changes, remoteEvent);
+      })
+      .then(() => {
+        objUtils.forEachNumber(
+          remoteEvent.targetChanges,
+          (targetId, change) => {
+            this.sharedClientState.updateQueryState(
+              targetId,
+              change.current ? 'current' : 'not-current'
+            );
+          }
+        );
+      })
+      .catch(ignoreIfPrimaryLeaseLoss);
   }
 
   /**
@@ -357,8 +551,22 @@ export class SyncEngine implements RemoteSyncer {
       );
       return this.applyRemoteEvent(event);
     } else {
+      this.sharedClientState.updateQueryState(targetId, 'rejected', err);
       const queryView = this.queryViewsByTarget[targetId];
-      assert(!!queryView, 'Unknown targetId: ' + targetId);
+      if (!queryView) {
+        // The target was only listened to on behalf of other clients, which
+        // release it once they process the rejection.
+        assert(
+          !!this.remoteKeysByTarget[targetId],
+          'Unknown targetId: ' + targetId
+        );
+        delete this.remoteKeysByTarget[targetId];
+        return this.localStore.getQueryForTarget(targetId).then(query => {
+          if (query) {
+            return this.localStore.releaseQuery(query);
+          }
+        });
+      }
       return this.localStore.releaseQuery(queryView.query).then(() => {
         return this.removeAndCleanupQuery(queryView).then(() => {
           this.errorHandler!(queryView.query, err);
@@ -376,16 +584,19 @@ export class SyncEngine implements RemoteSyncer {
     // raise events immediately (depending on whether the watcher is caught
     // up), so we raise user callbacks first so that they consistently happen
     // before listen events.
-    this.processUserCallback(
-      mutationBatchResult.batch.batchId,
-      /*error=*/ null
-    );
+    const batchId = mutationBatchResult.batch.batchId;
+    this.sharedClientState.updateMutationState(batchId, 'acknowledged');
+    if (this.processUserCallback(batchId, /*error=*/ null)) {
+      this.sharedClientState.removeMutationState(batchId);
+    }
+    this.triggerPendingWritesCallbacks(batchId);
 
     return this.localStore
       .acknowledgeBatch(mutationBatchResult)
       .then(changes => {
         return this.emitNewSnapsAndNotifyLocalStore(changes);
-      });
+      })
+      .catch(ignoreIfPrimaryLeaseLoss);
   }
 
   rejectFailedWrite(batchId: BatchId, error: FirestoreError): Promise<void> {
@@ -395,11 +606,149 @@ export class SyncEngine implements RemoteSyncer {
     // raise events immediately (depending on whether the watcher is caught up),
     // so we raise user callbacks first so that they consistently happen before
     // listen events.
-    this.processUserCallback(batchId, error);
+    this.sharedClientState.updateMutationState(batchId, 'rejected', error);
+    if (this.processUserCallback(batchId, error)) {
+      this.sharedClientState.removeMutationState(batchId);
+    }
+    this.triggerPendingWritesCallbacks(batchId);
 
-    return this.localStore.rejectBatch(batchId).then(changes => {
-      return this.emitNewSnapsAndNotifyLocalStore(changes);
+    return this.localStore
+      .rejectBatch(batchId)
+      .then(changes => {
+        return this.emitNewSnapsAndNotifyLocalStore(changes);
+      })
+      .catch(ignoreIfPrimaryLeaseLoss);
+  }
+
+  /**
+   * Registers a user callback that resolves when all pending mutations at the
+   * moment of calling are acknowledged or rejected by the backend.
+   */
+  registerPendingWritesCallback(callback: Deferred<void>): Promise<void> {
+    if (!this.remoteStore.canUseNetwork()) {
+      log.debug(
+        LOG_TAG,
+        'The network is disabled. The promise returned by ' +
+          'waitForPendingWrites() will not resolve until the network is ' +
+          'enabled.'
+      );
+    }
+
+    return this.localStore
+      .getHighestUnacknowledgedBatchId()
+      .then(highestBatchId => {
+        if (highestBatchId === BATCHID_UNKNOWN) {
+          // Trigger the callback right away if there is no pending write.
+          callback.resolve();
+          return;
+        }
+
+        const callbacks = this.pendingWritesCallbacks[highestBatchId] || [];
+        callbacks.push(callback);
+        this.pendingWritesCallbacks[highestBatchId] = callbacks;
+      });
+  }
+
+  /**
+   * Loads the bundle read by `bundleReader` into local storage and raises
+   * snapshots for all active queries whose results changed. The progress and
+   * the outcome of loading the bundle are reported to `task`.
+   *
+   * The returned promise is never rejected, since errors are reported to
+   * `task` instead.
+   */
+  loadBundle(bundleReader: BundleReader, task: LoadBundleTask): Promise<void> {
+    this.assertSubscribed('loadBundle()');
+    const converter = new BundleConverter(bundleReader.serializer);
+    let metadata: bundleProto.BundleMetadata;
+    return Promise.resolve()
+      .then(() => {
+        metadata = bundleReader.getMetadata();
+        return this.localStore.hasNewerBundle(converter.toBundle(metadata));
+      })
+      .then(hasNewerBundle => {
+        if (hasNewerBundle) {
+          log.debug(LOG_TAG, `Bundle '${metadata.id}' was already loaded.`);
+          task._completeWith(bundleSuccessProgress(metadata));
+          return;
+        }
+
+        task._updateProgress(bundleInitialProgress(metadata));
+        const loader = new BundleLoader(metadata, this.localStore, converter);
+        let element = bundleReader.nextElement();
+        while (element !== null) {
+          const progress = loader.addSizedElement(element);
+          if (progress) {
+            task._updateProgress(progress);
+          }
+          element = bundleReader.nextElement();
+        }
+
+        return loader.complete().then(result => {
+          return this.emitNewSnapsAndNotifyLocalStore(result.changedDocs)
+            .then(() =>
+              this.localStore.saveBundle(converter.toBundle(metadata))
+            )
+            .then(() => task._completeWith(result.progress));
+        });
+      })
+      .catch(error => {
+        log.debug(LOG_TAG, 'Loading bundle failed: ', error);
+        task._failWith(error);
+      });
+  }
+
+  /**
+   * Triggers the callbacks that are waiting for this batch ID or for any
+   * earlier batch to be acknowledged or rejected.
+   */
+  private triggerPendingWritesCallbacks(batchId: BatchId): void {
+    objUtils.forEachNumber(
+      this.pendingWritesCallbacks,
+      (highestBatchId, callbacks) => {
+        if (highestBatchId <= batchId) {
+          callbacks.forEach(callback => callback.resolve());
+          delete this.pendingWritesCallbacks[highestBatchId];
+        }
+      }
+    );
+  }
+
+  /**
+   * Rejects all pending writes callbacks with the given error. The callbacks
+   * refer to the mutation queue of a user that is no longer active.
+   */
+  private rejectOutstandingPendingWritesCallbacks(errorMessage: string): void {
+    objUtils.forEachNumber(this.pendingWritesCallbacks, (_, callbacks) => {
+      callbacks.forEach(callback => {
+        callback.reject(new FirestoreError(Code.CANCELLED, errorMessage));
+      });
     });
+    this.pendingWritesCallbacks = {};
+  }
+
+  /**
+   * Rejects the callbacks of all writes and of all `waitForPendingWrites()`
+   * calls that are still pending, since they can no longer be acknowledged
+   * once the client is terminated.
+   */
+  handleClientTerminated(): void {
+    this.rejectOutstandingPendingWritesCallbacks(
+      "'waitForPendingWrites' promise is rejected because the client was " +
+        'terminated.'
+    );
+    objUtils.forEach(this.mutationUserCallbacks, (_, callbacks) => {
+      callbacks.forEach((batchId, callback) => {
+        callback.reject(
+          new FirestoreError(
+            Code.CANCELLED,
+            'The write was not acknowledged by the backend before the client ' +
+              'was terminated.'
+          )
+        );
+      });
+    });
+    this.mutationUserCallbacks = {};
   }
 
   private addMutationCallback(
@@ -418,9 +767,10 @@ export class SyncEngine implements RemoteSyncer {
 
   /**
    * Resolves or rejects the user callback for the given batch and then discards
-   * it.
+   * it. Returns whether a callback was registered for the batch.
    */
-  private processUserCallback(batchId: BatchId, error: Error | null): void {
+  private processUserCallback(batchId: BatchId, error: Error | null): boolean {
+    let processed = false;
     let newCallbacks = this.mutationUserCallbacks[this.currentUser.toKey()];
 
     // NOTE: Mutations restored from persistence won't have callbacks, so it's
@@ -438,9 +788,11 @@ export class SyncEngine implements RemoteSyncer {
           callback.resolve();
         }
         newCallbacks = newCallbacks.remove(batchId);
+        processed = true;
       }
       this.mutationUserCallbacks[this.currentUser.toKey()] = newCallbacks;
     }
+    return processed;
   }
 
   private removeAndCleanupQuery(queryView: QueryView): Promise<void> {
@@ -471,13 +823,21 @@ export class SyncEngine implements RemoteSyncer {
 
   private trackLimboChange(limboChange: AddedLimboDocument): void {
     const key = limboChange.key;
-    if (!this.limboTargetsByKey.get(key)) {
+    // Only the primary client listens to limbo documents. Secondary clients
+    // keep track of their limbo documents in `limboDocumentRefs` and start
+    // listening to them if they become primary.
+    if (this.isPrimary && !this.limboTargetsByKey.get(key)) {
       log.debug(LOG_TAG, 'New document in limbo: ' + key);
       const limboTargetId = this.targetIdGenerator.next();
       const query = Query.atPath(key.path);
       this.limboKeysByTarget[limboTargetId] = key;
       this.remoteStore.listen(
-        new QueryData(query, limboTargetId, QueryPurpose.LimboResolution)
+        new QueryData(
+          query,
+          limboTargetId,
+          QueryPurpose.LimboResolution,
+          ListenSequence.INVALID
+        )
       );
       this.limboTargetsByKey = this.limboTargetsByKey.insert(
         key,
@@ -576,6 +936,10 @@ export class SyncEngine implements RemoteSyncer {
 
   handleUserChange(user: User): Promise<void> {
     this.currentUser = user;
+    this.rejectOutstandingPendingWritesCallbacks(
+      "'waitForPendingWrites' promise is rejected due to a user change."
+    );
+    this.sharedClientState.handleUserChange(user);
     return this.localStore
       .handleUserChange(user)
       .then(changes => {
@@ -587,8 +951,237 @@ export class SyncEngine implements RemoteSyncer {
   }
 
   getRemoteKeysForTarget(targetId: TargetId): DocumentKeySet {
-    return this.queryViewsByTarget[targetId]
-      ? this.queryViewsByTarget[targetId].view.syncedDocuments
-      : documentKeySet();
+    if (this.queryViewsByTarget[targetId]) {
+      return this.queryViewsByTarget[targetId].view.syncedDocuments;
+    }
+    return this.remoteKeysByTarget[targetId] || documentKeySet();
+  }
+
+  /**
+   * Applies a change to the primary state of this client. A client that
+   * becomes primary starts listening to the targets of all clients and takes
+   * over the network connection. A client that loses its primary lease stops
+   * all remote listens.
+   */
+  applyPrimaryState(isPrimary: boolean): Promise<void> {
+    if (isPrimary === this.isPrimary) {
+      return Promise.resolve();
+    }
+    const wasPrimary = this.isPrimary;
+    this.isPrimary = isPrimary;
+
+    if (isPrimary) {
+      return this.listenToAllTargets().then(() =>
+        this.remoteStore.applyPrimaryState(true)
+      );
+    } else if (wasPrimary) {
+      this.unlistenFromAllTargets();
+      return this.remoteStore.applyPrimaryState(false);
+    } else {
+      return this.remoteStore.applyPrimaryState(false);
+    }
+  }
+
+  /**
+   * Starts remote listens for the targets of the local views and for the
+   * targets of all other clients. Also starts listening to the limbo documents
+   * of the local views.
+   */
+  private listenToAllTargets(): Promise<void> {
+    const listens: Array<Promise<void>> = [];
+
+    objUtils.forEachNumber(this.queryViewsByTarget, (targetId, queryView) => {
+      listens.push(
+        this.localStore.allocateQuery(queryView.query).then(queryData => {
+          this.remoteStore.listen(queryData);
+        })
+      );
+    });
+
+    this.sharedClientState.getAllActiveQueryTargets().forEach(targetId => {
+      if (!this.queryViewsByTarget[targetId]) {
+        listens.push(this.listenOnBehalfOfOtherClients(targetId));
+      }
+    });
+
+    return Promise.all(listens).then(() => {
+      objUtils.forEachNumber(this.queryViewsByTarget, targetId => {
+        this.limboDocumentRefs
+          .referencesForId(targetId)
+          .forEach(key => this.trackLimboChange(new AddedLimboDocument(key)));
+      });
+    });
+  }
+
+  /** Stops all remote listens, including the listens for limbo documents. */
+  private unlistenFromAllTargets(): void {
+    objUtils.forEachNumber(this.queryViewsByTarget, targetId => {
+      this.remoteStore.unlisten(targetId);
+    });
+    objUtils.forEachNumber(this.remoteKeysByTarget, targetId => {
+      this.remoteStore.unlisten(targetId);
+    });
+    this.remoteKeysByTarget = {};
+
+    this.limboTargetsByKey.forEach((key, limboTargetId) => {
+      this.remoteStore.unlisten(limboTargetId);
+    });
+    this.limboTargetsByKey = new SortedMap<DocumentKey, TargetId>(
+      DocumentKey.comparator
+    );
+    this.limboKeysByTarget = {};
   }
+
+  /**
+   * Allocates the target of another client and starts a remote listen for it.
+   * Only called by the primary client.
+   */
+  private listenOnBehalfOfOtherClients(targetId: TargetId): Promise<void> {
+    return this.localStore.getQueryForTarget(targetId).then(query => {
+      if (!query) {
+        // The target was already released by all clients.
+        return;
+      }
+      return this.localStore.allocateQuery(query).then(queryData => {
+        return this.localStore
+          .remoteDocumentKeys(queryData.targetId)
+          .then(remoteKeys => {
+            this.remoteKeysByTarget[queryData.targetId] = remoteKeys;
+            this.remoteStore.listen(queryData);
+          });
+      });
+    });
+  }
+
+  applyBatchState(
+    batchId: BatchId,
+    batchState: MutationBatchState,
+    error?: FirestoreError
+  ): Promise<void> {
+    if (this.isPrimary) {
+      // A secondary client wrote a new batch that we need to send.
+      if (batchState === 'pending') {
+        return this.remoteStore.fillWritePipeline();
+      }
+      return Promise.resolve();
+    }
+
+    if (batchState === 'acknowledged' || batchState === 'rejected') {
+      // NOTE: Both these methods are no-ops for batches that originated from
+      // other clients.
+      if (this.processUserCallback(batchId, error ? error : null)) {
+        this.sharedClientState.removeMutationState(batchId);
+      }
+      this.triggerPendingWritesCallbacks(batchId);
+    }
+
+    // The batch changed the persisted state of the documents it touches, which
+    // may affect any of our views.
+    const targetIds: TargetId[] = [];
+    objUtils.forEachNumber(this.queryViewsByTarget, targetId => {
+      targetIds.push(targetId);
+    });
+    return this.synchronizeQueryViewsAndRaiseSnapshots(targetIds);
+  }
+
+  applyTargetState(
+    targetId: TargetId,
+    state: QueryTargetState,
+    error?: FirestoreError
+  ): Promise<void> {
+    if (this.isPrimary) {
+      // If we receive a target state notification via the SharedClientState,
+      // the primary client has already received this notification and
+      // updated its views.
+      return Promise.resolve();
+    }
+
+    const queryView = this.queryViewsByTarget[targetId];
+    if (!queryView) {
+      return Promise.resolve();
+    }
+
+    switch (state) {
+      case 'current':
+      case 'not-current':
+        return this.synchronizeQueryViewsAndRaiseSnapshots(
+          [targetId],
+          state === 'current'
+        );
+      case 'rejected':
+        return this.localStore.releaseQuery(queryView.query).then(() => {
+          return this.removeAndCleanupQuery(queryView).then(() => {
+            this.errorHandler!(queryView.query, error!);
+          });
+        });
+      default:
+        return fail('Unexpected target state: ' + state);
+    }
+  }
+
+  applyActiveTargetsChange(
+    added: TargetId[],
+    removed: TargetId[]
+  ): Promise<void> {
+    if (!this.isPrimary) {
+      return Promise.resolve();
+    }
+
+    const changes: Array<Promise<void>> = [];
+
+    for (const targetId of added) {
+      if (
+        this.queryViewsByTarget[targetId] ||
+        this.remoteKeysByTarget[targetId]
+      ) {
+        // We already listen to this target.
+        continue;
+      }
+      changes.push(this.listenOnBehalfOfOtherClients(targetId));
+    }
+
+    for (const targetId of removed) {
+      if (
+        this.queryViewsByTarget[targetId] ||
+        !this.remoteKeysByTarget[targetId]
+      ) {
+        // Targets with a local view are released when the view is removed.
+        continue;
+      }
+      changes.push(
+        this.localStore.getQueryForTarget(targetId).then(query => {
+          this.remoteStore.unlisten(targetId);
+          this.sharedClientState.clearQueryState(targetId);
+          delete this.remoteKeysByTarget[targetId];
+          if (query) {
+            return this.localStore.releaseQuery(query);
+          }
+        })
+      );
+    }
+
+    return Promise.all(changes).then(() => {});
+  }
+
+  getActiveClients(): Promise<ClientId[]> {
+    return this.localStore.getActiveClients();
+  }
+}
+
+/**
+ * Returns the error that a transaction is rejected with when it could not be
+ * committed, which includes the number of attempts and the last error.
+ */
+function transactionFailedError(
+  attempts: number,
+  lastError: AnyJs
+): FirestoreError {
+  const code =
+    lastError instanceof FirestoreError ? lastError.code : Code.UNKNOWN;
+  const message =
+    lastError instanceof Error ? lastError.message : String(lastError);
+  return new FirestoreError(
+    code,
+    `Transaction failed after ${attempts} attempt(s). Last error: ${message}`
+  );
 }
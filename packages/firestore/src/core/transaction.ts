@@ -24,6 +24,20 @@ import { DeleteMutation, Mutation, Precondition } from '../model/mutation';
 import { Datastore } from '../remote/datastore';
 import { Code, FirestoreError } from '../util/error';
 
+/** The default number of times a transaction's update function is run. */
+export const DEFAULT_MAX_TRANSACTION_ATTEMPTS = 5;
+
+/** Options that configure how a transaction is run. */
+export interface TransactionOptions {
+  /** The maximum number of times the update function is run. */
+  readonly maxAttempts: number;
+  /**
+   * Whether the transaction is read-only. Read-only transactions cannot
+   * contain writes and are never retried.
+   */
+  readonly readOnly: boolean;
+}
+
 /**
  * Internal transaction object responsible for accumulating the mutations to
  * perform and the base versions for any documents read.
@@ -33,8 +47,13 @@ export class Transaction {
   private readVersions = documentVersionMap();
   private mutations: Mutation[] = [];
   private committed = false;
+  /**
+   * The ID of the backend transaction that reads are performed in, which is
+   * only used for read-only transactions and is set by the first lookup.
+   */
+  private readOnlyTransactionId: string | null = null;
 
-  constructor(private datastore: Datastore) {}
+  constructor(private datastore: Datastore, readonly readOnly = false) {}
 
   private recordVersion(doc: MaybeDocument): void {
     let docVersion = doc.version;
@@ -67,6 +86,15 @@ export class Transaction {
         'Transactions lookups are invalid after writes.'
       );
     }
+    if (this.readOnly) {
+      return this.datastore
+        .lookupReadOnly(keys, this.readOnlyTransactionId)
+        .then(result => {
+          this.readOnlyTransactionId = result.transaction;
+          result.docs.forEach(doc => this.recordVersion(doc));
+          return result.docs;
+        });
+    }
     return this.datastore.lookup(keys).then(docs => {
       docs.forEach(doc => this.recordVersion(doc));
       return docs;
@@ -74,6 +102,12 @@ export class Transaction {
   }
 
   private write(mutations: Mutation[]): void {
+    if (this.readOnly) {
+      throw new FirestoreError(
+        Code.FAILED_PRECONDITION,
+        'Cannot write in a read-only transaction.'
+      );
+    }
     if (this.committed) {
       throw new FirestoreError(
         Code.FAILED_PRECONDITION,
@@ -136,6 +170,12 @@ export class Transaction {
   }
 
   commit(): Promise<void> {
+    if (this.readOnly) {
+      // Read-only transactions have nothing to commit and expire on the
+      // backend by themselves.
+      this.committed = true;
+      return Promise.resolve();
+    }
     let unwritten = this.readVersions;
     // For each mutation, note that the doc was written.
     this.mutations.forEach(mutation => {
@@ -143,7 +183,10 @@ export class Transaction {
     });
     if (!unwritten.isEmpty()) {
       return Promise.reject(
-        Error('Every document read in a transaction must also be written.')
+        new FirestoreError(
+          Code.FAILED_PRECONDITION,
+          'Every document read in a transaction must also be written.'
+        )
       );
     }
     return this.datastore.commit(this.mutations).then(() => {
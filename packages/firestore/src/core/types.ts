@@ -26,6 +26,13 @@ export type BatchId = number;
  */
 export type TargetId = number;
 
+/**
+ * A monotonically increasing number that is bumped every time a target is
+ * listened to or released. Used to order targets and documents by their most
+ * recent use for LRU garbage collection.
+ */
+export type ListenSequenceNumber = number;
+
 // TODO(b/35918695): In GRPC / node, tokens are Uint8Array. In WebChannel,
 // they're strings. We should probably (de-)serialize to a common internal type.
 export type ProtoByteString = Uint8Array | string;
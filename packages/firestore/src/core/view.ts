@@ -17,15 +17,18 @@
 import {
   documentKeySet,
   DocumentKeySet,
+  DocumentMap,
+  maybeDocumentMap,
   MaybeDocumentMap
 } from '../model/collections';
-import { Document, MaybeDocument } from '../model/document';
+import { Document, MaybeDocument, NoDocument } from '../model/document';
 import { DocumentKey } from '../model/document_key';
 import { DocumentSet } from '../model/document_set';
 import { TargetChange } from '../remote/remote_event';
 import { assert, fail } from '../util/assert';
 
 import { Query } from './query';
+import { SnapshotVersion } from './snapshot_version';
 import { OnlineState } from './types';
 import {
   ChangeType,
@@ -131,13 +134,18 @@ export class View {
     // come (1) between the old last limit doc and the new last document, in the
     // case of updates, or (2) after the new last document, in the case of
     // deletes. So we keep this doc at the old limit to compare the updates to.
+    // For limitToLast queries, the same applies to the first doc in the limit.
     //
     // Note that this should never get used in a refill (when previousChanges is
     // set), because there will only be adds -- no deletes or updates.
     const lastDocInLimit =
-      this.query.hasLimit() && oldDocumentSet.size === this.query.limit
+      this.query.hasLimitToFirst() && oldDocumentSet.size === this.query.limit
         ? oldDocumentSet.last()
         : null;
+    const firstDocInLimit =
+      this.query.hasLimitToLast() && oldDocumentSet.size === this.query.limit
+        ? oldDocumentSet.first()
+        : null;
 
     docChanges.inorderTraversal(
       (key: DocumentKey, newMaybeDoc: MaybeDocument) => {
@@ -180,12 +188,14 @@ export class View {
             }
 
             if (
-              lastDocInLimit &&
-              this.query.docComparator(newDoc, lastDocInLimit) > 0
+              (lastDocInLimit &&
+                this.query.docComparator(newDoc, lastDocInLimit) > 0) ||
+              (firstDocInLimit &&
+                this.query.docComparator(newDoc, firstDocInLimit) < 0)
             ) {
-              // This doc moved from inside the limit to after the limit.
-              // That means there may be some doc in the local cache that's
-              // actually less than this one.
+              // This doc moved from inside the limit to outside the limit.
+              // That means there may be some other doc in the local cache
+              // that should be included instead.
               needsRefill = true;
             }
           }
@@ -193,7 +203,7 @@ export class View {
           changeSet.track({ type: ChangeType.Added, doc: newDoc });
         } else if (oldDoc && !newDoc) {
           changeSet.track({ type: ChangeType.Removed, doc: oldDoc });
-          if (lastDocInLimit) {
+          if (lastDocInLimit || firstDocInLimit) {
             // A doc was removed from a full limit query. We'll need to
             // requery from the local cache to see if we know about some other
             // doc that should be in the results.
@@ -202,10 +212,13 @@ export class View {
         }
       }
     );
-    if (this.query.hasLimit()) {
+    if (this.query.hasLimitToFirst() || this.query.hasLimitToLast()) {
       // TODO(klimt): Make DocumentSet size be constant time.
       while (newDocumentSet.size > this.query.limit!) {
-        const oldDoc = newDocumentSet.last();
+        // limitToLast queries drop documents from the front of the result.
+        const oldDoc = this.query.hasLimitToFirst()
+          ? newDocumentSet.last()
+          : newDocumentSet.first();
         newDocumentSet = newDocumentSet.delete(oldDoc!.key);
         changeSet.track({ type: ChangeType.Removed, doc: oldDoc! });
       }
@@ -298,6 +311,52 @@ export class View {
     }
   }
 
+  /**
+   * Updates the view to match the persisted state of its target. This is used
+   * by secondary clients in multi-tab mode, which don't receive remote events
+   * and instead re-read the query results and remote keys from persistence
+   * when another client changed them.
+   *
+   * @param localDocs The documents that match the query according to the
+   *        LocalStore.
+   * @param remoteKeys The keys of the documents that match the query according
+   *        to the backend.
+   * @param current Whether the target is current. If omitted, the view keeps
+   *        its current state.
+   * @return A ViewChange that reflects the differences to the previous state.
+   */
+  synchronizeWithPersistedState(
+    localDocs: DocumentMap,
+    remoteKeys: DocumentKeySet,
+    current?: boolean
+  ): ViewChange {
+    this._syncedDocuments = remoteKeys;
+    if (current !== undefined) {
+      this.current = current;
+    }
+
+    // Documents that no longer match the query are passed in as deleted so
+    // that they get removed from the view.
+    let docChanges = maybeDocumentMap();
+    this.documentSet.forEach(doc => {
+      if (!localDocs.get(doc.key)) {
+        docChanges = docChanges.insert(
+          doc.key,
+          new NoDocument(doc.key, SnapshotVersion.forDeletedDoc())
+        );
+      }
+    });
+    localDocs.forEach((key, doc) => {
+      docChanges = docChanges.insert(key, doc);
+    });
+
+    let viewDocChanges = this.computeDocChanges(docChanges);
+    if (viewDocChanges.needsRefill) {
+      viewDocChanges = this.computeDocChanges(localDocs, viewDocChanges);
+    }
+    return this.applyChanges(viewDocChanges);
+  }
+
   /**
    * Returns whether the doc for the given key should be in limbo.
    */
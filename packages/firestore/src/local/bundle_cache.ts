@@ -0,0 +1,66 @@
+/**
+ * Copyright 2019 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Bundle, NamedQuery } from '../core/bundle';
+
+import { PersistenceTransaction } from './persistence';
+import { PersistencePromise } from './persistence_promise';
+
+/**
+ * Represents the metadata of the bundles that have been loaded and the named
+ * queries they contained. The documents of a bundle are stored in the
+ * RemoteDocumentCache.
+ */
+export interface BundleCache {
+  /**
+   * Looks up the metadata of a previously loaded bundle.
+   *
+   * @param bundleId The ID of the bundle.
+   * @return The bundle, or null if no bundle with the given ID was loaded.
+   */
+  getBundle(
+    transaction: PersistenceTransaction,
+    bundleId: string
+  ): PersistencePromise<Bundle | null>;
+
+  /**
+   * Saves the metadata of a bundle, replacing any bundle with the same ID.
+   */
+  saveBundle(
+    transaction: PersistenceTransaction,
+    bundle: Bundle
+  ): PersistencePromise<void>;
+
+  /**
+   * Looks up a named query.
+   *
+   * @param queryName The name of the query.
+   * @return The named query, or null if no query with the given name was
+   * loaded.
+   */
+  getNamedQuery(
+    transaction: PersistenceTransaction,
+    queryName: string
+  ): PersistencePromise<NamedQuery | null>;
+
+  /**
+   * Saves a named query, replacing any query with the same name.
+   */
+  saveNamedQuery(
+    transaction: PersistenceTransaction,
+    query: NamedQuery
+  ): PersistencePromise<void>;
+}
@@ -0,0 +1,184 @@
+/**
+ * Copyright 2019 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  ArrayValue,
+  BlobValue,
+  BooleanValue,
+  FieldValue,
+  GeoPointValue,
+  NullValue,
+  NumberValue,
+  ObjectValue,
+  RefValue,
+  StringValue,
+  TimestampValue,
+  TypeOrder
+} from '../model/field_value';
+import { fail } from '../util/assert';
+import { primitiveComparator } from '../util/misc';
+
+/**
+ * Helpers for storing field values as keys of client-side index entries.
+ *
+ * IndexedDB only supports numbers, strings, dates, binary data and arrays
+ * thereof as keys, and orders them differently than Firestore orders field
+ * values. Field values are therefore encoded as arrays whose first element is
+ * the value's TypeOrder, followed by a representation of the value that sorts
+ * the same way as values of that type are sorted by the backend:
+ *
+ *   * null: [0]
+ *   * booleans: [1, 0 | 1]
+ *   * NaN: [2, 0] (NaN is not a valid key and sorts before all numbers)
+ *   * other numbers: [2, 1, number]
+ *   * timestamps: [3, seconds, nanoseconds]
+ *   * strings: [4, string]
+ *   * blobs: [5, [byte, ...]]
+ *   * references: [6, projectId, database, [segment, ...]]
+ *   * geo points: [7, latitude, longitude]
+ *   * arrays: [8, [element, ...]] with encoded elements
+ *   * maps: [9, [key, value, ...]] with encoded values, in key order
+ *
+ * Integers and doubles share their encoding since the backend orders them
+ * as numbers. Because IndexedDB sorts arrays after strings and numbers, an
+ * empty array can be appended to an encoded key to obtain a key that sorts
+ * after all keys of which it is a prefix.
+ */
+export type IndexKeyComponent = number | string | IndexKeyArray;
+
+// An interface is needed to declare the recursive array type.
+// tslint:disable-next-line:no-empty-interface
+export interface IndexKeyArray extends Array<IndexKeyComponent> {}
+
+/** The kind of an index entry, stored as part of its key. */
+export enum IndexEntryKind {
+  /** An entry for the value of the indexed field. */
+  Value = 0,
+  /** An entry for an element of the array stored in the indexed field. */
+  ArrayElement = 1
+}
+
+/** Encodes a field value into a key that sorts like the value. */
+export function encodeIndexValue(value: FieldValue): IndexKeyArray {
+  const typeOrder: number = value.typeOrder;
+  if (value instanceof NullValue) {
+    return [typeOrder];
+  } else if (value instanceof BooleanValue) {
+    return [typeOrder, value.internalValue ? 1 : 0];
+  } else if (value instanceof NumberValue) {
+    return isNaN(value.internalValue)
+      ? [typeOrder, 0]
+      : [typeOrder, 1, value.internalValue];
+  } else if (value instanceof TimestampValue) {
+    return [
+      typeOrder,
+      value.internalValue.seconds,
+      value.internalValue.nanoseconds
+    ];
+  } else if (value instanceof StringValue) {
+    return [typeOrder, value.internalValue];
+  } else if (value instanceof BlobValue) {
+    const bytes: number[] = [];
+    const array = value.internalValue.toUint8Array();
+    for (let i = 0; i < array.length; ++i) {
+      bytes.push(array[i]);
+    }
+    return [typeOrder, bytes];
+  } else if (value instanceof RefValue) {
+    return [
+      typeOrder,
+      value.databaseId.projectId,
+      value.databaseId.database,
+      value.key.path.toArray()
+    ];
+  } else if (value instanceof GeoPointValue) {
+    return [
+      typeOrder,
+      value.internalValue.latitude,
+      value.internalValue.longitude
+    ];
+  } else if (value instanceof ArrayValue) {
+    return [typeOrder, value.internalValue.map(encodeIndexValue)];
+  } else if (value instanceof ObjectValue) {
+    const fields: IndexKeyArray = [];
+    value.forEach((key, fieldValue) => {
+      fields.push(key, encodeIndexValue(fieldValue));
+    });
+    return [typeOrder, fields];
+  } else {
+    // Server timestamps only exist in the local view of documents, which is
+    // never indexed.
+    return fail('Cannot index value: ' + value);
+  }
+}
+
+/** Returns the smallest key of all values with the given type order. */
+export function typeLowerBound(typeOrder: TypeOrder): IndexKeyArray {
+  return [typeOrder];
+}
+
+/**
+ * Returns a key that sorts after all values with the given type order. It
+ * must be used as an exclusive bound.
+ */
+export function typeUpperBound(typeOrder: TypeOrder): IndexKeyArray {
+  return [typeOrder + 1];
+}
+
+/**
+ * Returns a key that sorts after `key` and all keys of which `key` is a
+ * prefix.
+ */
+export function prefixSuccessor(key: IndexKeyArray): IndexKeyArray {
+  return [...key, []];
+}
+
+/**
+ * Compares two keys the way IndexedDB does: numbers sort before strings,
+ * which sort before arrays. Arrays are compared element by element, with
+ * shorter arrays sorting before longer arrays that they are a prefix of.
+ */
+export function compareIndexKeys(
+  left: IndexKeyComponent,
+  right: IndexKeyComponent
+): number {
+  const leftRank = keyTypeRank(left);
+  const rightRank = keyTypeRank(right);
+  if (leftRank !== rightRank) {
+    return primitiveComparator(leftRank, rightRank);
+  } else if (Array.isArray(left)) {
+    const rightArray = right as IndexKeyArray;
+    for (let i = 0; i < left.length && i < rightArray.length; ++i) {
+      const cmp = compareIndexKeys(left[i], rightArray[i]);
+      if (cmp !== 0) {
+        return cmp;
+      }
+    }
+    return primitiveComparator(left.length, rightArray.length);
+  } else {
+    return primitiveComparator(left, right);
+  }
+}
+
+function keyTypeRank(key: IndexKeyComponent): number {
+  if (typeof key === 'number') {
+    return 0;
+  } else if (typeof key === 'string') {
+    return 1;
+  } else {
+    return 2;
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Copyright 2019 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { DocumentKeySet } from '../model/collections';
+import { Document } from '../model/document';
+import { DocumentKey } from '../model/document_key';
+import { FieldIndex } from '../model/field_index';
+import { ArrayValue } from '../model/field_value';
+
+import {
+  encodeIndexValue,
+  IndexEntryKind,
+  IndexKeyArray
+} from './encoded_index_value';
+import { IndexScan } from './index_query_planner';
+import { PersistenceTransaction } from './persistence';
+import { PersistencePromise } from './persistence_promise';
+
+/**
+ * Represents the client-side field indexes and their entries, which are used
+ * to avoid scanning all cached documents of a collection when executing a
+ * query against the RemoteDocumentCache.
+ *
+ * Index entries are only maintained for the documents of the remote document
+ * cache. Documents that are affected by pending mutations are found via the
+ * MutationQueue instead.
+ */
+export interface IndexManager {
+  /**
+   * Adds a field index. Entries for the documents that are already cached
+   * need to be added separately via `updateIndexEntries()`.
+   */
+  addFieldIndex(
+    transaction: PersistenceTransaction,
+    index: FieldIndex
+  ): PersistencePromise<void>;
+
+  /** Removes a field index along with all of its entries. */
+  deleteFieldIndex(
+    transaction: PersistenceTransaction,
+    index: FieldIndex
+  ): PersistencePromise<void>;
+
+  /**
+   * Returns the configured field indexes.
+   *
+   * @param collectionGroup If set, only the indexes of this collection group
+   * are returned.
+   */
+  getFieldIndexes(
+    transaction: PersistenceTransaction,
+    collectionGroup?: string
+  ): PersistencePromise<FieldIndex[]>;
+
+  /**
+   * Replaces the index entries of a document with entries for its new
+   * contents.
+   *
+   * @param document The cached document, or null if the cache does not
+   * contain a document with the given key.
+   */
+  updateIndexEntries(
+    transaction: PersistenceTransaction,
+    documentKey: DocumentKey,
+    document: Document | null
+  ): PersistencePromise<void>;
+
+  /**
+   * Returns the keys of the documents with index entries in the ranges of the
+   * given scan.
+   */
+  getDocumentsMatchingIndexScan(
+    transaction: PersistenceTransaction,
+    scan: IndexScan
+  ): PersistencePromise<DocumentKeySet>;
+}
+
+/** Returns the collection ID of the collection that contains a document. */
+export function documentCollectionGroup(documentKey: DocumentKey): string {
+  return documentKey.path.get(documentKey.path.length - 2);
+}
+
+/**
+ * Returns the `[kind, value]` prefixes of the index entries that a document
+ * has in the given index: one for the value of the indexed field, and one for
+ * every element if that value is an array.
+ */
+export function indexEntryValues(
+  index: FieldIndex,
+  document: Document
+): IndexKeyArray[] {
+  const value = document.field(index.fieldPath);
+  if (value === undefined) {
+    return [];
+  }
+  const entries: IndexKeyArray[] = [
+    [IndexEntryKind.Value, encodeIndexValue(value)]
+  ];
+  if (value instanceof ArrayValue) {
+    for (const element of value.internalValue) {
+      entries.push([IndexEntryKind.ArrayElement, encodeIndexValue(element)]);
+    }
+  }
+  return entries;
+}
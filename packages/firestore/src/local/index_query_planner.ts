@@ -0,0 +1,182 @@
+/**
+ * Copyright 2019 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  Filter,
+  NanFilter,
+  NullFilter,
+  Query,
+  RelationFilter,
+  RelationOp
+} from '../core/query';
+import { FieldIndex } from '../model/field_index';
+import {
+  ArrayValue,
+  DoubleValue,
+  FieldValue,
+  NullValue
+} from '../model/field_value';
+import { FieldPath } from '../model/path';
+
+import {
+  encodeIndexValue,
+  IndexEntryKind,
+  IndexKeyArray,
+  prefixSuccessor,
+  typeLowerBound,
+  typeUpperBound
+} from './encoded_index_value';
+
+/**
+ * A range of index entries, described by the `[kind, value]` prefixes of the
+ * entries' keys.
+ *
+ * Both bounds are inclusive. Since the key of every entry also includes the
+ * path of the indexed document, no entry is ever equal to either bound.
+ */
+export interface IndexRange {
+  readonly lower: IndexKeyArray;
+  readonly upper: IndexKeyArray;
+}
+
+/**
+ * A plan to execute a query (or rather, to find a superset of its results)
+ * by scanning the entries of a single field index.
+ */
+export interface IndexScan {
+  readonly index: FieldIndex;
+  /** The ranges of index entries that contain the candidate documents. */
+  readonly ranges: IndexRange[];
+}
+
+/** Returns the collection ID of the collection group a query runs against. */
+export function queryCollectionGroup(query: Query): string {
+  return query.collectionGroup !== null
+    ? query.collectionGroup
+    : query.path.lastSegment();
+}
+
+/**
+ * Picks an index scan that can be used to find the candidate results of the
+ * given collection query, or returns null if none of the query's filters can
+ * be served by one of the given field indexes.
+ *
+ * The scan only narrows down the documents to check; the documents it
+ * returns still need to be matched against the query.
+ */
+export function planIndexScan(
+  query: Query,
+  indexes: FieldIndex[]
+): IndexScan | null {
+  const collectionGroup = queryCollectionGroup(query);
+  for (const filter of query.filters) {
+    const field = filterField(filter);
+    if (field === null || field.isKeyField()) {
+      continue;
+    }
+    const index = indexes.find(
+      candidate =>
+        candidate.collectionGroup === collectionGroup &&
+        candidate.fieldPath.isEqual(field)
+    );
+    const ranges = index ? filterRanges(filter) : null;
+    if (index && ranges) {
+      return { index, ranges };
+    }
+  }
+  return null;
+}
+
+function filterField(filter: Filter): FieldPath | null {
+  if (
+    filter instanceof RelationFilter ||
+    filter instanceof NullFilter ||
+    filter instanceof NanFilter
+  ) {
+    return filter.field;
+  }
+  return null;
+}
+
+/**
+ * Returns the ranges of index entries that contain all documents matching
+ * the filter, or null if the filter cannot be served by an index scan.
+ */
+function filterRanges(filter: Filter): IndexRange[] | null {
+  if (filter instanceof NullFilter) {
+    return [equalRange(IndexEntryKind.Value, NullValue.INSTANCE)];
+  } else if (filter instanceof NanFilter) {
+    return [equalRange(IndexEntryKind.Value, DoubleValue.NAN)];
+  } else if (!(filter instanceof RelationFilter)) {
+    return null;
+  }
+
+  const value = filter.value;
+  const encoded = encodeIndexValue(value);
+  const kind = IndexEntryKind.Value;
+  switch (filter.op) {
+    case RelationOp.EQUAL:
+      return [equalRange(kind, value)];
+    case RelationOp.IN:
+      return (value as ArrayValue).internalValue.map(element =>
+        equalRange(kind, element)
+      );
+    case RelationOp.ARRAY_CONTAINS:
+      return [equalRange(IndexEntryKind.ArrayElement, value)];
+    case RelationOp.ARRAY_CONTAINS_ANY:
+      return (value as ArrayValue).internalValue.map(element =>
+        equalRange(IndexEntryKind.ArrayElement, element)
+      );
+    // Range filters only match values of the same type as the filter value.
+    case RelationOp.LESS_THAN:
+      return [
+        {
+          lower: [kind, typeLowerBound(value.typeOrder)],
+          upper: [kind, encoded]
+        }
+      ];
+    case RelationOp.LESS_THAN_OR_EQUAL:
+      return [
+        {
+          lower: [kind, typeLowerBound(value.typeOrder)],
+          upper: prefixSuccessor([kind, encoded])
+        }
+      ];
+    case RelationOp.GREATER_THAN:
+      return [
+        {
+          lower: prefixSuccessor([kind, encoded]),
+          upper: [kind, typeUpperBound(value.typeOrder)]
+        }
+      ];
+    case RelationOp.GREATER_THAN_OR_EQUAL:
+      return [
+        {
+          lower: [kind, encoded],
+          upper: [kind, typeUpperBound(value.typeOrder)]
+        }
+      ];
+    default:
+      // `!=` and `not-in` filters match most values of a field, so scanning
+      // the index would not be any faster than scanning the collection.
+      return null;
+  }
+}
+
+function equalRange(kind: IndexEntryKind, value: FieldValue): IndexRange {
+  const prefix = [kind, encodeIndexValue(value)];
+  return { lower: prefix, upper: prefixSuccessor(prefix) };
+}
@@ -0,0 +1,93 @@
+/**
+ * Copyright 2019 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Bundle, NamedQuery } from '../core/bundle';
+
+import { BundleCache } from './bundle_cache';
+import {
+  DbBundle,
+  DbBundleKey,
+  DbNamedQuery,
+  DbNamedQueryKey
+} from './indexeddb_schema';
+import { LocalSerializer } from './local_serializer';
+import { PersistenceTransaction } from './persistence';
+import { PersistencePromise } from './persistence_promise';
+import { SimpleDb, SimpleDbStore } from './simple_db';
+
+export class IndexedDbBundleCache implements BundleCache {
+  constructor(private serializer: LocalSerializer) {}
+
+  getBundle(
+    transaction: PersistenceTransaction,
+    bundleId: string
+  ): PersistencePromise<Bundle | null> {
+    return bundlesStore(transaction)
+      .get(bundleId)
+      .next(
+        dbBundle => (dbBundle ? this.serializer.fromDbBundle(dbBundle) : null)
+      );
+  }
+
+  saveBundle(
+    transaction: PersistenceTransaction,
+    bundle: Bundle
+  ): PersistencePromise<void> {
+    return bundlesStore(transaction).put(this.serializer.toDbBundle(bundle));
+  }
+
+  getNamedQuery(
+    transaction: PersistenceTransaction,
+    queryName: string
+  ): PersistencePromise<NamedQuery | null> {
+    return namedQueriesStore(transaction)
+      .get(queryName)
+      .next(
+        dbNamedQuery =>
+          dbNamedQuery ? this.serializer.fromDbNamedQuery(dbNamedQuery) : null
+      );
+  }
+
+  saveNamedQuery(
+    transaction: PersistenceTransaction,
+    query: NamedQuery
+  ): PersistencePromise<void> {
+    return namedQueriesStore(transaction).put(
+      this.serializer.toDbNamedQuery(query)
+    );
+  }
+}
+
+/**
+ * Helper to get a typed SimpleDbStore for the bundles object store.
+ */
+function bundlesStore(
+  txn: PersistenceTransaction
+): SimpleDbStore<DbBundleKey, DbBundle> {
+  return SimpleDb.getStore<DbBundleKey, DbBundle>(txn, DbBundle.store);
+}
+
+/**
+ * Helper to get a typed SimpleDbStore for the namedQueries object store.
+ */
+function namedQueriesStore(
+  txn: PersistenceTransaction
+): SimpleDbStore<DbNamedQueryKey, DbNamedQuery> {
+  return SimpleDb.getStore<DbNamedQueryKey, DbNamedQuery>(
+    txn,
+    DbNamedQuery.store
+  );
+}
@@ -0,0 +1,205 @@
+/**
+ * Copyright 2019 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { DocumentKeySet, documentKeySet } from '../model/collections';
+import { Document } from '../model/document';
+import { DocumentKey } from '../model/document_key';
+import { FieldIndex } from '../model/field_index';
+import { FieldPath } from '../model/path';
+
+import { IndexKeyArray } from './encoded_index_value';
+import { decode, encode } from './encoded_resource_path';
+import {
+  documentCollectionGroup,
+  IndexManager,
+  indexEntryValues
+} from './index_manager';
+import { IndexScan } from './index_query_planner';
+import {
+  DbFieldIndex,
+  DbFieldIndexKey,
+  DbIndexEntry,
+  DbIndexEntryKey
+} from './indexeddb_schema';
+import { PersistenceTransaction } from './persistence';
+import { PersistencePromise } from './persistence_promise';
+import { SimpleDb, SimpleDbStore, SimpleDbTransaction } from './simple_db';
+
+export class IndexedDbIndexManager implements IndexManager {
+  /**
+   * The configured field indexes, which are read once and then reused for
+   * every document write. Set to null whenever the indexes change, so that
+   * they are read again on next use.
+   */
+  private fieldIndexes: FieldIndex[] | null = null;
+
+  addFieldIndex(
+    transaction: PersistenceTransaction,
+    index: FieldIndex
+  ): PersistencePromise<void> {
+    this.resetFieldIndexes(transaction);
+    return fieldIndexesStore(transaction).put(
+      new DbFieldIndex(index.collectionGroup, index.fieldPath.canonicalString())
+    );
+  }
+
+  deleteFieldIndex(
+    transaction: PersistenceTransaction,
+    index: FieldIndex
+  ): PersistencePromise<void> {
+    this.resetFieldIndexes(transaction);
+    const prefix = indexPrefix(index);
+    return fieldIndexesStore(transaction)
+      .delete(prefix as DbFieldIndexKey)
+      .next(() =>
+        indexEntriesStore(transaction).deleteAll(
+          IDBKeyRange.bound(prefix, [...prefix, []])
+        )
+      );
+  }
+
+  getFieldIndexes(
+    transaction: PersistenceTransaction,
+    collectionGroup?: string
+  ): PersistencePromise<FieldIndex[]> {
+    const fieldIndexes = this.fieldIndexes
+      ? PersistencePromise.resolve(this.fieldIndexes)
+      : fieldIndexesStore(transaction)
+          .loadAll()
+          .next(dbIndexes => {
+            this.fieldIndexes = dbIndexes.map(
+              dbIndex =>
+                new FieldIndex(
+                  dbIndex.collectionGroup,
+                  FieldPath.fromServerFormat(dbIndex.fieldPath)
+                )
+            );
+            return this.fieldIndexes;
+          });
+    return fieldIndexes.next(indexes =>
+      indexes.filter(
+        index =>
+          collectionGroup === undefined ||
+          index.collectionGroup === collectionGroup
+      )
+    );
+  }
+
+  /**
+   * Drops the cached field indexes, since `transaction` changes them. They are
+   * dropped again if `transaction` fails, as they may then have been read
+   * before the change was rolled back.
+   */
+  private resetFieldIndexes(transaction: PersistenceTransaction): void {
+    this.fieldIndexes = null;
+    if (transaction instanceof SimpleDbTransaction) {
+      transaction.completionPromise.catch(() => {
+        this.fieldIndexes = null;
+      });
+    }
+  }
+
+  updateIndexEntries(
+    transaction: PersistenceTransaction,
+    documentKey: DocumentKey,
+    document: Document | null
+  ): PersistencePromise<void> {
+    const collectionGroup = documentCollectionGroup(documentKey);
+    return this.getFieldIndexes(transaction, collectionGroup).next(indexes => {
+      if (indexes.length === 0) {
+        // Entries are removed along with their index, so documents in
+        // collection groups without indexes have no entries to update.
+        return PersistencePromise.resolve();
+      }
+
+      const documentPath = encode(documentKey.path);
+      const store = indexEntriesStore(transaction);
+      return store
+        .deleteAll(
+          DbIndexEntry.documentPathIndex,
+          IDBKeyRange.only(documentPath)
+        )
+        .next(() => {
+          const promises: Array<PersistencePromise<void>> = [];
+          if (document) {
+            for (const index of indexes) {
+              for (const [kind, value] of indexEntryValues(index, document)) {
+                promises.push(
+                  store.put(
+                    new DbIndexEntry(
+                      index.collectionGroup,
+                      index.fieldPath.canonicalString(),
+                      kind as number,
+                      value as IndexKeyArray,
+                      documentPath
+                    )
+                  )
+                );
+              }
+            }
+          }
+          return PersistencePromise.waitFor(promises);
+        });
+    });
+  }
+
+  getDocumentsMatchingIndexScan(
+    transaction: PersistenceTransaction,
+    scan: IndexScan
+  ): PersistencePromise<DocumentKeySet> {
+    let result = documentKeySet();
+    const prefix = indexPrefix(scan.index);
+    const store = indexEntriesStore(transaction);
+    const promises = scan.ranges.map(range => {
+      const keyRange = IDBKeyRange.bound(
+        [...prefix, ...range.lower],
+        [...prefix, ...range.upper]
+      );
+      return store.iterate({ range: keyRange, keysOnly: true }, key => {
+        result = result.add(new DocumentKey(decode(key[4])));
+      });
+    });
+    return PersistencePromise.waitFor(promises).next(() => result);
+  }
+}
+
+function indexPrefix(index: FieldIndex): IndexKeyArray {
+  return [index.collectionGroup, index.fieldPath.canonicalString()];
+}
+
+/**
+ * Helper to get a typed SimpleDbStore for the fieldIndexes object store.
+ */
+function fieldIndexesStore(
+  txn: PersistenceTransaction
+): SimpleDbStore<DbFieldIndexKey, DbFieldIndex> {
+  return SimpleDb.getStore<DbFieldIndexKey, DbFieldIndex>(
+    txn,
+    DbFieldIndex.store
+  );
+}
+
+/**
+ * Helper to get a typed SimpleDbStore for the indexEntries object store.
+ */
+function indexEntriesStore(
+  txn: PersistenceTransaction
+): SimpleDbStore<DbIndexEntryKey, DbIndexEntry> {
+  return SimpleDb.getStore<DbIndexEntryKey, DbIndexEntry>(
+    txn,
+    DbIndexEntry.store
+  );
+}
@@ -47,14 +47,16 @@ export class IndexedDbMutationQueue implements MutationQueue {
   /**
    * Next value to use when assigning sequential IDs to each mutation batch.
    *
-   * NOTE: There can only be one IndexedDbMutationQueue for a given db at a
-   * time, hence it is safe to track nextBatchID as an instance-level property.
-   * Should we ever relax this constraint we'll need to revisit this.
+   * NOTE: If tab synchronization is enabled, other clients may add batches to
+   * the same queue. The next batch ID is therefore re-validated against the
+   * contents of the database whenever a new batch is added.
    */
   private nextBatchId: BatchId;
 
   /**
    * A write-through cache copy of the metadata describing the current queue.
+   * The metadata is re-read from the database before it is used, since it may
+   * have been modified by another client.
    */
   private metadata: DbMutationQueue;
 
@@ -175,7 +177,9 @@ export class IndexedDbMutationQueue implements MutationQueue {
   getHighestAcknowledgedBatchId(
     transaction: PersistenceTransaction
   ): PersistencePromise<BatchId> {
-    return PersistencePromise.resolve(this.metadata.lastAcknowledgedBatchId);
+    return this.retrieveMetadata(transaction).next(
+      () => this.metadata.lastAcknowledgedBatchId
+    );
   }
 
   acknowledgeBatch(
@@ -184,29 +188,51 @@ export class IndexedDbMutationQueue implements MutationQueue {
     streamToken: ProtoByteString
   ): PersistencePromise<void> {
     const batchId = batch.batchId;
-    assert(
-      batchId > this.metadata.lastAcknowledgedBatchId,
-      'Mutation batchIDs must be acknowledged in order'
-    );
+    return this.retrieveMetadata(transaction).next(() => {
+      assert(
+        batchId > this.metadata.lastAcknowledgedBatchId,
+        'Mutation batchIDs must be acknowledged in order'
+      );
 
-    this.metadata.lastAcknowledgedBatchId = batchId;
-    this.metadata.lastStreamToken = convertStreamToken(streamToken);
+      this.metadata.lastAcknowledgedBatchId = batchId;
+      this.metadata.lastStreamToken = convertStreamToken(streamToken);
 
-    return mutationQueuesStore(transaction).put(this.metadata);
+      return mutationQueuesStore(transaction).put(this.metadata);
+    });
   }
 
   getLastStreamToken(
     transaction: PersistenceTransaction
   ): PersistencePromise<ProtoByteString> {
-    return PersistencePromise.resolve(this.metadata.lastStreamToken);
+    return this.retrieveMetadata(transaction).next(
+      () => this.metadata.lastStreamToken
+    );
   }
 
   setLastStreamToken(
     transaction: PersistenceTransaction,
     streamToken: ProtoByteString
   ): PersistencePromise<void> {
-    this.metadata.lastStreamToken = convertStreamToken(streamToken);
-    return mutationQueuesStore(transaction).put(this.metadata);
+    return this.retrieveMetadata(transaction).next(() => {
+      this.metadata.lastStreamToken = convertStreamToken(streamToken);
+      return mutationQueuesStore(transaction).put(this.metadata);
+    });
+  }
+
+  /**
+   * Reads the queue's metadata and updates the cached copy. If no metadata
+   * has been written yet, the cached copy is kept.
+   */
+  private retrieveMetadata(
+    transaction: PersistenceTransaction
+  ): PersistencePromise<void> {
+    return mutationQueuesStore(transaction)
+      .get(this.userId)
+      .next(metadata => {
+        if (metadata) {
+          this.metadata = metadata;
+        }
+      });
   }
 
   addMutationBatch(
@@ -214,21 +240,30 @@ export class IndexedDbMutationQueue implements MutationQueue {
     localWriteTime: Timestamp,
     mutations: Mutation[]
   ): PersistencePromise<MutationBatch> {
-    const batchId = this.nextBatchId;
-    this.nextBatchId++;
-    const batch = new MutationBatch(batchId, localWriteTime, mutations);
-
-    const dbBatch = this.serializer.toDbMutationBatch(this.userId, batch);
-
-    return mutationsStore(transaction)
-      .put(dbBatch)
+    let batch: MutationBatch;
+    return IndexedDbMutationQueue.loadNextBatchIdFromDb(transaction)
+      .next(nextBatchIdFromDb =>
+        this.retrieveMetadata(transaction).next(() => {
+          // Other clients may have added (and possibly already acknowledged)
+          // batches since this client assigned its last batch ID.
+          const batchId = Math.max(
+            this.nextBatchId,
+            nextBatchIdFromDb,
+            this.metadata.lastAcknowledgedBatchId + 1
+          );
+          this.nextBatchId = batchId + 1;
+          batch = new MutationBatch(batchId, localWriteTime, mutations);
+          const dbBatch = this.serializer.toDbMutationBatch(this.userId, batch);
+          return mutationsStore(transaction).put(dbBatch);
+        })
+      )
       .next(() => {
         const promises: Array<PersistencePromise<void>> = [];
         for (const mutation of mutations) {
           const indexKey = DbDocumentMutation.key(
             this.userId,
             mutation.key.path,
-            batchId
+            batch.batchId
           );
           promises.push(
             documentMutationsStore(transaction).put(
@@ -260,24 +295,28 @@ export class IndexedDbMutationQueue implements MutationQueue {
     transaction: PersistenceTransaction,
     batchId: BatchId
   ): PersistencePromise<MutationBatch | null> {
-    // All batches with batchId <= this.metadata.lastAcknowledgedBatchId have
-    // been acknowledged so the first unacknowledged batch after batchID will
-    // have a batchID larger than both of these values.
-    const nextBatchId =
-      Math.max(batchId, this.metadata.lastAcknowledgedBatchId) + 1;
-
-    const range = IDBKeyRange.lowerBound(this.keyForBatchId(nextBatchId));
     let foundBatch: MutationBatch | null = null;
-    return mutationsStore(transaction)
-      .iterate({ range }, (key, dbBatch, control) => {
-        if (dbBatch.userId === this.userId) {
-          assert(
-            dbBatch.batchId >= nextBatchId,
-            'Should have found mutation after ' + nextBatchId
-          );
-          foundBatch = this.serializer.fromDbMutationBatch(dbBatch);
-        }
-        control.done();
+    return this.retrieveMetadata(transaction)
+      .next(() => {
+        // All batches with batchId <= this.metadata.lastAcknowledgedBatchId
+        // have been acknowledged so the first unacknowledged batch after
+        // batchID will have a batchID larger than both of these values.
+        const nextBatchId =
+          Math.max(batchId, this.metadata.lastAcknowledgedBatchId) + 1;
+        const range = IDBKeyRange.lowerBound(this.keyForBatchId(nextBatchId));
+        return mutationsStore(transaction).iterate(
+          { range },
+          (key, dbBatch, control) => {
+            if (dbBatch.userId === this.userId) {
+              assert(
+                dbBatch.batchId >= nextBatchId,
+                'Should have found mutation after ' + nextBatchId
+              );
+              foundBatch = this.serializer.fromDbMutationBatch(dbBatch);
+            }
+            control.done();
+          }
+        );
       })
       .next(() => foundBatch);
   }
@@ -403,12 +442,16 @@ export class IndexedDbMutationQueue implements MutationQueue {
           control.done();
           return;
         }
-        // Rows with document keys more than one segment longer than the
-        // query path can't be matches. For example, a query on 'rooms'
-        // can't match the document /rooms/abc/messages/xyx.
-        // TODO(mcg): we'll need a different scanner when we implement
-        // ancestor queries.
-        if (path.length !== immediateChildrenLength) {
+        if (query.collectionGroup !== null) {
+          // Collection group queries match documents at any depth, as long as
+          // they live in a collection with the requested id.
+          if (!new DocumentKey(path).hasCollectionId(query.collectionGroup)) {
+            return;
+          }
+        } else if (path.length !== immediateChildrenLength) {
+          // Rows with document keys more than one segment longer than the
+          // query path can't be matches. For example, a query on 'rooms'
+          // can't match the document /rooms/abc/messages/xyx.
           return;
         }
         uniqueBatchIDs = uniqueBatchIDs.add(batchID);
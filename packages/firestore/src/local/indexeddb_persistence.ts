@@ -16,29 +16,45 @@
 
 import { User } from '../auth/user';
 import { DatabaseInfo } from '../core/database_info';
+import { ListenSequenceNumber } from '../core/types';
+import { DocumentKeySet } from '../model/collections';
+import { DocumentKey } from '../model/document_key';
 import { JsonProtoSerializer } from '../remote/serializer';
 import { assert } from '../util/assert';
 import { Code, FirestoreError } from '../util/error';
 import * as log from '../util/log';
-import { AutoId } from '../util/misc';
 
+import { BundleCache } from './bundle_cache';
+import { IndexManager } from './index_manager';
+import { IndexedDbBundleCache } from './indexeddb_bundle_cache';
+import { IndexedDbIndexManager } from './indexeddb_index_manager';
 import { IndexedDbMutationQueue } from './indexeddb_mutation_queue';
 import { IndexedDbQueryCache } from './indexeddb_query_cache';
 import { IndexedDbRemoteDocumentCache } from './indexeddb_remote_document_cache';
 import {
   ALL_STORES,
   createOrUpgradeDb,
+  DbClientMetadata,
+  DbClientMetadataKey,
   DbOwner,
   DbOwnerKey,
   SCHEMA_VERSION
 } from './indexeddb_schema';
 import { LocalSerializer } from './local_serializer';
+import { ActiveTargets, LruDelegate } from './lru_garbage_collector';
 import { MutationQueue } from './mutation_queue';
-import { Persistence } from './persistence';
+import {
+  Persistence,
+  PersistenceTransaction,
+  PRIMARY_LEASE_LOST_ERROR_MSG,
+  PrimaryStateListener
+} from './persistence';
 import { PersistencePromise } from './persistence_promise';
 import { QueryCache } from './query_cache';
+import { QueryData } from './query_data';
 import { RemoteDocumentCache } from './remote_document_cache';
-import { SimpleDb, SimpleDbTransaction } from './simple_db';
+import { ClientId } from './shared_client_state';
+import { SimpleDb, SimpleDbStore, SimpleDbTransaction } from './simple_db';
 
 const LOG_TAG = 'IndexedDbPersistence';
 
@@ -46,6 +62,11 @@ const LOG_TAG = 'IndexedDbPersistence';
 const OWNER_LEASE_MAX_AGE_MS = 5000;
 /** Refresh the owner lease every 4 seconds while owner. */
 const OWNER_LEASE_REFRESH_INTERVAL_MS = 4000;
+/**
+ * Clients that have not updated their metadata within the last 30 minutes are
+ * no longer considered active.
+ */
+const CLIENT_METADATA_MAX_AGE_MS = 30 * 60 * 1000;
 
 /** LocalStorage location to indicate a zombied ownerId (see class comment). */
 const ZOMBIE_OWNER_LOCALSTORAGE_SUFFIX = 'zombiedOwnerId';
@@ -54,6 +75,11 @@ const EXISTING_OWNER_ERROR_MSG =
   'There is another tab open with offline' +
   ' persistence enabled. Only one such tab is allowed at a time. The' +
   ' other tab must be closed or persistence must be disabled.';
+/** Error when the persisted data cannot be deleted. */
+const CLEAR_PERSISTENCE_ERROR_MSG =
+  'Persistence cannot be cleared while a client is running. Close all other' +
+  ' tabs with offline persistence enabled and call clearPersistence() before' +
+  ' using Firestore.';
 const UNSUPPORTED_PLATFORM_ERROR_MSG =
   'This platform is either missing' +
   ' IndexedDB or is known to have an incomplete implementation. Offline' +
@@ -87,6 +113,19 @@ const UNSUPPORTED_PLATFORM_ERROR_MSG =
  * the owner writes its ownerId to a "zombiedOwnerId" entry in LocalStorage
  * which acts as an indicator that another tab should go ahead and take the
  * owner lease immediately regardless of the current lease timestamp.
+ *
+ * If tab synchronization is enabled, multiple tabs can share the database. In
+ * this mode, the owner lease is used as the "primary lease": the tab holding
+ * it is the primary client that connects to the backend, while all other tabs
+ * act as secondary clients. Secondary clients do not fail when they cannot
+ * acquire the lease. Instead, every tab regularly writes its client metadata
+ * and tries to acquire the lease, which allows a secondary tab to take over
+ * once the primary tab is closed. Transactions that can only be run by the
+ * primary client verify that the lease is still held.
+ *
+ * The persisted data can be deleted via `clearPersistence()` once no client
+ * uses the database anymore. A client is considered to be running as long as
+ * it holds a valid owner lease or has recently updated its client metadata.
  */
 export class IndexedDbPersistence implements Persistence {
   /**
@@ -99,7 +138,9 @@ export class IndexedDbPersistence implements Persistence {
   private started: boolean;
   private dbName: string;
   private localStoragePrefix: string;
-  private ownerId: string = this.generateOwnerId();
+  /** Whether this client currently holds the owner (or primary) lease. */
+  private isPrimary = false;
+  private primaryStateListener: PrimaryStateListener = _ => Promise.resolve();
 
   /**
    * Set to an Error object if we encounter an unrecoverable error. All further
@@ -113,11 +154,34 @@ export class IndexedDbPersistence implements Persistence {
   private windowUnloadHandler: (() => void) | null;
 
   private serializer: LocalSerializer;
-
-  constructor(prefix: string, serializer: JsonProtoSerializer) {
+  private queryCache: IndexedDbQueryCache;
+  private remoteDocumentCache: IndexedDbRemoteDocumentCache;
+  private bundleCache: IndexedDbBundleCache;
+  private indexManager: IndexedDbIndexManager;
+
+  /** The delegate used by the LruGarbageCollector to access this cache. */
+  readonly lruDelegate: LruDelegate;
+
+  constructor(
+    prefix: string,
+    private readonly clientId: ClientId,
+    serializer: JsonProtoSerializer,
+    private readonly synchronizeTabs: boolean
+  ) {
     this.dbName = prefix + IndexedDbPersistence.MAIN_DATABASE;
     this.serializer = new LocalSerializer(serializer);
     this.localStoragePrefix = prefix;
+    this.queryCache = new IndexedDbQueryCache(this.serializer);
+    this.indexManager = new IndexedDbIndexManager();
+    this.remoteDocumentCache = new IndexedDbRemoteDocumentCache(
+      this.serializer,
+      this.indexManager
+    );
+    this.bundleCache = new IndexedDbBundleCache(this.serializer);
+    this.lruDelegate = new IndexedDbLruDelegate(
+      this.queryCache,
+      this.remoteDocumentCache
+    );
   }
 
   start(): Promise<void> {
@@ -136,7 +200,12 @@ export class IndexedDbPersistence implements Persistence {
       .then(db => {
         this.simpleDb = db;
       })
-      .then(() => this.tryAcquireOwnerLease())
+      .then(
+        () =>
+          this.synchronizeTabs
+            ? this.updateClientMetadataAndTryBecomePrimary()
+            : this.tryAcquireOwnerLease()
+      )
       .then(() => {
         this.scheduleOwnerLeaseRefreshes();
         this.attachWindowUnloadHook();
@@ -148,6 +217,7 @@ export class IndexedDbPersistence implements Persistence {
     this.started = false;
     this.detachWindowUnloadHook();
     this.stopOwnerLeaseRefreshes();
+    this.isPrimary = false;
     return this.releaseOwnerLease().then(() => {
       this.simpleDb.close();
       if (deleteData) {
@@ -156,20 +226,56 @@ export class IndexedDbPersistence implements Persistence {
     });
   }
 
+  setPrimaryStateListener(
+    primaryStateListener: PrimaryStateListener
+  ): Promise<void> {
+    this.primaryStateListener = primaryStateListener;
+    return primaryStateListener(this.isPrimary);
+  }
+
+  getActiveClients(): Promise<ClientId[]> {
+    if (!this.synchronizeTabs) {
+      return Promise.resolve([this.clientId]);
+    }
+
+    const minUpdateTimeMs = Date.now() - CLIENT_METADATA_MAX_AGE_MS;
+    return this.simpleDb.runTransaction(
+      'readonly',
+      [DbClientMetadata.store],
+      txn =>
+        clientMetadataStore(txn)
+          .loadAll()
+          .next(clients =>
+            clients
+              .filter(client => client.updateTimeMs >= minUpdateTimeMs)
+              .map(client => client.clientId)
+          )
+    );
+  }
+
   getMutationQueue(user: User): MutationQueue {
     return IndexedDbMutationQueue.forUser(user, this.serializer);
   }
 
   getQueryCache(): QueryCache {
-    return new IndexedDbQueryCache(this.serializer);
+    return this.queryCache;
   }
 
   getRemoteDocumentCache(): RemoteDocumentCache {
-    return new IndexedDbRemoteDocumentCache(this.serializer);
+    return this.remoteDocumentCache;
+  }
+
+  getBundleCache(): BundleCache {
+    return this.bundleCache;
+  }
+
+  getIndexManager(): IndexManager {
+    return this.indexManager;
   }
 
   runTransaction<T>(
     action: string,
+    requirePrimaryLease: boolean,
     operation: (transaction: SimpleDbTransaction) => PersistencePromise<T>
   ): Promise<T> {
     if (this.persistenceError) {
@@ -178,11 +284,18 @@ export class IndexedDbPersistence implements Persistence {
 
     log.debug(LOG_TAG, 'Starting transaction:', action);
 
-    // Do all transactions as readwrite against all object stores, since we
-    // are the only reader/writer.
+    // Do all transactions as readwrite against all object stores. IndexedDB
+    // serializes them with the transactions of other tabs.
     return this.simpleDb.runTransaction('readwrite', ALL_STORES, txn => {
-      // Verify that we still have the owner lease as part of every transaction.
-      return this.ensureOwnerLease(txn).next(() => operation(txn));
+      if (!this.synchronizeTabs) {
+        // Verify that we still have the owner lease as part of every
+        // transaction.
+        return this.ensureOwnerLease(txn).next(() => operation(txn));
+      } else if (requirePrimaryLease) {
+        return this.ensurePrimaryLease(txn).next(() => operation(txn));
+      } else {
+        return operation(txn);
+      }
     });
   }
 
@@ -190,6 +303,75 @@ export class IndexedDbPersistence implements Persistence {
     return SimpleDb.isAvailable();
   }
 
+  /**
+   * Deletes the IndexedDB database for the given storage prefix.
+   *
+   * Fails with FAILED_PRECONDITION if another client still uses the database,
+   * i.e. if it holds a valid owner lease or has recently updated its client
+   * metadata. A client whose tab was closed (and which recorded its ownerId as
+   * zombied) does not prevent the deletion.
+   */
+  static clearPersistence(prefix: string): Promise<void> {
+    if (!IndexedDbPersistence.isAvailable()) {
+      return Promise.reject(
+        new FirestoreError(Code.UNIMPLEMENTED, UNSUPPORTED_PLATFORM_ERROR_MSG)
+      );
+    }
+
+    const dbName = prefix + IndexedDbPersistence.MAIN_DATABASE;
+    return SimpleDb.openOrCreate(dbName, SCHEMA_VERSION, createOrUpgradeDb)
+      .then(db => {
+        const inUse = db.runTransaction(
+          'readonly',
+          [DbOwner.store, DbClientMetadata.store],
+          txn => {
+            const minTimestampMs = Date.now() - OWNER_LEASE_MAX_AGE_MS;
+            const zombiedOwnerId = readZombiedOwnerId(prefix);
+            return ownerStore(txn)
+              .get('owner')
+              .next(dbOwner => {
+                if (
+                  dbOwner !== null &&
+                  dbOwner.leaseTimestampMs >= minTimestampMs &&
+                  dbOwner.ownerId !== zombiedOwnerId
+                ) {
+                  return true;
+                }
+                return clientMetadataStore(txn)
+                  .loadAll()
+                  .next(clients =>
+                    clients.some(
+                      client =>
+                        client.updateTimeMs >= minTimestampMs &&
+                        client.clientId !== zombiedOwnerId
+                    )
+                  );
+              });
+          }
+        );
+        return inUse.then(
+          result => {
+            db.close();
+            return result;
+          },
+          err => {
+            db.close();
+            throw err;
+          }
+        );
+      })
+      .then(inUse => {
+        if (inUse) {
+          throw new FirestoreError(
+            Code.FAILED_PRECONDITION,
+            CLEAR_PERSISTENCE_ERROR_MSG
+          );
+        }
+        log.debug(LOG_TAG, 'Clearing persistence.');
+        return SimpleDb.delete(dbName);
+      });
+  }
+
   /**
    * Generates a string used as a prefix when storing data in IndexedDB and
    * LocalStorage.
@@ -221,7 +403,7 @@ export class IndexedDbPersistence implements Persistence {
       const store = txn.store<DbOwnerKey, DbOwner>(DbOwner.store);
       return store.get('owner').next(dbOwner => {
         if (!this.validOwner(dbOwner)) {
-          const newDbOwner = new DbOwner(this.ownerId, Date.now());
+          const newDbOwner = new DbOwner(this.clientId, Date.now());
           log.debug(
             LOG_TAG,
             'No valid owner. Acquiring owner lease. Current owner:',
@@ -229,6 +411,7 @@ export class IndexedDbPersistence implements Persistence {
             'New owner:',
             newDbOwner
           );
+          this.isPrimary = true;
           return store.put('owner', newDbOwner);
         } else {
           log.debug(
@@ -246,21 +429,83 @@ export class IndexedDbPersistence implements Persistence {
     });
   }
 
-  /** Checks the owner lease and deletes it if we are the current owner. */
+  /**
+   * Updates the client metadata in IndexedDb and attempts to either obtain or
+   * extend the primary lease for the local client. Notifies the primary state
+   * listener if the client either newly obtained or lost its primary lease.
+   */
+  private updateClientMetadataAndTryBecomePrimary(): Promise<void> {
+    // NOTE: Don't use this.runTransaction, since it is also used to verify the
+    // primary lease.
+    return this.simpleDb
+      .runTransaction(
+        'readwrite',
+        [DbOwner.store, DbClientMetadata.store],
+        txn => {
+          const store = ownerStore(txn);
+          return clientMetadataStore(txn)
+            .put(new DbClientMetadata(this.clientId, Date.now()))
+            .next(() => store.get('owner'))
+            .next(dbOwner => {
+              if (!this.canActAsPrimary(dbOwner)) {
+                return PersistencePromise.resolve(false);
+              }
+              return store
+                .put('owner', new DbOwner(this.clientId, Date.now()))
+                .next(() => true);
+            });
+        }
+      )
+      .then(isPrimary => {
+        if (this.isPrimary !== isPrimary) {
+          log.debug(
+            LOG_TAG,
+            isPrimary
+              ? 'Acquired primary lease.'
+              : 'Lost primary lease to another client.'
+          );
+          this.isPrimary = isPrimary;
+          return this.primaryStateListener(isPrimary);
+        }
+      });
+  }
+
+  /**
+   * Returns true if the local client can hold the primary lease, either
+   * because it already holds it or because there is no valid owner.
+   */
+  private canActAsPrimary(dbOwner: DbOwner | null): boolean {
+    if (dbOwner !== null && dbOwner.ownerId === this.clientId) {
+      return true;
+    }
+    return !this.validOwner(dbOwner);
+  }
+
+  /**
+   * Checks the owner lease and deletes it if we are the current owner. Also
+   * removes the client metadata of the local client.
+   */
   private releaseOwnerLease(): Promise<void> {
     // NOTE: Don't use this.runTransaction, since it requires us to already
     // have the lease.
-    return this.simpleDb.runTransaction('readwrite', [DbOwner.store], txn => {
-      const store = txn.store<DbOwnerKey, DbOwner>(DbOwner.store);
-      return store.get('owner').next(dbOwner => {
-        if (dbOwner !== null && dbOwner.ownerId === this.ownerId) {
-          log.debug(LOG_TAG, 'Releasing owner lease.');
-          return store.delete('owner');
-        } else {
-          return PersistencePromise.resolve();
-        }
-      });
-    });
+    return this.simpleDb.runTransaction(
+      'readwrite',
+      [DbOwner.store, DbClientMetadata.store],
+      txn => {
+        const store = ownerStore(txn);
+        return clientMetadataStore(txn)
+          .delete(this.clientId)
+          .next(() => store.get('owner'))
+          .next(dbOwner => {
+            if (dbOwner !== null && dbOwner.ownerId === this.clientId) {
+              log.debug(LOG_TAG, 'Releasing owner lease.');
+              return store.delete('owner');
+            } else {
+              return PersistencePromise.resolve();
+            }
+          });
+      }
+    );
   }
 
   /**
@@ -271,7 +516,7 @@ export class IndexedDbPersistence implements Persistence {
   private ensureOwnerLease(txn: SimpleDbTransaction): PersistencePromise<void> {
     const store = txn.store<DbOwnerKey, DbOwner>(DbOwner.store);
     return store.get('owner').next(dbOwner => {
-      if (dbOwner === null || dbOwner.ownerId !== this.ownerId) {
+      if (dbOwner === null || dbOwner.ownerId !== this.clientId) {
         this.persistenceError = new FirestoreError(
           Code.FAILED_PRECONDITION,
           EXISTING_OWNER_ERROR_MSG
@@ -283,6 +528,35 @@ export class IndexedDbPersistence implements Persistence {
     });
   }
 
+  /**
+   * Checks the primary lease and returns a rejected promise if the local client
+   * does not hold it. Unlike `ensureOwnerLease()`, this does not put
+   * persistence into a failed state, since the local client may continue to
+   * run as a secondary client.
+   */
+  private ensurePrimaryLease(
+    txn: SimpleDbTransaction
+  ): PersistencePromise<void> {
+    return ownerStore(txn)
+      .get('owner')
+      .next(dbOwner => {
+        if (dbOwner === null || dbOwner.ownerId !== this.clientId) {
+          log.debug(
+            LOG_TAG,
+            'Failing transaction that requires the primary lease.'
+          );
+          return PersistencePromise.reject<void>(
+            new FirestoreError(
+              Code.FAILED_PRECONDITION,
+              PRIMARY_LEASE_LOST_ERROR_MSG
+            )
+          );
+        } else {
+          return PersistencePromise.resolve();
+        }
+      });
+  }
+
   /**
    * Returns true if the provided owner exists, has a recent timestamp, and
    * isn't zombied.
@@ -320,12 +594,25 @@ export class IndexedDbPersistence implements Persistence {
     // would increase the chances of us not refreshing on time if the queue is
     // backed up for some reason.
     this.ownerLeaseRefreshHandle = setInterval(() => {
-      const txResult = this.runTransaction('Refresh owner timestamp', txn => {
-        // NOTE: We don't need to validate the current owner contents, since
-        // runTransaction does that automatically.
-        const store = txn.store<DbOwnerKey, DbOwner>(DbOwner.store);
-        return store.put('owner', new DbOwner(this.ownerId, Date.now()));
-      });
+      if (this.synchronizeTabs) {
+        // Failing to refresh the client metadata is not fatal in multi-tab
+        // mode. We continue to try on the next interval.
+        this.updateClientMetadataAndTryBecomePrimary().catch(reason => {
+          log.error('Failed to update client metadata.', reason);
+        });
+        return;
+      }
+
+      const txResult = this.runTransaction(
+        'Refresh owner timestamp',
+        /* requirePrimaryLease= */ true,
+        txn => {
+          // NOTE: We don't need to validate the current owner contents, since
+          // runTransaction does that automatically.
+          const store = txn.store<DbOwnerKey, DbOwner>(DbOwner.store);
+          return store.put('owner', new DbOwner(this.clientId, Date.now()));
+        }
+      );
 
       txResult.catch(reason => {
         // Probably means we lost the lease. Report the error and stop trying to
@@ -359,7 +646,7 @@ export class IndexedDbPersistence implements Persistence {
     ) {
       this.windowUnloadHandler = () => {
         // Record that we're zombied.
-        this.setZombiedOwnerId(this.ownerId);
+        this.setZombiedOwnerId(this.clientId);
 
         // Attempt graceful shutdown (including releasing our owner lease), but
         // there's no guarantee it will complete.
@@ -387,17 +674,7 @@ export class IndexedDbPersistence implements Persistence {
    * record exists.
    */
   private getZombiedOwnerId(): string | null {
-    try {
-      const zombiedOwnerId = window.localStorage.getItem(
-        this.zombiedOwnerLocalStorageKey()
-      );
-      log.debug(LOG_TAG, 'Zombied ownerID from LocalStorage:', zombiedOwnerId);
-      return zombiedOwnerId;
-    } catch (e) {
-      // Gracefully handle if LocalStorage isn't available / working.
-      log.error('Failed to get zombie owner id.', e);
-      return null;
-    }
+    return readZombiedOwnerId(this.localStoragePrefix);
   }
 
   /**
@@ -421,11 +698,130 @@ export class IndexedDbPersistence implements Persistence {
   }
 
   private zombiedOwnerLocalStorageKey(): string {
-    return this.localStoragePrefix + ZOMBIE_OWNER_LOCALSTORAGE_SUFFIX;
+    return zombiedOwnerLocalStorageKey(this.localStoragePrefix);
+  }
+}
+
+function zombiedOwnerLocalStorageKey(localStoragePrefix: string): string {
+  return localStoragePrefix + ZOMBIE_OWNER_LOCALSTORAGE_SUFFIX;
+}
+
+/**
+ * Reads the zombied ownerId recorded for the given prefix from LocalStorage,
+ * or returns null if no such record exists.
+ */
+function readZombiedOwnerId(localStoragePrefix: string): string | null {
+  try {
+    const zombiedOwnerId = window.localStorage.getItem(
+      zombiedOwnerLocalStorageKey(localStoragePrefix)
+    );
+    log.debug(LOG_TAG, 'Zombied ownerID from LocalStorage:', zombiedOwnerId);
+    return zombiedOwnerId;
+  } catch (e) {
+    // Gracefully handle if LocalStorage isn't available / working.
+    log.error('Failed to get zombie owner id.', e);
+    return null;
+  }
+}
+
+/**
+ * Helper to get a typed SimpleDbStore for the owner object store.
+ */
+function ownerStore(
+  txn: SimpleDbTransaction
+): SimpleDbStore<DbOwnerKey, DbOwner> {
+  return txn.store<DbOwnerKey, DbOwner>(DbOwner.store);
+}
+
+/**
+ * Helper to get a typed SimpleDbStore for the client metadata object store.
+ */
+function clientMetadataStore(
+  txn: SimpleDbTransaction
+): SimpleDbStore<DbClientMetadataKey, DbClientMetadata> {
+  return txn.store<DbClientMetadataKey, DbClientMetadata>(
+    DbClientMetadata.store
+  );
+}
+
+/**
+ * Provides the LruGarbageCollector with access to the targets and documents
+ * stored in IndexedDB. Sequence numbers of documents that are not part of any
+ * target are tracked via sentinel rows in the targetDocuments store.
+ */
+class IndexedDbLruDelegate implements LruDelegate {
+  constructor(
+    private readonly queryCache: IndexedDbQueryCache,
+    private readonly remoteDocumentCache: IndexedDbRemoteDocumentCache
+  ) {}
+
+  updateSequenceNumbers(
+    txn: PersistenceTransaction,
+    keys: DocumentKeySet
+  ): PersistencePromise<void> {
+    return this.queryCache.updateDocumentSequenceNumbers(
+      txn,
+      keys,
+      this.queryCache.getHighestSequenceNumber()
+    );
+  }
+
+  forEachTarget(
+    txn: PersistenceTransaction,
+    f: (queryData: QueryData) => void
+  ): PersistencePromise<void> {
+    return this.queryCache.forEachTarget(txn, f);
+  }
+
+  forEachOrphanedDocumentSequenceNumber(
+    txn: PersistenceTransaction,
+    f: (sequenceNumber: ListenSequenceNumber) => void
+  ): PersistencePromise<void> {
+    return this.queryCache.forEachOrphanedDocument(txn, (key, sequenceNumber) =>
+      f(sequenceNumber)
+    );
+  }
+
+  removeTargets(
+    txn: PersistenceTransaction,
+    upperBound: ListenSequenceNumber,
+    activeTargetIds: ActiveTargets
+  ): PersistencePromise<number> {
+    return this.queryCache.removeTargets(txn, upperBound, activeTargetIds);
+  }
+
+  removeOrphanedDocuments(
+    txn: PersistenceTransaction,
+    upperBound: ListenSequenceNumber,
+    isReferenced: (key: DocumentKey) => PersistencePromise<boolean>
+  ): PersistencePromise<number> {
+    const candidates: DocumentKey[] = [];
+    let count = 0;
+    return this.queryCache
+      .forEachOrphanedDocument(txn, (key, sequenceNumber) => {
+        if (sequenceNumber <= upperBound) {
+          candidates.push(key);
+        }
+      })
+      .next(() =>
+        PersistencePromise.waitFor(
+          candidates.map(key =>
+            isReferenced(key).next(referenced => {
+              if (referenced) {
+                return PersistencePromise.resolve();
+              }
+              count++;
+              return this.remoteDocumentCache
+                .removeEntry(txn, key)
+                .next(() => this.queryCache.removeDocumentSentinel(txn, key));
+            })
+          )
+        )
+      )
+      .next(() => count);
   }
 
-  private generateOwnerId(): string {
-    // For convenience, just use an AutoId.
-    return AutoId.newId();
+  getCacheSize(txn: PersistenceTransaction): PersistencePromise<number> {
+    return this.remoteDocumentCache.getSize(txn);
   }
 }
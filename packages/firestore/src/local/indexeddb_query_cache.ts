@@ -17,7 +17,8 @@
 import { Timestamp } from '../api/timestamp';
 import { Query } from '../core/query';
 import { SnapshotVersion } from '../core/snapshot_version';
-import { TargetId } from '../core/types';
+import { TargetIdGenerator } from '../core/target_id_generator';
+import { ListenSequenceNumber, TargetId } from '../core/types';
 import { DocumentKeySet, documentKeySet } from '../model/collections';
 import { DocumentKey } from '../model/document_key';
 import { assert } from '../util/assert';
@@ -34,6 +35,7 @@ import {
   DbTargetKey
 } from './indexeddb_schema';
 import { LocalSerializer } from './local_serializer';
+import { ActiveTargets } from './lru_garbage_collector';
 import { PersistenceTransaction } from './persistence';
 import { PersistencePromise } from './persistence_promise';
 import { QueryCache } from './query_cache';
@@ -54,10 +56,28 @@ export class IndexedDbQueryCache implements QueryCache {
    */
   private metadata = null;
 
+  /** The transaction in which the metadata was last read. */
+  private metadataTransaction: PersistenceTransaction | null = null;
+
   /** The garbage collector to notify about potential garbage keys. */
   private garbageCollector: GarbageCollector | null = null;
 
   start(transaction: PersistenceTransaction): PersistencePromise<void> {
+    return this.retrieveMetadata(transaction);
+  }
+
+  /**
+   * Reads the metadata row and updates the cached copy of the metadata. Other
+   * clients that share the database may have modified the row, so it is
+   * re-read in every transaction that modifies it.
+   *
+   * The row is only applied once per transaction: the changes of a transaction
+   * run concurrently, and later reads would undo the in-memory changes that
+   * were made since the first read.
+   */
+  private retrieveMetadata(
+    transaction: PersistenceTransaction
+  ): PersistencePromise<void> {
     return globalTargetStore(transaction)
       .get(DbTargetGlobal.key)
       .next(metadata => {
@@ -65,11 +85,24 @@ export class IndexedDbQueryCache implements QueryCache {
           metadata !== null,
           'Missing metadata row that should be added by schema migration.'
         );
+        if (this.metadataTransaction === transaction) {
+          return PersistencePromise.resolve();
+        }
+        this.metadataTransaction = transaction;
         this.metadata = metadata;
         const lastSavedVersion = metadata.lastRemoteSnapshotVersion;
-        this.lastRemoteSnapshotVersion = SnapshotVersion.fromTimestamp(
+        const savedSnapshotVersion = SnapshotVersion.fromTimestamp(
           new Timestamp(lastSavedVersion.seconds, lastSavedVersion.nanoseconds)
         );
+        // The snapshot version never goes backwards.
+        const comparison = savedSnapshotVersion.compareTo(
+          this.lastRemoteSnapshotVersion
+        );
+        if (comparison > 0) {
+          this.lastRemoteSnapshotVersion = savedSnapshotVersion;
+        } else if (comparison < 0) {
+          this.metadata.lastRemoteSnapshotVersion = this.lastRemoteSnapshotVersion.toTimestamp();
+        }
         return PersistencePromise.resolve();
       });
   }
@@ -78,6 +111,22 @@ export class IndexedDbQueryCache implements QueryCache {
     return this.metadata.highestTargetId;
   }
 
+  allocateTargetId(
+    transaction: PersistenceTransaction
+  ): PersistencePromise<TargetId> {
+    return this.retrieveMetadata(transaction).next(() => {
+      const nextTargetId = TargetIdGenerator.forLocalStore(
+        this.metadata.highestTargetId
+      ).next();
+      this.metadata.highestTargetId = nextTargetId;
+      return this.saveMetadata(transaction).next(() => nextTargetId);
+    });
+  }
+
+  getHighestSequenceNumber(): ListenSequenceNumber {
+    return this.metadata.highestListenSequenceNumber;
+  }
+
   getLastRemoteSnapshotVersion(): SnapshotVersion {
     return this.lastRemoteSnapshotVersion;
   }
@@ -86,46 +135,53 @@ export class IndexedDbQueryCache implements QueryCache {
     transaction: PersistenceTransaction,
     snapshotVersion: SnapshotVersion
   ): PersistencePromise<void> {
-    this.lastRemoteSnapshotVersion = snapshotVersion;
-    this.metadata.lastRemoteSnapshotVersion = snapshotVersion.toTimestamp();
-    return globalTargetStore(transaction).put(
-      DbTargetGlobal.key,
-      this.metadata
-    );
+    return this.retrieveMetadata(transaction).next(() => {
+      this.lastRemoteSnapshotVersion = snapshotVersion;
+      this.metadata.lastRemoteSnapshotVersion = snapshotVersion.toTimestamp();
+      return this.saveMetadata(transaction);
+    });
   }
 
   addQueryData(
     transaction: PersistenceTransaction,
     queryData: QueryData
   ): PersistencePromise<void> {
-    return this.saveQueryData(transaction, queryData).next(() => {
-      this.metadata.targetCount += 1;
-      this.updateMetadataFromQueryData(queryData);
-      return this.saveMetadata(transaction);
-    });
+    return this.saveQueryData(transaction, queryData)
+      .next(() => this.retrieveMetadata(transaction))
+      .next(() => {
+        this.metadata.targetCount += 1;
+        this.updateMetadataFromQueryData(queryData);
+        return this.saveMetadata(transaction);
+      });
   }
 
   updateQueryData(
     transaction: PersistenceTransaction,
     queryData: QueryData
   ): PersistencePromise<void> {
-    return this.saveQueryData(transaction, queryData).next(() => {
-      if (this.updateMetadataFromQueryData(queryData)) {
-        return this.saveMetadata(transaction);
-      } else {
-        return PersistencePromise.resolve();
-      }
-    });
+    return this.saveQueryData(transaction, queryData)
+      .next(() => this.retrieveMetadata(transaction))
+      .next(() => {
+        if (this.updateMetadataFromQueryData(queryData)) {
+          return this.saveMetadata(transaction);
+        } else {
+          return PersistencePromise.resolve();
+        }
+      });
   }
 
   removeQueryData(
     transaction: PersistenceTransaction,
     queryData: QueryData
   ): PersistencePromise<void> {
-    assert(this.metadata.targetCount > 0, 'Removing from an empty query cache');
     return this.removeMatchingKeysForTargetId(transaction, queryData.targetId)
       .next(() => targetsStore(transaction).delete(queryData.targetId))
+      .next(() => this.retrieveMetadata(transaction))
       .next(() => {
+        assert(
+          this.metadata.targetCount > 0,
+          'Removing from an empty query cache'
+        );
         this.metadata.targetCount -= 1;
         return this.saveMetadata(transaction);
       });
@@ -159,7 +215,10 @@ export class IndexedDbQueryCache implements QueryCache {
       needsUpdate = true;
     }
 
-    // TODO(GC): add sequence number check
+    if (queryData.sequenceNumber > this.metadata.highestListenSequenceNumber) {
+      this.metadata.highestListenSequenceNumber = queryData.sequenceNumber;
+      needsUpdate = true;
+    }
     return needsUpdate;
   }
 
@@ -196,6 +255,21 @@ export class IndexedDbQueryCache implements QueryCache {
       .next(() => result);
   }
 
+  getQueryDataForTarget(
+    transaction: PersistenceTransaction,
+    targetId: TargetId
+  ): PersistencePromise<QueryData | null> {
+    return targetsStore(transaction)
+      .get(targetId)
+      .next(dbTarget => {
+        if (dbTarget) {
+          return this.serializer.fromDbTarget(dbTarget);
+        } else {
+          return null;
+        }
+      });
+  }
+
   addMatchingKeys(
     txn: PersistenceTransaction,
     keys: DocumentKeySet,
@@ -321,12 +395,155 @@ export class IndexedDbQueryCache implements QueryCache {
           range
         },
         (key, _, control) => {
-          count++;
-          control.done();
+          const [targetId] = key;
+          // Sentinel rows only record the document's sequence number and
+          // don't count as references.
+          if (targetId !== DbTargetDocument.sentinelTargetId) {
+            count++;
+            control.done();
+          }
         }
       )
       .next(() => count > 0);
   }
+
+  /** Enumerates all the targets in the cache. */
+  forEachTarget(
+    txn: PersistenceTransaction,
+    f: (queryData: QueryData) => void
+  ): PersistencePromise<void> {
+    return targetsStore(txn).iterate((key, dbTarget) => {
+      f(this.serializer.fromDbTarget(dbTarget));
+    });
+  }
+
+  /**
+   * Removes all targets that have a sequence number less than or equal to
+   * `upperBound` and are not present in `activeTargetIds`. The documents of
+   * removed targets retain the target's sequence number as their last use.
+   * Returns the number of targets removed.
+   */
+  removeTargets(
+    txn: PersistenceTransaction,
+    upperBound: ListenSequenceNumber,
+    activeTargetIds: ActiveTargets
+  ): PersistencePromise<number> {
+    const toRemove: QueryData[] = [];
+    return this.forEachTarget(txn, queryData => {
+      if (
+        queryData.sequenceNumber <= upperBound &&
+        activeTargetIds[queryData.targetId] === undefined
+      ) {
+        toRemove.push(queryData);
+      }
+    })
+      .next(() =>
+        PersistencePromise.waitFor(
+          toRemove.map(queryData =>
+            this.getMatchingKeysForTargetId(txn, queryData.targetId)
+              .next(keys =>
+                this.updateDocumentSequenceNumbers(
+                  txn,
+                  keys,
+                  queryData.sequenceNumber,
+                  /* onlyIfNewer= */ true
+                )
+              )
+              .next(() => this.removeQueryData(txn, queryData))
+          )
+        )
+      )
+      .next(() => toRemove.length);
+  }
+
+  /**
+   * Records `sequenceNumber` as the last use of each of the given documents by
+   * writing their sentinel rows. If `onlyIfNewer` is set, sentinel rows that
+   * already record a later use are left untouched.
+   */
+  updateDocumentSequenceNumbers(
+    txn: PersistenceTransaction,
+    keys: DocumentKeySet,
+    sequenceNumber: ListenSequenceNumber,
+    onlyIfNewer = false
+  ): PersistencePromise<void> {
+    const store = documentTargetStore(txn);
+    const promises: Array<PersistencePromise<void>> = [];
+    keys.forEach(key => {
+      const path = EncodedResourcePath.encode(key.path);
+      const sentinel = new DbTargetDocument(
+        DbTargetDocument.sentinelTargetId,
+        path,
+        sequenceNumber
+      );
+      if (onlyIfNewer) {
+        promises.push(
+          store
+            .get([DbTargetDocument.sentinelTargetId, path])
+            .next(existing => {
+              if (existing && existing.sequenceNumber! >= sequenceNumber) {
+                return PersistencePromise.resolve();
+              }
+              return store.put(sentinel);
+            })
+        );
+      } else {
+        promises.push(store.put(sentinel));
+      }
+    });
+    return PersistencePromise.waitFor(promises);
+  }
+
+  /**
+   * Enumerates all documents that have a sentinel row but are not part of any
+   * target, together with the sequence number of their last use.
+   */
+  forEachOrphanedDocument(
+    txn: PersistenceTransaction,
+    f: (key: DocumentKey, sequenceNumber: ListenSequenceNumber) => void
+  ): PersistencePromise<void> {
+    // The reverse index is ordered by path and then by targetId, so a
+    // document's sentinel row is always visited before any of its target rows.
+    let orphanedPath: EncodedResourcePath.EncodedResourcePath | null = null;
+    let orphanedSequenceNumber = 0;
+    const reportOrphan = () => {
+      if (orphanedPath !== null) {
+        f(
+          new DocumentKey(EncodedResourcePath.decode(orphanedPath)),
+          orphanedSequenceNumber
+        );
+        orphanedPath = null;
+      }
+    };
+    return documentTargetStore(txn)
+      .iterate(
+        { index: DbTargetDocument.documentTargetsIndex },
+        ([targetId, path], targetDocument) => {
+          if (orphanedPath !== null && path !== orphanedPath) {
+            reportOrphan();
+          }
+          if (targetId === DbTargetDocument.sentinelTargetId) {
+            orphanedPath = path;
+            orphanedSequenceNumber = targetDocument.sequenceNumber!;
+          } else if (path === orphanedPath) {
+            // The document is part of a target and is therefore not orphaned.
+            orphanedPath = null;
+          }
+        }
+      )
+      .next(() => reportOrphan());
+  }
+
+  /** Removes the sentinel row of a document that is evicted from the cache. */
+  removeDocumentSentinel(
+    txn: PersistenceTransaction,
+    key: DocumentKey
+  ): PersistencePromise<void> {
+    return documentTargetStore(txn).delete([
+      DbTargetDocument.sentinelTargetId,
+      EncodedResourcePath.encode(key.path)
+    ]);
+  }
 }
 
 /**
@@ -19,6 +19,7 @@ import { DocumentMap, documentMap } from '../model/collections';
 import { Document, MaybeDocument } from '../model/document';
 import { DocumentKey } from '../model/document_key';
 
+import { IndexManager } from './index_manager';
 import { DbRemoteDocument, DbRemoteDocumentKey } from './indexeddb_schema';
 import { LocalSerializer } from './local_serializer';
 import { PersistenceTransaction } from './persistence';
@@ -27,23 +28,38 @@ import { RemoteDocumentCache } from './remote_document_cache';
 import { SimpleDb, SimpleDbStore } from './simple_db';
 
 export class IndexedDbRemoteDocumentCache implements RemoteDocumentCache {
-  constructor(private serializer: LocalSerializer) {}
+  constructor(
+    private serializer: LocalSerializer,
+    private readonly indexManager: IndexManager
+  ) {}
 
   addEntry(
     transaction: PersistenceTransaction,
     maybeDocument: MaybeDocument
   ): PersistencePromise<void> {
-    return remoteDocumentsStore(transaction).put(
-      dbKey(maybeDocument.key),
-      this.serializer.toDbRemoteDocument(maybeDocument)
-    );
+    return remoteDocumentsStore(transaction)
+      .put(
+        dbKey(maybeDocument.key),
+        this.serializer.toDbRemoteDocument(maybeDocument)
+      )
+      .next(() =>
+        this.indexManager.updateIndexEntries(
+          transaction,
+          maybeDocument.key,
+          maybeDocument instanceof Document ? maybeDocument : null
+        )
+      );
   }
 
   removeEntry(
     transaction: PersistenceTransaction,
     documentKey: DocumentKey
   ): PersistencePromise<void> {
-    return remoteDocumentsStore(transaction).delete(dbKey(documentKey));
+    return remoteDocumentsStore(transaction)
+      .delete(dbKey(documentKey))
+      .next(() =>
+        this.indexManager.updateIndexEntries(transaction, documentKey, null)
+      );
   }
 
   getEntry(
@@ -80,6 +96,19 @@ export class IndexedDbRemoteDocumentCache implements RemoteDocumentCache {
       })
       .next(() => results);
   }
+
+  /**
+   * Returns an approximation of the number of bytes used by the cached
+   * documents, based on the size of their serialized representation.
+   */
+  getSize(transaction: PersistenceTransaction): PersistencePromise<number> {
+    let size = 0;
+    return remoteDocumentsStore(transaction)
+      .iterate((key, dbRemoteDoc) => {
+        size += JSON.stringify(dbRemoteDoc).length;
+      })
+      .next(() => size);
+  }
 }
 
 /**
@@ -15,11 +15,13 @@
  */
 
 import * as api from '../protos/firestore_proto_api';
+import { LimitType } from '../core/query';
 import { BatchId } from '../core/types';
-import { TargetId } from '../core/types';
+import { ListenSequenceNumber, TargetId } from '../core/types';
 import { ResourcePath } from '../model/path';
 import { assert } from '../util/assert';
 
+import { IndexEntryKind, IndexKeyArray } from './encoded_index_value';
 import { encode, EncodedResourcePath } from './encoded_resource_path';
 import { SimpleDbTransaction } from './simple_db';
 import { PersistencePromise } from './persistence_promise';
@@ -30,8 +32,17 @@ import { SnapshotVersion } from '../core/snapshot_version';
  * 1. Initial version including Mutation Queue, Query Cache, and Remote Document
  *    Cache
  * 2. Added targetCount to targetGlobal row.
+ * 3. Added sentinel rows to the targetDocuments store, tracking the sequence
+ *    number of the last use of every cached document for LRU garbage
+ *    collection.
+ * 4. Added the clientMetadata store, used to track the tabs that share the
+ *    database in multi-tab mode.
+ * 5. Added the bundles and namedQueries stores, used to track the bundles that
+ *    have been loaded and the queries they contained.
+ * 6. Added the fieldIndexes and indexEntries stores, used to execute queries
+ *    against client-side field indexes.
  */
-export const SCHEMA_VERSION = 2;
+export const SCHEMA_VERSION = 6;
 
 /**
  * Performs database creation and schema upgrades.
@@ -47,10 +58,12 @@ export function createOrUpgradeDb(
   toVersion: number
 ): PersistencePromise<void> {
   // This function currently supports migrating to schema version 1 (Mutation
-  // Queue, Query and Remote Document Cache) and schema version 2 (Query
-  // counting).
+  // Queue, Query and Remote Document Cache), schema version 2 (Query
+  // counting), schema version 3 (document sequence numbers), schema version 4
+  // (client metadata), schema version 5 (bundles) and schema version 6
+  // (field indexes).
   assert(
-    fromVersion < toVersion && fromVersion >= 0 && toVersion <= 2,
+    fromVersion < toVersion && fromVersion >= 0 && toVersion <= 6,
     'Unexpected schema upgrade from v${fromVersion} to v{toVersion}.'
   );
 
@@ -67,6 +80,22 @@ export function createOrUpgradeDb(
       saveTargetCount(txn, targetGlobal)
     );
   }
+
+  if (fromVersion < 3 && toVersion >= 3) {
+    p = p.next(() => addDocumentSentinels(txn));
+  }
+
+  if (fromVersion < 4 && toVersion >= 4) {
+    createClientMetadataStore(db);
+  }
+
+  if (fromVersion < 5 && toVersion >= 5) {
+    createBundleCache(db);
+  }
+
+  if (fromVersion < 6 && toVersion >= 6) {
+    createIndexStores(db);
+  }
   return p;
 }
 
@@ -396,7 +425,14 @@ export class DbTarget {
      * use the proto to have an object we can persist without having to
      * duplicate translation logic to and from a `Query` object.
      */
-    public query: DbQuery
+    public query: DbQuery,
+    /**
+     * Whether the query's limit applies to the last instead of the first
+     * documents. This is not part of the proto, since limitToLast queries are
+     * only known to the client. Missing for targets that were written before
+     * limitToLast queries were supported, which all use `LimitType.First`.
+     */
+    public limitType?: LimitType
   ) {}
 }
 
@@ -410,11 +446,20 @@ export type DbTargetDocumentKey = [TargetId, EncodedResourcePath];
  * An object representing an association between a target and a document.
  * Stored in the targetDocument object store to store the documents tracked by a
  * particular target.
+ *
+ * Rows with a targetId of `DbTargetDocument.sentinelTargetId` are "sentinel"
+ * rows. They do not belong to any target, but record the sequence number of
+ * the last time the document was used, which is what the LRU garbage
+ * collector uses to decide whether a document that is no longer part of any
+ * target can be evicted.
  */
 export class DbTargetDocument {
   /** Name of the IndexedDb object store.  */
   static store = 'targetDocuments';
 
+  /** The targetId used for sentinel rows. No real target uses this id. */
+  static sentinelTargetId = 0;
+
   /** Keys are automatically assigned via the targetId, path properties. */
   static keyPath = ['targetId', 'path'];
 
@@ -432,8 +477,19 @@ export class DbTargetDocument {
     /**
      * The path to the document, as encoded in the key.
      */
-    public path: EncodedResourcePath
-  ) {}
+    public path: EncodedResourcePath,
+    /**
+     * For sentinel rows, the sequence number of the last time the document
+     * specified by `path` was used. Undefined for all other rows.
+     */
+    public sequenceNumber?: ListenSequenceNumber
+  ) {
+    assert(
+      (targetId === DbTargetDocument.sentinelTargetId) ===
+        (sequenceNumber !== undefined),
+      'Only sentinel rows may (and must) have a sequence number'
+    );
+  }
 }
 
 /**
@@ -553,11 +609,235 @@ function ensureTargetGlobalExists(
 }
 
 /**
- * The list of all default IndexedDB stores used throughout the SDK. This is
- * used when creating transactions so that access across all stores is done
- * atomically.
+ * Adds a sentinel row for every document in the remote document cache, so that
+ * documents cached before sequence numbers were tracked can be garbage
+ * collected. They are all marked as last used at the highest listen sequence
+ * number recorded so far.
  */
-export const ALL_STORES = [
+function addDocumentSentinels(
+  txn: SimpleDbTransaction
+): PersistencePromise<void> {
+  const globalStore = txn.store<DbTargetGlobalKey, DbTargetGlobal>(
+    DbTargetGlobal.store
+  );
+  const documentsStore = txn.store<DbRemoteDocumentKey, DbRemoteDocument>(
+    DbRemoteDocument.store
+  );
+  const documentTargetStore = txn.store<DbTargetDocumentKey, DbTargetDocument>(
+    DbTargetDocument.store
+  );
+  return globalStore.get(DbTargetGlobal.key).next(metadata => {
+    assert(
+      metadata !== null,
+      'Missing metadata row that should be added by schema migration.'
+    );
+    const sequenceNumber = metadata!.highestListenSequenceNumber;
+    return documentsStore.iterate({ keysOnly: true }, key =>
+      documentTargetStore.put(
+        new DbTargetDocument(
+          DbTargetDocument.sentinelTargetId,
+          encode(new ResourcePath(key)),
+          sequenceNumber
+        )
+      )
+    );
+  });
+}
+
+/** Object keys in the 'clientMetadata' store are clientId strings. */
+export type DbClientMetadataKey = string;
+
+/**
+ * An object to be stored in the 'clientMetadata' store in IndexedDb.
+ *
+ * In multi-tab mode, every tab that uses the database keeps its own row in
+ * this store and regularly updates its timestamp. Rows that have not been
+ * updated recently belong to tabs that have been closed.
+ */
+export class DbClientMetadata {
+  /** Name of the IndexedDb object store. */
+  static store = 'clientMetadata';
+
+  /** Keys are automatically assigned via the clientId property. */
+  static keyPath = 'clientId';
+
+  constructor(
+    /** The auto-generated client id assigned at client startup. */
+    public clientId: string,
+    /** The last time this state was updated. */
+    public updateTimeMs: number
+  ) {}
+}
+
+function createClientMetadataStore(db: IDBDatabase): void {
+  db.createObjectStore(DbClientMetadata.store, {
+    keyPath: DbClientMetadata.keyPath as KeyPath
+  });
+}
+
+/** Object keys in the 'bundles' store are bundle ID strings. */
+export type DbBundleKey = string;
+
+/**
+ * An object to be stored in the 'bundles' store in IndexedDb.
+ *
+ * Records the bundles that have been loaded, so that loading the same bundle
+ * again can be skipped.
+ */
+export class DbBundle {
+  /** Name of the IndexedDb object store. */
+  static store = 'bundles';
+
+  /** Keys are automatically assigned via the bundleId property. */
+  static keyPath = 'bundleId';
+
+  constructor(
+    /** The ID of the bundle. */
+    public bundleId: string,
+    /** The time at which the bundle was created. */
+    public createTime: DbTimestamp,
+    /** The schema version of the bundle. */
+    public version: number
+  ) {}
+}
+
+/** Object keys in the 'namedQueries' store are query name strings. */
+export type DbNamedQueryKey = string;
+
+/**
+ * An object to be stored in the 'namedQueries' store in IndexedDb.
+ *
+ * Each query from a loaded bundle is stored under its name, so that it can be
+ * retrieved via `Firestore.namedQuery()`.
+ */
+export class DbNamedQuery {
+  /** Name of the IndexedDb object store. */
+  static store = 'namedQueries';
+
+  /** Keys are automatically assigned via the name property. */
+  static keyPath = 'name';
+
+  constructor(
+    /** The name of the query. */
+    public name: string,
+    /** The time at which the results of the query were read. */
+    public readTime: DbTimestamp,
+    /** The query, stored the same way as the query of a DbTarget. */
+    public query: api.QueryTarget,
+    /** Whether the query's limit applies to the last documents. */
+    public limitType: LimitType
+  ) {}
+}
+
+function createBundleCache(db: IDBDatabase): void {
+  db.createObjectStore(DbBundle.store, {
+    keyPath: DbBundle.keyPath
+  });
+  db.createObjectStore(DbNamedQuery.store, {
+    keyPath: DbNamedQuery.keyPath
+  });
+}
+
+/**
+ * A key in the 'fieldIndexes' store, consisting of the collection group and
+ * the canonical field path of the index.
+ */
+export type DbFieldIndexKey = [string, string];
+
+/**
+ * An object to be stored in the 'fieldIndexes' store in IndexedDb.
+ *
+ * Records the client-side field indexes that have been configured via
+ * `Firestore.setIndexConfiguration()`.
+ */
+export class DbFieldIndex {
+  /** Name of the IndexedDb object store. */
+  static store = 'fieldIndexes';
+
+  /** Keys are automatically assigned via the collectionGroup, fieldPath. */
+  static keyPath = ['collectionGroup', 'fieldPath'];
+
+  constructor(
+    /** The collection ID of the collections whose documents are indexed. */
+    public collectionGroup: string,
+    /** The canonical string of the indexed field path. */
+    public fieldPath: string
+  ) {}
+}
+
+/**
+ * A key in the 'indexEntries' store, consisting of the collection group and
+ * field path of the index, the kind and the encoded value of the entry, and
+ * the encoded path of the indexed document.
+ */
+export type DbIndexEntryKey = [
+  string,
+  string,
+  IndexEntryKind,
+  IndexKeyArray,
+  EncodedResourcePath
+];
+
+/**
+ * An object to be stored in the 'indexEntries' store in IndexedDb.
+ *
+ * Each cached document has an entry for the value of every indexed field it
+ * contains, and an additional entry for every element if that value is an
+ * array. Entries are ordered by their encoded value, so that the documents
+ * matching a filter on the indexed field can be found with a range scan.
+ */
+export class DbIndexEntry {
+  /** Name of the IndexedDb object store. */
+  static store = 'indexEntries';
+
+  /** Keys are automatically assigned via all properties of the entry. */
+  static keyPath = [
+    'collectionGroup',
+    'fieldPath',
+    'kind',
+    'value',
+    'documentPath'
+  ];
+
+  /** The index name for the entries of a document. */
+  static documentPathIndex = 'documentPathIndex';
+
+  /** The key path of the index for the entries of a document. */
+  static documentPathKeyPath = 'documentPath';
+
+  constructor(
+    /** The collection group of the index. */
+    public collectionGroup: string,
+    /** The canonical string of the indexed field path. */
+    public fieldPath: string,
+    /** Whether the entry is for the field value or an array element. */
+    public kind: IndexEntryKind,
+    /** The value of the entry, as encoded by `encodeIndexValue()`. */
+    public value: IndexKeyArray,
+    /** The path to the indexed document, as encoded in the key. */
+    public documentPath: EncodedResourcePath
+  ) {}
+}
+
+function createIndexStores(db: IDBDatabase): void {
+  db.createObjectStore(DbFieldIndex.store, {
+    keyPath: DbFieldIndex.keyPath as KeyPath
+  });
+  const indexEntriesStore = db.createObjectStore(DbIndexEntry.store, {
+    keyPath: DbIndexEntry.keyPath as KeyPath
+  });
+  indexEntriesStore.createIndex(
+    DbIndexEntry.documentPathIndex,
+    DbIndexEntry.documentPathKeyPath,
+    { unique: false }
+  );
+}
+
+/**
+ * The list of IndexedDB stores that were created by schema version 1. Later
+ * schema versions only add stores to this list.
+ */
+export const V1_STORES = [
   DbMutationQueue.store,
   DbMutationBatch.store,
   DbDocumentMutation.store,
@@ -567,3 +847,17 @@ export const ALL_STORES = [
   DbTargetGlobal.store,
   DbTargetDocument.store
 ];
+
+/**
+ * The list of all default IndexedDB stores used throughout the SDK. This is
+ * used when creating transactions so that access across all stores is done
+ * atomically.
+ */
+export const ALL_STORES = [
+  ...V1_STORES,
+  DbClientMetadata.store,
+  DbBundle.store,
+  DbNamedQuery.store,
+  DbFieldIndex.store,
+  DbIndexEntry.store
+];
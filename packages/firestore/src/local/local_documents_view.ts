@@ -29,6 +29,8 @@ import { DocumentKey } from '../model/document_key';
 import { ResourcePath } from '../model/path';
 import { fail } from '../util/assert';
 
+import { IndexManager } from './index_manager';
+import { planIndexScan, queryCollectionGroup } from './index_query_planner';
 import { MutationQueue } from './mutation_queue';
 import { PersistenceTransaction } from './persistence';
 import { PersistencePromise } from './persistence_promise';
@@ -43,7 +45,8 @@ import { RemoteDocumentCache } from './remote_document_cache';
 export class LocalDocumentsView {
   constructor(
     private remoteDocumentCache: RemoteDocumentCache,
-    private mutationQueue: MutationQueue
+    private mutationQueue: MutationQueue,
+    private indexManager: IndexManager
   ) {}
 
   /**
@@ -89,12 +92,34 @@ export class LocalDocumentsView {
     return PersistencePromise.waitFor(promises).next(() => results);
   }
 
+  /**
+   * Applies the local mutations to the given remote documents, which do not
+   * need to be part of the remote document cache.
+   *
+   * @return The local view of the documents.
+   */
+  applyLocalMutations(
+    transaction: PersistenceTransaction,
+    documents: MaybeDocumentMap
+  ): PersistencePromise<MaybeDocumentMap> {
+    const promises = [] as Array<PersistencePromise<void>>;
+    let results = maybeDocumentMap();
+    documents.forEach((key, doc) => {
+      promises.push(
+        this.computeLocalDocument(transaction, key, doc).next(mutatedDoc => {
+          results = results.insert(key, mutatedDoc!);
+        })
+      );
+    });
+    return PersistencePromise.waitFor(promises).next(() => results);
+  }
+
   /** Performs a query against the local view of all documents. */
   getDocumentsMatchingQuery(
     transaction: PersistenceTransaction,
     query: Query
   ): PersistencePromise<DocumentMap> {
-    if (DocumentKey.isDocumentKey(query.path)) {
+    if (query.isDocumentQuery()) {
       return this.getDocumentsMatchingDocumentQuery(transaction, query.path);
     } else {
       return this.getDocumentsMatchingCollectionQuery(transaction, query);
@@ -126,8 +151,7 @@ export class LocalDocumentsView {
     // affecting these remote documents and the
     // getAllMutationBatchesAffectingQuery() mutations. Consider optimizing.
     let results: DocumentMap;
-    return this.remoteDocumentCache
-      .getDocumentsMatchingQuery(transaction, query)
+    return this.getRemoteDocumentsMatchingQuery(transaction, query)
       .next(queryResults => {
         return this.computeLocalDocuments(transaction, queryResults);
       })
@@ -178,6 +202,51 @@ export class LocalDocumentsView {
       });
   }
 
+  /**
+   * Executes a query against the cached remote documents, using a field index
+   * to find the candidate documents if one of the query's filters is on an
+   * indexed field.
+   */
+  private getRemoteDocumentsMatchingQuery(
+    transaction: PersistenceTransaction,
+    query: Query
+  ): PersistencePromise<DocumentMap> {
+    return this.indexManager
+      .getFieldIndexes(transaction, queryCollectionGroup(query))
+      .next(indexes => {
+        const scan = planIndexScan(query, indexes);
+        if (!scan) {
+          return this.remoteDocumentCache.getDocumentsMatchingQuery(
+            transaction,
+            query
+          );
+        }
+
+        let results = documentMap();
+        return this.indexManager
+          .getDocumentsMatchingIndexScan(transaction, scan)
+          .next(keys => {
+            const promises = [] as Array<PersistencePromise<void>>;
+            keys.forEach(key => {
+              promises.push(
+                this.remoteDocumentCache
+                  .getEntry(transaction, key)
+                  .next(maybeDoc => {
+                    if (
+                      maybeDoc instanceof Document &&
+                      query.matches(maybeDoc)
+                    ) {
+                      results = results.insert(maybeDoc.key, maybeDoc);
+                    }
+                  })
+              );
+            });
+            return PersistencePromise.waitFor(promises);
+          })
+          .next(() => results);
+      });
+  }
+
   /**
    * Takes a remote document and applies local mutations to generate the local
    * view of the document.
@@ -16,7 +16,8 @@
 
 import * as api from '../protos/firestore_proto_api';
 import { Timestamp } from '../api/timestamp';
-import { Query } from '../core/query';
+import { Bundle, NamedQuery } from '../core/bundle';
+import { LimitType, Query } from '../core/query';
 import { SnapshotVersion } from '../core/snapshot_version';
 import { Document, MaybeDocument, NoDocument } from '../model/document';
 import { DocumentKey } from '../model/document_key';
@@ -25,7 +26,9 @@ import { JsonProtoSerializer } from '../remote/serializer';
 import { assert, fail } from '../util/assert';
 
 import {
+  DbBundle,
   DbMutationBatch,
+  DbNamedQuery,
   DbNoDocument,
   DbQuery,
   DbRemoteDocument,
@@ -102,11 +105,15 @@ export class LocalSerializer {
       query = this.remoteSerializer.fromDocumentsTarget(dbTarget.query);
     } else {
       query = this.remoteSerializer.fromQueryTarget(dbTarget.query);
+      if (dbTarget.limitType === LimitType.Last) {
+        query = query.withLimitToLast(query.limit);
+      }
     }
     return new QueryData(
       query,
       dbTarget.targetId,
       QueryPurpose.Listen,
+      dbTarget.lastListenSequenceNumber,
       version,
       dbTarget.resumeToken
     );
@@ -146,16 +153,67 @@ export class LocalSerializer {
       resumeToken = queryData.resumeToken;
     }
 
-    // lastListenSequenceNumber is always 0 until we do real GC.
     return new DbTarget(
       queryData.targetId,
       queryData.query.canonicalId(),
       dbTimestamp,
       resumeToken,
-      0,
-      queryProto
+      queryData.sequenceNumber,
+      queryProto,
+      queryData.query.limitType
     );
   }
+
+  /** Decodes a DbBundle into a Bundle. */
+  fromDbBundle(dbBundle: DbBundle): Bundle {
+    return {
+      id: dbBundle.bundleId,
+      version: dbBundle.version,
+      createTime: fromDbTimestamp(dbBundle.createTime)
+    };
+  }
+
+  /** Encodes a Bundle into a DbBundle for storage locally. */
+  toDbBundle(bundle: Bundle): DbBundle {
+    return new DbBundle(
+      bundle.id,
+      toDbTimestamp(bundle.createTime),
+      bundle.version
+    );
+  }
+
+  /** Decodes a DbNamedQuery into a NamedQuery. */
+  fromDbNamedQuery(dbNamedQuery: DbNamedQuery): NamedQuery {
+    let query = this.remoteSerializer.fromQueryTarget(dbNamedQuery.query);
+    if (dbNamedQuery.limitType === LimitType.Last) {
+      query = query.withLimitToLast(query.limit);
+    }
+    return {
+      name: dbNamedQuery.name,
+      query,
+      readTime: fromDbTimestamp(dbNamedQuery.readTime)
+    };
+  }
+
+  /** Encodes a NamedQuery into a DbNamedQuery for storage locally. */
+  toDbNamedQuery(namedQuery: NamedQuery): DbNamedQuery {
+    return new DbNamedQuery(
+      namedQuery.name,
+      toDbTimestamp(namedQuery.readTime),
+      this.remoteSerializer.toQueryTarget(namedQuery.query),
+      namedQuery.query.limitType
+    );
+  }
+}
+
+function fromDbTimestamp(dbTimestamp: DbTimestamp): SnapshotVersion {
+  const timestamp = new Timestamp(dbTimestamp.seconds, dbTimestamp.nanoseconds);
+  return SnapshotVersion.fromTimestamp(timestamp);
+}
+
+function toDbTimestamp(version: SnapshotVersion): DbTimestamp {
+  const timestamp = version.toTimestamp();
+  return new DbTimestamp(timestamp.seconds, timestamp.nanoseconds);
 }
 
 /**
@@ -16,40 +16,53 @@
 
 import { Timestamp } from '../api/timestamp';
 import { User } from '../auth/user';
+import { Bundle, NamedQuery } from '../core/bundle';
+import { ListenSequence } from '../core/listen_sequence';
 import { Query } from '../core/query';
 import { SnapshotVersion } from '../core/snapshot_version';
-import { TargetIdGenerator } from '../core/target_id_generator';
 import { BatchId, ProtoByteString, TargetId } from '../core/types';
 import {
   DocumentKeySet,
   documentKeySet,
   DocumentMap,
-  MaybeDocumentMap
+  MaybeDocumentMap,
+  maybeDocumentMap
 } from '../model/collections';
 import { MaybeDocument } from '../model/document';
 import { DocumentKey } from '../model/document_key';
+import { FieldIndex } from '../model/field_index';
 import { Mutation } from '../model/mutation';
 import {
   BATCHID_UNKNOWN,
   MutationBatch,
   MutationBatchResult
 } from '../model/mutation_batch';
+import { ResourcePath } from '../model/path';
+import { emptyByteString } from '../platform/platform';
 import { RemoteEvent, TargetChange } from '../remote/remote_event';
 import { assert } from '../util/assert';
 import * as log from '../util/log';
 import * as objUtils from '../util/obj';
 
+import { BundleCache } from './bundle_cache';
 import { GarbageCollector } from './garbage_collector';
+import { IndexManager } from './index_manager';
 import { LocalDocumentsView } from './local_documents_view';
 import { LocalViewChanges } from './local_view_changes';
+import { LruGarbageCollector, LruResults } from './lru_garbage_collector';
 import { MutationQueue } from './mutation_queue';
-import { Persistence, PersistenceTransaction } from './persistence';
+import {
+  ignoreIfPrimaryLeaseLoss,
+  Persistence,
+  PersistenceTransaction
+} from './persistence';
 import { PersistencePromise } from './persistence_promise';
 import { QueryCache } from './query_cache';
 import { QueryData, QueryPurpose } from './query_data';
 import { ReferenceSet } from './reference_set';
 import { RemoteDocumentCache } from './remote_document_cache';
 import { RemoteDocumentChangeBuffer } from './remote_document_change_buffer';
+import { ClientId } from './shared_client_state';
 
 const LOG_TAG = 'LocalStore';
 
@@ -134,11 +147,17 @@ export class LocalStore {
   /** Maps a query to the data about that query. */
   private queryCache: QueryCache;
 
+  /** Stores the bundles and named queries that have been loaded. */
+  private bundleCache: BundleCache;
+
+  /** Stores the client-side field indexes and their entries. */
+  private indexManager: IndexManager;
+
   /** Maps a targetID to data about its query. */
   private targetIds = {} as { [targetId: number]: QueryData };
 
-  /** Used to generate targetIDs for queries tracked locally. */
-  private targetIdGenerator = TargetIdGenerator.forLocalStore();
+  /** Used to generate sequence numbers that record when a target was used. */
+  private listenSequence = new ListenSequence(0);
 
   /**
    * A heldBatchResult is a mutation batch result (from a write acknowledgement)
@@ -166,9 +185,12 @@ export class LocalStore {
     this.mutationQueue = persistence.getMutationQueue(initialUser);
     this.remoteDocuments = persistence.getRemoteDocumentCache();
     this.queryCache = persistence.getQueryCache();
+    this.bundleCache = persistence.getBundleCache();
+    this.indexManager = persistence.getIndexManager();
     this.localDocuments = new LocalDocumentsView(
       this.remoteDocuments,
-      this.mutationQueue
+      this.mutationQueue,
+      this.indexManager
     );
     this.garbageCollector.addGarbageSource(this.localViewReferences);
     this.garbageCollector.addGarbageSource(this.queryCache);
@@ -177,9 +199,13 @@ export class LocalStore {
 
   /** Performs any initial startup actions required by the local store. */
   start(): Promise<void> {
-    return this.persistence.runTransaction('Start LocalStore', txn => {
-      return this.startMutationQueue(txn).next(() => this.startQueryCache(txn));
-    });
+    return this.persistence
+      .runTransaction('Start LocalStore', false, txn => {
+        return this.startMutationQueue(txn).next(() =>
+          this.startQueryCache(txn)
+        );
+      })
+      .then(() => this.removeAcknowledgedBatches());
   }
 
   /**
@@ -189,111 +215,139 @@ export class LocalStore {
    * returns any resulting document changes.
    */
   handleUserChange(user: User): Promise<MaybeDocumentMap> {
-    return this.persistence.runTransaction('Handle user change', txn => {
-      // Swap out the mutation queue, grabbing the pending mutation batches
-      // before and after.
-      let oldBatches: MutationBatch[];
-      return this.mutationQueue
-        .getAllMutationBatches(txn)
-        .next(promisedOldBatches => {
-          oldBatches = promisedOldBatches;
-
-          this.garbageCollector.removeGarbageSource(this.mutationQueue);
-          this.mutationQueue = this.persistence.getMutationQueue(user);
-          this.garbageCollector.addGarbageSource(this.mutationQueue);
-          return this.startMutationQueue(txn);
-        })
-        .next(() => {
-          // Recreate our LocalDocumentsView using the new
-          // MutationQueue.
-          this.localDocuments = new LocalDocumentsView(
-            this.remoteDocuments,
-            this.mutationQueue
-          );
-          return this.mutationQueue.getAllMutationBatches(txn);
-        })
-        .next(newBatches => {
-          // Union the old/new changed keys.
-          let changedKeys = documentKeySet();
-          for (const batches of [oldBatches, newBatches]) {
-            for (const batch of batches) {
-              for (const mutation of batch.mutations) {
-                changedKeys = changedKeys.add(mutation.key);
+    let changedDocuments: MaybeDocumentMap;
+    return this.persistence
+      .runTransaction('Handle user change', false, txn => {
+        // Swap out the mutation queue, grabbing the pending mutation batches
+        // before and after.
+        let oldBatches: MutationBatch[];
+        return this.mutationQueue
+          .getAllMutationBatches(txn)
+          .next(promisedOldBatches => {
+            oldBatches = promisedOldBatches;
+
+            this.garbageCollector.removeGarbageSource(this.mutationQueue);
+            this.mutationQueue = this.persistence.getMutationQueue(user);
+            this.garbageCollector.addGarbageSource(this.mutationQueue);
+            return this.startMutationQueue(txn);
+          })
+          .next(() => {
+            // Recreate our LocalDocumentsView using the new
+            // MutationQueue.
+            this.localDocuments = new LocalDocumentsView(
+              this.remoteDocuments,
+              this.mutationQueue,
+              this.indexManager
+            );
+            return this.mutationQueue.getAllMutationBatches(txn);
+          })
+          .next(newBatches => {
+            // Union the old/new changed keys.
+            let changedKeys = documentKeySet();
+            for (const batches of [oldBatches, newBatches]) {
+              for (const batch of batches) {
+                for (const mutation of batch.mutations) {
+                  changedKeys = changedKeys.add(mutation.key);
+                }
               }
             }
-          }
 
-          // Return the set of all (potentially) changed documents as the
-          // result of the user change.
-          return this.localDocuments.getDocuments(txn, changedKeys);
-        });
-    });
+            // Return the set of all (potentially) changed documents as the
+            // result of the user change.
+            return this.localDocuments.getDocuments(txn, changedKeys);
+          });
+      })
+      .then(promisedChangedDocuments => {
+        changedDocuments = promisedChangedDocuments;
+        return this.removeAcknowledgedBatches();
+      })
+      .then(() => changedDocuments);
   }
 
   private startQueryCache(
     txn: PersistenceTransaction
   ): PersistencePromise<void> {
     return this.queryCache.start(txn).next(() => {
-      const targetId = this.queryCache.getHighestTargetId();
-      this.targetIdGenerator = TargetIdGenerator.forLocalStore(targetId);
+      this.listenSequence = new ListenSequence(
+        this.queryCache.getHighestSequenceNumber()
+      );
     });
   }
 
   private startMutationQueue(
     txn: PersistenceTransaction
   ): PersistencePromise<void> {
-    return this.mutationQueue
-      .start(txn)
-      .next(() => {
-        // If we have any leftover mutation batch results from a prior run,
-        // just drop them.
-        // TODO(http://b/33446471): We probably need to repopulate
-        // heldBatchResults or similar instead, but that is not
-        // straightforward since we're not persisting the write ack versions.
-        this.heldBatchResults = [];
-        return this.mutationQueue.getHighestAcknowledgedBatchId(txn);
-      })
-      .next(highestAck => {
-        // TODO(mikelehen): This is the only usage of
-        // getAllMutationBatchesThroughBatchId(). Consider removing it in
-        // favor of a getAcknowledgedBatches() method.
-        if (highestAck !== BATCHID_UNKNOWN) {
-          return this.mutationQueue.getAllMutationBatchesThroughBatchId(
-            txn,
-            highestAck
-          );
-        } else {
-          return PersistencePromise.resolve([]);
-        }
+    return this.mutationQueue.start(txn).next(() => {
+      // If we have any leftover mutation batch results from a prior run,
+      // just drop them.
+      // TODO(http://b/33446471): We probably need to repopulate
+      // heldBatchResults or similar instead, but that is not
+      // straightforward since we're not persisting the write ack versions.
+      this.heldBatchResults = [];
+    });
+  }
+
+  /**
+   * Removes the mutation batches of the current user that were acknowledged
+   * during a prior run. Only the primary client removes these batches, since
+   * with tab synchronization the primary client may still hold the results of
+   * acknowledged batches that other clients must not remove.
+   */
+  private removeAcknowledgedBatches(): Promise<void> {
+    return this.persistence
+      .runTransaction('Remove acknowledged batches', true, txn => {
+        return this.mutationQueue
+          .getHighestAcknowledgedBatchId(txn)
+          .next(highestAck => {
+            // TODO(mikelehen): This is the only usage of
+            // getAllMutationBatchesThroughBatchId(). Consider removing it in
+            // favor of a getAcknowledgedBatches() method.
+            if (highestAck !== BATCHID_UNKNOWN) {
+              return this.mutationQueue.getAllMutationBatchesThroughBatchId(
+                txn,
+                highestAck
+              );
+            } else {
+              return PersistencePromise.resolve([]);
+            }
+          })
+          .next(ackedBatches => {
+            if (ackedBatches.length > 0) {
+              return this.mutationQueue.removeMutationBatches(
+                txn,
+                ackedBatches
+              );
+            } else {
+              return PersistencePromise.resolve();
+            }
+          });
       })
-      .next(ackedBatches => {
-        if (ackedBatches.length > 0) {
-          return this.mutationQueue.removeMutationBatches(txn, ackedBatches);
-        } else {
-          return PersistencePromise.resolve();
-        }
-      });
+      .catch(ignoreIfPrimaryLeaseLoss);
   }
 
   /* Accept locally generated Mutations and commit them to storage. */
   localWrite(mutations: Mutation[]): Promise<LocalWriteResult> {
-    return this.persistence.runTransaction('Locally write mutations', txn => {
-      let batch: MutationBatch;
-      const localWriteTime = Timestamp.now();
-      return this.mutationQueue
-        .addMutationBatch(txn, localWriteTime, mutations)
-        .next(promisedBatch => {
-          batch = promisedBatch;
-          // TODO(koss): This is doing an N^2 update by replaying ALL the
-          // mutations on each document (instead of just the ones added) in
-          // this batch.
-          const keys = batch.keys();
-          return this.localDocuments.getDocuments(txn, keys);
-        })
-        .next((changedDocuments: MaybeDocumentMap) => {
-          return { batchId: batch.batchId, changes: changedDocuments };
-        });
-    });
+    return this.persistence.runTransaction(
+      'Locally write mutations',
+      false,
+      txn => {
+        let batch: MutationBatch;
+        const localWriteTime = Timestamp.now();
+        return this.mutationQueue
+          .addMutationBatch(txn, localWriteTime, mutations)
+          .next(promisedBatch => {
+            batch = promisedBatch;
+            // TODO(koss): This is doing an N^2 update by replaying ALL the
+            // mutations on each document (instead of just the ones added) in
+            // this batch.
+            const keys = batch.keys();
+            return this.localDocuments.getDocuments(txn, keys);
+          })
+          .next((changedDocuments: MaybeDocumentMap) => {
+            return { batchId: batch.batchId, changes: changedDocuments };
+          });
+      }
+    );
   }
 
   /**
@@ -313,7 +367,7 @@ export class LocalStore {
   acknowledgeBatch(
     batchResult: MutationBatchResult
   ): Promise<MaybeDocumentMap> {
-    return this.persistence.runTransaction('Acknowledge batch', txn => {
+    return this.persistence.runTransaction('Acknowledge batch', true, txn => {
       let affected: DocumentKeySet;
       return this.mutationQueue
         .acknowledgeBatch(txn, batchResult.batch, batchResult.streamToken)
@@ -352,7 +406,7 @@ export class LocalStore {
    * @returns The resulting modified documents.
    */
   rejectBatch(batchId: BatchId): Promise<MaybeDocumentMap> {
-    return this.persistence.runTransaction('Reject batch', txn => {
+    return this.persistence.runTransaction('Reject batch', true, txn => {
       let toReject: MutationBatch;
       let affectedKeys: DocumentKeySet;
       return this.mutationQueue
@@ -389,9 +443,13 @@ export class LocalStore {
 
   /** Returns the last recorded stream token for the current user. */
   getLastStreamToken(): Promise<ProtoByteString> {
-    return this.persistence.runTransaction('Get last stream token', txn => {
-      return this.mutationQueue.getLastStreamToken(txn);
-    });
+    return this.persistence.runTransaction(
+      'Get last stream token',
+      true,
+      txn => {
+        return this.mutationQueue.getLastStreamToken(txn);
+      }
+    );
   }
 
   /**
@@ -400,9 +458,13 @@ export class LocalStore {
    * response to an error that requires clearing the stream token.
    */
   setLastStreamToken(streamToken: ProtoByteString): Promise<void> {
-    return this.persistence.runTransaction('Set last stream token', txn => {
-      return this.mutationQueue.setLastStreamToken(txn, streamToken);
-    });
+    return this.persistence.runTransaction(
+      'Set last stream token',
+      true,
+      txn => {
+        return this.mutationQueue.setLastStreamToken(txn, streamToken);
+      }
+    );
   }
 
   /**
@@ -423,7 +485,7 @@ export class LocalStore {
    */
   applyRemoteEvent(remoteEvent: RemoteEvent): Promise<MaybeDocumentMap> {
     const documentBuffer = new RemoteDocumentChangeBuffer(this.remoteDocuments);
-    return this.persistence.runTransaction('Apply remote event', txn => {
+    return this.persistence.runTransaction('Apply remote event', true, txn => {
       const promises = [] as Array<PersistencePromise<void>>;
       objUtils.forEachNumber(
         remoteEvent.targetChanges,
@@ -528,33 +590,317 @@ export class LocalStore {
   }
 
   /**
-   * Notify local store of the changed views to locally pin documents.
+   * Returns whether a bundle with the same ID as the given bundle was created
+   * at the same time or later than the given bundle and has already been
+   * loaded.
    */
-  notifyLocalViewChanges(viewChanges: LocalViewChanges[]): Promise<void> {
-    return this.persistence.runTransaction('Notify local view changes', txn => {
-      const promises = [] as Array<PersistencePromise<void>>;
-      for (const view of viewChanges) {
-        promises.push(
-          this.queryCache
-            .getQueryData(txn, view.query)
-            .next((queryData: QueryData | null) => {
-              assert(
-                queryData !== null,
-                'Local view changes contain unallocated query.'
-              );
-              const targetId = queryData!.targetId;
-              this.localViewReferences.addReferences(view.addedKeys, targetId);
-              this.localViewReferences.removeReferences(
-                view.removedKeys,
-                targetId
-              );
-            })
+  hasNewerBundle(bundle: Bundle): Promise<boolean> {
+    return this.persistence.runTransaction('Has newer bundle', false, txn => {
+      return this.bundleCache
+        .getBundle(txn, bundle.id)
+        .next(
+          cached =>
+            !!cached && cached.createTime.compareTo(bundle.createTime) >= 0
         );
+    });
+  }
+
+  /** Records that the given bundle has been loaded. */
+  saveBundle(bundle: Bundle): Promise<void> {
+    return this.persistence.runTransaction('Save bundle', false, txn => {
+      return this.bundleCache.saveBundle(txn, bundle);
+    });
+  }
+
+  /**
+   * Applies the documents of a bundle to the remote document cache. Documents
+   * are only applied if they are newer than the cached version.
+   *
+   * The documents are kept in an umbrella target for the bundle, so that they
+   * are not garbage collected while no query refers to them.
+   *
+   * Returns the local view of the bundled documents.
+   */
+  applyBundleDocuments(
+    documents: MaybeDocumentMap,
+    bundleId: string
+  ): Promise<MaybeDocumentMap> {
+    const documentBuffer = new RemoteDocumentChangeBuffer(this.remoteDocuments);
+    return this.persistence.runTransaction(
+      'Apply bundle documents',
+      false,
+      txn => {
+        const promises = [] as Array<PersistencePromise<void>>;
+        let changedDocKeys = documentKeySet();
+        documents.forEach((key, doc) => {
+          changedDocKeys = changedDocKeys.add(key);
+          promises.push(
+            documentBuffer.getEntry(txn, key).next(existingDoc => {
+              if (
+                existingDoc == null ||
+                doc.version.compareTo(existingDoc.version) > 0
+              ) {
+                documentBuffer.addEntry(doc);
+              } else {
+                log.debug(
+                  LOG_TAG,
+                  'Ignoring outdated bundle document for ',
+                  key,
+                  '. Current version:',
+                  existingDoc.version,
+                  ' Bundle version:',
+                  doc.version
+                );
+              }
+            })
+          );
+        });
+
+        return PersistencePromise.waitFor(promises)
+          .next(() => documentBuffer.apply(txn))
+          .next(() =>
+            this.saveBundleDocumentKeys(txn, bundleId, changedDocKeys)
+          )
+          .next(() => this.localDocuments.getDocuments(txn, changedDocKeys));
       }
-      return PersistencePromise.waitFor(promises);
+    );
+  }
+
+  /**
+   * Replaces the documents of the umbrella target of the given bundle with
+   * `documentKeys`.
+   */
+  private saveBundleDocumentKeys(
+    txn: PersistenceTransaction,
+    bundleId: string,
+    documentKeys: DocumentKeySet
+  ): PersistencePromise<void> {
+    const umbrellaQuery = Query.atPath(
+      ResourcePath.fromString(`__bundle__/docs/${bundleId}`)
+    );
+    return this.queryCache
+      .getQueryData(txn, umbrellaQuery)
+      .next((cached: QueryData | null) => {
+        if (cached) {
+          return this.queryCache
+            .removeMatchingKeysForTargetId(txn, cached.targetId)
+            .next(() => cached.targetId);
+        }
+        return this.queryCache.allocateTargetId(txn).next(targetId => {
+          const queryData = new QueryData(
+            umbrellaQuery,
+            targetId,
+            QueryPurpose.Listen,
+            this.listenSequence.next()
+          );
+          return this.queryCache
+            .addQueryData(txn, queryData)
+            .next(() => targetId);
+        });
+      })
+      .next(targetId =>
+        this.queryCache.addMatchingKeys(txn, documentKeys, targetId)
+      );
+  }
+
+  /**
+   * Saves the given named query. Unless the query's target is newer or
+   * currently being listened to, the target is updated to the query's read
+   * time and its results are set to `documentKeys`, so that listening to the
+   * query resumes from the bundle.
+   */
+  saveNamedQuery(
+    namedQuery: NamedQuery,
+    documentKeys: DocumentKeySet
+  ): Promise<void> {
+    return this.persistence.runTransaction('Save named query', false, txn => {
+      return this.queryCache
+        .getQueryData(txn, namedQuery.query)
+        .next((cached: QueryData | null) => {
+          if (!cached) {
+            return this.queryCache.allocateTargetId(txn).next(targetId => {
+              const queryData = new QueryData(
+                namedQuery.query,
+                targetId,
+                QueryPurpose.Listen,
+                this.listenSequence.next(),
+                namedQuery.readTime
+              );
+              return this.queryCache
+                .addQueryData(txn, queryData)
+                .next(() =>
+                  this.queryCache.addMatchingKeys(txn, documentKeys, targetId)
+                );
+            });
+          } else if (
+            this.targetIds[cached.targetId] ||
+            cached.snapshotVersion.compareTo(namedQuery.readTime) >= 0
+          ) {
+            // Active targets are kept up to date by the watch stream.
+            return PersistencePromise.resolve();
+          } else {
+            // Clear the resume token so that listening to the query resumes
+            // from the read time of the bundle.
+            const queryData = cached.update({
+              resumeToken: emptyByteString(),
+              snapshotVersion: namedQuery.readTime
+            });
+            return this.queryCache
+              .updateQueryData(txn, queryData)
+              .next(() =>
+                this.queryCache.removeMatchingKeysForTargetId(
+                  txn,
+                  queryData.targetId
+                )
+              )
+              .next(() =>
+                this.queryCache.addMatchingKeys(
+                  txn,
+                  documentKeys,
+                  queryData.targetId
+                )
+              );
+          }
+        })
+        .next(() => this.bundleCache.saveNamedQuery(txn, namedQuery));
+    });
+  }
+
+  /**
+   * Returns the named query with the given name, or null if no bundle that
+   * contains the query has been loaded.
+   */
+  getNamedQuery(name: string): Promise<NamedQuery | null> {
+    return this.persistence.runTransaction('Get named query', false, txn => {
+      return this.bundleCache.getNamedQuery(txn, name);
     });
   }
 
+  /**
+   * Replaces the configured client-side field indexes with the given indexes.
+   * Entries for the documents that are already cached are added to the new
+   * indexes, while removed indexes are deleted along with their entries.
+   */
+  configureFieldIndexes(indexes: FieldIndex[]): Promise<void> {
+    return this.persistence.runTransaction(
+      'Configure field indexes',
+      false,
+      txn => {
+        const changedCollectionGroups: string[] = [];
+        return this.indexManager
+          .getFieldIndexes(txn)
+          .next(existingIndexes => {
+            const promises = [] as Array<PersistencePromise<void>>;
+            for (const existing of existingIndexes) {
+              if (!indexes.some(index => index.isEqual(existing))) {
+                promises.push(
+                  this.indexManager.deleteFieldIndex(txn, existing)
+                );
+              }
+            }
+            for (const index of indexes) {
+              if (!existingIndexes.some(existing => existing.isEqual(index))) {
+                promises.push(this.indexManager.addFieldIndex(txn, index));
+                if (
+                  changedCollectionGroups.indexOf(index.collectionGroup) === -1
+                ) {
+                  changedCollectionGroups.push(index.collectionGroup);
+                }
+              }
+            }
+            return PersistencePromise.waitFor(promises);
+          })
+          .next(() =>
+            PersistencePromise.waitFor(
+              changedCollectionGroups.map(collectionGroup =>
+                this.backfillIndexEntries(txn, collectionGroup)
+              )
+            )
+          );
+      }
+    );
+  }
+
+  /** Adds the cached documents of a collection group to its indexes. */
+  private backfillIndexEntries(
+    txn: PersistenceTransaction,
+    collectionGroup: string
+  ): PersistencePromise<void> {
+    const query = new Query(ResourcePath.EMPTY_PATH, collectionGroup);
+    return this.remoteDocuments
+      .getDocumentsMatchingQuery(txn, query)
+      .next(docs => {
+        const promises = [] as Array<PersistencePromise<void>>;
+        docs.forEach((key, doc) => {
+          promises.push(this.indexManager.updateIndexEntries(txn, key, doc));
+        });
+        return PersistencePromise.waitFor(promises);
+      });
+  }
+
+  /**
+   * Notify local store of the changed views to locally pin documents.
+   */
+  notifyLocalViewChanges(viewChanges: LocalViewChanges[]): Promise<void> {
+    return this.persistence.runTransaction(
+      'Notify local view changes',
+      false,
+      txn => {
+        const promises = [] as Array<PersistencePromise<void>>;
+        for (const view of viewChanges) {
+          promises.push(
+            this.queryCache
+              .getQueryData(txn, view.query)
+              .next((queryData: QueryData | null) => {
+                assert(
+                  queryData !== null,
+                  'Local view changes contain unallocated query.'
+                );
+                const targetId = queryData!.targetId;
+                this.localViewReferences.addReferences(
+                  view.addedKeys,
+                  targetId
+                );
+                this.localViewReferences.removeReferences(
+                  view.removedKeys,
+                  targetId
+                );
+              })
+          );
+        }
+        return PersistencePromise.waitFor(promises);
+      }
+    );
+  }
+
+  /**
+   * Returns the largest (latest) batch ID in the mutation queue that has not
+   * been acknowledged by the backend yet, or BATCHID_UNKNOWN if there are no
+   * pending batches.
+   */
+  getHighestUnacknowledgedBatchId(): Promise<BatchId> {
+    return this.persistence.runTransaction(
+      'Get highest unacknowledged batch id',
+      false,
+      txn => {
+        return this.mutationQueue
+          .getHighestAcknowledgedBatchId(txn)
+          .next(highestAcknowledgedBatchId => {
+            return this.mutationQueue
+              .getAllMutationBatches(txn)
+              .next(batches => {
+                const pendingBatches = batches.filter(
+                  batch => batch.batchId > highestAcknowledgedBatchId
+                );
+                return pendingBatches.length > 0
+                  ? pendingBatches[pendingBatches.length - 1].batchId
+                  : BATCHID_UNKNOWN;
+              });
+          });
+      }
+    );
+  }
+
   /**
    * Gets the mutation batch after the passed in batchId in the mutation queue
    * or null if empty.
@@ -562,15 +908,19 @@ export class LocalStore {
    * @returns The next mutation or null if there wasn't one.
    */
   nextMutationBatch(afterBatchId?: BatchId): Promise<MutationBatch | null> {
-    return this.persistence.runTransaction('Get next mutation batch', txn => {
-      if (afterBatchId === undefined) {
-        afterBatchId = BATCHID_UNKNOWN;
+    return this.persistence.runTransaction(
+      'Get next mutation batch',
+      true,
+      txn => {
+        if (afterBatchId === undefined) {
+          afterBatchId = BATCHID_UNKNOWN;
+        }
+        return this.mutationQueue.getNextMutationBatchAfterBatchId(
+          txn,
+          afterBatchId
+        );
       }
-      return this.mutationQueue.getNextMutationBatchAfterBatchId(
-        txn,
-        afterBatchId
-      );
-    });
+    );
   }
 
   /**
@@ -578,48 +928,102 @@ export class LocalStore {
    * found - used for testing.
    */
   readDocument(key: DocumentKey): Promise<MaybeDocument | null> {
-    return this.persistence.runTransaction('read document', txn => {
+    return this.persistence.runTransaction('read document', false, txn => {
       return this.localDocuments.getDocument(txn, key);
     });
   }
 
+  /**
+   * Returns the local view of the documents identified by `keys`. Documents
+   * that are neither cached nor affected by local mutations are omitted from
+   * the result.
+   */
+  readDocuments(keys: DocumentKeySet): Promise<MaybeDocumentMap> {
+    return this.persistence.runTransaction('Read documents', false, txn => {
+      const promises = [] as Array<PersistencePromise<void>>;
+      let results = maybeDocumentMap();
+      keys.forEach(key => {
+        promises.push(
+          this.localDocuments.getDocument(txn, key).next(maybeDoc => {
+            if (maybeDoc) {
+              results = results.insert(key, maybeDoc);
+            }
+          })
+        );
+      });
+      return PersistencePromise.waitFor(promises).next(() => results);
+    });
+  }
+
+  /**
+   * Applies the local mutations to the given documents, which were read from
+   * the backend, and returns the local view of the documents.
+   */
+  applyLocalMutations(documents: MaybeDocumentMap): Promise<MaybeDocumentMap> {
+    return this.persistence.runTransaction(
+      'Apply local mutations',
+      false,
+      txn => {
+        return this.localDocuments.applyLocalMutations(txn, documents);
+      }
+    );
+  }
+
   /**
    * Assigns the given query an internal ID so that its results can be pinned so
    * they don't get GC'd. A query must be allocated in the local store before
    * the store can be used to manage its view.
    */
   allocateQuery(query: Query): Promise<QueryData> {
-    return this.persistence.runTransaction('Allocate query', txn => {
+    return this.persistence.runTransaction('Allocate query', false, txn => {
       let queryData: QueryData;
       return this.queryCache
         .getQueryData(txn, query)
         .next((cached: QueryData | null) => {
           if (cached) {
             // This query has been listened to previously, so reuse the
-            // previous targetID.
-            // TODO(mcg): freshen last accessed date?
-            queryData = cached;
-            return PersistencePromise.resolve();
+            // previous targetID and record its use.
+            queryData = cached.withSequenceNumber(this.listenSequence.next());
+            return this.queryCache.updateQueryData(txn, queryData);
           } else {
-            const targetId = this.targetIdGenerator.next();
-            queryData = new QueryData(query, targetId, QueryPurpose.Listen);
-            return this.queryCache.addQueryData(txn, queryData);
+            return this.queryCache.allocateTargetId(txn).next(targetId => {
+              queryData = new QueryData(
+                query,
+                targetId,
+                QueryPurpose.Listen,
+                this.listenSequence.next()
+              );
+              return this.queryCache.addQueryData(txn, queryData);
+            });
           }
         })
         .next(() => {
-          assert(
-            !this.targetIds[queryData.targetId],
-            'Tried to allocate an already allocated query: ' + query
-          );
+          // With tab synchronization, the primary client can allocate the same
+          // query for a local listen and on behalf of another client.
           this.targetIds[queryData.targetId] = queryData;
           return queryData;
         });
     });
   }
 
+  /**
+   * Returns the Query that is associated with the given target ID, or null if
+   * the target is not known to the query cache.
+   */
+  getQueryForTarget(targetId: TargetId): Promise<Query | null> {
+    if (this.targetIds[targetId]) {
+      return Promise.resolve(this.targetIds[targetId].query);
+    }
+    return this.persistence.runTransaction('Get query data', false, txn => {
+      return this.queryCache
+        .getQueryDataForTarget(txn, targetId)
+        .next(queryData => (queryData ? queryData.query : null));
+    });
+  }
+
   /** Unpin all the documents associated with the given query. */
   releaseQuery(query: Query): Promise<void> {
-    return this.persistence.runTransaction('Release query', txn => {
+    return this.persistence.runTransaction('Release query', false, txn => {
       return this.queryCache
         .getQueryData(txn, query)
         .next((queryData: QueryData | null) => {
@@ -632,7 +1036,12 @@ export class LocalStore {
           if (this.garbageCollector.isEager) {
             return this.queryCache.removeQueryData(txn, queryData!);
           } else {
-            return PersistencePromise.resolve();
+            // Record the time of the last use so that the LRU garbage
+            // collector evicts the least recently used targets first.
+            return this.queryCache.updateQueryData(
+              txn,
+              queryData!.withSequenceNumber(this.listenSequence.next())
+            );
           }
         })
         .next(() => {
@@ -659,7 +1068,7 @@ export class LocalStore {
    * returns the results.
    */
   executeQuery(query: Query): Promise<DocumentMap> {
-    return this.persistence.runTransaction('Execute query', txn => {
+    return this.persistence.runTransaction('Execute query', false, txn => {
       return this.localDocuments.getDocumentsMatchingQuery(txn, query);
     });
   }
@@ -669,9 +1078,13 @@ export class LocalStore {
    * target id in the remote table.
    */
   remoteDocumentKeys(targetId: TargetId): Promise<DocumentKeySet> {
-    return this.persistence.runTransaction('Remote document keys', txn => {
-      return this.queryCache.getMatchingKeysForTargetId(txn, targetId);
-    });
+    return this.persistence.runTransaction(
+      'Remote document keys',
+      false,
+      txn => {
+        return this.queryCache.getMatchingKeysForTargetId(txn, targetId);
+      }
+    );
   }
 
   /**
@@ -683,7 +1096,7 @@ export class LocalStore {
   collectGarbage(): Promise<void> {
     // Call collectGarbage regardless of whether isGCEnabled so the referenceSet
     // doesn't continue to accumulate the garbage keys.
-    return this.persistence.runTransaction('Garbage collection', txn => {
+    return this.persistence.runTransaction('Garbage collection', false, txn => {
       return this.garbageCollector.collectGarbage(txn).next(garbage => {
         const promises = [] as Array<PersistencePromise<void>>;
         garbage.forEach(key => {
@@ -694,6 +1107,23 @@ export class LocalStore {
     });
   }
 
+  /**
+   * Runs the given LRU garbage collector, which evicts the least recently used
+   * targets and documents if the cache has grown beyond its size threshold.
+   */
+  collectLruGarbage(
+    garbageCollector: LruGarbageCollector
+  ): Promise<LruResults> {
+    return this.persistence.runTransaction('Collect LRU garbage', true, txn =>
+      garbageCollector.collect(txn, this.targetIds)
+    );
+  }
+
+  /** Returns the IDs of the clients that are currently active. */
+  getActiveClients(): Promise<ClientId[]> {
+    return this.persistence.getActiveClients();
+  }
+
   private releaseHeldBatchResults(
     txn: PersistenceTransaction,
     documentBuffer: RemoteDocumentChangeBuffer
@@ -0,0 +1,483 @@
+/**
+ * Copyright 2018 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { ListenSequence } from '../core/listen_sequence';
+import { ListenSequenceNumber } from '../core/types';
+import { DocumentKeySet, documentKeySet } from '../model/collections';
+import { DocumentKey } from '../model/document_key';
+import { assert } from '../util/assert';
+import { AsyncQueue, TimerId } from '../util/async_queue';
+import * as log from '../util/log';
+import { primitiveComparator } from '../util/misc';
+import { CancelablePromise } from '../util/promise';
+import { SortedSet } from '../util/sorted_set';
+
+import { GarbageCollector } from './garbage_collector';
+import { GarbageSource } from './garbage_source';
+import { LocalStore } from './local_store';
+import { PersistenceTransaction } from './persistence';
+import { PersistencePromise } from './persistence_promise';
+import { QueryData } from './query_data';
+
+const LOG_TAG = 'LruGarbageCollector';
+
+/** How long we wait after startup before the first garbage collection. */
+const INITIAL_GC_DELAY_MS = 1 * 60 * 1000;
+
+/** Minimum amount of time between garbage collections. */
+const REGULAR_GC_DELAY_MS = 5 * 60 * 1000;
+
+/** The targets that are currently being listened to, keyed by targetId. */
+export type ActiveTargets = { [targetId: number]: QueryData };
+
+/**
+ * Persistence layers that support LRU garbage collection implement this
+ * interface to expose the operations the LruGarbageCollector relies on.
+ */
+export interface LruDelegate {
+  /**
+   * Records that the documents identified by `keys` were used as of the
+   * current listen sequence number.
+   */
+  updateSequenceNumbers(
+    txn: PersistenceTransaction,
+    keys: DocumentKeySet
+  ): PersistencePromise<void>;
+
+  /** Enumerates all the targets in the query cache. */
+  forEachTarget(
+    txn: PersistenceTransaction,
+    f: (target: QueryData) => void
+  ): PersistencePromise<void>;
+
+  /**
+   * Enumerates the sequence numbers of all documents that are not part of any
+   * target.
+   */
+  forEachOrphanedDocumentSequenceNumber(
+    txn: PersistenceTransaction,
+    f: (sequenceNumber: ListenSequenceNumber) => void
+  ): PersistencePromise<void>;
+
+  /**
+   * Removes all targets that have a sequence number less than or equal to
+   * `upperBound` and are not present in `activeTargetIds`. Returns the number
+   * of targets removed.
+   */
+  removeTargets(
+    txn: PersistenceTransaction,
+    upperBound: ListenSequenceNumber,
+    activeTargetIds: ActiveTargets
+  ): PersistencePromise<number>;
+
+  /**
+   * Removes all documents that are not part of any target, have a sequence
+   * number less than or equal to `upperBound` and for which `isReferenced`
+   * resolves to false. Returns the number of documents removed.
+   */
+  removeOrphanedDocuments(
+    txn: PersistenceTransaction,
+    upperBound: ListenSequenceNumber,
+    isReferenced: (key: DocumentKey) => PersistencePromise<boolean>
+  ): PersistencePromise<number>;
+
+  /** Returns the approximate size of the cached documents in bytes. */
+  getCacheSize(txn: PersistenceTransaction): PersistencePromise<number>;
+}
+
+/** Describes the outcome of a single run of the LRU garbage collector. */
+export interface LruResults {
+  readonly didRun: boolean;
+  readonly sequenceNumbersCollected: number;
+  readonly targetsRemoved: number;
+  readonly documentsRemoved: number;
+}
+
+const GC_DID_NOT_RUN: LruResults = {
+  didRun: false,
+  sequenceNumbersCollected: 0,
+  targetsRemoved: 0,
+  documentsRemoved: 0
+};
+
+/** Tuning parameters for the LRU garbage collector. */
+export class LruParams {
+  /** A cache size threshold that disables garbage collection entirely. */
+  static readonly COLLECTION_DISABLED = -1;
+  static readonly MINIMUM_CACHE_SIZE_BYTES = 1 * 1024 * 1024;
+  static readonly DEFAULT_CACHE_SIZE_BYTES = 40 * 1024 * 1024;
+  private static readonly DEFAULT_COLLECTION_PERCENTILE = 10;
+  private static readonly DEFAULT_MAX_SEQUENCE_NUMBERS_TO_COLLECT = 1000;
+
+  static withCacheSize(cacheSize: number): LruParams {
+    return new LruParams(
+      cacheSize,
+      LruParams.DEFAULT_COLLECTION_PERCENTILE,
+      LruParams.DEFAULT_MAX_SEQUENCE_NUMBERS_TO_COLLECT
+    );
+  }
+
+  static readonly DEFAULT: LruParams = new LruParams(
+    LruParams.DEFAULT_CACHE_SIZE_BYTES,
+    LruParams.DEFAULT_COLLECTION_PERCENTILE,
+    LruParams.DEFAULT_MAX_SEQUENCE_NUMBERS_TO_COLLECT
+  );
+
+  static readonly DISABLED: LruParams = new LruParams(
+    LruParams.COLLECTION_DISABLED,
+    0,
+    0
+  );
+
+  constructor(
+    /**
+     * The cache size (in bytes) above which garbage collection is performed.
+     */
+    readonly cacheSizeCollectionThreshold: number,
+    /**
+     * The percentage of targets and orphaned documents to evict in each run.
+     */
+    readonly percentileToCollect: number,
+    /**
+     * An upper bound on the number of sequence numbers evicted in each run,
+     * regardless of the percentile.
+     */
+    readonly maximumSequenceNumbersToCollect: number
+  ) {}
+}
+
+/**
+ * Keeps track of the `maxElements` smallest sequence numbers that were added
+ * to it. Duplicate sequence numbers are counted separately.
+ */
+class RollingSequenceNumberBuffer {
+  /** Pairs of [sequenceNumber, insertion index] to allow duplicates. */
+  private buffer = new SortedSet<[ListenSequenceNumber, number]>(
+    (left, right) =>
+      primitiveComparator(left[0], right[0]) ||
+      primitiveComparator(left[1], right[1])
+  );
+
+  private previousIndex = 0;
+
+  constructor(private readonly maxElements: number) {}
+
+  addElement(sequenceNumber: ListenSequenceNumber): void {
+    const entry: [ListenSequenceNumber, number] = [
+      sequenceNumber,
+      this.previousIndex++
+    ];
+    if (this.buffer.size < this.maxElements) {
+      this.buffer = this.buffer.add(entry);
+    } else {
+      const highestValue = this.buffer.last()!;
+      if (sequenceNumber < highestValue[0]) {
+        this.buffer = this.buffer.delete(highestValue).add(entry);
+      }
+    }
+  }
+
+  get maxValue(): ListenSequenceNumber {
+    // Guaranteed to be non-empty. If we decide we are not collecting any
+    // sequence numbers, nthSequenceNumber below short-circuits. If we have
+    // decided that we are collecting n sequence numbers, it's because n is some
+    // percentage of the existing sequence numbers. That means we should never
+    // be in a situation where we are collecting sequence numbers but don't
+    // actually have any.
+    return this.buffer.last()![0];
+  }
+}
+
+/**
+ * A garbage collector that evicts the least-recently-used targets and the
+ * documents that are no longer part of any target once the persisted cache
+ * grows beyond the configured size.
+ *
+ * Unlike the EagerGarbageCollector, this collector never reports garbage from
+ * collectGarbage(). It uses that call to record the current sequence number
+ * for every document that may have become orphaned, and evicts documents in
+ * bulk from collect(), which is run periodically by the LruScheduler.
+ */
+export class LruGarbageCollector implements GarbageCollector {
+  readonly isEager = false;
+
+  /** The sources whose references pin documents in the cache. */
+  private sources: GarbageSource[] = [];
+
+  /**
+   * Documents that may have become orphaned since the last call to
+   * collectGarbage().
+   */
+  private potentialGarbage: DocumentKeySet = documentKeySet();
+
+  constructor(
+    private readonly delegate: LruDelegate,
+    readonly params: LruParams
+  ) {}
+
+  addGarbageSource(garbageSource: GarbageSource): void {
+    this.sources.push(garbageSource);
+    garbageSource.setGarbageCollector(this);
+  }
+
+  removeGarbageSource(garbageSource: GarbageSource): void {
+    this.sources.splice(this.sources.indexOf(garbageSource), 1);
+    garbageSource.setGarbageCollector(null);
+  }
+
+  addPotentialGarbageKey(key: DocumentKey): void {
+    this.potentialGarbage = this.potentialGarbage.add(key);
+  }
+
+  collectGarbage(
+    txn: PersistenceTransaction | null
+  ): PersistencePromise<DocumentKeySet> {
+    assert(txn !== null, 'LRU garbage collection requires a transaction.');
+    const keys = this.potentialGarbage;
+    this.potentialGarbage = documentKeySet();
+    return this.delegate
+      .updateSequenceNumbers(txn!, keys)
+      .next(() => documentKeySet());
+  }
+
+  /**
+   * Given a percentile of target to collect, returns the number of targets to
+   * collect.
+   */
+  calculateTargetCount(
+    txn: PersistenceTransaction,
+    percentile: number
+  ): PersistencePromise<number> {
+    let count = 0;
+    return this.delegate
+      .forEachTarget(txn, () => {
+        ++count;
+      })
+      .next(() =>
+        this.delegate.forEachOrphanedDocumentSequenceNumber(txn, () => {
+          ++count;
+        })
+      )
+      .next(() => Math.floor(percentile / 100.0 * count));
+  }
+
+  /**
+   * Returns the nth sequence number, counting in order from the smallest.
+   */
+  nthSequenceNumber(
+    txn: PersistenceTransaction,
+    n: number
+  ): PersistencePromise<ListenSequenceNumber> {
+    if (n === 0) {
+      return PersistencePromise.resolve(ListenSequence.INVALID);
+    }
+
+    const buffer = new RollingSequenceNumberBuffer(n);
+    return this.delegate
+      .forEachTarget(txn, target => buffer.addElement(target.sequenceNumber))
+      .next(() =>
+        this.delegate.forEachOrphanedDocumentSequenceNumber(
+          txn,
+          sequenceNumber => buffer.addElement(sequenceNumber)
+        )
+      )
+      .next(() => buffer.maxValue);
+  }
+
+  /**
+   * Removes targets with a sequence number equal to or less than the given
+   * upper bound, and removes document associations with those targets.
+   */
+  removeTargets(
+    txn: PersistenceTransaction,
+    upperBound: ListenSequenceNumber,
+    activeTargetIds: ActiveTargets
+  ): PersistencePromise<number> {
+    return this.delegate.removeTargets(txn, upperBound, activeTargetIds);
+  }
+
+  /**
+   * Removes documents that have a sequence number equal to or less than the
+   * upper bound and are not otherwise pinned.
+   */
+  removeOrphanedDocuments(
+    txn: PersistenceTransaction,
+    upperBound: ListenSequenceNumber
+  ): PersistencePromise<number> {
+    return this.delegate.removeOrphanedDocuments(txn, upperBound, key =>
+      this.documentHasAnyReferences(txn, key)
+    );
+  }
+
+  /**
+   * Runs a garbage collection pass if the cache has grown past the configured
+   * threshold, evicting the least-recently-used targets and orphaned
+   * documents.
+   */
+  collect(
+    txn: PersistenceTransaction,
+    activeTargetIds: ActiveTargets
+  ): PersistencePromise<LruResults> {
+    if (
+      this.params.cacheSizeCollectionThreshold === LruParams.COLLECTION_DISABLED
+    ) {
+      log.debug(LOG_TAG, 'Garbage collection skipped; disabled');
+      return PersistencePromise.resolve(GC_DID_NOT_RUN);
+    }
+
+    return this.delegate.getCacheSize(txn).next(cacheSize => {
+      if (cacheSize < this.params.cacheSizeCollectionThreshold) {
+        log.debug(
+          LOG_TAG,
+          `Garbage collection skipped; cache size ${cacheSize} ` +
+            `is lower than threshold ` +
+            this.params.cacheSizeCollectionThreshold
+        );
+        return GC_DID_NOT_RUN;
+      } else {
+        return this.runGarbageCollection(txn, activeTargetIds);
+      }
+    });
+  }
+
+  private runGarbageCollection(
+    txn: PersistenceTransaction,
+    activeTargetIds: ActiveTargets
+  ): PersistencePromise<LruResults> {
+    let sequenceNumbersToCollect: number;
+    let upperBound: ListenSequenceNumber;
+    let targetsRemoved: number;
+    return this.calculateTargetCount(txn, this.params.percentileToCollect)
+      .next(count => {
+        // Cap at the configured max
+        sequenceNumbersToCollect = Math.min(
+          count,
+          this.params.maximumSequenceNumbersToCollect
+        );
+        return this.nthSequenceNumber(txn, sequenceNumbersToCollect);
+      })
+      .next(sequenceNumber => {
+        upperBound = sequenceNumber;
+        return this.removeTargets(txn, upperBound, activeTargetIds);
+      })
+      .next(numTargetsRemoved => {
+        targetsRemoved = numTargetsRemoved;
+        return this.removeOrphanedDocuments(txn, upperBound);
+      })
+      .next(documentsRemoved => {
+        log.debug(
+          LOG_TAG,
+          `LRU garbage collection removed ${targetsRemoved} targets and ` +
+            `${documentsRemoved} documents (upper bound: ${upperBound})`
+        );
+        return {
+          didRun: true,
+          sequenceNumbersCollected: sequenceNumbersToCollect,
+          targetsRemoved,
+          documentsRemoved
+        };
+      });
+  }
+
+  private documentHasAnyReferences(
+    txn: PersistenceTransaction,
+    key: DocumentKey
+  ): PersistencePromise<boolean> {
+    const initial = PersistencePromise.resolve(false);
+    return this.sources
+      .map(source => () => source.containsKey(txn, key))
+      .reduce<PersistencePromise<boolean>>((promise, nextPromise) => {
+        return promise.next(result => {
+          if (result) {
+            return PersistencePromise.resolve(true);
+          } else {
+            return nextPromise();
+          }
+        });
+      }, initial);
+  }
+}
+
+/**
+ * Periodically runs the LruGarbageCollector on the AsyncQueue, starting
+ * shortly after the client has started.
+ */
+export class LruScheduler {
+  private hasRun = false;
+  private gcTask: CancelablePromise<void> | null = null;
+
+  constructor(
+    private readonly garbageCollector: LruGarbageCollector,
+    private readonly asyncQueue: AsyncQueue,
+    private readonly localStore: LocalStore
+  ) {}
+
+  start(): void {
+    assert(this.gcTask === null, 'Cannot start an already started scheduler');
+    if (
+      this.garbageCollector.params.cacheSizeCollectionThreshold !==
+      LruParams.COLLECTION_DISABLED
+    ) {
+      this.scheduleGC();
+    }
+  }
+
+  stop(): void {
+    if (this.gcTask) {
+      this.gcTask.cancel();
+      this.gcTask = null;
+    }
+  }
+
+  get started(): boolean {
+    return this.gcTask !== null;
+  }
+
+  /**
+   * Starts or stops the scheduler when the primary state of the client
+   * changes. Garbage collection requires the primary lease, so only the
+   * primary client runs it.
+   */
+  applyPrimaryState(isPrimary: boolean): void {
+    if (isPrimary && !this.started) {
+      this.start();
+    } else if (!isPrimary) {
+      this.stop();
+    }
+  }
+
+  private scheduleGC(): void {
+    assert(this.gcTask === null, 'Cannot schedule GC while a task is pending');
+    const delay = this.hasRun ? REGULAR_GC_DELAY_MS : INITIAL_GC_DELAY_MS;
+    log.debug(LOG_TAG, `Garbage collection scheduled in ${delay}ms`);
+    this.gcTask = this.asyncQueue.enqueueAfterDelay(
+      TimerId.LruGarbageCollection,
+      delay,
+      () => {
+        this.gcTask = null;
+        this.hasRun = true;
+        return this.localStore
+          .collectLruGarbage(this.garbageCollector)
+          .catch(reason => {
+            // A failed collection must not fail the AsyncQueue. We try again
+            // on the next run.
+            log.debug(LOG_TAG, 'Garbage collection failed:', reason);
+          })
+          .then(() => this.scheduleGC());
+      }
+    );
+  }
+}
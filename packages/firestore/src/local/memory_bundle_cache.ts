@@ -0,0 +1,56 @@
+/**
+ * Copyright 2019 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Bundle, NamedQuery } from '../core/bundle';
+
+import { BundleCache } from './bundle_cache';
+import { PersistenceTransaction } from './persistence';
+import { PersistencePromise } from './persistence_promise';
+
+export class MemoryBundleCache implements BundleCache {
+  private bundles: { [bundleId: string]: Bundle } = {};
+  private namedQueries: { [queryName: string]: NamedQuery } = {};
+
+  getBundle(
+    transaction: PersistenceTransaction,
+    bundleId: string
+  ): PersistencePromise<Bundle | null> {
+    return PersistencePromise.resolve(this.bundles[bundleId] || null);
+  }
+
+  saveBundle(
+    transaction: PersistenceTransaction,
+    bundle: Bundle
+  ): PersistencePromise<void> {
+    this.bundles[bundle.id] = bundle;
+    return PersistencePromise.resolve();
+  }
+
+  getNamedQuery(
+    transaction: PersistenceTransaction,
+    queryName: string
+  ): PersistencePromise<NamedQuery | null> {
+    return PersistencePromise.resolve(this.namedQueries[queryName] || null);
+  }
+
+  saveNamedQuery(
+    transaction: PersistenceTransaction,
+    query: NamedQuery
+  ): PersistencePromise<void> {
+    this.namedQueries[query.name] = query;
+    return PersistencePromise.resolve();
+  }
+}
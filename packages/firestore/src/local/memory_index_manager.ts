@@ -0,0 +1,155 @@
+/**
+ * Copyright 2019 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { DocumentKeySet, documentKeySet } from '../model/collections';
+import { Document } from '../model/document';
+import { DocumentKey } from '../model/document_key';
+import { FieldIndex } from '../model/field_index';
+import { SortedMap } from '../util/sorted_map';
+import { SortedSet } from '../util/sorted_set';
+
+import { compareIndexKeys, IndexKeyArray } from './encoded_index_value';
+import { decode, encode, EncodedResourcePath } from './encoded_resource_path';
+import {
+  documentCollectionGroup,
+  IndexManager,
+  indexEntryValues
+} from './index_manager';
+import { IndexScan } from './index_query_planner';
+import { PersistenceTransaction } from './persistence';
+import { PersistencePromise } from './persistence_promise';
+
+/**
+ * An in-memory implementation of IndexManager.
+ *
+ * Index entries are kept in a single sorted set whose keys have the same
+ * layout as the keys of the 'indexEntries' store of the IndexedDB
+ * implementation: `[collectionGroup, fieldPath, kind, value, documentPath]`.
+ */
+export class MemoryIndexManager implements IndexManager {
+  private fieldIndexes = new SortedSet<FieldIndex>(FieldIndex.comparator);
+  private entries = new SortedSet<IndexKeyArray>(compareIndexKeys);
+  /** The keys of the index entries of each document. */
+  private entriesByDocument = new SortedMap<DocumentKey, IndexKeyArray[]>(
+    DocumentKey.comparator
+  );
+
+  addFieldIndex(
+    transaction: PersistenceTransaction,
+    index: FieldIndex
+  ): PersistencePromise<void> {
+    this.fieldIndexes = this.fieldIndexes.add(index);
+    return PersistencePromise.resolve();
+  }
+
+  deleteFieldIndex(
+    transaction: PersistenceTransaction,
+    index: FieldIndex
+  ): PersistencePromise<void> {
+    this.fieldIndexes = this.fieldIndexes.delete(index);
+    const prefix = indexPrefix(index);
+    this.entries.forEachInRange([prefix, [...prefix, []]], entry => {
+      const documentKey = entryDocumentKey(entry);
+      const remaining = this.entriesByDocument
+        .get(documentKey)!
+        .filter(other => compareIndexKeys(entry, other) !== 0);
+      this.entriesByDocument = this.entriesByDocument.insert(
+        documentKey,
+        remaining
+      );
+      this.entries = this.entries.delete(entry);
+    });
+    return PersistencePromise.resolve();
+  }
+
+  getFieldIndexes(
+    transaction: PersistenceTransaction,
+    collectionGroup?: string
+  ): PersistencePromise<FieldIndex[]> {
+    const result: FieldIndex[] = [];
+    this.fieldIndexes.forEach(index => {
+      if (
+        collectionGroup === undefined ||
+        index.collectionGroup === collectionGroup
+      ) {
+        result.push(index);
+      }
+    });
+    return PersistencePromise.resolve(result);
+  }
+
+  updateIndexEntries(
+    transaction: PersistenceTransaction,
+    documentKey: DocumentKey,
+    document: Document | null
+  ): PersistencePromise<void> {
+    for (const entry of this.entriesByDocument.get(documentKey) || []) {
+      this.entries = this.entries.delete(entry);
+    }
+    this.entriesByDocument = this.entriesByDocument.remove(documentKey);
+
+    if (document) {
+      const documentPath = encode(documentKey.path);
+      const collectionGroup = documentCollectionGroup(documentKey);
+      const newEntries: IndexKeyArray[] = [];
+      this.fieldIndexes.forEach(index => {
+        if (index.collectionGroup === collectionGroup) {
+          for (const value of indexEntryValues(index, document)) {
+            newEntries.push([...indexPrefix(index), ...value, documentPath]);
+          }
+        }
+      });
+      for (const entry of newEntries) {
+        this.entries = this.entries.add(entry);
+      }
+      if (newEntries.length > 0) {
+        this.entriesByDocument = this.entriesByDocument.insert(
+          documentKey,
+          newEntries
+        );
+      }
+    }
+    return PersistencePromise.resolve();
+  }
+
+  getDocumentsMatchingIndexScan(
+    transaction: PersistenceTransaction,
+    scan: IndexScan
+  ): PersistencePromise<DocumentKeySet> {
+    let result = documentKeySet();
+    const prefix = indexPrefix(scan.index);
+    for (const range of scan.ranges) {
+      // No entry is equal to the upper bound, so the exclusive upper bound of
+      // `forEachInRange()` includes all entries up to it.
+      this.entries.forEachInRange(
+        [[...prefix, ...range.lower], [...prefix, ...range.upper]],
+        entry => {
+          result = result.add(entryDocumentKey(entry));
+        }
+      );
+    }
+    return PersistencePromise.resolve(result);
+  }
+}
+
+function indexPrefix(index: FieldIndex): IndexKeyArray {
+  return [index.collectionGroup, index.fieldPath.canonicalString()];
+}
+
+function entryDocumentKey(entry: IndexKeyArray): DocumentKey {
+  const documentPath = entry[entry.length - 1] as EncodedResourcePath;
+  return new DocumentKey(decode(documentPath));
+}
@@ -283,10 +283,13 @@ export class MemoryMutationQueue implements MutationQueue {
       } else {
         // Rows with document keys more than one segment longer than the query
         // path can't be matches. For example, a query on 'rooms' can't match
-        // the document /rooms/abc/messages/xyx.
-        // TODO(mcg): we'll need a different scanner when we implement
-        // ancestor queries.
-        if (rowKeyPath.length === immediateChildrenPathLength) {
+        // the document /rooms/abc/messages/xyx. Collection group queries
+        // instead match any descendant that lives in the requested collection.
+        const matchesPath =
+          query.collectionGroup !== null
+            ? ref.key.hasCollectionId(query.collectionGroup)
+            : rowKeyPath.length === immediateChildrenPathLength;
+        if (matchesPath) {
           uniqueBatchIDs = uniqueBatchIDs.add(ref.targetOrBatchId);
         }
         return true;
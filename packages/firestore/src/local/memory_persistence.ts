@@ -18,14 +18,23 @@ import { User } from '../auth/user';
 import { assert } from '../util/assert';
 import { debug } from '../util/log';
 
+import { BundleCache } from './bundle_cache';
+import { IndexManager } from './index_manager';
+import { MemoryBundleCache } from './memory_bundle_cache';
+import { MemoryIndexManager } from './memory_index_manager';
 import { MemoryMutationQueue } from './memory_mutation_queue';
 import { MemoryQueryCache } from './memory_query_cache';
 import { MemoryRemoteDocumentCache } from './memory_remote_document_cache';
 import { MutationQueue } from './mutation_queue';
-import { Persistence, PersistenceTransaction } from './persistence';
+import {
+  Persistence,
+  PersistenceTransaction,
+  PrimaryStateListener
+} from './persistence';
 import { PersistencePromise } from './persistence_promise';
 import { QueryCache } from './query_cache';
 import { RemoteDocumentCache } from './remote_document_cache';
+import { ClientId } from './shared_client_state';
 
 const LOG_TAG = 'MemoryPersistence';
 
@@ -42,11 +51,17 @@ export class MemoryPersistence implements Persistence {
    * persisting values.
    */
   private mutationQueues: { [user: string]: MutationQueue } = {};
-  private remoteDocumentCache = new MemoryRemoteDocumentCache();
+  private indexManager = new MemoryIndexManager();
+  private remoteDocumentCache = new MemoryRemoteDocumentCache(
+    this.indexManager
+  );
   private queryCache = new MemoryQueryCache();
+  private bundleCache = new MemoryBundleCache();
 
   private started = false;
 
+  constructor(private readonly clientId: ClientId) {}
+
   async start(): Promise<void> {
     // No durable state to read on startup.
     assert(!this.started, 'MemoryPersistence double-started!');
@@ -59,6 +74,17 @@ export class MemoryPersistence implements Persistence {
     this.started = false;
   }
 
+  async getActiveClients(): Promise<ClientId[]> {
+    return [this.clientId];
+  }
+
+  setPrimaryStateListener(
+    primaryStateListener: PrimaryStateListener
+  ): Promise<void> {
+    // All clients using memory persistence act as primary.
+    return primaryStateListener(true);
+  }
+
   getMutationQueue(user: User): MutationQueue {
     let queue = this.mutationQueues[user.toKey()];
     if (!queue) {
@@ -76,8 +102,17 @@ export class MemoryPersistence implements Persistence {
     return this.remoteDocumentCache;
   }
 
+  getBundleCache(): BundleCache {
+    return this.bundleCache;
+  }
+
+  getIndexManager(): IndexManager {
+    return this.indexManager;
+  }
+
   runTransaction<T>(
     action: string,
+    requirePrimaryLease: boolean,
     operation: (transaction: PersistenceTransaction) => PersistencePromise<T>
   ): Promise<T> {
     debug(LOG_TAG, 'Starting transaction:', action);
@@ -16,7 +16,8 @@
 
 import { Query } from '../core/query';
 import { SnapshotVersion } from '../core/snapshot_version';
-import { TargetId } from '../core/types';
+import { TargetIdGenerator } from '../core/target_id_generator';
+import { ListenSequenceNumber, TargetId } from '../core/types';
 import { DocumentKeySet } from '../model/collections';
 import { DocumentKey } from '../model/document_key';
 import { ObjectMap } from '../util/obj_map';
@@ -39,6 +40,8 @@ export class MemoryQueryCache implements QueryCache {
   private lastRemoteSnapshotVersion = SnapshotVersion.MIN;
   /** The highest numbered target ID encountered. */
   private highestTargetId: TargetId = 0;
+  /** The highest sequence number encountered. */
+  private highestSequenceNumber: ListenSequenceNumber = 0;
   /**
    * A ordered bidirectional mapping between documents and the remote target
    * IDs.
@@ -60,6 +63,20 @@ export class MemoryQueryCache implements QueryCache {
     return this.highestTargetId;
   }
 
+  allocateTargetId(
+    transaction: PersistenceTransaction
+  ): PersistencePromise<TargetId> {
+    const nextTargetId = TargetIdGenerator.forLocalStore(
+      this.highestTargetId
+    ).next();
+    this.highestTargetId = nextTargetId;
+    return PersistencePromise.resolve(nextTargetId);
+  }
+
+  getHighestSequenceNumber(): ListenSequenceNumber {
+    return this.highestSequenceNumber;
+  }
+
   setLastRemoteSnapshotVersion(
     transaction: PersistenceTransaction,
     snapshotVersion: SnapshotVersion
@@ -74,7 +91,9 @@ export class MemoryQueryCache implements QueryCache {
     if (targetId > this.highestTargetId) {
       this.highestTargetId = targetId;
     }
-    // TODO(GC): track sequence number
+    if (queryData.sequenceNumber > this.highestSequenceNumber) {
+      this.highestSequenceNumber = queryData.sequenceNumber;
+    }
   }
 
   addQueryData(
@@ -126,6 +145,19 @@ export class MemoryQueryCache implements QueryCache {
     return PersistencePromise.resolve(queryData);
   }
 
+  getQueryDataForTarget(
+    transaction: PersistenceTransaction,
+    targetId: TargetId
+  ): PersistencePromise<QueryData | null> {
+    let result: QueryData | null = null;
+    this.queries.forEach((query, queryData) => {
+      if (queryData.targetId === targetId) {
+        result = queryData;
+      }
+    });
+    return PersistencePromise.resolve(result);
+  }
+
   addMatchingKeys(
     txn: PersistenceTransaction,
     keys: DocumentKeySet,
@@ -23,6 +23,7 @@ import {
 import { Document, MaybeDocument } from '../model/document';
 import { DocumentKey } from '../model/document_key';
 
+import { IndexManager } from './index_manager';
 import { PersistenceTransaction } from './persistence';
 import { PersistencePromise } from './persistence_promise';
 import { RemoteDocumentCache } from './remote_document_cache';
@@ -30,12 +31,18 @@ import { RemoteDocumentCache } from './remote_document_cache';
 export class MemoryRemoteDocumentCache implements RemoteDocumentCache {
   private docs = maybeDocumentMap();
 
+  constructor(private readonly indexManager: IndexManager) {}
+
   addEntry(
     transaction: PersistenceTransaction,
     maybeDocument: MaybeDocument
   ): PersistencePromise<void> {
     this.docs = this.docs.insert(maybeDocument.key, maybeDocument);
-    return PersistencePromise.resolve();
+    return this.indexManager.updateIndexEntries(
+      transaction,
+      maybeDocument.key,
+      maybeDocument instanceof Document ? maybeDocument : null
+    );
   }
 
   removeEntry(
@@ -43,7 +50,7 @@ export class MemoryRemoteDocumentCache implements RemoteDocumentCache {
     documentKey: DocumentKey
   ): PersistencePromise<void> {
     this.docs = this.docs.remove(documentKey);
-    return PersistencePromise.resolve();
+    return this.indexManager.updateIndexEntries(transaction, documentKey, null);
   }
 
   getEntry(
@@ -61,7 +68,11 @@ export class MemoryRemoteDocumentCache implements RemoteDocumentCache {
 
     // Documents are ordered by key, so we can use a prefix scan to narrow down
     // the documents we need to match the query against.
-    const prefix = new DocumentKey(query.path.child(''));
+    // Collection group queries are rooted at a document path (or the root), so
+    // their path can be used for the scan as is.
+    const prefix = DocumentKey.isDocumentKey(query.path)
+      ? new DocumentKey(query.path)
+      : new DocumentKey(query.path.child(''));
     const iterator = this.docs.getIteratorFrom(prefix);
     while (iterator.hasNext()) {
       const { key, value: maybeDoc } = iterator.getNext();
@@ -15,12 +15,39 @@
  */
 
 import { User } from '../auth/user';
+import { Code, FirestoreError } from '../util/error';
+import * as log from '../util/log';
 
+import { BundleCache } from './bundle_cache';
+import { IndexManager } from './index_manager';
 import { MutationQueue } from './mutation_queue';
 import { PersistenceTransaction } from './persistence';
 import { PersistencePromise } from './persistence_promise';
 import { QueryCache } from './query_cache';
 import { RemoteDocumentCache } from './remote_document_cache';
+import { ClientId } from './shared_client_state';
+
+const LOG_TAG = 'Persistence';
+
+/**
+ * The error message used when an operation that requires the primary lease
+ * is run in a client that does not (or no longer) hold the lease.
+ */
+export const PRIMARY_LEASE_LOST_ERROR_MSG =
+  'The current tab is not in the required state to perform this operation. ' +
+  'It might be necessary to refresh the browser tab.';
+
+/**
+ * Callback type for primary state notifications. This callback can be
+ * registered with the persistence layer to get notified when we transition from
+ * primary to secondary state and vice versa.
+ *
+ * Note: Instances can only toggle between Primary and Secondary state if
+ * IndexedDB persistence is enabled and multiple clients are active. If this
+ * listener is registered with MemoryPersistence, the callback will be called
+ * exactly once marking the current instance as Primary.
+ */
+export type PrimaryStateListener = (isPrimary: boolean) => Promise<void>;
 
 /**
  * Opaque interface representing a persistence transaction.
@@ -83,6 +110,26 @@ export interface Persistence {
    */
   shutdown(deleteData?: boolean): Promise<void>;
 
+  /**
+   * Registers a listener that gets called when the primary state of the
+   * instance changes. Upon registering, this listener is invoked immediately
+   * with the current primary state.
+   *
+   * PORTING NOTE: This is only used for Web multi-tab.
+   */
+  setPrimaryStateListener(
+    primaryStateListener: PrimaryStateListener
+  ): Promise<void>;
+
+  /**
+   * Returns the IDs of the clients that are currently active. If multi-tab
+   * is not supported, returns an array that only contains the local client's
+   * ID.
+   *
+   * PORTING NOTE: This is only used for Web multi-tab.
+   */
+  getActiveClients(): Promise<ClientId[]>;
+
   /**
    * Returns a MutationQueue representing the persisted mutations for the
    * given user.
@@ -114,6 +161,26 @@ export interface Persistence {
    */
   getRemoteDocumentCache(): RemoteDocumentCache;
 
+  /**
+   * Returns a BundleCache representing the persisted metadata of loaded
+   * bundles and their named queries.
+   *
+   * Note: The implementation is free to return the same instance every time
+   * this is called. In particular, the memory-backed implementation does this
+   * to emulate the persisted implementation to the extent possible.
+   */
+  getBundleCache(): BundleCache;
+
+  /**
+   * Returns an IndexManager representing the persisted client-side field
+   * indexes and their entries.
+   *
+   * Note: The implementation is free to return the same instance every time
+   * this is called. In particular, the memory-backed implementation does this
+   * to emulate the persisted implementation to the extent possible.
+   */
+  getIndexManager(): IndexManager;
+
   /**
    * Performs an operation inside a persistence transaction. Any reads or writes
    * against persistence must be performed within a transaction. Writes will be
@@ -126,13 +193,48 @@ export interface Persistence {
    *
    * @param action A description of the action performed by this transaction,
    * used for logging.
+   * @param requirePrimaryLease Whether this transaction can only be executed
+   * by the primary client. If the client does not hold the primary lease, the
+   * transaction fails with an error that can be detected via
+   * `isPrimaryLeaseLostError()`.
    * @param transactionOperation The operation to run inside a transaction.
    * @return A promise that is resolved once the transaction completes.
    */
   runTransaction<T>(
     action: string,
+    requirePrimaryLease: boolean,
     transactionOperation: (
       transaction: PersistenceTransaction
     ) => PersistencePromise<T>
   ): Promise<T>;
 }
+
+/**
+ * Returns whether the given error was raised because an operation that
+ * requires the primary lease was run in a secondary client.
+ */
+export function isPrimaryLeaseLostError(err: FirestoreError): boolean {
+  return (
+    err.code === Code.FAILED_PRECONDITION &&
+    err.message === PRIMARY_LEASE_LOST_ERROR_MSG
+  );
+}
+
+/**
+ * Verifies the error thrown by a LocalStore operation. If a LocalStore
+ * operation fails because the primary lease has been taken by another client,
+ * we ignore the error (the persistence layer will immediately call
+ * the primary state listener to propagate the primary state change). All other errors
+ * are re-thrown.
+ *
+ * @param err An error returned by a LocalStore operation.
+ * @return A Promise that resolves after we recovered, or the original error.
+ */
+export function ignoreIfPrimaryLeaseLoss(err: FirestoreError): Promise<void> {
+  if (isPrimaryLeaseLostError(err)) {
+    log.debug(LOG_TAG, 'Unexpectedly lost primary lease');
+    return Promise.resolve();
+  } else {
+    return Promise.reject(err);
+  }
+}
@@ -16,7 +16,7 @@
 
 import { Query } from '../core/query';
 import { SnapshotVersion } from '../core/snapshot_version';
-import { TargetId } from '../core/types';
+import { ListenSequenceNumber, TargetId } from '../core/types';
 import { DocumentKeySet } from '../model/collections';
 
 import { GarbageSource } from './garbage_source';
@@ -42,6 +42,23 @@ export interface QueryCache extends GarbageSource {
    */
   getHighestTargetId(): TargetId;
 
+  /**
+   * Allocates a new target ID that is higher than the highest target ID of any
+   * query in the cache. The allocation is persisted as part of the given
+   * transaction, which ensures that clients sharing the cache never assign
+   * the same target ID to different queries.
+   */
+  allocateTargetId(
+    transaction: PersistenceTransaction
+  ): PersistencePromise<TargetId>;
+
+  /**
+   * Returns the highest listen sequence number of any query seen by the cache.
+   * Typically called during startup to seed the listen sequence. If there are
+   * no queries in the cache, returns zero.
+   */
+  getHighestSequenceNumber(): ListenSequenceNumber;
+
   /**
    * A global snapshot version representing the last consistent snapshot we
    * received from the backend. This is monotonically increasing and any
@@ -117,6 +134,18 @@ export interface QueryCache extends GarbageSource {
     query: Query
   ): PersistencePromise<QueryData | null>;
 
+  /**
+   * Looks up a QueryData entry in the cache by target ID.
+   *
+   * @param targetId The target ID of the QueryData entry to look up.
+   * @return The cached QueryData entry, or null if the cache has no entry for
+   * the target.
+   */
+  getQueryDataForTarget(
+    transaction: PersistenceTransaction,
+    targetId: TargetId
+  ): PersistencePromise<QueryData | null>;
+
   /**
    * Adds the given document keys to cached query results of the given target
    * ID.
@@ -16,7 +16,7 @@
 
 import { Query } from '../core/query';
 import { SnapshotVersion } from '../core/snapshot_version';
-import { ProtoByteString, TargetId } from '../core/types';
+import { ListenSequenceNumber, ProtoByteString, TargetId } from '../core/types';
 import { emptyByteString } from '../platform/platform';
 
 /** An enumeration of the different purposes we have for queries. */
@@ -47,6 +47,12 @@ export class QueryData {
     public targetId: TargetId,
     /** The purpose of the query. */
     public purpose: QueryPurpose,
+    /**
+     * The sequence number of the last transaction during which this query data
+     * was modified. Used to decide which targets are least recently used when
+     * collecting garbage.
+     */
+    public sequenceNumber: ListenSequenceNumber,
     /** The latest snapshot version seen for this target. */
     public snapshotVersion: SnapshotVersion = SnapshotVersion.MIN,
     /**
@@ -70,15 +76,31 @@ export class QueryData {
       this.query,
       this.targetId,
       this.purpose,
+      this.sequenceNumber,
       updated.snapshotVersion,
       updated.resumeToken
     );
   }
 
+  /**
+   * Creates a new query data instance with an updated sequence number.
+   */
+  withSequenceNumber(sequenceNumber: ListenSequenceNumber): QueryData {
+    return new QueryData(
+      this.query,
+      this.targetId,
+      this.purpose,
+      sequenceNumber,
+      this.snapshotVersion,
+      this.resumeToken
+    );
+  }
+
   isEqual(other: QueryData): boolean {
     return (
       this.targetId === other.targetId &&
       this.purpose === other.purpose &&
+      this.sequenceNumber === other.sequenceNumber &&
       this.snapshotVersion.isEqual(other.snapshotVersion) &&
       this.resumeToken === other.resumeToken &&
       this.query.isEqual(other.query)
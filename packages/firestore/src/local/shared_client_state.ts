@@ -0,0 +1,683 @@
+/**
+ * Copyright 2018 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { User } from '../auth/user';
+import { BatchId, OnlineState, TargetId } from '../core/types';
+import { TargetIdSet, targetIdSet } from '../model/collections';
+import { assert } from '../util/assert';
+import { AsyncQueue } from '../util/async_queue';
+import { Code, FirestoreError } from '../util/error';
+import * as log from '../util/log';
+import * as objUtils from '../util/obj';
+
+import {
+  MutationBatchState,
+  QueryTargetState,
+  SharedClientStateSyncer
+} from './shared_client_state_syncer';
+
+const LOG_TAG = 'SharedClientState';
+
+// The format of the LocalStorage key that stores the client state is:
+//     firestore_clients_<persistence_key>_<client_id>
+const CLIENT_STATE_KEY_PREFIX = 'firestore_clients';
+
+// The format of the LocalStorage key that stores the mutation state is:
+//     firestore_mutations_<persistence_key>_<batch_id>
+//     (for unauthenticated users)
+// or: firestore_mutations_<persistence_key>_<batch_id>_<user_uid>
+//
+// 'user_uid' is last to avoid needing to escape '_' characters that it might
+// contain.
+const MUTATION_BATCH_KEY_PREFIX = 'firestore_mutations';
+
+// The format of the LocalStorage key that stores a query target's metadata is:
+//     firestore_targets_<persistence_key>_<target_id>
+const QUERY_TARGET_KEY_PREFIX = 'firestore_targets';
+
+// The LocalStorage key that stores the primary client's online state is:
+//     firestore_online_state_<persistence_key>
+const ONLINE_STATE_KEY_PREFIX = 'firestore_online_state';
+
+/**
+ * A randomly-generated key assigned to each Firestore instance at startup.
+ */
+export type ClientId = string;
+
+/**
+ * A `SharedClientState` keeps track of the global state of the mutations
+ * and query targets for all active clients with the same persistence key (i.e.
+ * project ID and FirebaseApp name). It relays local changes to other clients
+ * and updates its local state as new state is observed.
+ *
+ * `SharedClientState` is primarily used for synchronization in Multi-Tab
+ * environments. Each tab is responsible for registering its active query
+ * targets and mutations. `SharedClientState` will then notify the listener
+ * assigned to `.syncEngine` for updates to mutations and queries that
+ * originated in other clients.
+ *
+ * To receive notifications, `.syncEngine` and `.onlineStateHandler` have to be
+ * assigned before calling `start()`.
+ */
+export interface SharedClientState {
+  syncEngine: SharedClientStateSyncer | null;
+  onlineStateHandler: ((onlineState: OnlineState) => void) | null;
+
+  /** Registers the Mutation Batch ID of a newly pending mutation. */
+  addPendingMutation(batchId: BatchId): void;
+
+  /**
+   * Records that a pending mutation has been acknowledged or rejected.
+   * Called by the primary client to notify secondary clients of mutation
+   * results as they come back from the backend.
+   */
+  updateMutationState(
+    batchId: BatchId,
+    state: 'acknowledged' | 'rejected',
+    error?: FirestoreError
+  ): void;
+
+  /**
+   * Removes the state of a mutation batch. Called by the client that wrote the
+   * batch once it has processed the batch's result.
+   */
+  removeMutationState(batchId: BatchId): void;
+
+  /**
+   * Associates a new Query Target ID with the local Firestore client. Returns
+   * the new query state for the query (which can be 'current' if the query is
+   * already associated with another tab).
+   */
+  addLocalQueryTarget(targetId: TargetId): QueryTargetState;
+
+  /** Removes the Query Target ID association from the local client. */
+  removeLocalQueryTarget(targetId: TargetId): void;
+
+  /**
+   * Returns whether the Query Target ID is actively listened to by any
+   * client, including the local client.
+   */
+  isActiveQueryTarget(targetId: TargetId): boolean;
+
+  /**
+   * Gets the active Query Targets IDs for all active clients, including the
+   * local client.
+   */
+  getAllActiveQueryTargets(): TargetIdSet;
+
+  /**
+   * Processes an update to a query target.
+   *
+   * Called by the primary client to notify secondary clients of document
+   * changes or state transitions that affect the provided query target.
+   */
+  updateQueryState(
+    targetId: TargetId,
+    state: QueryTargetState,
+    error?: FirestoreError
+  ): void;
+
+  /**
+   * Removes the target's metadata entry. Called when the target is no longer
+   * listened to by any client.
+   */
+  clearQueryState(targetId: TargetId): void;
+
+  /**
+   * Changes the active user. Only mutation updates of the active user are
+   * relayed to the local client.
+   */
+  handleUserChange(user: User): void;
+
+  /** Changes the shared online state of all clients. */
+  setOnlineState(onlineState: OnlineState): void;
+
+  /**
+   * Starts the SharedClientState, reads existing client data and registers
+   * listeners for updates to new and existing clients.
+   */
+  start(): Promise<void>;
+
+  /** Shuts down the `SharedClientState` and its listeners. */
+  shutdown(): void;
+}
+
+/**
+ * The JSON representation of the state of a mutation batch or of a query
+ * target. The error is only set if the state is 'rejected'.
+ */
+interface StateSchema<S> {
+  state: S;
+  error?: {
+    code: string;
+    message: string;
+  };
+}
+
+/**
+ * The JSON representation of a client's metadata as used during LocalStorage
+ * serialization.
+ */
+interface ClientStateSchema {
+  activeTargetIds: number[];
+  updateTimeMs: number;
+}
+
+/**
+ * The JSON representation of the online state of the primary client as used
+ * during LocalStorage serialization.
+ */
+interface OnlineStateSchema {
+  clientId: ClientId;
+  onlineState: string;
+}
+
+/**
+ * `WebStorageSharedClientState` uses WebStorage (window.localStorage) as the
+ * backing store for the SharedClientState. It keeps track of all active
+ * clients and supports modifications of the local client's data.
+ */
+export class WebStorageSharedClientState implements SharedClientState {
+  syncEngine: SharedClientStateSyncer | null = null;
+  onlineStateHandler: ((onlineState: OnlineState) => void) | null = null;
+
+  private readonly storage: Storage;
+  private readonly localClientStorageKey: string;
+  private readonly clientStateKeyPrefix: string;
+  private readonly mutationBatchKeyPrefix: string;
+  private readonly queryTargetKeyPrefix: string;
+  private readonly onlineStateKey: string;
+  private readonly activeClients: { [clientId: string]: TargetIdSet } = {};
+  private readonly storageListener = (event: StorageEvent) =>
+    this.handleStorageEvent(event);
+  private readonly unloadListener = () => this.shutdown();
+  private started = false;
+  private isShutdown = false;
+  private currentUser: User;
+
+  /**
+   * Captures WebStorage events that occur before `start()` is called. These
+   * events are replayed once `WebStorageSharedClientState` is started.
+   */
+  private earlyEvents: StorageEvent[] = [];
+
+  constructor(
+    private readonly queue: AsyncQueue,
+    persistenceKey: string,
+    private readonly localClientId: ClientId,
+    initialUser: User
+  ) {
+    if (!WebStorageSharedClientState.isAvailable()) {
+      throw new FirestoreError(
+        Code.UNIMPLEMENTED,
+        'LocalStorage is not available on this platform.'
+      );
+    }
+    this.storage = window.localStorage;
+    this.currentUser = initialUser;
+    this.clientStateKeyPrefix = `${CLIENT_STATE_KEY_PREFIX}_${persistenceKey}_`;
+    this.mutationBatchKeyPrefix = `${MUTATION_BATCH_KEY_PREFIX}_${persistenceKey}_`;
+    this.queryTargetKeyPrefix = `${QUERY_TARGET_KEY_PREFIX}_${persistenceKey}_`;
+    this.onlineStateKey = `${ONLINE_STATE_KEY_PREFIX}_${persistenceKey}`;
+    this.localClientStorageKey = this.clientStateKeyPrefix + localClientId;
+    this.activeClients[localClientId] = targetIdSet();
+
+    // Rather than adding the storage observer during start(), we add the
+    // storage observer during initialization. This ensures that we collect
+    // events before other components populate their initial state (during
+    // their respective start() calls). Otherwise, we might for example miss a
+    // mutation that is added after LocalStore's start() processed the existing
+    // mutations but before we observe WebStorage events.
+    window.addEventListener('storage', this.storageListener);
+    window.addEventListener('unload', this.unloadListener);
+  }
+
+  /** Returns 'true' if WebStorage is available in the current environment. */
+  static isAvailable(): boolean {
+    return typeof window !== 'undefined' && window.localStorage != null;
+  }
+
+  async start(): Promise<void> {
+    assert(!this.started, 'WebStorageSharedClientState already started');
+    assert(
+      this.syncEngine !== null,
+      'syncEngine property must be set before calling start()'
+    );
+    assert(
+      this.onlineStateHandler !== null,
+      'onlineStateHandler property must be set before calling start()'
+    );
+
+    // Retrieve the list of existing clients to backfill the data in
+    // SharedClientState.
+    const existingClients = await this.syncEngine!.getActiveClients();
+
+    for (const clientId of existingClients) {
+      if (clientId === this.localClientId) {
+        continue;
+      }
+
+      const storageItem = this.storage.getItem(
+        this.clientStateKeyPrefix + clientId
+      );
+      if (storageItem) {
+        const activeTargetIds = this.fromClientStateJson(storageItem);
+        if (activeTargetIds) {
+          this.activeClients[clientId] = activeTargetIds;
+        }
+      }
+    }
+
+    this.persistClientState();
+
+    // Check if there is an existing online state and call the callback handler
+    // if applicable.
+    const onlineStateJson = this.storage.getItem(this.onlineStateKey);
+    if (onlineStateJson) {
+      const onlineState = this.fromOnlineStateJson(onlineStateJson);
+      if (onlineState !== null) {
+        this.onlineStateHandler!(onlineState);
+      }
+    }
+
+    this.started = true;
+
+    for (const event of this.earlyEvents) {
+      this.handleStorageEvent(event);
+    }
+    this.earlyEvents = [];
+  }
+
+  addPendingMutation(batchId: BatchId): void {
+    this.persistMutationState(batchId, 'pending');
+  }
+
+  updateMutationState(
+    batchId: BatchId,
+    state: 'acknowledged' | 'rejected',
+    error?: FirestoreError
+  ): void {
+    this.persistMutationState(batchId, state, error);
+  }
+
+  removeMutationState(batchId: BatchId): void {
+    this.storage.removeItem(this.toMutationBatchKey(batchId));
+  }
+
+  addLocalQueryTarget(targetId: TargetId): QueryTargetState {
+    let queryState: QueryTargetState = 'not-current';
+
+    // Lookup an existing query state if the target ID was already registered
+    // by another tab.
+    if (this.isActiveQueryTarget(targetId)) {
+      const storageItem = this.storage.getItem(
+        this.queryTargetKeyPrefix + targetId
+      );
+      if (storageItem) {
+        const state = this.fromStateJson<QueryTargetState>(storageItem);
+        if (state !== null && state.state !== 'rejected') {
+          queryState = state.state;
+        }
+      }
+    }
+
+    this.activeClients[this.localClientId] = this.localTargetIds.add(targetId);
+    this.persistClientState();
+    return queryState;
+  }
+
+  removeLocalQueryTarget(targetId: TargetId): void {
+    this.activeClients[this.localClientId] = this.localTargetIds.delete(
+      targetId
+    );
+    this.persistClientState();
+  }
+
+  isActiveQueryTarget(targetId: TargetId): boolean {
+    let isActive = false;
+    objUtils.forEach(this.activeClients, (clientId, activeTargetIds) => {
+      isActive = isActive || activeTargetIds.has(targetId);
+    });
+    return isActive;
+  }
+
+  getAllActiveQueryTargets(): TargetIdSet {
+    let activeTargets = targetIdSet();
+    objUtils.forEach(this.activeClients, (clientId, activeTargetIds) => {
+      activeTargets = activeTargets.unionWith(activeTargetIds);
+    });
+    return activeTargets;
+  }
+
+  updateQueryState(
+    targetId: TargetId,
+    state: QueryTargetState,
+    error?: FirestoreError
+  ): void {
+    this.storage.setItem(
+      this.queryTargetKeyPrefix + targetId,
+      this.toStateJson(state, error)
+    );
+  }
+
+  clearQueryState(targetId: TargetId): void {
+    this.storage.removeItem(this.queryTargetKeyPrefix + targetId);
+  }
+
+  handleUserChange(user: User): void {
+    this.currentUser = user;
+  }
+
+  setOnlineState(onlineState: OnlineState): void {
+    const onlineStateJson: OnlineStateSchema = {
+      clientId: this.localClientId,
+      onlineState: OnlineState[onlineState]
+    };
+    this.storage.setItem(this.onlineStateKey, JSON.stringify(onlineStateJson));
+  }
+
+  shutdown(): void {
+    if (this.isShutdown) {
+      return;
+    }
+    this.isShutdown = true;
+    this.started = false;
+    window.removeEventListener('storage', this.storageListener);
+    window.removeEventListener('unload', this.unloadListener);
+    this.storage.removeItem(this.localClientStorageKey);
+  }
+
+  private get localTargetIds(): TargetIdSet {
+    return this.activeClients[this.localClientId];
+  }
+
+  private handleStorageEvent(event: StorageEvent): void {
+    if (event.storageArea !== this.storage || event.key === null) {
+      return;
+    }
+
+    if (this.isShutdown) {
+      return;
+    } else if (!this.started) {
+      this.earlyEvents.push(event);
+      return;
+    }
+
+    const key = event.key;
+    const value = event.newValue;
+    this.queue.enqueue(async () => {
+      if (!this.started) {
+        log.debug(LOG_TAG, 'Ignoring WebStorage event after shutdown');
+        return;
+      }
+
+      if (key.indexOf(this.clientStateKeyPrefix) === 0) {
+        const clientId = key.substr(this.clientStateKeyPrefix.length);
+        if (clientId === this.localClientId) {
+          return;
+        }
+        const activeTargetIds =
+          value !== null ? this.fromClientStateJson(value) : null;
+        return this.handleClientStateEvent(clientId, activeTargetIds);
+      } else if (key.indexOf(this.mutationBatchKeyPrefix) === 0) {
+        const batchId = this.fromMutationBatchKey(key);
+        if (batchId !== null && value !== null) {
+          const state = this.fromStateJson<MutationBatchState>(value);
+          if (state !== null) {
+            return this.syncEngine!.applyBatchState(
+              batchId,
+              state.state,
+              this.toFirestoreError(state)
+            );
+          }
+        }
+      } else if (key.indexOf(this.queryTargetKeyPrefix) === 0) {
+        const targetId = Number(key.substr(this.queryTargetKeyPrefix.length));
+        if (value !== null && !isNaN(targetId)) {
+          const state = this.fromStateJson<QueryTargetState>(value);
+          if (state !== null) {
+            return this.syncEngine!.applyTargetState(
+              targetId,
+              state.state,
+              this.toFirestoreError(state)
+            );
+          }
+        }
+      } else if (key === this.onlineStateKey) {
+        const onlineState =
+          value !== null ? this.fromOnlineStateJson(value) : null;
+        if (onlineState !== null) {
+          this.onlineStateHandler!(onlineState);
+        }
+      }
+    });
+  }
+
+  /**
+   * Updates the active targets of a remote client (or removes the client if
+   * `activeTargetIds` is null) and notifies the sync engine of the targets
+   * that became active or inactive across all clients.
+   */
+  private handleClientStateEvent(
+    clientId: ClientId,
+    activeTargetIds: TargetIdSet | null
+  ): Promise<void> {
+    const existingTargets = this.getAllActiveQueryTargets();
+
+    if (activeTargetIds) {
+      log.debug(LOG_TAG, 'Processing client state update for', clientId);
+      this.activeClients[clientId] = activeTargetIds;
+    } else {
+      log.debug(LOG_TAG, 'Removing client', clientId);
+      delete this.activeClients[clientId];
+    }
+
+    const newTargets = this.getAllActiveQueryTargets();
+    const added: TargetId[] = [];
+    const removed: TargetId[] = [];
+    newTargets.forEach(targetId => {
+      if (!existingTargets.has(targetId)) {
+        added.push(targetId);
+      }
+    });
+    existingTargets.forEach(targetId => {
+      if (!newTargets.has(targetId)) {
+        removed.push(targetId);
+      }
+    });
+
+    if (added.length === 0 && removed.length === 0) {
+      return Promise.resolve();
+    }
+    return this.syncEngine!.applyActiveTargetsChange(added, removed);
+  }
+
+  private persistClientState(): void {
+    const activeTargetIds: TargetId[] = [];
+    this.localTargetIds.forEach(targetId => activeTargetIds.push(targetId));
+    const clientState: ClientStateSchema = {
+      activeTargetIds,
+      updateTimeMs: Date.now()
+    };
+    this.storage.setItem(
+      this.localClientStorageKey,
+      JSON.stringify(clientState)
+    );
+  }
+
+  private persistMutationState(
+    batchId: BatchId,
+    state: MutationBatchState,
+    error?: FirestoreError
+  ): void {
+    this.storage.setItem(
+      this.toMutationBatchKey(batchId),
+      this.toStateJson(state, error)
+    );
+  }
+
+  /** Assembles the key for a mutation batch of the current user. */
+  private toMutationBatchKey(batchId: BatchId): string {
+    let mutationKey = this.mutationBatchKeyPrefix + batchId;
+    if (this.currentUser.isAuthenticated()) {
+      mutationKey += '_' + this.currentUser.uid;
+    }
+    return mutationKey;
+  }
+
+  /**
+   * Parses the batch ID from a mutation batch key. Returns null if the key
+   * belongs to a different user than the current user.
+   */
+  private fromMutationBatchKey(key: string): BatchId | null {
+    const suffix = key.substr(this.mutationBatchKeyPrefix.length);
+    const separator = suffix.indexOf('_');
+    const batchId = Number(
+      separator === -1 ? suffix : suffix.substr(0, separator)
+    );
+    const uid = separator === -1 ? null : suffix.substr(separator + 1);
+    if (isNaN(batchId) || uid !== this.currentUser.uid) {
+      return null;
+    }
+    return batchId;
+  }
+
+  private toStateJson<S>(state: S, error?: FirestoreError): string {
+    const value: StateSchema<S> = { state };
+    if (error) {
+      value.error = { code: error.code, message: error.message };
+    }
+    return JSON.stringify(value);
+  }
+
+  private fromStateJson<S>(value: string): StateSchema<S> | null {
+    try {
+      return JSON.parse(value) as StateSchema<S>;
+    } catch (e) {
+      log.error(LOG_TAG, 'Failed to parse WebStorage state:', value);
+      return null;
+    }
+  }
+
+  private toFirestoreError<S>(
+    state: StateSchema<S>
+  ): FirestoreError | undefined {
+    return state.error
+      ? new FirestoreError(state.error.code as Code, state.error.message)
+      : undefined;
+  }
+
+  private fromClientStateJson(value: string): TargetIdSet | null {
+    try {
+      const clientState = JSON.parse(value) as ClientStateSchema;
+      let activeTargetIds = targetIdSet();
+      for (const targetId of clientState.activeTargetIds) {
+        activeTargetIds = activeTargetIds.add(targetId);
+      }
+      return activeTargetIds;
+    } catch (e) {
+      log.error(LOG_TAG, 'Failed to parse client state:', value);
+      return null;
+    }
+  }
+
+  private fromOnlineStateJson(value: string): OnlineState | null {
+    try {
+      const onlineStateJson = JSON.parse(value) as OnlineStateSchema;
+      const onlineState =
+        OnlineState[onlineStateJson.onlineState as keyof typeof OnlineState];
+      return onlineState !== undefined ? onlineState : null;
+    } catch (e) {
+      log.error(LOG_TAG, 'Failed to parse online state:', value);
+      return null;
+    }
+  }
+}
+
+/**
+ * `MemorySharedClientState` is a simple implementation of SharedClientState for
+ * clients using memory persistence or IndexedDB persistence without tab
+ * synchronization. The state in this class remains fully isolated and no
+ * synchronization is performed.
+ */
+export class MemorySharedClientState implements SharedClientState {
+  syncEngine: SharedClientStateSyncer | null = null;
+  onlineStateHandler: ((onlineState: OnlineState) => void) | null = null;
+
+  private localTargetIds = targetIdSet();
+  private queryState: { [targetId: number]: QueryTargetState } = {};
+
+  addPendingMutation(batchId: BatchId): void {
+    // No op.
+  }
+
+  updateMutationState(
+    batchId: BatchId,
+    state: 'acknowledged' | 'rejected',
+    error?: FirestoreError
+  ): void {
+    // No op.
+  }
+
+  removeMutationState(batchId: BatchId): void {
+    // No op.
+  }
+
+  addLocalQueryTarget(targetId: TargetId): QueryTargetState {
+    this.localTargetIds = this.localTargetIds.add(targetId);
+    return this.queryState[targetId] || 'not-current';
+  }
+
+  removeLocalQueryTarget(targetId: TargetId): void {
+    this.localTargetIds = this.localTargetIds.delete(targetId);
+  }
+
+  isActiveQueryTarget(targetId: TargetId): boolean {
+    return this.localTargetIds.has(targetId);
+  }
+
+  getAllActiveQueryTargets(): TargetIdSet {
+    return this.localTargetIds;
+  }
+
+  updateQueryState(
+    targetId: TargetId,
+    state: QueryTargetState,
+    error?: FirestoreError
+  ): void {
+    this.queryState[targetId] = state;
+  }
+
+  clearQueryState(targetId: TargetId): void {
+    delete this.queryState[targetId];
+  }
+
+  handleUserChange(user: User): void {
+    // No op.
+  }
+
+  setOnlineState(onlineState: OnlineState): void {
+    // No op.
+  }
+
+  start(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  shutdown(): void {
+    // No op.
+  }
+}
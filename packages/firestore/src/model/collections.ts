@@ -15,6 +15,8 @@
  */
 
 import { SnapshotVersion } from '../core/snapshot_version';
+import { TargetId } from '../core/types';
+import { primitiveComparator } from '../util/misc';
 import { SortedMap } from '../util/sorted_map';
 import { SortedSet } from '../util/sorted_set';
 
@@ -52,3 +54,9 @@ const EMPTY_DOCUMENT_KEY_SET = new SortedSet(DocumentKey.comparator);
 export function documentKeySet(): DocumentKeySet {
   return EMPTY_DOCUMENT_KEY_SET;
 }
+
+export type TargetIdSet = SortedSet<TargetId>;
+const EMPTY_TARGET_ID_SET = new SortedSet<TargetId>(primitiveComparator);
+export function targetIdSet(): TargetIdSet {
+  return EMPTY_TARGET_ID_SET;
+}
@@ -0,0 +1,47 @@
+/**
+ * Copyright 2019 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { primitiveComparator } from '../util/misc';
+
+import { FieldPath } from './path';
+
+/**
+ * A client-side index on a single field of the documents in a collection
+ * group. Field indexes are only used to speed up queries against the local
+ * cache and are configured via `Firestore.setIndexConfiguration()`.
+ */
+export class FieldIndex {
+  constructor(
+    /** The collection ID of the collections whose documents are indexed. */
+    readonly collectionGroup: string,
+    /** The indexed field. */
+    readonly fieldPath: FieldPath
+  ) {}
+
+  isEqual(other: FieldIndex): boolean {
+    return (
+      this.collectionGroup === other.collectionGroup &&
+      this.fieldPath.isEqual(other.fieldPath)
+    );
+  }
+
+  static comparator(left: FieldIndex, right: FieldIndex): number {
+    return (
+      primitiveComparator(left.collectionGroup, right.collectionGroup) ||
+      FieldPath.comparator(left.fieldPath, right.fieldPath)
+    );
+  }
+}
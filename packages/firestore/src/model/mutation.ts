@@ -56,6 +56,18 @@ export class FieldMask {
     return false;
   }
 
+  /** Returns a copy of `data` that only contains the fields in this mask. */
+  applyTo(data: ObjectValue): ObjectValue {
+    let result = ObjectValue.EMPTY;
+    for (const fieldPath of this.fields) {
+      const value = data.field(fieldPath);
+      if (value !== undefined) {
+        result = result.set(fieldPath, value);
+      }
+    }
+    return result;
+  }
+
   isEqual(other: FieldMask): boolean {
     return misc.arrayEquals(this.fields, other.fields);
   }
@@ -14,9 +14,17 @@
  * limitations under the License.
  */
 
-import { FieldValue, ServerTimestampValue, ArrayValue } from './field_value';
+import {
+  ArrayValue,
+  DoubleValue,
+  FieldValue,
+  IntegerValue,
+  NumberValue,
+  ServerTimestampValue
+} from './field_value';
 import { Timestamp } from '../api/timestamp';
 import * as misc from '../util/misc';
+import { MAX_SAFE_INTEGER, MIN_SAFE_INTEGER } from '../util/types';
 
 /** Represents a transform within a TransformMutation. */
 export interface TransformOperation {
@@ -141,6 +149,55 @@ export class ArrayRemoveTransformOperation implements TransformOperation {
   }
 }
 
+/**
+ * Implements the backend semantics for locally computed NUMERIC_ADD (increment)
+ * transforms. Converts all field values to integers or doubles. The backend
+ * saturates integer results at the 64-bit bounds; since JavaScript numbers
+ * cannot represent those exactly, integer results are saturated at the bounds
+ * of the safe integer range instead.
+ */
+export class NumericIncrementTransformOperation implements TransformOperation {
+  constructor(readonly operand: NumberValue) {}
+
+  applyToLocalView(
+    previousValue: FieldValue,
+    localWriteTime: Timestamp
+  ): FieldValue {
+    // Return an integer value iff the previous value and the operand is an
+    // integer.
+    if (
+      previousValue instanceof IntegerValue &&
+      this.operand instanceof IntegerValue
+    ) {
+      const sum = previousValue.internalValue + this.operand.internalValue;
+      return new IntegerValue(
+        Math.max(MIN_SAFE_INTEGER, Math.min(MAX_SAFE_INTEGER, sum))
+      );
+    } else if (previousValue instanceof NumberValue) {
+      const sum = previousValue.internalValue + this.operand.internalValue;
+      return new DoubleValue(sum);
+    } else {
+      // If the existing value is not a number, use the value of the transform
+      // as the new base value.
+      return this.operand;
+    }
+  }
+
+  applyToRemoteDocument(
+    previousValue: FieldValue,
+    transformResult: FieldValue
+  ): FieldValue {
+    return transformResult;
+  }
+
+  isEqual(other: TransformOperation): boolean {
+    return (
+      other instanceof NumericIncrementTransformOperation &&
+      this.operand.isEqual(other.operand)
+    );
+  }
+}
+
 function coercedFieldValuesArray(value: FieldValue | null): FieldValue[] {
   if (value instanceof ArrayValue) {
     return value.internalValue.slice();
@@ -16,8 +16,13 @@
 
 import { FirebaseApp, FirebaseNamespace } from '@firebase/app-types';
 import { _FirebaseNamespace } from '@firebase/app-types/private';
+import {
+  PublicAggregateQuery,
+  PublicAggregateQuerySnapshot
+} from '../api/aggregate';
 import { PublicBlob } from '../api/blob';
 import {
+  CACHE_SIZE_UNLIMITED,
   Firestore,
   PublicCollectionReference,
   PublicDocumentReference,
@@ -47,10 +52,13 @@ const firestoreNamespace = {
   Query: PublicQuery,
   QueryDocumentSnapshot: PublicQueryDocumentSnapshot,
   QuerySnapshot: PublicQuerySnapshot,
+  AggregateQuery: PublicAggregateQuery,
+  AggregateQuerySnapshot: PublicAggregateQuerySnapshot,
   CollectionReference: PublicCollectionReference,
   FieldPath,
   FieldValue: PublicFieldValue,
-  setLogLevel: Firestore.setLogLevel
+  setLogLevel: Firestore.setLogLevel,
+  CACHE_SIZE_UNLIMITED
 };
 
 /**
@@ -47,7 +47,8 @@ const RPC_URL_VERSION = 'v1beta1';
 /** Maps RPC names to the corresponding REST endpoint name. */
 const RPC_NAME_REST_MAPPING = {
   BatchGetDocuments: 'batchGet',
-  Commit: 'commit'
+  Commit: 'commit',
+  RunAggregationQuery: 'runAggregationQuery'
 };
 
 // TODO(b/38203344): The SDK_VERSION is set independently from Firebase because
@@ -61,10 +62,14 @@ export class WebChannelConnection implements Connection {
   private readonly databaseId: DatabaseId;
   private readonly baseUrl: string;
   private readonly pool: XhrIoPool;
+  private readonly forceLongPolling: boolean;
+  private readonly autoDetectLongPolling: boolean;
 
   constructor(info: DatabaseInfo) {
     this.databaseId = info.databaseId;
     this.pool = new XhrIoPool();
+    this.forceLongPolling = info.forceLongPolling;
+    this.autoDetectLongPolling = info.autoDetectLongPolling;
     const proto = info.ssl ? 'https' : 'http';
     this.baseUrl = proto + '://' + info.host;
   }
@@ -92,7 +97,7 @@ export class WebChannelConnection implements Connection {
     request: Req,
     token: Token | null
   ): Promise<Resp> {
-    const url = this.makeUrl(rpcName);
+    const url = this.makeUrl(rpcName, request);
 
     return new Promise((resolve: Resolver<Resp>, reject: Rejecter) => {
       // tslint:disable-next-line:no-any XhrIoPool doesn't have TS typings.
@@ -198,7 +203,11 @@ export class WebChannelConnection implements Connection {
       // initial cold start time.
       // TODO(dimond): wenboz@ mentioned this might affect use with proxies and
       // we should monitor closely for any reports.
-      backgroundChannelTest: true,
+      //
+      // The second test call detects proxies that buffer the streamed
+      // responses of the channel, and falls back to long-polling if they do.
+      // We only pay for it if long-polling auto-detection is enabled.
+      backgroundChannelTest: !this.autoDetectLongPolling,
       // Required for backend stickiness, routing behavior is based on this
       // parameter.
       httpSessionIdParam: 'gsessionid',
@@ -211,7 +220,12 @@ export class WebChannelConnection implements Connection {
         }`
       },
       sendRawJson: true,
-      supportsCrossDomainXhr: true
+      supportsCrossDomainXhr: true,
+      // Some proxies buffer the streamed responses of the channel, so that
+      // watch events never reach the client. Long-polling completes every
+      // response, which works with these proxies at the cost of more
+      // requests.
+      forceLongPolling: this.forceLongPolling
     };
 
     this.modifyHeadersForRequest(request.initMessageHeaders, token);
@@ -374,16 +388,23 @@ export class WebChannelConnection implements Connection {
   }
 
   // visible for testing
-  makeUrl(rpcName: string): string {
+  makeUrl(rpcName: string, request: { parent?: string } = {}): string {
     const urlRpcName = RPC_NAME_REST_MAPPING[rpcName];
     assert(urlRpcName !== undefined, 'Unknown REST mapping for: ' + rpcName);
     const url = [this.baseUrl, '/', RPC_URL_VERSION];
-    url.push('/projects/');
-    url.push(this.databaseId.projectId);
-
-    url.push('/databases/');
-    url.push(this.databaseId.database);
-    url.push('/documents');
+    if (request.parent) {
+      // Requests for a parent resource (such as aggregation queries over a
+      // subcollection) are sent to the URL of that resource.
+      url.push('/');
+      url.push(request.parent);
+    } else {
+      url.push('/projects/');
+      url.push(this.databaseId.projectId);
+
+      url.push('/databases/');
+      url.push(this.databaseId.database);
+      url.push('/documents');
+    }
 
     url.push(':');
     url.push(urlRpcName);
@@ -0,0 +1,88 @@
+/**
+ * Copyright 2019 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+// The elements of a Firestore bundle, in their JSON representation. A bundle
+// is a sequence of BundleElements, each of which is prefixed with the length
+// of its JSON representation in bytes. The first element is always the
+// BundleMetadata.
+//
+// Timestamps follow the conventions of the generated interfaces in
+// firestore_proto_api.d.ts and are typed as strings.
+
+import * as api from './firestore_proto_api';
+
+/** Whether a bundled query's limit applies to the first or last documents. */
+export declare type LimitType = 'FIRST' | 'LAST';
+
+/** A query that is part of a bundle. */
+export interface BundledQuery {
+  /** The parent resource name. */
+  parent?: string;
+  /** The query to run. */
+  structuredQuery?: api.StructuredQuery;
+  /** The limit type, which defaults to 'FIRST'. */
+  limitType?: LimitType;
+}
+
+/**
+ * A query that is part of a bundle, along with the name under which it can be
+ * looked up via `Firestore.namedQuery()`.
+ */
+export interface NamedQuery {
+  /** The name of the query, which must be unique within a bundle. */
+  name?: string;
+  /** The query definition. */
+  bundledQuery?: BundledQuery;
+  /** The time at which the results of the query were read. */
+  readTime?: string;
+}
+
+/** Metadata describing a document that is part of a bundle. */
+export interface BundledDocumentMetadata {
+  /** The resource name of the document. */
+  name?: string;
+  /** The time at which the document was read. */
+  readTime?: string;
+  /**
+   * Whether the document exists. If true, the next element of the bundle is
+   * the document itself.
+   */
+  exists?: boolean;
+  /** The names of the named queries whose results include this document. */
+  queries?: string[];
+}
+
+/** Metadata describing a bundle, which is always its first element. */
+export interface BundleMetadata {
+  /** The ID of the bundle, used to tell whether it was already loaded. */
+  id?: string;
+  /** The time at which the bundle was created. */
+  createTime?: string;
+  /** The schema version of the bundle. */
+  version?: number;
+  /** The number of documents in the bundle. */
+  totalDocuments?: number;
+  /** The size of the bundle in bytes, excluding the metadata element. */
+  totalBytes?: number;
+}
+
+/** A single element of a bundle. Exactly one of its fields is set. */
+export interface BundleElement {
+  metadata?: BundleMetadata;
+  namedQuery?: NamedQuery;
+  documentMetadata?: BundledDocumentMetadata;
+  document?: api.Document;
+}
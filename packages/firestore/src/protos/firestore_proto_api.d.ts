@@ -34,7 +34,11 @@ export declare type FieldFilterOp =
   | 'GREATER_THAN'
   | 'GREATER_THAN_OR_EQUAL'
   | 'EQUAL'
-  | 'ARRAY_CONTAINS';
+  | 'ARRAY_CONTAINS'
+  | 'IN'
+  | 'ARRAY_CONTAINS_ANY'
+  | 'NOT_EQUAL'
+  | 'NOT_IN';
 export interface IFieldFilterOpEnum {
   OPERATOR_UNSPECIFIED: FieldFilterOp;
   LESS_THAN: FieldFilterOp;
@@ -43,6 +47,10 @@ export interface IFieldFilterOpEnum {
   GREATER_THAN_OR_EQUAL: FieldFilterOp;
   EQUAL: FieldFilterOp;
   ARRAY_CONTAINS: FieldFilterOp;
+  IN: FieldFilterOp;
+  ARRAY_CONTAINS_ANY: FieldFilterOp;
+  NOT_EQUAL: FieldFilterOp;
+  NOT_IN: FieldFilterOp;
   values(): Array<FieldFilterOp>;
 }
 export declare const FieldFilterOpEnum: IFieldFilterOpEnum;
@@ -108,11 +116,15 @@ export declare const TargetChangeTargetChangeTypeEnum: ITargetChangeTargetChange
 export declare type UnaryFilterOp =
   | 'OPERATOR_UNSPECIFIED'
   | 'IS_NAN'
-  | 'IS_NULL';
+  | 'IS_NULL'
+  | 'IS_NOT_NAN'
+  | 'IS_NOT_NULL';
 export interface IUnaryFilterOpEnum {
   OPERATOR_UNSPECIFIED: UnaryFilterOp;
   IS_NAN: UnaryFilterOp;
   IS_NULL: UnaryFilterOp;
+  IS_NOT_NAN: UnaryFilterOp;
+  IS_NOT_NULL: UnaryFilterOp;
   values(): Array<UnaryFilterOp>;
 }
 export declare const UnaryFilterOpEnum: IUnaryFilterOpEnum;
@@ -123,9 +135,21 @@ export interface IValueNullValueEnum {
 }
 export declare const ValueNullValueEnum: IValueNullValueEnum;
 export declare namespace firestoreV1beta1ApiClientInterfaces {
+  interface Aggregation {
+    count?: Count;
+    sum?: Sum;
+    avg?: Avg;
+    alias?: string;
+  }
+  interface AggregationResult {
+    aggregateFields?: ApiClientObjectMap<Value>;
+  }
   interface ArrayValue {
     values?: Array<Value>;
   }
+  interface Avg {
+    field?: FieldReference;
+  }
   interface BatchGetDocumentsRequest {
     documents?: Array<string>;
     mask?: DocumentMask;
@@ -161,6 +185,9 @@ export declare namespace firestoreV1beta1ApiClientInterfaces {
     op?: CompositeFilterOp;
     filters?: Array<Filter>;
   }
+  interface Count {
+    upTo?: number;
+  }
   interface Cursor {
     values?: Array<Value>;
     before?: boolean;
@@ -212,6 +239,7 @@ export declare namespace firestoreV1beta1ApiClientInterfaces {
   interface FieldTransform {
     fieldPath?: string;
     setToServerValue?: FieldTransformSetToServerValue;
+    increment?: Value;
     appendMissingElements?: ArrayValue;
     removeAllFromArray?: ArrayValue;
   }
@@ -296,6 +324,17 @@ export declare namespace firestoreV1beta1ApiClientInterfaces {
   interface RollbackRequest {
     transaction?: string;
   }
+  interface RunAggregationQueryRequest {
+    structuredAggregationQuery?: StructuredAggregationQuery;
+    transaction?: string;
+    newTransaction?: TransactionOptions;
+    readTime?: string;
+  }
+  interface RunAggregationQueryResponse {
+    result?: AggregationResult;
+    transaction?: string;
+    readTime?: string;
+  }
   interface RunQueryRequest {
     structuredQuery?: StructuredQuery;
     transaction?: string;
@@ -313,6 +352,10 @@ export declare namespace firestoreV1beta1ApiClientInterfaces {
     message?: string;
     details?: Array<ApiClientObjectMap<any>>;
   }
+  interface StructuredAggregationQuery {
+    structuredQuery?: StructuredQuery;
+    aggregations?: Array<Aggregation>;
+  }
   interface StructuredQuery {
     select?: Projection;
     from?: Array<CollectionSelector>;
@@ -323,6 +366,9 @@ export declare namespace firestoreV1beta1ApiClientInterfaces {
     offset?: number;
     limit?: number;
   }
+  interface Sum {
+    field?: FieldReference;
+  }
   interface Target {
     query?: QueryTarget;
     documents?: DocumentsTarget;
@@ -383,7 +429,10 @@ export declare namespace firestoreV1beta1ApiClientInterfaces {
     transformResults?: Array<Value>;
   }
 }
+export declare type Aggregation = firestoreV1beta1ApiClientInterfaces.Aggregation;
+export declare type AggregationResult = firestoreV1beta1ApiClientInterfaces.AggregationResult;
 export declare type ArrayValue = firestoreV1beta1ApiClientInterfaces.ArrayValue;
+export declare type Avg = firestoreV1beta1ApiClientInterfaces.Avg;
 export declare type BatchGetDocumentsRequest = firestoreV1beta1ApiClientInterfaces.BatchGetDocumentsRequest;
 export declare type BatchGetDocumentsResponse = firestoreV1beta1ApiClientInterfaces.BatchGetDocumentsResponse;
 export declare type BeginTransactionRequest = firestoreV1beta1ApiClientInterfaces.BeginTransactionRequest;
@@ -392,6 +441,7 @@ export declare type CollectionSelector = firestoreV1beta1ApiClientInterfaces.Col
 export declare type CommitRequest = firestoreV1beta1ApiClientInterfaces.CommitRequest;
 export declare type CommitResponse = firestoreV1beta1ApiClientInterfaces.CommitResponse;
 export declare type CompositeFilter = firestoreV1beta1ApiClientInterfaces.CompositeFilter;
+export declare type Count = firestoreV1beta1ApiClientInterfaces.Count;
 export declare type Cursor = firestoreV1beta1ApiClientInterfaces.Cursor;
 export declare type Document = firestoreV1beta1ApiClientInterfaces.Document;
 export declare type DocumentChange = firestoreV1beta1ApiClientInterfaces.DocumentChange;
@@ -424,10 +474,14 @@ export declare type QueryTarget = firestoreV1beta1ApiClientInterfaces.QueryTarge
 export declare type ReadOnly = firestoreV1beta1ApiClientInterfaces.ReadOnly;
 export declare type ReadWrite = firestoreV1beta1ApiClientInterfaces.ReadWrite;
 export declare type RollbackRequest = firestoreV1beta1ApiClientInterfaces.RollbackRequest;
+export declare type RunAggregationQueryRequest = firestoreV1beta1ApiClientInterfaces.RunAggregationQueryRequest;
+export declare type RunAggregationQueryResponse = firestoreV1beta1ApiClientInterfaces.RunAggregationQueryResponse;
 export declare type RunQueryRequest = firestoreV1beta1ApiClientInterfaces.RunQueryRequest;
 export declare type RunQueryResponse = firestoreV1beta1ApiClientInterfaces.RunQueryResponse;
 export declare type Status = firestoreV1beta1ApiClientInterfaces.Status;
+export declare type StructuredAggregationQuery = firestoreV1beta1ApiClientInterfaces.StructuredAggregationQuery;
 export declare type StructuredQuery = firestoreV1beta1ApiClientInterfaces.StructuredQuery;
+export declare type Sum = firestoreV1beta1ApiClientInterfaces.Sum;
 export declare type Target = firestoreV1beta1ApiClientInterfaces.Target;
 export declare type TargetChange = firestoreV1beta1ApiClientInterfaces.TargetChange;
 export declare type TransactionOptions = firestoreV1beta1ApiClientInterfaces.TransactionOptions;
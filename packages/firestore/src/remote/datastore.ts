@@ -16,10 +16,13 @@
 
 import * as api from '../protos/firestore_proto_api';
 import { CredentialsProvider } from '../api/credentials';
+import { Aggregate } from '../core/aggregate';
+import { Query } from '../core/query';
 import { maybeDocumentMap } from '../model/collections';
 import { MaybeDocument } from '../model/document';
 import { DocumentKey } from '../model/document_key';
-import { Mutation, MutationResult } from '../model/mutation';
+import { ObjectValue } from '../model/field_value';
+import { FieldMask, Mutation, MutationResult } from '../model/mutation';
 import { assert } from '../util/assert';
 import { AsyncQueue } from '../util/async_queue';
 
@@ -39,6 +42,9 @@ interface BatchGetDocumentsRequest extends api.BatchGetDocumentsRequest {
 interface CommitRequest extends api.CommitRequest {
   database?: string;
 }
+interface RunAggregationQueryRequest extends api.RunAggregationQueryRequest {
+  parent?: string;
+}
 
 /**
  * Datastore is a wrapper around the external Google Cloud Datastore grpc API,
@@ -84,19 +90,69 @@ export class Datastore {
     });
   }
 
-  lookup(keys: DocumentKey[]): Promise<MaybeDocument[]> {
+  /**
+   * Reads the given documents from the backend. If a field mask is provided,
+   * the returned documents only contain the fields in the mask.
+   */
+  lookup(keys: DocumentKey[], fieldMask?: FieldMask): Promise<MaybeDocument[]> {
+    const params: BatchGetDocumentsRequest = {
+      database: this.serializer.encodedDatabaseId,
+      documents: keys.map(k => this.serializer.toName(k))
+    };
+    if (fieldMask) {
+      params.mask = this.serializer.toDocumentMask(fieldMask);
+    }
+    return this.batchGetDocuments(keys, params).then(result => result.docs);
+  }
+
+  /**
+   * Reads the given documents in a read-only transaction, which provides a
+   * consistent snapshot of the documents across multiple calls.
+   *
+   * If `transaction` is null, a new read-only transaction is started. Returns
+   * the documents along with the (opaque) ID of the transaction, which is
+   * passed to subsequent calls.
+   */
+  lookupReadOnly(
+    keys: DocumentKey[],
+    transaction: string | null
+  ): Promise<{ docs: MaybeDocument[]; transaction: string }> {
     const params: BatchGetDocumentsRequest = {
       database: this.serializer.encodedDatabaseId,
       documents: keys.map(k => this.serializer.toName(k))
     };
+    if (transaction !== null) {
+      params.transaction = transaction;
+    } else {
+      params.newTransaction = { readOnly: {} };
+    }
+    return this.batchGetDocuments(keys, params).then(result => {
+      const transactionId = result.transaction || transaction;
+      assert(!!transactionId, 'Missing transaction in read-only lookup.');
+      return { docs: result.docs, transaction: transactionId! };
+    });
+  }
+
+  private batchGetDocuments(
+    keys: DocumentKey[],
+    params: BatchGetDocumentsRequest
+  ): Promise<{ docs: MaybeDocument[]; transaction: string | null }> {
     return this.invokeStreamingRPC<
       BatchGetDocumentsRequest,
       api.BatchGetDocumentsResponse
     >('BatchGetDocuments', params).then(response => {
       let docs = maybeDocumentMap();
+      let transaction: string | null = null;
       response.forEach(proto => {
-        const doc = this.serializer.fromMaybeDocument(proto);
-        docs = docs.insert(doc.key, doc);
+        // The ID of a new transaction is only set in the first response,
+        // which does not necessarily contain a document.
+        if (proto.transaction) {
+          transaction = proto.transaction;
+        }
+        if (proto.found || proto.missing) {
+          const doc = this.serializer.fromMaybeDocument(proto);
+          docs = docs.insert(doc.key, doc);
+        }
       });
       const result: MaybeDocument[] = [];
       keys.forEach(key => {
@@ -104,7 +160,36 @@ export class Datastore {
         assert(!!doc, 'Missing entity in write response for ' + key);
         result.push(doc!);
       });
-      return result;
+      return { docs: result, transaction };
+    });
+  }
+
+  /**
+   * Runs the given aggregations over the results of `query` on the backend.
+   * Returns the result of each aggregation, keyed by its alias.
+   */
+  runAggregationQuery(
+    query: Query,
+    aggregates: Aggregate[]
+  ): Promise<ObjectValue> {
+    const queryTarget = this.serializer.toQueryTarget(query.toBackendQuery());
+    const params: RunAggregationQueryRequest = {
+      parent: queryTarget.parent,
+      structuredAggregationQuery: {
+        structuredQuery: queryTarget.structuredQuery,
+        aggregations: aggregates.map(a => this.serializer.toAggregation(a))
+      }
+    };
+    return this.invokeStreamingRPC<
+      RunAggregationQueryRequest,
+      api.RunAggregationQueryResponse
+    >('RunAggregationQuery', params).then(response => {
+      // The result is only missing if the query ran over no documents, in
+      // which case the aggregations use their default values.
+      const result = response.filter(proto => !!proto.result)[0];
+      return result
+        ? this.serializer.fromFields(result.result!.aggregateFields || {})
+        : ObjectValue.EMPTY;
     });
   }
 
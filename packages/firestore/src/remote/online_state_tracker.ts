@@ -74,6 +74,11 @@ export class OnlineStateTracker {
     private onlineStateHandler: (onlineState: OnlineState) => void
   ) {}
 
+  /** The current OnlineState. */
+  get onlineState(): OnlineState {
+    return this.state;
+  }
+
   /**
    * Called by RemoteStore when a watch stream is started (including on each
    * backoff attempt).
@@ -15,12 +15,18 @@
  */
 
 import { User } from '../auth/user';
+import { Aggregate } from '../core/aggregate';
+import { Query } from '../core/query';
 import { SnapshotVersion } from '../core/snapshot_version';
 import { Transaction } from '../core/transaction';
 import { BatchId, OnlineState, TargetId } from '../core/types';
 import { LocalStore } from '../local/local_store';
+import { ignoreIfPrimaryLeaseLoss } from '../local/persistence';
 import { QueryData, QueryPurpose } from '../local/query_data';
-import { MutationResult } from '../model/mutation';
+import { MaybeDocument } from '../model/document';
+import { DocumentKey } from '../model/document_key';
+import { ObjectValue } from '../model/field_value';
+import { FieldMask, MutationResult } from '../model/mutation';
 import {
   BATCHID_UNKNOWN,
   MutationBatch,
@@ -57,6 +63,18 @@ const LOG_TAG = 'RemoteStore';
 // TODO(b/35853402): Negotiate this with the stream.
 const MAX_PENDING_WRITES = 10;
 
+/**
+ * Returns the error for aggregation queries that are run while the client is
+ * offline.
+ */
+function aggregationQueryOfflineError(): FirestoreError {
+  return new FirestoreError(
+    Code.UNAVAILABLE,
+    'Failed to run aggregation query because the client is offline. ' +
+      'Aggregation queries are only run on the server.'
+  );
+}
+
 /**
  * RemoteStore - An interface to remotely stored data, basically providing a
  * wrapper around the Datastore that is more reliable for the rest of the
@@ -75,6 +93,10 @@ const MAX_PENDING_WRITES = 10;
  * - pulling pending mutations from LocalStore and sending them to Datastore.
  * - retrying mutations that failed because of network problems.
  * - acking mutations to the SyncEngine once they are accepted or rejected.
+ *
+ * If tab synchronization is enabled, only the primary client connects to the
+ * backend. The RemoteStore of a secondary client keeps its network disabled
+ * until the client becomes primary.
  */
 export class RemoteStore implements TargetMetadataProvider {
   private pendingWrites: MutationBatch[] = [];
@@ -97,6 +119,16 @@ export class RemoteStore implements TargetMetadataProvider {
 
   private onlineStateTracker: OnlineStateTracker;
 
+  /** Whether the client is the primary client and may use the network. */
+  private isPrimary = false;
+
+  /**
+   * Whether the network should be used. This reflects the calls to
+   * enableNetwork() and disableNetwork() and is independent of the client's
+   * primary state.
+   */
+  private networkEnabled = false;
+
   constructor(
     /**
      * The local store, used to fill the write pipeline with outbound mutations.
@@ -134,7 +166,16 @@ export class RemoteStore implements TargetMetadataProvider {
 
   /** Re-enables the network. Idempotent. */
   enableNetwork(): Promise<void> {
-    if (this.isNetworkEnabled()) {
+    this.networkEnabled = true;
+    return this.enableNetworkInternal();
+  }
+
+  /**
+   * Creates the network streams if the client may use the network and they
+   * have not been created yet.
+   */
+  private enableNetworkInternal(): Promise<void> {
+    if (!this.canUseNetwork() || this.isNetworkEnabled()) {
       return Promise.resolve();
     }
 
@@ -143,17 +184,28 @@ export class RemoteStore implements TargetMetadataProvider {
     this.writeStream = this.datastore.newPersistentWriteStream();
 
     // Load any saved stream token from persistent storage
-    return this.localStore.getLastStreamToken().then(token => {
-      this.writeStream.lastStreamToken = token;
+    return this.localStore
+      .getLastStreamToken()
+      .then(token => {
+        this.writeStream.lastStreamToken = token;
+
+        if (this.shouldStartWatchStream()) {
+          this.startWatchStream();
+        } else {
+          this.onlineStateTracker.set(OnlineState.Unknown);
+        }
 
-      if (this.shouldStartWatchStream()) {
-        this.startWatchStream();
-      } else {
-        this.onlineStateTracker.set(OnlineState.Unknown);
-      }
+        return this.fillWritePipeline(); // This may start the writeStream.
+      })
+      .catch(ignoreIfPrimaryLeaseLoss);
+  }
 
-      return this.fillWritePipeline(); // This may start the writeStream.
-    });
+  /**
+   * Returns whether the network streams may be used, which requires the client
+   * to be the primary client and the network not to be explicitly disabled.
+   */
+  canUseNetwork(): boolean {
+    return this.isPrimary && this.networkEnabled;
   }
 
   /**
@@ -161,6 +213,7 @@ export class RemoteStore implements TargetMetadataProvider {
    * enableNetwork().
    */
   async disableNetwork(): Promise<void> {
+    this.networkEnabled = false;
     this.disableNetworkInternal();
     // Set the OnlineState to Offline so get()s return from cache, etc.
     this.onlineStateTracker.set(OnlineState.Offline);
@@ -186,6 +239,7 @@ export class RemoteStore implements TargetMetadataProvider {
 
   shutdown(): Promise<void> {
     log.debug(LOG_TAG, 'RemoteStore shutting down.');
+    this.networkEnabled = false;
     this.disableNetworkInternal();
     // Set the OnlineState to Unknown (rather than Offline) to avoid potentially
     // triggering spurious listener events with cached data, etc.
@@ -193,6 +247,28 @@ export class RemoteStore implements TargetMetadataProvider {
     return Promise.resolve();
   }
 
+  /**
+   * Updates whether the client is the primary client. The network streams are
+   * only used by the primary client, so a client that loses its primary state
+   * disables its network. The caller is responsible for removing the active
+   * listens before the client loses its primary state.
+   */
+  applyPrimaryState(isPrimary: boolean): Promise<void> {
+    this.isPrimary = isPrimary;
+    if (isPrimary) {
+      return this.enableNetworkInternal();
+    } else {
+      assert(
+        objUtils.isEmpty(this.listenTargets),
+        'Secondary clients should not have any active listens'
+      );
+      this.disableNetworkInternal();
+      // Secondary clients receive their online state from the primary client.
+      this.onlineStateTracker.set(OnlineState.Unknown);
+      return Promise.resolve();
+    }
+  }
+
   /** Starts new listen for the given query. Uses resume token if provided */
   listen(queryData: QueryData): void {
     assert(
@@ -259,7 +335,7 @@ export class RemoteStore implements TargetMetadataProvider {
       this.shouldStartWatchStream(),
       'startWriteStream() called when shouldStartWatchStream() is false.'
     );
-                   
+
     this.watchChangeAggregator = new WatchChangeAggregator(this);
     this.watchStream.start({
       onOpen: this.onWatchStreamOpen.bind(this),
@@ -397,9 +473,10 @@ export class RemoteStore implements TargetMetadataProvider {
         return;
       }
 
-      // Clear the resume token for the query, since we're in a known mismatch
-      // state.
+      // Clear the resume token and snapshot version for the query, since we're
+      // in a known mismatch state.
       queryData.resumeToken = emptyByteString();
+      queryData.snapshotVersion = SnapshotVersion.MIN;
 
       // Cause a hard reset by unwatching and rewatching immediately, but
       // deliberately don't send a resume token so that we get a full update.
@@ -412,7 +489,8 @@ export class RemoteStore implements TargetMetadataProvider {
       const requestQueryData = new QueryData(
         queryData.query,
         targetId,
-        QueryPurpose.ExistenceFilterMismatch
+        QueryPurpose.ExistenceFilterMismatch,
+        queryData.sequenceNumber
       );
       this.sendWatchRequest(requestQueryData);
     });
@@ -467,7 +545,8 @@ export class RemoteStore implements TargetMetadataProvider {
             this.commit(batch);
             return this.fillWritePipeline();
           }
-        });
+        })
+        .catch(ignoreIfPrimaryLeaseLoss);
     }
   }
 
@@ -663,8 +742,58 @@ export class RemoteStore implements TargetMetadataProvider {
     }
   }
 
-  createTransaction(): Transaction {
-    return new Transaction(this.datastore);
+  createTransaction(readOnly = false): Transaction {
+    return new Transaction(this.datastore, readOnly);
+  }
+
+  /**
+   * Reads the given documents from the backend, bypassing the watch stream.
+   * Fails with an 'unavailable' error if the network is disabled.
+   */
+  lookup(keys: DocumentKey[], fieldMask?: FieldMask): Promise<MaybeDocument[]> {
+    if (!this.networkEnabled) {
+      return Promise.reject(
+        new FirestoreError(
+          Code.UNAVAILABLE,
+          'Failed to get documents from server because the network is ' +
+            'disabled.'
+        )
+      );
+    }
+    return this.datastore.lookup(keys, fieldMask);
+  }
+
+  /**
+   * Runs the given aggregations over the results of `query` on the backend.
+   * Fails with an 'unavailable' error if the network is disabled or the client
+   * is offline, since aggregations cannot be computed from the documents in
+   * the local cache.
+   */
+  runAggregationQuery(
+    query: Query,
+    aggregates: Aggregate[]
+  ): Promise<ObjectValue> {
+    if (!this.networkEnabled) {
+      return Promise.reject(
+        new FirestoreError(
+          Code.UNAVAILABLE,
+          'Failed to run aggregation query because the network is disabled. ' +
+            'Aggregation queries are only run on the server.'
+        )
+      );
+    }
+    if (this.onlineStateTracker.onlineState === OnlineState.Offline) {
+      return Promise.reject(aggregationQueryOfflineError());
+    }
+    return this.datastore
+      .runAggregationQuery(query, aggregates)
+      .catch((error: FirestoreError) => {
+        // The backend could not be reached, which also means that the client
+        // is offline.
+        throw error.code === Code.UNAVAILABLE
+          ? aggregationQueryOfflineError()
+          : error;
+      });
   }
 
   handleUserChange(user: User): Promise<void> {
@@ -678,7 +807,7 @@ export class RemoteStore implements TargetMetadataProvider {
       // (since mutations are per-user).
       this.disableNetworkInternal();
       this.onlineStateTracker.set(OnlineState.Unknown);
-      return this.enableNetwork();
+      return this.enableNetworkInternal();
     }
   }
 }
@@ -18,6 +18,7 @@ import * as api from '../protos/firestore_proto_api';
 import { Blob } from '../api/blob';
 import { GeoPoint } from '../api/geo_point';
 import { Timestamp } from '../api/timestamp';
+import { Aggregate } from '../core/aggregate';
 import { DatabaseId } from '../core/database_info';
 import {
   Bound,
@@ -68,7 +69,8 @@ import {
   TransformOperation,
   ServerTimestampTransform,
   ArrayUnionTransformOperation,
-  ArrayRemoveTransformOperation
+  ArrayRemoveTransformOperation,
+  NumericIncrementTransformOperation
 } from '../model/transform_operation';
 
 const DIRECTIONS = (() => {
@@ -86,6 +88,10 @@ const OPERATORS = (() => {
   ops[RelationOp.GREATER_THAN_OR_EQUAL.name] = 'GREATER_THAN_OR_EQUAL';
   ops[RelationOp.EQUAL.name] = 'EQUAL';
   ops[RelationOp.ARRAY_CONTAINS.name] = 'ARRAY_CONTAINS';
+  ops[RelationOp.IN.name] = 'IN';
+  ops[RelationOp.ARRAY_CONTAINS_ANY.name] = 'ARRAY_CONTAINS_ANY';
+  ops[RelationOp.NOT_EQUAL.name] = 'NOT_EQUAL';
+  ops[RelationOp.NOT_IN.name] = 'NOT_IN';
   return ops;
 })();
 
@@ -932,6 +938,11 @@ export class JsonProtoSerializer {
           values: transform.elements.map(v => this.toValue(v))
         }
       };
+    } else if (transform instanceof NumericIncrementTransformOperation) {
+      return {
+        fieldPath: fieldTransform.field.canonicalString(),
+        increment: this.toValue(transform.operand)
+      };
     } else {
       fail('Unknown transform: ' + fieldTransform.transform);
     }
@@ -957,6 +968,15 @@ export class JsonProtoSerializer {
       transform = new ArrayRemoveTransformOperation(
         values.map(v => this.fromValue(v))
       );
+    } else if (hasTag(proto, type, 'increment')) {
+      const operand = this.fromValue(proto.increment!);
+      assert(
+        operand instanceof fieldValue.NumberValue,
+        'NUMERIC_ADD transform requires a NumberValue'
+      );
+      transform = new NumericIncrementTransformOperation(
+        operand as fieldValue.NumberValue
+      );
     } else {
       fail('Unknown transform proto: ' + JSON.stringify(proto));
     }
@@ -981,10 +1001,22 @@ export class JsonProtoSerializer {
   toQueryTarget(query: Query): api.QueryTarget {
     // Dissect the path into parent, collectionId, and optional key filter.
     const result: api.QueryTarget = { structuredQuery: {} };
-    if (query.path.isEmpty()) {
+    const path = query.path;
+    if (query.collectionGroup !== null) {
+      assert(
+        path.length % 2 === 0,
+        'Collection Group queries should be within a document path or root.'
+      );
+      result.parent = this.toQueryPath(path);
+      result.structuredQuery!.from = [
+        {
+          collectionId: query.collectionGroup,
+          allDescendants: true
+        }
+      ];
+    } else if (path.isEmpty()) {
       result.parent = this.toQueryPath(ResourcePath.EMPTY_PATH);
     } else {
-      const path = query.path;
       assert(
         path.length % 2 !== 0,
         'Document queries with filters are not supported.'
@@ -1022,6 +1054,7 @@ export class JsonProtoSerializer {
     let path = this.fromQueryPath(target.parent!);
 
     const query = target.structuredQuery!;
+    let collectionGroup: string | null = null;
     const fromCount = query.from ? query.from.length : 0;
     if (fromCount > 0) {
       assert(
@@ -1029,7 +1062,11 @@ export class JsonProtoSerializer {
         'StructuredQuery.from with more than one collection is not supported.'
       );
       const from = query.from![0];
-      path = path.child(from.collectionId!);
+      if (from.allDescendants) {
+        collectionGroup = from.collectionId!;
+      } else {
+        path = path.child(from.collectionId!);
+      }
     }
 
     let filterBy: Filter[] = [];
@@ -1057,7 +1094,15 @@ export class JsonProtoSerializer {
       endAt = this.fromCursor(query.endAt);
     }
 
-    return new Query(path, orderBy, filterBy, limit, startAt, endAt);
+    return new Query(
+      path,
+      collectionGroup,
+      orderBy,
+      filterBy,
+      limit,
+      startAt,
+      endAt
+    );
   }
 
   toListenRequestLabels(
@@ -1088,7 +1133,7 @@ export class JsonProtoSerializer {
 
   toTarget(queryData: QueryData): api.Target {
     let result: api.Target;
-    const query = queryData.query;
+    const query = queryData.query.toBackendQuery();
 
     if (query.isDocumentQuery()) {
       result = { documents: this.toDocumentsTarget(query) };
@@ -1102,6 +1147,10 @@ export class JsonProtoSerializer {
       result.resumeToken = this.unsafeCastProtoByteString(
         queryData.resumeToken
       );
+    } else if (queryData.snapshotVersion.compareTo(SnapshotVersion.MIN) > 0) {
+      // Targets that were loaded from a bundle have no resume token, but can
+      // be resumed from the time at which their results were read.
+      result.readTime = this.toVersion(queryData.snapshotVersion);
     }
 
     return result;
@@ -1195,6 +1244,14 @@ export class JsonProtoSerializer {
         return RelationOp.LESS_THAN_OR_EQUAL;
       case 'ARRAY_CONTAINS':
         return RelationOp.ARRAY_CONTAINS;
+      case 'IN':
+        return RelationOp.IN;
+      case 'ARRAY_CONTAINS_ANY':
+        return RelationOp.ARRAY_CONTAINS_ANY;
+      case 'NOT_EQUAL':
+        return RelationOp.NOT_EQUAL;
+      case 'NOT_IN':
+        return RelationOp.NOT_IN;
       case 'OPERATOR_UNSPECIFIED':
         return fail('Unspecified relation');
       default:
@@ -1202,6 +1259,25 @@ export class JsonProtoSerializer {
     }
   }
 
+  toAggregation(aggregate: Aggregate): api.Aggregation {
+    switch (aggregate.type) {
+      case 'count':
+        return { alias: aggregate.alias, count: {} };
+      case 'sum':
+        return {
+          alias: aggregate.alias,
+          sum: { field: this.toFieldPathReference(aggregate.fieldPath!) }
+        };
+      case 'avg':
+        return {
+          alias: aggregate.alias,
+          avg: { field: this.toFieldPathReference(aggregate.fieldPath!) }
+        };
+      default:
+        return fail('Unknown aggregate type: ' + aggregate.type);
+    }
+  }
+
   toFieldPathReference(path: FieldPath): api.FieldReference {
     return { fieldPath: path.canonicalString() };
   }
@@ -1228,6 +1304,24 @@ export class JsonProtoSerializer {
   // visible for testing
   toRelationFilter(filter: Filter): api.Filter {
     if (filter instanceof RelationFilter) {
+      // The backend expresses `!= null` and `!= NaN` as unary filters.
+      if (filter.op === RelationOp.NOT_EQUAL) {
+        if (filter.value.isEqual(fieldValue.NullValue.INSTANCE)) {
+          return {
+            unaryFilter: {
+              field: this.toFieldPathReference(filter.field),
+              op: 'IS_NOT_NULL'
+            }
+          };
+        } else if (filter.value.isEqual(fieldValue.DoubleValue.NAN)) {
+          return {
+            unaryFilter: {
+              field: this.toFieldPathReference(filter.field),
+              op: 'IS_NOT_NAN'
+            }
+          };
+        }
+      }
       return {
         fieldFilter: {
           field: this.toFieldPathReference(filter.field),
@@ -1281,6 +1375,18 @@ export class JsonProtoSerializer {
           filter.unaryFilter!.field!
         );
         return new NullFilter(nullField);
+      case 'IS_NOT_NAN':
+        return new RelationFilter(
+          this.fromFieldPathReference(filter.unaryFilter!.field!),
+          RelationOp.NOT_EQUAL,
+          fieldValue.DoubleValue.NAN
+        );
+      case 'IS_NOT_NULL':
+        return new RelationFilter(
+          this.fromFieldPathReference(filter.unaryFilter!.field!),
+          RelationOp.NOT_EQUAL,
+          fieldValue.NullValue.INSTANCE
+        );
       case 'OPERATOR_UNSPECIFIED':
         return fail('Unspecified filter');
       default:
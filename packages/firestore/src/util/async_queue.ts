@@ -50,7 +50,12 @@ export enum TimerId {
    * OnlineState.Unknown to Offline after a set timeout, rather than waiting
    * indefinitely for success or failure.
    */
-  OnlineStateTimeout = 'online_state_timeout'
+  OnlineStateTimeout = 'online_state_timeout',
+
+  /**
+   * A timer used to periodically attempt LRU Garbage collection
+   */
+  LruGarbageCollection = 'lru_garbage_collection'
 }
 
 /**
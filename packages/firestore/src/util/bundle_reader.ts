@@ -0,0 +1,216 @@
+/**
+ * Copyright 2019 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as bundleProto from '../protos/firestore_bundle_proto';
+import { JsonProtoSerializer } from '../remote/serializer';
+
+import { Code, FirestoreError } from './error';
+
+/** The code unit of the '0' character. */
+const DIGIT_ZERO = 48;
+
+/** The code unit of the '9' character. */
+const DIGIT_NINE = 57;
+
+/**
+ * A BundleElement along with the number of bytes it occupies in the bundle,
+ * which is used to report the progress of loading a bundle.
+ */
+export class SizedBundleElement {
+  constructor(
+    readonly payload: bundleProto.BundleElement,
+    readonly byteLength: number
+  ) {}
+
+  isBundleMetadata(): boolean {
+    return !!this.payload.metadata;
+  }
+}
+
+/**
+ * Reads the elements of a Firestore bundle.
+ *
+ * A bundle is a sequence of JSON encoded `BundleElement`s, each of which is
+ * prefixed with the length of its JSON representation in bytes. The first
+ * element must be the `BundleMetadata`.
+ */
+export class BundleReader {
+  /** The UTF-8 encoded bundle. */
+  private readonly buffer: Uint8Array;
+
+  /** The position in `buffer` from which the next element is read. */
+  private offset = 0;
+
+  /** The bundle's metadata, read on first access. */
+  private metadata: bundleProto.BundleMetadata | null = null;
+
+  constructor(
+    data: ArrayBuffer | string,
+    /** The serializer used to decode the documents and queries in the bundle. */
+    readonly serializer: JsonProtoSerializer
+  ) {
+    this.buffer =
+      typeof data === 'string' ? encodeUtf8(data) : new Uint8Array(data);
+  }
+
+  /**
+   * Returns the metadata of the bundle.
+   *
+   * @throws FirestoreError if the bundle does not start with its metadata.
+   */
+  getMetadata(): bundleProto.BundleMetadata {
+    if (this.metadata === null) {
+      const element = this.nextElement();
+      if (element === null || !element.isBundleMetadata()) {
+        throw this.invalidBundleError(
+          'The first element of the bundle is not a metadata element.'
+        );
+      }
+      this.metadata = element.payload.metadata!;
+    }
+    return this.metadata;
+  }
+
+  /**
+   * Returns the next element of the bundle, or null if all elements have been
+   * read. The first call returns the metadata element, unless `getMetadata()`
+   * has been called before.
+   *
+   * @throws FirestoreError if the bundle is malformed.
+   */
+  nextElement(): SizedBundleElement | null {
+    if (this.offset === this.buffer.length) {
+      return null;
+    }
+
+    const lengthStart = this.offset;
+    while (
+      this.offset < this.buffer.length &&
+      this.buffer[this.offset] >= DIGIT_ZERO &&
+      this.buffer[this.offset] <= DIGIT_NINE
+    ) {
+      ++this.offset;
+    }
+    if (this.offset === lengthStart) {
+      throw this.invalidBundleError(
+        `Expected the length of an element at offset ${lengthStart}.`
+      );
+    }
+
+    const lengthString = decodeUtf8(this.buffer, lengthStart, this.offset);
+    const length = Number(lengthString);
+    if (this.offset + length > this.buffer.length) {
+      throw this.invalidBundleError(
+        `The element at offset ${lengthStart} is longer than the remaining ` +
+          'bundle.'
+      );
+    }
+
+    const json = decodeUtf8(this.buffer, this.offset, this.offset + length);
+    this.offset += length;
+
+    let payload: bundleProto.BundleElement;
+    try {
+      payload = JSON.parse(json) as bundleProto.BundleElement;
+    } catch (e) {
+      throw this.invalidBundleError(
+        `The element at offset ${lengthStart} is not valid JSON: ${e.message}`
+      );
+    }
+    return new SizedBundleElement(payload, lengthString.length + length);
+  }
+
+  private invalidBundleError(reason: string): FirestoreError {
+    return new FirestoreError(
+      Code.INVALID_ARGUMENT,
+      'Invalid bundle. ' + reason
+    );
+  }
+}
+
+/** Encodes a string as UTF-8. */
+function encodeUtf8(value: string): Uint8Array {
+  const bytes: number[] = [];
+  for (let i = 0; i < value.length; ++i) {
+    let codePoint = value.charCodeAt(i);
+    // Combine surrogate pairs into a single code point.
+    if (codePoint >= 0xd800 && codePoint <= 0xdbff && i + 1 < value.length) {
+      const low = value.charCodeAt(i + 1);
+      if (low >= 0xdc00 && low <= 0xdfff) {
+        codePoint = 0x10000 + ((codePoint - 0xd800) << 10) + (low - 0xdc00);
+        ++i;
+      }
+    }
+
+    if (codePoint < 0x80) {
+      bytes.push(codePoint);
+    } else if (codePoint < 0x800) {
+      bytes.push(0xc0 | (codePoint >> 6), 0x80 | (codePoint & 0x3f));
+    } else if (codePoint < 0x10000) {
+      bytes.push(
+        0xe0 | (codePoint >> 12),
+        0x80 | ((codePoint >> 6) & 0x3f),
+        0x80 | (codePoint & 0x3f)
+      );
+    } else {
+      bytes.push(
+        0xf0 | (codePoint >> 18),
+        0x80 | ((codePoint >> 12) & 0x3f),
+        0x80 | ((codePoint >> 6) & 0x3f),
+        0x80 | (codePoint & 0x3f)
+      );
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+/** Decodes the UTF-8 encoded bytes in the range [start, end) of `bytes`. */
+function decodeUtf8(bytes: Uint8Array, start: number, end: number): string {
+  let result = '';
+  let i = start;
+  while (i < end) {
+    const byte = bytes[i++];
+    let codePoint: number;
+    if (byte < 0x80) {
+      codePoint = byte;
+    } else if (byte < 0xe0) {
+      codePoint = ((byte & 0x1f) << 6) | (bytes[i++] & 0x3f);
+    } else if (byte < 0xf0) {
+      codePoint =
+        ((byte & 0x0f) << 12) |
+        ((bytes[i++] & 0x3f) << 6) |
+        (bytes[i++] & 0x3f);
+    } else {
+      codePoint =
+        ((byte & 0x07) << 18) |
+        ((bytes[i++] & 0x3f) << 12) |
+        ((bytes[i++] & 0x3f) << 6) |
+        (bytes[i++] & 0x3f);
+    }
+
+    if (codePoint >= 0x10000) {
+      // Split code points outside of the BMP into a surrogate pair.
+      codePoint -= 0x10000;
+      result += String.fromCharCode(
+        0xd800 + (codePoint >> 10),
+        0xdc00 + (codePoint & 0x3ff)
+      );
+    } else {
+      result += String.fromCharCode(codePoint);
+    }
+  }
+  return result;
+}
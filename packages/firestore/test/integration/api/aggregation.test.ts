@@ -0,0 +1,92 @@
+/**
+ * Copyright 2019 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+
+import { apiDescribe, withTestCollection } from '../util/helpers';
+
+apiDescribe('Aggregation queries', persistence => {
+  const testDocs = {
+    a: { k: 'a', n: 1 },
+    b: { k: 'b', n: 2.5 },
+    c: { k: 'c', n: 'not a number' },
+    d: { k: 'd' }
+  };
+
+  it('can count documents', () => {
+    return withTestCollection(persistence, testDocs, coll => {
+      return coll
+        .count()
+        .get()
+        .then(snapshot => {
+          expect(snapshot.data()).to.deep.equal({ count: 4 });
+        });
+    });
+  });
+
+  it('can count the results of a filtered query', () => {
+    return withTestCollection(persistence, testDocs, coll => {
+      return coll
+        .where('k', '>=', 'b')
+        .limit(2)
+        .count()
+        .get()
+        .then(snapshot => {
+          expect(snapshot.data().count).to.equal(2);
+        });
+    });
+  });
+
+  it('can sum and average numeric fields', () => {
+    return withTestCollection(persistence, testDocs, coll => {
+      return Promise.all([coll.sum('n').get(), coll.average('n').get()]).then(
+        ([sum, average]) => {
+          expect(sum.data()).to.deep.equal({ sum: 3.5 });
+          expect(average.data()).to.deep.equal({ average: 1.75 });
+        }
+      );
+    });
+  });
+
+  it('returns defaults for empty result sets', () => {
+    return withTestCollection(persistence, {}, coll => {
+      return Promise.all([
+        coll.count().get(),
+        coll.sum('n').get(),
+        coll.average('n').get()
+      ]).then(([count, sum, average]) => {
+        expect(count.data()).to.deep.equal({ count: 0 });
+        expect(sum.data()).to.deep.equal({ sum: 0 });
+        expect(average.data()).to.deep.equal({ average: null });
+      });
+    });
+  });
+
+  it('fails while the network is disabled', () => {
+    return withTestCollection(persistence, testDocs, coll => {
+      return coll.firestore
+        .disableNetwork()
+        .then(() => coll.count().get())
+        .then(
+          () => expect.fail('aggregation query should fail'),
+          err => {
+            expect(err.code).to.equal('unavailable');
+          }
+        )
+        .then(() => coll.firestore.enableNetwork());
+    });
+  });
+});
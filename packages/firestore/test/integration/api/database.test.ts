@@ -20,6 +20,7 @@ import * as firestore from '@firebase/firestore-types';
 import { Deferred } from '../../util/promise';
 import firebase from '../util/firebase_export';
 import {
+  DEFAULT_SETTINGS,
   apiDescribe,
   arrayContainsOp,
   withTestCollection,
@@ -821,4 +822,457 @@ apiDescribe('Database', persistence => {
       await db.enableNetwork();
     });
   });
+
+  it('resolves waitForPendingWrites() without pending writes', () => {
+    return withTestDb(persistence, db => db.waitForPendingWrites());
+  });
+
+  it('waits for pending writes to be acknowledged', () => {
+    return withTestDoc(persistence, async docRef => {
+      const db = docRef.firestore;
+      await db.disableNetwork();
+
+      const writePromise = docRef.set({ foo: 'bar' });
+      let pendingWritesResolved = false;
+      const pendingWritesPromise = db.waitForPendingWrites().then(() => {
+        pendingWritesResolved = true;
+      });
+
+      // The write can only be acknowledged once the network is enabled.
+      await docRef.get();
+      expect(pendingWritesResolved).to.be.false;
+
+      await db.enableNetwork();
+      await pendingWritesPromise;
+      await writePromise;
+    });
+  });
+
+  describe('getAll()', () => {
+    const initialDocs = {
+      a: { foo: 'a', bar: { baz: 1, qux: 2 } },
+      b: { foo: 'b', bar: { baz: 3, qux: 4 } }
+    };
+
+    it('reads documents in the order of the references', () => {
+      return withTestCollection(persistence, initialDocs, async coll => {
+        const snapshots = await coll.firestore.getAll(
+          coll.doc('b'),
+          coll.doc('missing'),
+          coll.doc('a')
+        );
+        expect(snapshots.map(snapshot => snapshot.id)).to.deep.equal([
+          'b',
+          'missing',
+          'a'
+        ]);
+        expect(snapshots.map(snapshot => snapshot.data())).to.deep.equal([
+          initialDocs.b,
+          undefined,
+          initialDocs.a
+        ]);
+        for (const snapshot of snapshots) {
+          expect(snapshot.metadata.fromCache).to.be.false;
+          expect(snapshot.metadata.hasPendingWrites).to.be.false;
+        }
+      });
+    });
+
+    it('only returns the fields in the field mask', () => {
+      return withTestCollection(persistence, initialDocs, async coll => {
+        const snapshots = await coll.firestore.getAll(
+          coll.doc('a'),
+          coll.doc('b'),
+          { fieldMask: ['foo', new firebase.firestore.FieldPath('bar', 'baz')] }
+        );
+        expect(snapshots.map(snapshot => snapshot.data())).to.deep.equal([
+          { foo: 'a', bar: { baz: 1 } },
+          { foo: 'b', bar: { baz: 3 } }
+        ]);
+      });
+    });
+
+    it('merges pending writes', () => {
+      return withTestCollection(persistence, initialDocs, async coll => {
+        const writePromise = coll.doc('a').update({ foo: 'updated' });
+        const [snapshot] = await coll.firestore.getAll(coll.doc('a'));
+        await writePromise;
+        expect(snapshot.data()).to.deep.equal({
+          foo: 'updated',
+          bar: { baz: 1, qux: 2 }
+        });
+      });
+    });
+
+    it('reads documents from the cache while offline', () => {
+      return withTestCollection(persistence, initialDocs, async coll => {
+        const db = coll.firestore;
+        // Register a listener to keep the documents in the cache.
+        const unsubscribe = coll.onSnapshot(() => {});
+        await coll.get();
+        await db.disableNetwork();
+
+        const snapshots = await db.getAll(coll.doc('a'), coll.doc('b'));
+        expect(snapshots.map(snapshot => snapshot.data())).to.deep.equal([
+          initialDocs.a,
+          initialDocs.b
+        ]);
+        for (const snapshot of snapshots) {
+          expect(snapshot.metadata.fromCache).to.be.true;
+        }
+
+        await db.getAll(coll.doc('a'), { source: 'server' }).then(
+          () => {
+            expect.fail('getAll() should not have succeeded!');
+          },
+          (err: firestore.FirestoreError) => {
+            expect(err.code).to.equal('unavailable');
+          }
+        );
+        unsubscribe();
+      });
+    });
+
+    it('fails for documents that are not cached with source=cache', () => {
+      return withTestCollection(persistence, initialDocs, async coll => {
+        await coll.firestore.getAll(coll.doc('a'), { source: 'cache' }).then(
+          () => {
+            expect.fail('getAll() should not have succeeded!');
+          },
+          (err: firestore.FirestoreError) => {
+            expect(err.code).to.equal('unavailable');
+          }
+        );
+      });
+    });
+  });
+
+  it('can not clear persistence after the client has been started', () => {
+    return withTestDb(persistence, async db => {
+      await db
+        .collection('test-collection')
+        .doc()
+        .set({ foo: 'bar' });
+      await db.clearPersistence().then(
+        () => {
+          expect.fail('clearPersistence should not have succeeded!');
+        },
+        (err: firestore.FirestoreError) => {
+          expect(err.code).to.equal('failed-precondition');
+        }
+      );
+    });
+  });
+
+  it('can clear persistence after the client has been terminated', () => {
+    return withTestDb(persistence, async db => {
+      await db
+        .collection('test-collection')
+        .doc()
+        .set({ foo: 'bar' });
+      await db.terminate();
+      // Clearing persistence requires IndexedDB, which is only used by the
+      // persistent client.
+      if (persistence) {
+        await db.clearPersistence();
+      }
+    });
+  });
+
+  it('can clear persistence without waiting for terminate()', () => {
+    return withTestDb(persistence, async db => {
+      await db
+        .collection('test-collection')
+        .doc()
+        .set({ foo: 'bar' });
+      const terminated = db.terminate();
+      // Clearing persistence requires IndexedDB, which is only used by the
+      // persistent client.
+      if (persistence) {
+        await db.clearPersistence();
+      }
+      await terminated;
+    });
+  });
+
+  it('starts with an empty cache after persistence was cleared', () => {
+    return withTestDb(persistence, async db => {
+      // Clearing persistence requires IndexedDB, which is only used by the
+      // persistent client.
+      if (!persistence) {
+        return;
+      }
+      const app = db.app;
+      const docRef = db.collection('test-collection').doc();
+      await docRef.set({ foo: 'bar' });
+      const cachedDoc = await docRef.get({ source: 'cache' });
+      expect(cachedDoc.data()).to.deep.equal({ foo: 'bar' });
+
+      await db.terminate();
+      await db.clearPersistence();
+
+      const newDb = firebase.firestore(app);
+      newDb.settings(DEFAULT_SETTINGS);
+      await newDb.enablePersistence();
+      let errCaught = false;
+      try {
+        await newDb.doc(docRef.path).get({ source: 'cache' });
+      } catch (err) {
+        expect(err.code).to.equal('unavailable');
+        errCaught = true;
+      }
+      expect(errCaught).to.be.true;
+      await newDb.terminate();
+    });
+  });
+
+  it('fails API calls after the client has been terminated', () => {
+    return withTestDoc(persistence, async docRef => {
+      const db = docRef.firestore;
+      await db.terminate();
+
+      expect(() => docRef.set({ foo: 'bar' })).to.throw(
+        'The client has already been terminated.'
+      );
+      await docRef.get().then(
+        () => {
+          expect.fail('get() should not have succeeded!');
+        },
+        (err: firestore.FirestoreError) => {
+          expect(err.code).to.equal('failed-precondition');
+        }
+      );
+    });
+  });
+
+  it('rejects pending writes when the client is terminated', () => {
+    return withTestDoc(persistence, async docRef => {
+      const db = docRef.firestore;
+      await db.disableNetwork();
+
+      const writePromise = docRef.set({ foo: 'bar' });
+      await db.terminate();
+      await writePromise.then(
+        () => {
+          expect.fail('The write should not have been acknowledged!');
+        },
+        (err: firestore.FirestoreError) => {
+          expect(err.code).to.equal('cancelled');
+        }
+      );
+    });
+  });
+
+  it('creates a new instance after the client has been terminated', () => {
+    return withTestDb(persistence, async db => {
+      const app = db.app;
+      await db.terminate();
+
+      const newDb = firebase.firestore(app);
+      expect(newDb).to.not.equal(db);
+      await newDb.terminate();
+    });
+  });
+
+  it('can recreate snapshots from their JSON representation', () => {
+    const docs = {
+      a: {
+        timestamp: Timestamp.fromMillis(1234),
+        geoPoint: new firebase.firestore.GeoPoint(1.5, -2.5),
+        blob: firebase.firestore.Blob.fromUint8Array(new Uint8Array([0, 255])),
+        nan: NaN,
+        array: [1, 'foo', { nested: true }],
+        order: 1
+      },
+      b: { map: { a: { b: 'c' } }, order: 2 },
+      c: { order: 3 }
+    };
+    return withTestCollection(persistence, docs, async coll => {
+      const db = coll.firestore;
+      await coll.doc('b').update({ reference: coll.doc('a') });
+
+      const docSnapshot = await coll.doc('a').get();
+      const docCopy = db.snapshotFromJSON(
+        JSON.parse(JSON.stringify(docSnapshot))
+      ) as firestore.DocumentSnapshot;
+      expect(docCopy.isEqual(docSnapshot)).to.be.true;
+
+      const missingSnapshot = await coll.doc('missing').get();
+      const missingCopy = db.snapshotFromJSON(
+        JSON.parse(JSON.stringify(missingSnapshot))
+      ) as firestore.DocumentSnapshot;
+      expect(missingCopy.exists).to.be.false;
+      expect(missingCopy.isEqual(missingSnapshot)).to.be.true;
+
+      const querySnapshot = await coll
+        .orderBy('order')
+        .limitToLast(2)
+        .get();
+      const queryCopy = db.snapshotFromJSON(
+        JSON.parse(JSON.stringify(querySnapshot))
+      ) as firestore.QuerySnapshot;
+      expect(queryCopy.query.isEqual(querySnapshot.query)).to.be.true;
+      expect(queryCopy.metadata.isEqual(querySnapshot.metadata)).to.be.true;
+      expect(queryCopy.docs.map(doc => doc.id)).to.deep.equal(['b', 'c']);
+      queryCopy.docs.forEach((doc, i) => {
+        expect(doc.isEqual(querySnapshot.docs[i])).to.be.true;
+      });
+    });
+  });
+
+  it('cannot convert documents with pending server timestamps to JSON', () => {
+    return withTestDoc(persistence, async docRef => {
+      await docRef.firestore.disableNetwork();
+      // The write does not complete while the network is disabled.
+      docRef.set({ time: firebase.firestore.FieldValue.serverTimestamp() });
+      const localSnapshot = await docRef.get({ source: 'cache' });
+      expect(localSnapshot.metadata.hasPendingWrites).to.be.true;
+      expect(() => localSnapshot.toJSON()).to.throw(
+        /contains server timestamps that have not been written to the backend/
+      );
+      await docRef.firestore.enableNetwork();
+    });
+  });
+
+  describe('withConverter() support', () => {
+    class Post {
+      constructor(readonly title: string, readonly author: string) {}
+      byline(): string {
+        return this.title + ', by ' + this.author;
+      }
+    }
+
+    const postConverter = {
+      toFirestore(post: Post): firestore.DocumentData {
+        return { title: post.title, author: post.author };
+      },
+      fromFirestore(
+        snapshot: firestore.QueryDocumentSnapshot,
+        options: firestore.SnapshotOptions
+      ): Post {
+        const data = snapshot.data(options);
+        return new Post(data.title, data.author);
+      }
+    };
+
+    it('for DocumentReference.withConverter()', () => {
+      return withTestDb(persistence, async db => {
+        const docRef = db
+          .collection('posts')
+          .doc()
+          .withConverter(postConverter);
+
+        await docRef.set(new Post('post', 'author'));
+        const postData = await docRef.get();
+        const post = postData.data();
+        expect(post).to.not.equal(undefined);
+        expect(post!.byline()).to.equal('post, by author');
+      });
+    });
+
+    it('for CollectionReference.withConverter()', () => {
+      return withTestDb(persistence, async db => {
+        const coll = db.collection('posts').withConverter(postConverter);
+
+        const docRef = await coll.add(new Post('post', 'author'));
+        const postData = await docRef.get();
+        const post = postData.data();
+        expect(post).to.not.equal(undefined);
+        expect(post!.byline()).to.equal('post, by author');
+      });
+    });
+
+    it('calls toFirestore() once in CollectionReference.add()', () => {
+      return withTestDb(persistence, async db => {
+        let toFirestoreCalls = 0;
+        const coll = db.collection('posts').withConverter({
+          toFirestore(post: Post): firestore.DocumentData {
+            toFirestoreCalls++;
+            return postConverter.toFirestore(post);
+          },
+          fromFirestore: postConverter.fromFirestore
+        });
+
+        await coll.add(new Post('post', 'author'));
+        expect(toFirestoreCalls).to.equal(1);
+      });
+    });
+
+    it('for Query.withConverter()', () => {
+      return withTestDb(persistence, async db => {
+        await db
+          .doc('postings/post1')
+          .set({ title: 'post1', author: 'author1' });
+        await db
+          .doc('postings/post2')
+          .set({ title: 'post2', author: 'author2' });
+        const posts = await db
+          .collection('postings')
+          .withConverter(postConverter)
+          .get();
+        expect(posts.size).to.equal(2);
+        expect(posts.docs[0].data().byline()).to.equal('post1, by author1');
+      });
+    });
+
+    it('keeps the converter when calling parent() with a DocumentReference', () => {
+      return withTestDb(persistence, async db => {
+        const coll = db.doc('root/document').withConverter(postConverter)
+          .parent;
+        expect(
+          coll.isEqual(db.collection('root').withConverter(postConverter))
+        ).to.equal(true);
+      });
+    });
+
+    it('drops the converter when calling CollectionReference<T>.parent()', () => {
+      return withTestDb(persistence, async db => {
+        const postsCollection = db
+          .collection('users/user1/posts')
+          .withConverter(postConverter);
+
+        const usersCollection = postsCollection.parent;
+        expect(usersCollection!.isEqual(db.doc('users/user1'))).to.equal(true);
+      });
+    });
+
+    it('checks converter when comparing with isEqual()', () => {
+      return withTestDb(persistence, async db => {
+        const postConverter2 = { ...postConverter };
+
+        const postsCollection = db
+          .collection('users/user1/posts')
+          .withConverter(postConverter);
+        const postsCollection2 = db
+          .collection('users/user1/posts')
+          .withConverter(postConverter2);
+        expect(postsCollection.isEqual(postsCollection2)).to.equal(false);
+
+        const docRef = db.doc('some/doc').withConverter(postConverter);
+        const docRef2 = db.doc('some/doc').withConverter(postConverter2);
+        expect(docRef.isEqual(docRef2)).to.equal(false);
+      });
+    });
+
+    it('applies the converter in transactions and write batches', () => {
+      return withTestDb(persistence, async db => {
+        const ref = db
+          .collection('posts')
+          .doc()
+          .withConverter(postConverter);
+
+        await db
+          .batch()
+          .set(ref, new Post('post', 'author'))
+          .commit();
+        await db.runTransaction(async tx => {
+          const snapshot = await tx.get(ref);
+          expect(snapshot.data()!.byline()).to.equal('post, by author');
+          tx.set(ref, new Post('post2', 'author2'));
+        });
+        const post = (await ref.get()).data();
+        expect(post!.byline()).to.equal('post2, by author2');
+      });
+    });
+  });
 });
@@ -25,6 +25,7 @@ import {
   toChangesArray,
   toDataArray,
   withTestCollection,
+  withTestDb,
   arrayContainsOp
 } from '../util/helpers';
 import { Deferred } from '../../util/promise';
@@ -72,6 +73,66 @@ apiDescribe('Queries', persistence => {
     });
   });
 
+  it('can issue limitToLast queries using ascending sort order', () => {
+    const testDocs = {
+      a: { k: 'a', sort: 0 },
+      b: { k: 'b', sort: 1 },
+      c: { k: 'c', sort: 1 },
+      d: { k: 'd', sort: 2 }
+    };
+    return withTestCollection(persistence, testDocs, collection => {
+      return collection
+        .orderBy('sort')
+        .limitToLast(2)
+        .get()
+        .then(docs => {
+          expect(toDataArray(docs)).to.deep.equal([
+            { k: 'c', sort: 1 },
+            { k: 'd', sort: 2 }
+          ]);
+        });
+    });
+  });
+
+  it('can listen to limitToLast queries with bounds', () => {
+    const testDocs = {
+      a: { k: 'a', sort: 0 },
+      b: { k: 'b', sort: 1 },
+      c: { k: 'c', sort: 2 },
+      d: { k: 'd', sort: 3 }
+    };
+    return withTestCollection(persistence, testDocs, async collection => {
+      const storeEvent = new EventsAccumulator<firestore.QuerySnapshot>();
+      const unlisten = collection
+        .orderBy('sort')
+        .endBefore(3)
+        .limitToLast(2)
+        .onSnapshot(storeEvent.storeEvent);
+
+      let snapshot = await storeEvent.awaitEvent();
+      expect(toDataArray(snapshot)).to.deep.equal([
+        { k: 'b', sort: 1 },
+        { k: 'c', sort: 2 }
+      ]);
+
+      await collection.add({ k: 'e', sort: 1.5 });
+      snapshot = await storeEvent.awaitEvent();
+      expect(toDataArray(snapshot)).to.deep.equal([
+        { k: 'e', sort: 1.5 },
+        { k: 'c', sort: 2 }
+      ]);
+      unlisten();
+    });
+  });
+
+  it('throws for limitToLast queries without orderBy', () => {
+    return withTestCollection(persistence, {}, async collection => {
+      expect(() => collection.limitToLast(2).get()).to.throw(
+        'limitToLast() queries require specifying at least one orderBy() clause'
+      );
+    });
+  });
+
   it('key order is descending for descending inequality', () => {
     const testDocs = {
       a: {
@@ -575,6 +636,308 @@ apiDescribe('Queries', persistence => {
     });
   });
 
+  it('can use IN filters', async () => {
+    const testDocs = {
+      a: { zip: 98101 },
+      b: { zip: 91102 },
+      c: { zip: 98103 },
+      d: { zip: [98101] },
+      e: { zip: ['98101', { zip: 98101 }] },
+      f: { zip: { code: 500 } }
+    };
+
+    await withTestCollection(persistence, testDocs, async coll => {
+      let snapshot = await coll.where('zip', 'in', [98101, 98103]).get();
+      expect(toDataArray(snapshot)).to.deep.equal([
+        { zip: 98101 },
+        { zip: 98103 }
+      ]);
+
+      // With objects.
+      snapshot = await coll.where('zip', 'in', [{ code: 500 }]).get();
+      expect(toDataArray(snapshot)).to.deep.equal([{ zip: { code: 500 } }]);
+    });
+  });
+
+  it('can use IN filters by document ID', async () => {
+    const testDocs = {
+      aa: { key: 'aa' },
+      ab: { key: 'ab' },
+      ba: { key: 'ba' },
+      bb: { key: 'bb' }
+    };
+    await withTestCollection(persistence, testDocs, async coll => {
+      const snapshot = await coll
+        .where(firebase.firestore.FieldPath.documentId(), 'in', [
+          'aa',
+          coll.doc('ab')
+        ])
+        .get();
+      expect(toDataArray(snapshot)).to.deep.equal([
+        { key: 'aa' },
+        { key: 'ab' }
+      ]);
+    });
+  });
+
+  it('can use != filters', async () => {
+    const testDocs = {
+      a: { zip: Number.NaN },
+      b: { zip: 91102 },
+      c: { zip: 98101 },
+      d: { zip: '98101' },
+      e: { zip: [98101] },
+      f: { zip: { code: 500 } },
+      g: { code: 500 },
+      h: { zip: null }
+    };
+
+    await withTestCollection(persistence, testDocs, async coll => {
+      let snapshot = await coll.where('zip', '!=', 98101).get();
+      expect(toDataArray(snapshot)).to.deep.equal([
+        { zip: Number.NaN },
+        { zip: 91102 },
+        { zip: '98101' },
+        { zip: [98101] },
+        { zip: { code: 500 } }
+      ]);
+
+      // With null.
+      snapshot = await coll.where('zip', '!=', null).get();
+      expect(toDataArray(snapshot)).to.deep.equal([
+        { zip: Number.NaN },
+        { zip: 91102 },
+        { zip: 98101 },
+        { zip: '98101' },
+        { zip: [98101] },
+        { zip: { code: 500 } }
+      ]);
+
+      // With NaN.
+      snapshot = await coll.where('zip', '!=', Number.NaN).get();
+      expect(toDataArray(snapshot)).to.deep.equal([
+        { zip: 91102 },
+        { zip: 98101 },
+        { zip: '98101' },
+        { zip: [98101] },
+        { zip: { code: 500 } }
+      ]);
+    });
+  });
+
+  it('can use != filters by document ID', async () => {
+    const testDocs = {
+      aa: { key: 'aa' },
+      ab: { key: 'ab' },
+      ba: { key: 'ba' },
+      bb: { key: 'bb' }
+    };
+    await withTestCollection(persistence, testDocs, async coll => {
+      const snapshot = await coll
+        .where(firebase.firestore.FieldPath.documentId(), '!=', 'aa')
+        .get();
+      expect(toDataArray(snapshot)).to.deep.equal([
+        { key: 'ab' },
+        { key: 'ba' },
+        { key: 'bb' }
+      ]);
+    });
+  });
+
+  it('can use not-in filters', async () => {
+    const testDocs = {
+      a: { zip: 98101 },
+      b: { zip: 91102 },
+      c: { zip: 98103 },
+      d: { zip: [98101] },
+      e: { zip: ['98101', { zip: 98101 }] },
+      f: { zip: { code: 500 } },
+      g: { code: 500 },
+      h: { zip: null },
+      i: { zip: Number.NaN }
+    };
+
+    await withTestCollection(persistence, testDocs, async coll => {
+      let snapshot = await coll.where('zip', 'not-in', [98101, 98103]).get();
+      expect(toDataArray(snapshot)).to.deep.equal([
+        { zip: Number.NaN },
+        { zip: 91102 },
+        { zip: [98101] },
+        { zip: ['98101', { zip: 98101 }] },
+        { zip: { code: 500 } }
+      ]);
+
+      // With objects.
+      snapshot = await coll.where('zip', 'not-in', [{ code: 500 }]).get();
+      expect(toDataArray(snapshot)).to.deep.equal([
+        { zip: Number.NaN },
+        { zip: 91102 },
+        { zip: 98101 },
+        { zip: 98103 },
+        { zip: [98101] },
+        { zip: ['98101', { zip: 98101 }] }
+      ]);
+
+      // With null.
+      snapshot = await coll.where('zip', 'not-in', [null]).get();
+      expect(toDataArray(snapshot)).to.deep.equal([]);
+    });
+  });
+
+  it('can use not-in filters by document ID', async () => {
+    const testDocs = {
+      aa: { key: 'aa' },
+      ab: { key: 'ab' },
+      ba: { key: 'ba' },
+      bb: { key: 'bb' }
+    };
+    await withTestCollection(persistence, testDocs, async coll => {
+      const snapshot = await coll
+        .where(firebase.firestore.FieldPath.documentId(), 'not-in', [
+          'aa',
+          coll.doc('ab')
+        ])
+        .get();
+      expect(toDataArray(snapshot)).to.deep.equal([
+        { key: 'ba' },
+        { key: 'bb' }
+      ]);
+    });
+  });
+
+  it('can use array-contains-any filters', async () => {
+    const testDocs = {
+      a: { array: [42] },
+      b: { array: ['a', 42, 'c'] },
+      c: { array: [41.999, '42', { a: [42] }] },
+      d: { array: [42], array2: ['bingo'] },
+      e: { array: [43] },
+      f: { array: [{ a: 42 }] },
+      g: { array: 42 }
+    };
+
+    await withTestCollection(persistence, testDocs, async coll => {
+      let snapshot = await coll
+        .where('array', 'array-contains-any', [42, 43])
+        .get();
+      expect(toDataArray(snapshot)).to.deep.equal([
+        { array: [42] },
+        { array: ['a', 42, 'c'] },
+        { array: [42], array2: ['bingo'] },
+        { array: [43] }
+      ]);
+
+      // With objects.
+      snapshot = await coll
+        .where('array', 'array-contains-any', [{ a: 42 }])
+        .get();
+      expect(toDataArray(snapshot)).to.deep.equal([{ array: [{ a: 42 }] }]);
+    });
+  });
+
+  it('can query collection groups', async () => {
+    await withTestDb(persistence, async db => {
+      // Use .doc() to get a random collection group name to use but ensure it
+      // starts with 'b' for predictable ordering.
+      const collectionGroup = 'b' + db.collection('foo').doc().id;
+
+      const docPaths = [
+        `abc/123/${collectionGroup}/cg-doc1`,
+        `abc/123/${collectionGroup}/cg-doc2`,
+        `${collectionGroup}/cg-doc3`,
+        `${collectionGroup}/cg-doc4`,
+        `def/456/${collectionGroup}/cg-doc5`,
+        `${collectionGroup}/virtual-doc/nested-coll/not-cg-doc`,
+        `x${collectionGroup}/not-cg-doc`,
+        `${collectionGroup}x/not-cg-doc`,
+        `abc/123/${collectionGroup}x/not-cg-doc`,
+        `abc/123/x${collectionGroup}/not-cg-doc`,
+        `abc/${collectionGroup}`
+      ];
+      const batch = db.batch();
+      for (const docPath of docPaths) {
+        batch.set(db.doc(docPath), { x: 1 });
+      }
+      await batch.commit();
+
+      const querySnapshot = await db.collectionGroup(collectionGroup).get();
+      expect(querySnapshot.docs.map(d => d.id)).to.deep.equal([
+        'cg-doc1',
+        'cg-doc2',
+        'cg-doc3',
+        'cg-doc4',
+        'cg-doc5'
+      ]);
+    });
+  });
+
+  it('can query collection groups with filters', async () => {
+    await withTestDb(persistence, async db => {
+      const collectionGroup = 'b' + db.collection('foo').doc().id;
+
+      const batch = db.batch();
+      batch.set(db.doc(`a/a/${collectionGroup}/cg-doc1`), { value: 1 });
+      batch.set(db.doc(`a/b/${collectionGroup}/cg-doc2`), { value: 2 });
+      batch.set(db.doc(`b/a/${collectionGroup}/cg-doc3`), { value: 3 });
+      await batch.commit();
+
+      let querySnapshot = await db
+        .collectionGroup(collectionGroup)
+        .where('value', '>=', 2)
+        .get();
+      expect(querySnapshot.docs.map(d => d.id)).to.deep.equal([
+        'cg-doc2',
+        'cg-doc3'
+      ]);
+
+      querySnapshot = await db
+        .collectionGroup(collectionGroup)
+        .orderBy(firebase.firestore.FieldPath.documentId())
+        .startAt('a/b')
+        .endAt('a/b0')
+        .get();
+      expect(querySnapshot.docs.map(d => d.id)).to.deep.equal(['cg-doc2']);
+    });
+  });
+
+  it('can query the cache with field indexes', async () => {
+    const testDocs = {
+      a: { zip: 98101 },
+      b: { zip: 91102 },
+      c: { zip: [98101, 98103] },
+      d: { code: 98101 }
+    };
+
+    await withTestCollection(persistence, testDocs, async coll => {
+      await coll.firestore.setIndexConfiguration({
+        indexes: [{ collectionGroup: coll.id, fieldPath: 'zip' }]
+      });
+
+      // Keep the documents in the cache while querying it.
+      const accumulator = new EventsAccumulator<firestore.QuerySnapshot>();
+      const unsubscribe = coll.onSnapshot(accumulator.storeEvent);
+      await accumulator.awaitRemoteEvent();
+
+      let snapshot = await coll
+        .where('zip', '==', 98101)
+        .get({ source: 'cache' });
+      expect(toDataArray(snapshot)).to.deep.equal([{ zip: 98101 }]);
+
+      snapshot = await coll
+        .where('zip', arrayContainsOp, 98103)
+        .get({ source: 'cache' });
+      expect(toDataArray(snapshot)).to.deep.equal([{ zip: [98101, 98103] }]);
+
+      snapshot = await coll.where('zip', '>', 90000).get({ source: 'cache' });
+      expect(toDataArray(snapshot)).to.deep.equal([
+        { zip: 91102 },
+        { zip: 98101 }
+      ]);
+
+      unsubscribe();
+    });
+  });
+
   it('throws custom error when using docChanges as property', () => {
     const querySnap = querySnapshot('foo/bar', {}, {}, false, false, false);
 
@@ -531,6 +531,93 @@ apiDescribe('Database transactions', persistence => {
     });
   });
 
+  it('fail after the maximum number of attempts', () => {
+    return integrationHelpers.withTestDb(persistence, db => {
+      const doc = db.collection('counters').doc();
+      let attempts = 0;
+      return doc
+        .set({ count: 1 })
+        .then(() => {
+          return db.runTransaction(
+            transaction => {
+              ++attempts;
+              return transaction.get(doc).then(snapshot => {
+                // Modify the document outside of the transaction, so that the
+                // commit fails.
+                return doc.set({ count: attempts + 1 }).then(() => {
+                  transaction.set(doc, { count: snapshot.data()!['count'] });
+                });
+              });
+            },
+            { maxAttempts: 2 }
+          );
+        })
+        .then(() => expect.fail('transaction should fail'))
+        .catch(err => {
+          expect(err).to.exist;
+          expect(err.message).to.contain('Transaction failed after 2 attempt');
+          expect(attempts).to.equal(2);
+        });
+    });
+  });
+
+  it('can read documents in read-only transactions', () => {
+    return integrationHelpers.withTestDb(persistence, db => {
+      const doc1 = db.collection('towns').doc();
+      const doc2 = db.collection('towns').doc();
+      return doc1
+        .set({ foo: 'bar' })
+        .then(() => {
+          return db.runTransaction(
+            transaction => {
+              return transaction
+                .get(doc1)
+                .then(snapshot1 =>
+                  transaction
+                    .get(doc2)
+                    .then(snapshot2 => [snapshot1, snapshot2])
+                );
+            },
+            { readOnly: true }
+          );
+        })
+        .then(([snapshot1, snapshot2]) => {
+          expect(snapshot1.data()).to.deep.equal({ foo: 'bar' });
+          expect(snapshot2.exists).to.be.false;
+        });
+    });
+  });
+
+  it('cannot write in read-only transactions', () => {
+    return integrationHelpers.withTestDb(persistence, db => {
+      const doc = db.collection('towns').doc();
+      let attempts = 0;
+      return db
+        .runTransaction(
+          async transaction => {
+            ++attempts;
+            transaction.set(doc, { foo: 'bar' });
+          },
+          { readOnly: true }
+        )
+        .then(() => expect.fail('transaction should fail'))
+        .catch(err => {
+          expect(err).to.exist;
+          expect(err.code).to.equal('failed-precondition');
+          expect(err.message).to.contain(
+            'Cannot write in a read-only transaction.'
+          );
+          expect(attempts).to.equal(1);
+          return doc.get();
+        })
+        .then(snapshot => {
+          expect((snapshot as firestore.DocumentSnapshot).exists).to.equal(
+            false
+          );
+        });
+    });
+  });
+
   it('are successful with no transaction operations', () => {
     return integrationHelpers.withTestDb(persistence, db => {
       return db.runTransaction(async txn => {});
@@ -125,6 +125,40 @@ apiDescribe('Validation:', persistence => {
       );
     });
 
+    validationIt(persistence, 'validates cache size', db => {
+      expect(() => db.settings({ cacheSizeBytes: 'big' as any })).to.throw(
+        'Function settings() requires its cacheSizeBytes option to be of ' +
+          'type number, but it was: "big"'
+      );
+      expect(() => db.settings({ cacheSizeBytes: 1 })).to.throw(
+        'cacheSizeBytes must be at least 1048576'
+      );
+      expect(() =>
+        db.settings({ cacheSizeBytes: firebase.firestore.CACHE_SIZE_UNLIMITED })
+      ).to.not.throw();
+    });
+
+    validationIt(persistence, 'validates long-polling options', db => {
+      expect(() =>
+        db.settings({ experimentalForceLongPolling: 'yes' as any })
+      ).to.throw(
+        'Function settings() requires its experimentalForceLongPolling ' +
+          'option to be of type boolean, but it was: "yes"'
+      );
+      expect(() =>
+        db.settings({
+          experimentalForceLongPolling: true,
+          experimentalAutoDetectLongPolling: true
+        })
+      ).to.throw(
+        'experimentalForceLongPolling and experimentalAutoDetectLongPolling ' +
+          'cannot be used together.'
+      );
+      expect(() =>
+        db.settings({ experimentalAutoDetectLongPolling: true })
+      ).to.not.throw();
+    });
+
     validationIt(persistence, 'disallows changing settings after use', db => {
       db.doc('foo/bar');
       expect(() =>
@@ -162,6 +196,117 @@ apiDescribe('Validation:', persistence => {
       }
     );
 
+    validationIt(persistence, 'validates runTransaction() options', db => {
+      const fn = async () => {};
+      expect(() => db.runTransaction(fn, 'foo' as any)).to.throw(
+        'Function Firestore.runTransaction() requires its second argument ' +
+          'to be of type object, but it was: "foo"'
+      );
+      expect(() => db.runTransaction(fn, { foo: 1 } as any)).to.throw(
+        "Unknown option 'foo' passed to function Firestore.runTransaction(). " +
+          'Available options: maxAttempts, readOnly'
+      );
+      expect(() =>
+        db.runTransaction(fn, { maxAttempts: 'foo' as any })
+      ).to.throw(
+        'Function Firestore.runTransaction() requires its maxAttempts option ' +
+          'to be of type number, but it was: "foo"'
+      );
+      expect(() => db.runTransaction(fn, { maxAttempts: 0 })).to.throw(
+        'Function Firestore.runTransaction() requires its maxAttempts option ' +
+          'to be a positive integer, but it was: 0'
+      );
+      expect(() => db.runTransaction(fn, { maxAttempts: 1.5 })).to.throw(
+        'Function Firestore.runTransaction() requires its maxAttempts option ' +
+          'to be a positive integer, but it was: 1.5'
+      );
+      expect(() => db.runTransaction(fn, { readOnly: 1 as any })).to.throw(
+        'Function Firestore.runTransaction() requires its readOnly option ' +
+          'to be of type boolean, but it was: 1'
+      );
+    });
+
+    validationIt(persistence, 'validates getAll() arguments', db => {
+      const docRef = db.doc('foo/bar');
+      expect(() => (db as any).getAll()).to.throw(
+        'Function Firestore.getAll() requires at least 1 argument, but was ' +
+          'called with 0 arguments.'
+      );
+      expect(() => db.getAll({ source: 'cache' })).to.throw(
+        'Function Firestore.getAll() requires at least one DocumentReference.'
+      );
+      expect(() => db.getAll(docRef, 'foo' as any)).to.throw(
+        'Function Firestore.getAll() requires its first argument to be a ' +
+          'DocumentReference, but it was: "foo"'
+      );
+      expect(() => db.getAll(docRef, { foo: 'bar' } as any)).to.throw(
+        "Unknown option 'foo' passed to function Firestore.getAll(). " +
+          'Available options: source, fieldMask'
+      );
+      expect(() => db.getAll(docRef, { source: 'foo' as any })).to.throw(
+        'Invalid value "foo" provided to function Firestore.getAll() for ' +
+          'option "source". Acceptable values: "default", "server", "cache"'
+      );
+      expect(() =>
+        db.getAll(docRef, { fieldMask: ['foo', 1 as any] })
+      ).to.throw(
+        'Function Firestore.getAll() requires all fieldMask elements to be a ' +
+          'string or a FieldPath, but the value at index 1 was: 1'
+      );
+    });
+
+    validationIt(persistence, 'validates setIndexConfiguration()', db => {
+      expect(() => db.setIndexConfiguration('foo' as any)).to.throw(
+        'Function Firestore.setIndexConfiguration() requires its first ' +
+          'argument to be of type object, but it was: "foo"'
+      );
+      expect(() => db.setIndexConfiguration({ foo: [] } as any)).to.throw(
+        "Unknown option 'foo' passed to function " +
+          'Firestore.setIndexConfiguration(). Available options: indexes'
+      );
+      expect(() =>
+        db.setIndexConfiguration({ indexes: 'foo' as any })
+      ).to.throw(
+        'Function Firestore.setIndexConfiguration() requires its indexes ' +
+          'option to be an array, but it was: "foo"'
+      );
+      expect(() => db.setIndexConfiguration({ indexes: [1 as any] })).to.throw(
+        'Function Firestore.setIndexConfiguration() requires all indexes ' +
+          'elements to be objects, but the value at index 0 was: 1'
+      );
+      expect(() =>
+        db.setIndexConfiguration({
+          indexes: [{ collectionGroup: 'a/b', fieldPath: 'foo' }]
+        })
+      ).to.throw(
+        "Invalid collection ID 'a/b' passed to function " +
+          'Firestore.setIndexConfiguration(). Collection IDs must be ' +
+          "non-empty and must not contain '/'."
+      );
+      expect(() =>
+        db.setIndexConfiguration({
+          indexes: [{ collectionGroup: 'coll', fieldPath: 1 as any }]
+        })
+      ).to.throw(
+        'Function Firestore.setIndexConfiguration() called with invalid ' +
+          'data. Field path arguments must be of type string or FieldPath.'
+      );
+      expect(() =>
+        db.setIndexConfiguration({
+          indexes: [
+            {
+              collectionGroup: 'coll',
+              fieldPath: firebase.firestore.FieldPath.documentId()
+            }
+          ]
+        })
+      ).to.throw(
+        'Function Firestore.setIndexConfiguration() cannot create an index ' +
+          'on the document ID. Cached documents are already ordered by ' +
+          'their ID.'
+      );
+    });
+
     it("fails transaction if function doesn't return a Promise.", () => {
       return withTestDb(persistence, db => {
         return db.runTransaction(() => 5 as any).then(
@@ -230,6 +375,13 @@ apiDescribe('Validation:', persistence => {
     });
   });
 
+  validationIt(persistence, 'Collection group IDs must not contain /', db => {
+    expect(() => db.collectionGroup('foo/bar')).to.throw(
+      "Invalid collection ID 'foo/bar' passed to function " +
+        "Firestore.collectionGroup(). Collection IDs must not contain '/'."
+    );
+  });
+
   describe('Document paths', () => {
     validationIt(persistence, 'must be strings', db => {
       const baseCollectionRef = db.collection('foo');
@@ -596,14 +748,13 @@ apiDescribe('Validation:', persistence => {
   );
 
   describe('Array transforms', () => {
-    // TODO(array-features): Remove "as any"
     // tslint:disable-next-line:variable-name Type alias can be capitalized.
-    const FieldValue = firebase.firestore.FieldValue as any;
+    const FieldValue = firebase.firestore.FieldValue;
 
     validationIt(persistence, 'fail in queries', db => {
       const collection = db.collection('test');
       expect(() =>
-        collection.where('test', '==', { test: FieldValue._arrayUnion(1) })
+        collection.where('test', '==', { test: FieldValue.arrayUnion(1) })
       ).to.throw(
         'Function Query.where() called with invalid data. ' +
           'FieldValue.arrayUnion() can only be used with update() and set() ' +
@@ -611,7 +762,7 @@ apiDescribe('Validation:', persistence => {
       );
 
       expect(() =>
-        collection.where('test', '==', { test: FieldValue._arrayRemove(1) })
+        collection.where('test', '==', { test: FieldValue.arrayRemove(1) })
       ).to.throw(
         'Function Query.where() called with invalid data. ' +
           'FieldValue.arrayRemove() can only be used with update() and set() ' +
@@ -622,14 +773,14 @@ apiDescribe('Validation:', persistence => {
     validationIt(persistence, 'reject invalid elements', db => {
       const doc = db.collection('test').doc();
       expect(() =>
-        doc.set({ x: FieldValue._arrayUnion(1, new TestClass('foo')) })
+        doc.set({ x: FieldValue.arrayUnion(1, new TestClass('foo')) })
       ).to.throw(
         'Function FieldValue.arrayUnion() called with invalid data. ' +
           'Unsupported field value: a custom TestClass object'
       );
 
       expect(() =>
-        doc.set({ x: FieldValue._arrayRemove(1, new TestClass('foo')) })
+        doc.set({ x: FieldValue.arrayRemove(1, new TestClass('foo')) })
       ).to.throw(
         'Function FieldValue.arrayRemove() called with invalid data. ' +
           'Unsupported field value: a custom TestClass object'
@@ -640,19 +791,51 @@ apiDescribe('Validation:', persistence => {
       const doc = db.collection('test').doc();
       // This would result in a directly nested array which is not supported.
       expect(() =>
-        doc.set({ x: FieldValue._arrayUnion(1, ['nested']) })
+        doc.set({ x: FieldValue.arrayUnion(1, ['nested']) })
       ).to.throw(
         'Function FieldValue.arrayUnion() called with invalid data. ' +
           'Nested arrays are not supported'
       );
 
       expect(() =>
-        doc.set({ x: FieldValue._arrayRemove(1, ['nested']) })
+        doc.set({ x: FieldValue.arrayRemove(1, ['nested']) })
       ).to.throw(
         'Function FieldValue.arrayRemove() called with invalid data. ' +
           'Nested arrays are not supported'
       );
     });
+
+    validationIt(persistence, 'reject sentinels as elements', db => {
+      const doc = db.collection('test').doc();
+      expect(() =>
+        doc.set({ x: FieldValue.arrayUnion(FieldValue.serverTimestamp()) })
+      ).to.throw(
+        'Function FieldValue.arrayUnion() called with invalid data. ' +
+          'FieldValue.serverTimestamp() cannot be used as an element of ' +
+          'FieldValue.arrayUnion()'
+      );
+
+      expect(() =>
+        doc.set({ x: FieldValue.arrayRemove(FieldValue.delete()) })
+      ).to.throw(
+        'Function FieldValue.arrayRemove() called with invalid data. ' +
+          'FieldValue.delete() cannot be used as an element of ' +
+          'FieldValue.arrayRemove()'
+      );
+    });
+
+    validationIt(persistence, 'reject array transforms inside arrays', db => {
+      const doc = db.collection('test').doc();
+      expect(() => doc.set({ x: [FieldValue.arrayUnion(1)] })).to.throw(
+        'Function DocumentReference.set() called with invalid data. ' +
+          'FieldValue.arrayUnion() is not currently supported inside arrays'
+      );
+
+      expect(() => doc.update({ x: [1, FieldValue.arrayRemove(1)] })).to.throw(
+        'Function DocumentReference.update() called with invalid data. ' +
+          'FieldValue.arrayRemove() is not currently supported inside arrays'
+      );
+    });
   });
 
   describe('Queries', () => {
@@ -668,25 +851,45 @@ apiDescribe('Validation:', persistence => {
       );
     });
 
+    validationIt(persistence, 'with invalid aggregations fail', db => {
+      const collection = db.collection('test');
+      expect(() => collection.sum(5 as any)).to.throw(
+        'Function Query.sum() called with invalid data. Field path ' +
+          'arguments must be of type string or FieldPath.'
+      );
+      expect(() => collection.average('')).to.throw(
+        'Function Query.average() called with invalid data. Invalid field ' +
+          'path (). Paths must not be empty'
+      );
+      expect(() => collection.limitToLast(1).count()).to.throw(
+        'limitToLast() queries require specifying at least one orderBy() ' +
+          'clause'
+      );
+    });
+
     validationIt(
       persistence,
       'with null or NaN non-equality filters fail',
       db => {
         const collection = db.collection('test');
         expect(() => collection.where('a', '>', null)).to.throw(
-          'Invalid query. You can only perform equals comparisons on null.'
+          "Invalid query. You can only perform '==' and '!=' comparisons on " +
+            'null.'
         );
         expect(() => collection.where('a', arrayContainsOp, null)).to.throw(
-          'Invalid query. You can only perform equals comparisons on null.'
+          "Invalid query. You can only perform '==' and '!=' comparisons on " +
+            'null.'
         );
 
         expect(() => collection.where('a', '>', Number.NaN)).to.throw(
-          'Invalid query. You can only perform equals comparisons on NaN.'
+          "Invalid query. You can only perform '==' and '!=' comparisons on " +
+            'NaN.'
         );
         expect(() =>
           collection.where('a', arrayContainsOp, Number.NaN)
         ).to.throw(
-          'Invalid query. You can only perform equals comparisons on NaN.'
+          "Invalid query. You can only perform '==' and '!=' comparisons on " +
+            'NaN.'
         );
       }
     );
@@ -748,13 +951,29 @@ apiDescribe('Validation:', persistence => {
       }
     );
 
+    validationIt(
+      persistence,
+      'collection group order-by-key bounds must be document paths',
+      db => {
+        const query = db
+          .collectionGroup('collection')
+          .orderBy(firebase.firestore.FieldPath.documentId());
+        expect(() => query.startAt('foo')).to.throw(
+          'Invalid query. When querying a collection group and ordering by ' +
+            'FieldPath.documentId(), the value passed to Query.startAt() ' +
+            "must result in a valid document path, but 'foo' is not because " +
+            'it contains an odd number of segments.'
+        );
+      }
+    );
+
     validationIt(persistence, 'with different inequality fields fail', db => {
       const collection = db.collection('test');
       expect(() =>
         collection.where('x', '>=', 32).where('y', '<', 'cat')
       ).to.throw(
         'Invalid query. All where filters with an ' +
-          'inequality (<, <=, >, or >=) must be on the same field.' +
+          'inequality (<, <=, !=, not-in, >, or >=) must be on the same field.' +
           ` But you have inequality filters on 'x' and 'y'`
       );
     });
@@ -766,8 +985,8 @@ apiDescribe('Validation:', persistence => {
         const collection = db.collection('test');
         const reason =
           `Invalid query. You have a where filter with an ` +
-          `inequality (<, <=, >, or >=) on field 'x' and so you must also ` +
-          `use 'x' as your first Query.orderBy(), but your first ` +
+          `inequality (<, <=, !=, not-in, >, or >=) on field 'x' and so you ` +
+          `must also use 'x' as your first Query.orderBy(), but your first ` +
           `Query.orderBy() is on field 'y' instead.`;
         expect(() => collection.where('x', '>', 32).orderBy('y')).to.throw(
           reason
@@ -805,6 +1024,112 @@ apiDescribe('Validation:', persistence => {
       }
     );
 
+    validationIt(
+      persistence,
+      'with disjunctive filters that are not non-empty arrays fail.',
+      db => {
+        const collection = db.collection('test');
+        expect(() => collection.where('foo', 'in', 2)).to.throw(
+          "Invalid Query. A non-empty array is required for 'in' filters."
+        );
+        expect(() => collection.where('foo', 'in', [])).to.throw(
+          "Invalid Query. A non-empty array is required for 'in' filters."
+        );
+        expect(() =>
+          collection.where('foo', 'array-contains-any', 'bar')
+        ).to.throw(
+          'Invalid Query. A non-empty array is required for ' +
+            "'array-contains-any' filters."
+        );
+      }
+    );
+
+    validationIt(
+      persistence,
+      'with disjunctive filters that have too many elements fail.',
+      db => {
+        const collection = db.collection('test');
+        const values = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11];
+        expect(() => collection.where('foo', 'in', values)).to.throw(
+          "Invalid Query. 'in' filters support a maximum of 10 elements in " +
+            'the value array.'
+        );
+        expect(() =>
+          collection.where('foo', 'array-contains-any', values)
+        ).to.throw(
+          "Invalid Query. 'array-contains-any' filters support a maximum of " +
+            '10 elements in the value array.'
+        );
+      }
+    );
+
+    validationIt(
+      persistence,
+      'with conflicting disjunctive filters fail.',
+      db => {
+        const collection = db.collection('test');
+        expect(() =>
+          collection.where('foo', 'in', [1, 2]).where('bar', 'in', [3, 4])
+        ).to.throw("Invalid query. You cannot use more than one 'in' filter.");
+        expect(() =>
+          collection
+            .where('foo', 'array-contains-any', [1, 2])
+            .where('bar', 'array-contains-any', [3, 4])
+        ).to.throw(
+          "Invalid query. You cannot use more than one 'array-contains-any' " +
+            'filter.'
+        );
+        expect(() =>
+          collection
+            .where('foo', 'in', [1, 2])
+            .where('bar', 'array-contains-any', [3, 4])
+        ).to.throw(
+          "Invalid query. You cannot use 'array-contains-any' filters with " +
+            "'in' filters."
+        );
+        expect(() =>
+          collection
+            .where('foo', arrayContainsOp, 1)
+            .where('bar', 'array-contains-any', [3, 4])
+        ).to.throw(
+          "Invalid query. You cannot use 'array-contains-any' filters with " +
+            "'array-contains' filters."
+        );
+        expect(() =>
+          collection.where('foo', '!=', 1).where('foo', '!=', 2)
+        ).to.throw("Invalid query. You cannot use more than one '!=' filter.");
+        expect(() =>
+          collection
+            .where('foo', 'not-in', [1, 2])
+            .where('foo', 'not-in', [3, 4])
+        ).to.throw(
+          "Invalid query. You cannot use more than one 'not-in' filter."
+        );
+        expect(() =>
+          collection.where('foo', '!=', 1).where('foo', 'not-in', [2, 3])
+        ).to.throw(
+          "Invalid query. You cannot use 'not-in' filters with '!=' filters."
+        );
+        expect(() =>
+          collection.where('foo', 'in', [1, 2]).where('bar', 'not-in', [3, 4])
+        ).to.throw(
+          "Invalid query. You cannot use 'not-in' filters with 'in' filters."
+        );
+        expect(() =>
+          collection
+            .where('foo', 'not-in', [1, 2])
+            .where('bar', arrayContainsOp, 3)
+        ).to.throw(
+          "Invalid query. You cannot use 'array-contains' filters with " +
+            "'not-in' filters."
+        );
+        // 'in' and 'array-contains' can be combined.
+        expect(() =>
+          collection.where('foo', 'in', [1, 2]).where('bar', arrayContainsOp, 3)
+        ).not.to.throw();
+      }
+    );
+
     validationIt(
       persistence,
       'must not specify starting or ending point after orderBy',
@@ -848,6 +1173,16 @@ apiDescribe('Validation:', persistence => {
             'a valid document ID if the first parameter is ' +
             'FieldPath.documentId(), but it contains a slash.'
         );
+        expect(() =>
+          db
+            .collectionGroup('collection')
+            .where(firebase.firestore.FieldPath.documentId(), '>=', 'foo')
+        ).to.throw(
+          'Invalid third parameter to Query.where(). When querying a ' +
+            'collection group by FieldPath.documentId(), the value provided ' +
+            "must result in a valid document path, but 'foo' is not because " +
+            'it has an odd number of segments (1).'
+        );
         expect(() =>
           collection.where(firebase.firestore.FieldPath.documentId(), '>=', 1)
         ).to.throw(
@@ -16,8 +16,10 @@
 
 import * as api from '../../../src/protos/firestore_proto_api';
 import { expect } from 'chai';
+import * as sinon from 'sinon';
 import { WebChannelConnection } from '../../../src/platform_browser/webchannel_connection';
 import { DatabaseId, DatabaseInfo } from '../../../src/core/database_info';
+import { Stream } from '../../../src/remote/connection';
 import { DEFAULT_PROJECT_ID } from '../util/helpers';
 import { getDefaultDatabaseInfo } from '../util/internal_helpers';
 
@@ -34,7 +36,9 @@ describeFn('WebChannel', () => {
       new DatabaseId('testproject'),
       'persistenceKey',
       'example.com',
-      false
+      /*ssl=*/ false,
+      /*forceLongPolling=*/ false,
+      /*autoDetectLongPolling=*/ false
     );
     const conn = new WebChannelConnection(info);
     const makeUrl = conn.makeUrl.bind(conn);
@@ -46,6 +50,124 @@ describeFn('WebChannel', () => {
           'databases/(default)/documents:commit'
       );
     });
+
+    it('uses the parent resource of the request', () => {
+      const url = makeUrl('RunAggregationQuery', {
+        parent: 'projects/testproject/databases/(default)/documents/coll/doc'
+      });
+      expect(url).to.equal(
+        'http://example.com/v1beta1/projects/testproject/' +
+          'databases/(default)/documents/coll/doc:runAggregationQuery'
+      );
+    });
+  });
+
+  describe('transport selection', () => {
+    let fakeXhr: sinon.SinonFakeXMLHttpRequest;
+    let requestUrls: string[];
+    let stream: Stream<api.ListenRequest, api.ListenResponse>;
+
+    /**
+     * Replaces XMLHttpRequest with a stub WebChannel server. The stub passes
+     * the connection test, completes the handshake and resolves the returned
+     * promise with the URL of the first back channel request, which carries
+     * the mode (streaming or long-polling) that the channel uses.
+     *
+     * @param bufferingProxy Whether the stub behaves like a proxy that
+     * buffers responses during the connection test.
+     */
+    function stubServer(bufferingProxy: boolean): Promise<string> {
+      return new Promise<string>(resolve => {
+        // tslint:disable-next-line:no-any The fake XHR's fields aren't typed.
+        fakeXhr.onCreate = (xhr: any) => {
+          setTimeout(() => {
+            const url: string = xhr.url;
+            requestUrls.push(url);
+            if (url.indexOf('/channel/test?') !== -1) {
+              if (url.indexOf('MODE=init') !== -1) {
+                xhr.respond(200, {}, '[null,null]');
+              } else {
+                // The server sends '11111' and then '2'. Without a buffering
+                // proxy in between, the client receives '11111' on its own.
+                if (!bufferingProxy) {
+                  xhr.chunkSize = 5;
+                }
+                xhr.respond(200, {}, '111112');
+              }
+            } else if (url.indexOf('SID=') === -1) {
+              const handshake = JSON.stringify([[0, ['c', 'sid', null, 8]]]);
+              xhr.respond(200, {}, handshake.length + '\n' + handshake);
+            } else if (url.indexOf('RID=rpc') !== -1) {
+              resolve(url);
+            }
+          }, 0);
+        };
+      });
+    }
+
+    function openStream(
+      forceLongPolling: boolean,
+      autoDetectLongPolling: boolean
+    ): void {
+      const info = new DatabaseInfo(
+        new DatabaseId('testproject'),
+        'persistenceKey',
+        'example.com',
+        /*ssl=*/ false,
+        forceLongPolling,
+        autoDetectLongPolling
+      );
+      const conn = new WebChannelConnection(info);
+      stream = conn.openStream<api.ListenRequest, api.ListenResponse>(
+        'Listen',
+        null
+      );
+      stream.onOpen(() => {
+        stream.send({ addTarget: { documents: { documents: ['foo/bar'] } } });
+      });
+      stream.onClose(() => {});
+    }
+
+    function hasConnectionTest(): boolean {
+      return requestUrls.some(url => url.indexOf('/channel/test?') !== -1);
+    }
+
+    beforeEach(() => {
+      fakeXhr = sinon.useFakeXMLHttpRequest();
+      requestUrls = [];
+    });
+
+    afterEach(() => {
+      stream.close();
+      fakeXhr.restore();
+    });
+
+    it('streams responses by default', async () => {
+      const backChannel = stubServer(/*bufferingProxy=*/ false);
+      openStream(/*forceLongPolling=*/ false, /*autoDetectLongPolling=*/ false);
+      expect(await backChannel).to.match(/[?&]CI=0(&|$)/);
+      expect(hasConnectionTest()).to.equal(false);
+    });
+
+    it('uses long-polling when it is forced', async () => {
+      const backChannel = stubServer(/*bufferingProxy=*/ false);
+      openStream(/*forceLongPolling=*/ true, /*autoDetectLongPolling=*/ false);
+      expect(await backChannel).to.match(/[?&]CI=1(&|$)/);
+    });
+
+    it('falls back to long-polling behind a buffering proxy', async () => {
+      const backChannel = stubServer(/*bufferingProxy=*/ true);
+      openStream(/*forceLongPolling=*/ false, /*autoDetectLongPolling=*/ true);
+      expect(await backChannel).to.match(/[?&]CI=1(&|$)/);
+      expect(hasConnectionTest()).to.equal(true);
+    });
+
+    it('keeps streaming if auto-detection finds no buffering proxy', async () => {
+      const backChannel = stubServer(/*bufferingProxy=*/ false);
+      openStream(/*forceLongPolling=*/ false, /*autoDetectLongPolling=*/ true);
+      expect(await backChannel).to.match(/[?&]CI=0(&|$)/);
+      expect(hasConnectionTest()).to.equal(true);
+    });
   });
 
   it('receives error messages', done => {
@@ -35,7 +35,9 @@ export function getDefaultDatabaseInfo(): DatabaseInfo {
     new DatabaseId(DEFAULT_PROJECT_ID),
     'persistenceKey',
     DEFAULT_SETTINGS.host,
-    DEFAULT_SETTINGS.ssl
+    DEFAULT_SETTINGS.ssl,
+    !!DEFAULT_SETTINGS.experimentalForceLongPolling,
+    !!DEFAULT_SETTINGS.experimentalAutoDetectLongPolling
   );
 }
 
@@ -14,14 +14,27 @@
  * limitations under the License.
  */
 
+import { expect } from 'chai';
+import { Firestore } from '../../../src/api/database';
+import { GeoPoint } from '../../../src/api/geo_point';
+import { Timestamp } from '../../../src/api/timestamp';
 import {
   collectionReference,
   documentReference,
   documentSnapshot,
+  firestore,
   query,
   querySnapshot
 } from '../../util/api_helpers';
-import { expectEqual, expectNotEqual } from '../../util/helpers';
+import { AnyJs } from '../../../src/util/misc';
+import { blob, expectEqual, expectNotEqual, ref } from '../../util/helpers';
+
+/** Converts a snapshot to JSON text and recreates it from that text. */
+function roundtripJson(snapshot: { toJSON(): object }): AnyJs {
+  return firestore().snapshotFromJSON(JSON.parse(
+    JSON.stringify(snapshot)
+  ) as object);
+}
 
 describe('CollectionReference', () => {
   it('support equality checking with isEqual()', () => {
@@ -68,6 +81,42 @@ describe('DocumentSnapshot', () => {
       documentSnapshot('rooms/bar', { a: 1 }, false)
     );
   });
+
+  it('can be converted to JSON and back', () => {
+    const data = {
+      null: null,
+      boolean: true,
+      integer: 1,
+      double: 1.5,
+      nan: NaN,
+      infinity: -Infinity,
+      string: 'foo',
+      timestamp: new Timestamp(1, 2000),
+      geoPoint: new GeoPoint(1.5, -2.5),
+      blob: blob(0, 1, 255),
+      reference: ref('projectid/database', 'rooms/bar'),
+      array: [1, 'foo', { nested: true }],
+      map: { a: { b: 'c' } }
+    };
+    for (const fromCache of [true, false]) {
+      const snapshot = documentSnapshot('rooms/foo', data, fromCache);
+      expectEqual(roundtripJson(snapshot), snapshot);
+    }
+    const missing = documentSnapshot('rooms/foo', null, true);
+    expectEqual(roundtripJson(missing), missing);
+  });
+
+  it('cannot be recreated from JSON of a different database', () => {
+    const json = documentSnapshot('rooms/foo', { a: 1 }, true).toJSON();
+    const foreignJson = JSON.parse(
+      JSON.stringify(json).replace(/projects\/projectid/g, 'projects/other')
+    ) as object;
+    expect(() => firestore().snapshotFromJSON(foreignJson)).to.throw(
+      "The snapshot refers to 'projects/other/databases/database/documents/" +
+        "rooms/foo', which is not part of the database " +
+        "'projects/projectid/databases/database'."
+    );
+  });
 });
 
 describe('Query', () => {
@@ -108,6 +157,43 @@ describe('QuerySnapshot', () => {
       querySnapshot('foo', {}, { a: { a: 1 } }, true, false, true)
     );
   });
+
+  it('can be converted to JSON and back', () => {
+    const docs = { a: { a: 1 }, b: { b: new Timestamp(1, 0) }, c: {} };
+    for (const hasPendingWrites of [true, false]) {
+      for (const fromCache of [true, false]) {
+        const snapshot = querySnapshot(
+          'foo',
+          {},
+          docs,
+          hasPendingWrites,
+          fromCache,
+          /* syncStateChanged= */ true
+        );
+        expectEqual(roundtripJson(snapshot), snapshot);
+      }
+    }
+  });
+});
+
+describe('Firestore', () => {
+  it('rejects invalid snapshot JSON', () => {
+    expect(() => firestore().snapshotFromJSON({ type: 'foo' })).to.throw(
+      'Function Firestore.snapshotFromJSON() requires its first argument to ' +
+        'be the result of DocumentSnapshot.toJSON() or QuerySnapshot.toJSON().'
+    );
+  });
+
+  it('fails API calls after terminating an instance that was never used', async () => {
+    const db = new Firestore({ projectId: 'projectid', database: 'database' });
+    await db.terminate();
+    expect(() => db.collection('foo')).to.throw(
+      'The client has already been terminated.'
+    );
+    expect(() => db.enablePersistence()).to.throw(
+      'The client has already been terminated.'
+    );
+  });
 });
 
 describe('SnapshotMetadata', () => {
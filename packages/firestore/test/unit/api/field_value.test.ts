@@ -23,4 +23,11 @@ describe('FieldValue', () => {
     expectEqual(FieldValue.serverTimestamp(), FieldValue.serverTimestamp());
     expectNotEqual(FieldValue.delete(), FieldValue.serverTimestamp());
   });
+
+  it('support equality checking with isEqual() for increment()', () => {
+    expectEqual(FieldValue.increment(1), FieldValue.increment(1));
+    expectNotEqual(FieldValue.increment(1), FieldValue.increment(2));
+    expectNotEqual(FieldValue.increment(1), FieldValue.increment(1.0001));
+    expectNotEqual(FieldValue.increment(1), FieldValue.serverTimestamp());
+  });
 });
@@ -142,6 +142,56 @@ describe('EventManager', () => {
     eventManager.applyOnlineStateChange(OnlineState.Online);
     expect(events).to.deep.equal([OnlineState.Unknown, OnlineState.Online]);
   });
+
+  it('raises snapshots-in-sync events after raised snapshots', () => {
+    const query1 = Query.atPath(path('foo/bar'));
+    const query2 = Query.atPath(path('bar/baz'));
+    const eventOrder: string[] = [];
+
+    const fakeListener1 = fakeQueryListener(query1);
+    fakeListener1.onViewSnapshot = () => {
+      eventOrder.push('listenable1');
+      return true;
+    };
+    const fakeListener2 = fakeQueryListener(query2);
+    fakeListener2.onViewSnapshot = () => {
+      eventOrder.push('listenable2');
+      return false;
+    };
+
+    const syncEngineSpy = makeSyncEngineSpy();
+    const eventManager = new EventManager(syncEngineSpy);
+
+    eventManager.listen(fakeListener1);
+    eventManager.listen(fakeListener2);
+    eventManager.addSnapshotsInSyncListener({
+      next: () => eventOrder.push('snapshotsInSync'),
+      error: () => {}
+    });
+    expect(eventOrder).to.deep.equal(['snapshotsInSync']);
+
+    // tslint:disable-next-line:no-any mock ViewSnapshot.
+    const viewSnap1: any = { query: query1 };
+    // tslint:disable-next-line:no-any mock ViewSnapshot.
+    const viewSnap2: any = { query: query2 };
+    eventManager.onChange([viewSnap1, viewSnap2]);
+    expect(eventOrder).to.deep.equal([
+      'snapshotsInSync',
+      'listenable1',
+      'listenable2',
+      'snapshotsInSync'
+    ]);
+
+    // No event is raised if no listener raised a snapshot.
+    eventManager.onChange([viewSnap2]);
+    expect(eventOrder).to.deep.equal([
+      'snapshotsInSync',
+      'listenable1',
+      'listenable2',
+      'snapshotsInSync',
+      'listenable2'
+    ]);
+  });
 });
 
 describe('QueryListener', () => {
@@ -15,7 +15,7 @@
  */
 
 import { expect } from 'chai';
-import { Query } from '../../../src/core/query';
+import { LimitType, Query } from '../../../src/core/query';
 import { DOCUMENT_KEY_NAME, ResourcePath } from '../../../src/model/path';
 import { addEqualityMatcher } from '../../util/equality_matcher';
 import {
@@ -60,6 +60,22 @@ describe('Query', () => {
     expect(query.matches(doc3)).to.equal(false);
   });
 
+  it('matches correctly for collection group queries', () => {
+    const doc1 = doc('rooms/eros/messages/1', 0, { text: 'msg1' });
+    const doc1meta = doc('rooms/eros/messages/1/meta/1', 0, {
+      meta: 'meta-value'
+    });
+    const doc2 = doc('messages/2', 0, { text: 'msg2' });
+    const doc3 = doc('rooms/other/attachments/1', 0, { text: 'msg3' });
+    const query = new Query(ResourcePath.EMPTY_PATH, 'messages');
+    expect(query.isCollectionGroupQuery()).to.equal(true);
+    expect(query.isDocumentQuery()).to.equal(false);
+    expect(query.matches(doc1)).to.equal(true);
+    expect(query.matches(doc1meta)).to.equal(false);
+    expect(query.matches(doc2)).to.equal(true);
+    expect(query.matches(doc3)).to.equal(false);
+  });
+
   it('matches primitive values for filters', () => {
     const query1 = Query.atPath(path('collection')).addFilter(
       filter('sort', '>=', 2)
@@ -131,6 +147,212 @@ describe('Query', () => {
     expect(query.matches(document)).to.be.true;
   });
 
+  it('matches IN filters', () => {
+    const query = Query.atPath(path('collection')).addFilter(
+      filter('zip', 'in', [12345])
+    );
+
+    let document = doc('collection/1', 0, { zip: 12345 });
+    expect(query.matches(document)).to.be.true;
+
+    // Value matches in array.
+    document = doc('collection/1', 0, { zip: [12345] });
+    expect(query.matches(document)).to.be.false;
+
+    // Non-type match.
+    document = doc('collection/1', 0, { zip: '12345' });
+    expect(query.matches(document)).to.be.false;
+
+    // Nested match.
+    document = doc('collection/1', 0, {
+      zip: [123, '12345', { zip: 12345, b: [42] }]
+    });
+    expect(query.matches(document)).to.be.false;
+
+    // Missing field.
+    document = doc('collection/1', 0, { zap: 12345 });
+    expect(query.matches(document)).to.be.false;
+  });
+
+  it('matches IN filters with object values', () => {
+    const query = Query.atPath(path('collection')).addFilter(
+      filter('zip', 'in', [{ a: [42] }])
+    );
+
+    // Containing object in array.
+    let document = doc('collection/1', 0, {
+      zip: [{ a: 42 }]
+    });
+    expect(query.matches(document)).to.be.false;
+
+    // Containing object.
+    document = doc('collection/1', 0, {
+      zip: { a: [42] }
+    });
+    expect(query.matches(document)).to.be.true;
+  });
+
+  it('matches IN filters on document keys', () => {
+    const query = Query.atPath(path('collection')).addFilter(
+      filter(DOCUMENT_KEY_NAME, 'in', [
+        ref('project/db', 'collection/1'),
+        ref('project/db', 'collection/3')
+      ])
+    );
+
+    expect(query.matches(doc('collection/1', 0, {}))).to.be.true;
+    expect(query.matches(doc('collection/2', 0, {}))).to.be.false;
+    expect(query.matches(doc('collection/3', 0, {}))).to.be.true;
+  });
+
+  it('matches != filters', () => {
+    const query = Query.atPath(path('collection')).addFilter(
+      filter('zip', '!=', 12345)
+    );
+
+    // Same value.
+    let document = doc('collection/1', 0, { zip: 12345 });
+    expect(query.matches(document)).to.be.false;
+
+    // Different value.
+    document = doc('collection/1', 0, { zip: 12346 });
+    expect(query.matches(document)).to.be.true;
+
+    // Non-type match.
+    document = doc('collection/1', 0, { zip: '12345' });
+    expect(query.matches(document)).to.be.true;
+
+    // Null and NaN values.
+    document = doc('collection/1', 0, { zip: null });
+    expect(query.matches(document)).to.be.false;
+    document = doc('collection/1', 0, { zip: NaN });
+    expect(query.matches(document)).to.be.true;
+
+    // Missing field.
+    document = doc('collection/1', 0, { zap: 12346 });
+    expect(query.matches(document)).to.be.false;
+  });
+
+  it('matches != filters against null and NaN', () => {
+    let query = Query.atPath(path('collection')).addFilter(
+      filter('zip', '!=', null)
+    );
+    expect(query.matches(doc('collection/1', 0, { zip: null }))).to.be.false;
+    expect(query.matches(doc('collection/1', 0, { zip: NaN }))).to.be.true;
+    expect(query.matches(doc('collection/1', 0, { zip: 42 }))).to.be.true;
+    expect(query.matches(doc('collection/1', 0, { zap: 42 }))).to.be.false;
+
+    query = Query.atPath(path('collection')).addFilter(
+      filter('zip', '!=', NaN)
+    );
+    expect(query.matches(doc('collection/1', 0, { zip: NaN }))).to.be.false;
+    expect(query.matches(doc('collection/1', 0, { zip: null }))).to.be.false;
+    expect(query.matches(doc('collection/1', 0, { zip: 42 }))).to.be.true;
+    expect(query.matches(doc('collection/1', 0, { zap: 42 }))).to.be.false;
+  });
+
+  it('matches not-in filters', () => {
+    const query = Query.atPath(path('collection')).addFilter(
+      filter('zip', 'not-in', [12345])
+    );
+
+    // No match.
+    let document = doc('collection/1', 0, { zip: 23456 });
+    expect(query.matches(document)).to.be.true;
+
+    // Value matches in array.
+    document = doc('collection/1', 0, { zip: [12345] });
+    expect(query.matches(document)).to.be.true;
+
+    // Non-type match.
+    document = doc('collection/1', 0, { zip: '12345' });
+    expect(query.matches(document)).to.be.true;
+
+    // Exact match.
+    document = doc('collection/1', 0, { zip: 12345 });
+    expect(query.matches(document)).to.be.false;
+
+    // Null and NaN values.
+    document = doc('collection/1', 0, { zip: null });
+    expect(query.matches(document)).to.be.false;
+    document = doc('collection/1', 0, { zip: NaN });
+    expect(query.matches(document)).to.be.true;
+
+    // Missing field.
+    document = doc('collection/1', 0, { zap: 23456 });
+    expect(query.matches(document)).to.be.false;
+  });
+
+  it('matches not-in filters containing null', () => {
+    const query = Query.atPath(path('collection')).addFilter(
+      filter('zip', 'not-in', [12345, null])
+    );
+
+    expect(query.matches(doc('collection/1', 0, { zip: 23456 }))).to.be.false;
+    expect(query.matches(doc('collection/1', 0, { zip: null }))).to.be.false;
+  });
+
+  it('matches not-in filters on document keys', () => {
+    const query = Query.atPath(path('collection')).addFilter(
+      filter(DOCUMENT_KEY_NAME, 'not-in', [
+        ref('project/db', 'collection/1'),
+        ref('project/db', 'collection/3')
+      ])
+    );
+
+    expect(query.matches(doc('collection/1', 0, {}))).to.be.false;
+    expect(query.matches(doc('collection/2', 0, {}))).to.be.true;
+    expect(query.matches(doc('collection/3', 0, {}))).to.be.false;
+  });
+
+  it('matches array-contains-any filters', () => {
+    const query = Query.atPath(path('collection')).addFilter(
+      filter('zip', 'array-contains-any', [42, 1, 'a'])
+    );
+
+    // Not an array.
+    let document = doc('collection/1', 0, { zip: 42 });
+    expect(query.matches(document)).to.be.false;
+
+    // Empty array.
+    document = doc('collection/1', 0, { zip: [] });
+    expect(query.matches(document)).to.be.false;
+
+    // Array without any matching element.
+    document = doc('collection/1', 0, { zip: [41, '42', { a: 42 }] });
+    expect(query.matches(document)).to.be.false;
+
+    // Array with one of the elements.
+    document = doc('collection/1', 0, { zip: [43, 'a'] });
+    expect(query.matches(document)).to.be.true;
+
+    // Array with several of the elements.
+    document = doc('collection/1', 0, { zip: [1, 42] });
+    expect(query.matches(document)).to.be.true;
+
+    // Missing field.
+    document = doc('collection/1', 0, { zap: [42] });
+    expect(query.matches(document)).to.be.false;
+  });
+
+  it('matches array-contains-any filters with object values', () => {
+    const query = Query.atPath(path('collection')).addFilter(
+      filter('zip', 'array-contains-any', [{ a: [42] }])
+    );
+
+    // Containing object in array.
+    let document = doc('collection/1', 0, {
+      zip: [{ a: [42] }]
+    });
+    expect(query.matches(document)).to.be.true;
+
+    // Containing object.
+    document = doc('collection/1', 0, {
+      zip: { a: [42] }
+    });
+    expect(query.matches(document)).to.be.false;
+  });
+
   it('matches NaN for filters', () => {
     const query = Query.atPath(path('collection')).addFilter(
       filter('sort', '==', NaN)
@@ -359,7 +581,12 @@ describe('Query', () => {
       .addFilter(filter('bar', '>', 2))
       .addOrderBy(orderBy('bar'));
 
-    const q7a = Query.atPath(path('foo')).withLimit(10);
+    const q7a = Query.atPath(path('foo')).withLimitToFirst(10);
+    const q7b = Query.atPath(path('foo')).withLimitToLast(10);
+
+    const cg1a = new Query(ResourcePath.EMPTY_PATH, 'foo');
+    const cg1b = new Query(ResourcePath.EMPTY_PATH, 'foo');
+    const cg2a = new Query(ResourcePath.EMPTY_PATH, 'bar');
 
     const lip1a = bound([[DOCUMENT_KEY_NAME, 'coll/foo', 'asc']], true);
     const lip1b = bound([[DOCUMENT_KEY_NAME, 'coll/foo', 'asc']], false);
@@ -390,12 +617,15 @@ describe('Query', () => {
       [q5a],
       [q6a],
       [q7a],
+      [q7b],
       [q8a],
       [q9a],
       [q10a],
       [q11a],
       [q12a],
-      [q13a]
+      [q13a],
+      [cg1a, cg1b],
+      [cg2a]
       //[q14a],
       //[q15a],
     ];
@@ -405,6 +635,31 @@ describe('Query', () => {
     });
   });
 
+  it('flips orderBy and bounds of limitToLast queries for the backend', () => {
+    const query = Query.atPath(path('foo'))
+      .addOrderBy(orderBy('sort', 'asc'))
+      .withLimitToLast(2)
+      .withStartAt(bound([['sort', 1, 'asc']], true))
+      .withEndAt(bound([['sort', 5, 'asc']], false));
+
+    const backendQuery = query.toBackendQuery();
+    expect(backendQuery.limitType).to.equal(LimitType.First);
+    expect(backendQuery.limit).to.equal(2);
+    expect(backendQuery.orderBy).to.deep.equal([
+      orderBy('sort', 'desc'),
+      orderBy(DOCUMENT_KEY_NAME, 'desc')
+    ]);
+    expect(backendQuery.startAt).to.deep.equal(
+      bound([['sort', 5, 'desc']], true)
+    );
+    expect(backendQuery.endAt).to.deep.equal(
+      bound([['sort', 1, 'desc']], false)
+    );
+
+    const limitToFirstQuery = Query.atPath(path('foo')).withLimitToFirst(2);
+    expect(limitToFirstQuery.toBackendQuery()).to.equal(limitToFirstQuery);
+  });
+
   it("generates the correct implicit order by's", () => {
     const baseQuery = Query.atPath(path('foo'));
     // Default is ascending
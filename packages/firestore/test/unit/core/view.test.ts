@@ -170,7 +170,7 @@ describe('View', () => {
 
   it('removes documents for query with limit', () => {
     // shallow ancestor query
-    const query = Query.atPath(path('rooms/eros/messages')).withLimit(2);
+    const query = Query.atPath(path('rooms/eros/messages')).withLimitToFirst(2);
     const view = new View(query, documentKeySet());
 
     const doc1 = doc('rooms/eros/messages/1', 0, { text: 'msg1' });
@@ -195,11 +195,34 @@ describe('View', () => {
     expect(snapshot.syncStateChanged).to.equal(true);
   });
 
+  it('removes documents for query with limitToLast', () => {
+    const query = Query.atPath(path('rooms/eros/messages')).withLimitToLast(2);
+    const view = new View(query, documentKeySet());
+
+    const doc1 = doc('rooms/eros/messages/1', 0, { text: 'msg1' });
+    const doc2 = doc('rooms/eros/messages/2', 0, { text: 'msg2' });
+    const doc3 = doc('rooms/eros/messages/3', 0, { text: 'msg3' });
+
+    // initial state
+    applyDocChanges(view, doc1, doc3);
+
+    // add doc2, which should push out doc1
+    const changes = view.computeDocChanges(documentUpdates(doc2));
+    const snapshot = view.applyChanges(changes, ackTarget(doc1, doc2, doc3))
+      .snapshot!;
+
+    expect(documentSetAsArray(snapshot.docs)).to.deep.equal([doc2, doc3]);
+    expect(snapshot.docChanges).to.deep.equal([
+      { type: ChangeType.Removed, doc: doc1 },
+      { type: ChangeType.Added, doc: doc2 }
+    ]);
+  });
+
   it("doesn't report changes for documents beyond limit of query", () => {
     // shallow ancestor query
     const query = Query.atPath(path('rooms/eros/messages'))
       .addOrderBy(orderBy('num'))
-      .withLimit(2);
+      .withLimitToFirst(2);
     const view = new View(query, documentKeySet());
 
     const doc1 = doc('rooms/eros/messages/1', 0, { num: 1 });
@@ -296,7 +319,7 @@ describe('View', () => {
   });
 
   it('returns needsRefill on delete limit query', () => {
-    const query = Query.atPath(path('rooms/eros/msgs')).withLimit(2);
+    const query = Query.atPath(path('rooms/eros/msgs')).withLimitToFirst(2);
     const doc1 = doc('rooms/eros/msgs/0', 0, {});
     const doc2 = doc('rooms/eros/msgs/1', 0, {});
     const view = new View(query, documentKeySet());
@@ -324,7 +347,7 @@ describe('View', () => {
   it('returns needsRefill on reorder in limit query', () => {
     const query = Query.atPath(path('rooms/eros/msgs'))
       .addOrderBy(orderBy('order'))
-      .withLimit(2);
+      .withLimitToFirst(2);
     const doc1 = doc('rooms/eros/msgs/0', 0, { order: 1 });
     let doc2 = doc('rooms/eros/msgs/1', 0, { order: 2 });
     const doc3 = doc('rooms/eros/msgs/2', 0, { order: 3 });
@@ -357,7 +380,7 @@ describe('View', () => {
   it("doesn't need refill on reorder within limit", () => {
     const query = Query.atPath(path('rooms/eros/msgs'))
       .addOrderBy(orderBy('order'))
-      .withLimit(3);
+      .withLimitToFirst(3);
     let doc1 = doc('rooms/eros/msgs/0', 0, { order: 1 });
     const doc2 = doc('rooms/eros/msgs/1', 0, { order: 2 });
     const doc3 = doc('rooms/eros/msgs/2', 0, { order: 3 });
@@ -386,7 +409,7 @@ describe('View', () => {
   it("doesn't need refill on reorder after limit query", () => {
     const query = Query.atPath(path('rooms/eros/msgs'))
       .addOrderBy(orderBy('order'))
-      .withLimit(3);
+      .withLimitToFirst(3);
     const doc1 = doc('rooms/eros/msgs/0', 0, { order: 1 });
     const doc2 = doc('rooms/eros/msgs/1', 0, { order: 2 });
     const doc3 = doc('rooms/eros/msgs/2', 0, { order: 3 });
@@ -413,7 +436,7 @@ describe('View', () => {
   });
 
   it("doesn't need refill for additions after the limit", () => {
-    const query = Query.atPath(path('rooms/eros/msgs')).withLimit(2);
+    const query = Query.atPath(path('rooms/eros/msgs')).withLimitToFirst(2);
     const doc1 = doc('rooms/eros/msgs/0', 0, {});
     const doc2 = doc('rooms/eros/msgs/1', 0, {});
     const view = new View(query, documentKeySet());
@@ -435,7 +458,7 @@ describe('View', () => {
   });
 
   it("doesn't need refill for deletions when not near the limit", () => {
-    const query = Query.atPath(path('rooms/eros/msgs')).withLimit(20);
+    const query = Query.atPath(path('rooms/eros/msgs')).withLimitToFirst(20);
     const doc1 = doc('rooms/eros/msgs/0', 0, {});
     const doc2 = doc('rooms/eros/msgs/1', 0, {});
     const view = new View(query, documentKeySet());
@@ -455,7 +478,7 @@ describe('View', () => {
   });
 
   it('handles applying irrelevant docs', () => {
-    const query = Query.atPath(path('rooms/eros/msgs')).withLimit(2);
+    const query = Query.atPath(path('rooms/eros/msgs')).withLimitToFirst(2);
     const doc1 = doc('rooms/eros/msgs/0', 0, {});
     const doc2 = doc('rooms/eros/msgs/1', 0, {});
     const view = new View(query, documentKeySet());
@@ -0,0 +1,167 @@
+/**
+ * Copyright 2019 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { GeoPoint } from '../../../src/api/geo_point';
+import {
+  compareIndexKeys,
+  encodeIndexValue,
+  IndexKeyArray,
+  IndexKeyComponent,
+  prefixSuccessor,
+  typeLowerBound,
+  typeUpperBound
+} from '../../../src/local/encoded_index_value';
+import { SimpleDb } from '../../../src/local/simple_db';
+import * as fieldValue from '../../../src/model/field_value';
+import * as typeUtils from '../../../src/util/types';
+import {
+  blob,
+  dbId,
+  expectCorrectComparisonGroups,
+  expectCorrectComparisons,
+  key,
+  wrap
+} from '../../util/helpers';
+
+describe('EncodedIndexValue', () => {
+  const date1 = new Date(2016, 4, 2, 1, 5);
+  const date2 = new Date(2016, 5, 20, 10, 20, 30);
+
+  // The same groups as in the FieldValue ordering test, without server
+  // timestamps, which are never indexed.
+  function orderedGroups(): fieldValue.FieldValue[][] {
+    return [
+      [wrap(null)],
+      [wrap(false)],
+      [wrap(true)],
+      [wrap(NaN)],
+      [wrap(-Infinity)],
+      [wrap(-Number.MAX_VALUE)],
+      [wrap(typeUtils.MIN_SAFE_INTEGER - 1)],
+      [wrap(typeUtils.MIN_SAFE_INTEGER)],
+      [wrap(-1.1)],
+      [new fieldValue.IntegerValue(-1), new fieldValue.DoubleValue(-1)],
+      [wrap(-Number.MIN_VALUE)],
+      [
+        new fieldValue.IntegerValue(0),
+        new fieldValue.DoubleValue(0),
+        new fieldValue.DoubleValue(-0)
+      ],
+      [wrap(Number.MIN_VALUE)],
+      [new fieldValue.IntegerValue(1), new fieldValue.DoubleValue(1)],
+      [wrap(1.1)],
+      [wrap(typeUtils.MAX_SAFE_INTEGER)],
+      [wrap(typeUtils.MAX_SAFE_INTEGER + 1)],
+      [wrap(Infinity)],
+      [wrap(date1)],
+      [wrap(date2)],
+      [wrap('')],
+      [wrap('\u0000퟿￿')],
+      [wrap('(╯°□°）╯︵ ┻━┻')],
+      [wrap('a')],
+      [wrap('abc def')],
+      [wrap('éb')],
+      [wrap('æ')],
+      [wrap('éa')],
+      [wrap(blob())],
+      [wrap(blob(0))],
+      [wrap(blob(0, 1, 2, 3, 4))],
+      [wrap(blob(0, 1, 2, 4, 3))],
+      [wrap(blob(255))],
+      [new fieldValue.RefValue(dbId('p1', 'd1'), key('c1/doc1'))],
+      [new fieldValue.RefValue(dbId('p1', 'd1'), key('c1/doc2'))],
+      [new fieldValue.RefValue(dbId('p1', 'd1'), key('c10/doc1'))],
+      [new fieldValue.RefValue(dbId('p1', 'd1'), key('c2/doc1'))],
+      [new fieldValue.RefValue(dbId('p1', 'd2'), key('c1/doc1'))],
+      [new fieldValue.RefValue(dbId('p2', 'd1'), key('c1/doc1'))],
+      [wrap(new GeoPoint(-90, -180))],
+      [wrap(new GeoPoint(-90, 180))],
+      [wrap(new GeoPoint(0, 0))],
+      [wrap(new GeoPoint(90, -180))],
+      [wrap(new GeoPoint(90, 180))],
+      [wrap([])],
+      [wrap(['bar'])],
+      [wrap(['foo'])],
+      [wrap(['foo', 1])],
+      [wrap(['foo', 2])],
+      [wrap(['foo', '0'])],
+      [wrap({ bar: 0 })],
+      [wrap({ bar: 0, foo: 1 })],
+      [wrap({ foo: 1 })],
+      [wrap({ foo: 2 })],
+      [wrap({ foo: '0' })]
+    ];
+  }
+
+  it('orders encoded values like field values', () => {
+    expectCorrectComparisonGroups(
+      orderedGroups(),
+      (left: fieldValue.FieldValue, right: fieldValue.FieldValue) =>
+        compareIndexKeys(encodeIndexValue(left), encodeIndexValue(right))
+    );
+  });
+
+  it('orders encoded values within their type bounds', () => {
+    for (const group of orderedGroups()) {
+      for (const value of group) {
+        const encoded = encodeIndexValue(value);
+        const lower = typeLowerBound(value.typeOrder);
+        const upper = typeUpperBound(value.typeOrder);
+        expect(compareIndexKeys(lower, encoded)).to.be.at.most(0);
+        expect(compareIndexKeys(encoded, upper)).to.equal(-1);
+        expect(compareIndexKeys(encoded, prefixSuccessor(encoded))).to.equal(
+          -1
+        );
+      }
+    }
+  });
+
+  it('compares keys like IndexedDB', () => {
+    const keys: IndexKeyComponent[] = [
+      -Infinity,
+      -1,
+      0,
+      1,
+      Infinity,
+      '',
+      '\u0000',
+      'a',
+      'b',
+      [],
+      [0],
+      [0, 'a'],
+      [0, []],
+      [1],
+      ['a'],
+      [[]],
+      [[0]]
+    ];
+    expectCorrectComparisons(keys, compareIndexKeys);
+
+    if (SimpleDb.isAvailable()) {
+      expectCorrectComparisons(keys, (left, right) =>
+        window.indexedDB.cmp(left, right)
+      );
+      const encoded: IndexKeyArray[] = orderedGroups().map(group =>
+        encodeIndexValue(group[0])
+      );
+      expectCorrectComparisons(encoded, (left, right) =>
+        window.indexedDB.cmp(left, right)
+      );
+    }
+  });
+});
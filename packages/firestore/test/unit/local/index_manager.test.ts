@@ -0,0 +1,260 @@
+/**
+ * Copyright 2019 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { Query } from '../../../src/core/query';
+import { planIndexScan } from '../../../src/local/index_query_planner';
+import { IndexedDbPersistence } from '../../../src/local/indexeddb_persistence';
+import { Persistence } from '../../../src/local/persistence';
+import { PersistencePromise } from '../../../src/local/persistence_promise';
+import { Document } from '../../../src/model/document';
+import { FieldIndex } from '../../../src/model/field_index';
+import { AnyJs } from '../../../src/util/misc';
+import {
+  doc,
+  expectSetToEqual,
+  field,
+  filter,
+  key,
+  path
+} from '../../util/helpers';
+
+import * as persistenceHelpers from './persistence_test_helpers';
+import { TestIndexManager } from './test_index_manager';
+
+let persistence: Persistence;
+let indexManager: TestIndexManager;
+
+describe('MemoryIndexManager', () => {
+  beforeEach(() => {
+    return persistenceHelpers.testMemoryPersistence().then(p => {
+      persistence = p;
+    });
+  });
+
+  genericIndexManagerTests();
+});
+
+describe('IndexedDbIndexManager', () => {
+  if (!IndexedDbPersistence.isAvailable()) {
+    console.warn('No IndexedDB. Skipping IndexedDbIndexManager tests.');
+    return;
+  }
+
+  beforeEach(() => {
+    return persistenceHelpers.testIndexedDbPersistence().then(p => {
+      persistence = p;
+    });
+  });
+
+  afterEach(() => persistence.shutdown(/* deleteData= */ true));
+
+  genericIndexManagerTests();
+
+  it('does not return field indexes of a failed transaction', async () => {
+    const index = new FieldIndex('coll', field('a'));
+    const manager = persistence.getIndexManager();
+    await persistence
+      .runTransaction('addFieldIndex', false, txn => {
+        return manager
+          .addFieldIndex(txn, index)
+          .next(() => manager.getFieldIndexes(txn))
+          .next(indexes => {
+            expect(indexes).to.deep.equal([index]);
+            return PersistencePromise.reject(new Error('Rollback'));
+          });
+      })
+      .then(
+        () => expect.fail('Transaction should have failed'),
+        (err: Error) => expect(err.message).to.equal('Rollback')
+      );
+    const indexes = await new TestIndexManager(
+      persistence,
+      manager
+    ).getFieldIndexes();
+    expect(indexes).to.deep.equal([]);
+  });
+});
+
+/**
+ * Defines the set of tests to run against both index manager
+ * implementations.
+ */
+function genericIndexManagerTests(): void {
+  const INDEX_A = new FieldIndex('coll', field('a'));
+  const INDEX_B = new FieldIndex('coll', field('b'));
+
+  beforeEach(() => {
+    indexManager = new TestIndexManager(
+      persistence,
+      persistence.getIndexManager()
+    );
+  });
+
+  function addDocument(document: Document): Promise<void> {
+    return indexManager.updateIndexEntries(document.key, document);
+  }
+
+  function addDocuments(...documents: Document[]): Promise<void> {
+    return Promise.all(documents.map(addDocument)).then(() => {});
+  }
+
+  /**
+   * Plans an index scan for a query on 'coll' with the given filter and
+   * verifies that the scan returns the documents with the given paths.
+   */
+  function expectScanResults(
+    fieldPath: string,
+    op: string,
+    value: AnyJs,
+    expectedPaths: string[]
+  ): Promise<void> {
+    const query = Query.atPath(path('coll')).addFilter(
+      filter(fieldPath, op, value)
+    );
+    return indexManager
+      .getFieldIndexes('coll')
+      .then(indexes => {
+        const scan = planIndexScan(query, indexes);
+        expect(scan).to.not.be.null;
+        return indexManager.getDocumentsMatchingIndexScan(scan!);
+      })
+      .then(keys => {
+        expectSetToEqual(keys, expectedPaths.map(key));
+      });
+  }
+
+  it('can add and delete field indexes', () => {
+    const otherIndex = new FieldIndex('other', field('a'));
+    return indexManager
+      .addFieldIndex(INDEX_B)
+      .then(() => indexManager.addFieldIndex(INDEX_A))
+      .then(() => indexManager.addFieldIndex(otherIndex))
+      .then(() => indexManager.getFieldIndexes())
+      .then(indexes => {
+        expect(indexes).to.deep.equal([INDEX_A, INDEX_B, otherIndex]);
+        return indexManager.getFieldIndexes('coll');
+      })
+      .then(indexes => {
+        expect(indexes).to.deep.equal([INDEX_A, INDEX_B]);
+        return indexManager.deleteFieldIndex(INDEX_A);
+      })
+      .then(() => indexManager.getFieldIndexes())
+      .then(indexes => {
+        expect(indexes).to.deep.equal([INDEX_B, otherIndex]);
+      });
+  });
+
+  it('finds documents with equal values', async () => {
+    await indexManager.addFieldIndex(INDEX_A);
+    await addDocuments(
+      doc('coll/1', 1, { a: 1 }),
+      doc('coll/2', 1, { a: 2 }),
+      doc('coll/3', 1, { a: 1.0 }),
+      doc('coll/4', 1, { a: '1' }),
+      doc('coll/5', 1, { a: null }),
+      doc('coll/6', 1, { a: NaN }),
+      doc('coll/7', 1, { b: 1 })
+    );
+    await expectScanResults('a', '==', 1, ['coll/1', 'coll/3']);
+    await expectScanResults('a', '==', '1', ['coll/4']);
+    await expectScanResults('a', '==', null, ['coll/5']);
+    await expectScanResults('a', '==', NaN, ['coll/6']);
+    await expectScanResults('a', 'in', [2, '1'], ['coll/2', 'coll/4']);
+  });
+
+  it('finds documents in ranges', async () => {
+    await indexManager.addFieldIndex(INDEX_A);
+    await addDocuments(
+      doc('coll/1', 1, { a: 1 }),
+      doc('coll/2', 1, { a: 2 }),
+      doc('coll/3', 1, { a: 3 }),
+      doc('coll/4', 1, { a: 'a' }),
+      doc('coll/5', 1, { a: true }),
+      doc('coll/6', 1, { a: [1] })
+    );
+    await expectScanResults('a', '<', 2, ['coll/1']);
+    await expectScanResults('a', '<=', 2, ['coll/1', 'coll/2']);
+    await expectScanResults('a', '>', 2, ['coll/3']);
+    await expectScanResults('a', '>=', 2, ['coll/2', 'coll/3']);
+    await expectScanResults('a', '>', '', ['coll/4']);
+  });
+
+  it('finds documents by array elements', async () => {
+    await indexManager.addFieldIndex(INDEX_A);
+    await addDocuments(
+      doc('coll/1', 1, { a: [1, 2] }),
+      doc('coll/2', 1, { a: [2, 3] }),
+      doc('coll/3', 1, { a: [{ b: 1 }] }),
+      doc('coll/4', 1, { a: 1 })
+    );
+    await expectScanResults('a', 'array-contains', 1, ['coll/1']);
+    await expectScanResults('a', 'array-contains', { b: 1 }, ['coll/3']);
+    await expectScanResults(
+      'a',
+      'array-contains-any',
+      [1, 3],
+      ['coll/1', 'coll/2']
+    );
+    await expectScanResults('a', '==', [1, 2], ['coll/1']);
+  });
+
+  it('only indexes documents of the index collection group', async () => {
+    await indexManager.addFieldIndex(INDEX_A);
+    await addDocuments(
+      doc('coll/1', 1, { a: 1 }),
+      doc('other/1', 1, { a: 1 }),
+      doc('parent/1/coll/2', 1, { a: 1 })
+    );
+    await expectScanResults('a', '==', 1, ['coll/1', 'parent/1/coll/2']);
+  });
+
+  it('replaces the entries of updated documents', async () => {
+    await indexManager.addFieldIndex(INDEX_A);
+    await addDocuments(doc('coll/1', 1, { a: 1 }), doc('coll/2', 1, { a: 1 }));
+    await addDocument(doc('coll/1', 2, { a: 2 }));
+    await indexManager.updateIndexEntries(key('coll/2'), null);
+    await expectScanResults('a', '==', 1, []);
+    await expectScanResults('a', '==', 2, ['coll/1']);
+  });
+
+  it('deletes entries along with their index', async () => {
+    await indexManager.addFieldIndex(INDEX_A);
+    await indexManager.addFieldIndex(INDEX_B);
+    await addDocument(doc('coll/1', 1, { a: 1, b: 1 }));
+    await indexManager.deleteFieldIndex(INDEX_A);
+    await indexManager.addFieldIndex(INDEX_A);
+    await expectScanResults('a', '==', 1, []);
+    await expectScanResults('b', '==', 1, ['coll/1']);
+  });
+
+  it('does not plan scans for unindexed fields', () => {
+    const query = Query.atPath(path('coll'));
+    const indexes = [INDEX_A];
+    expect(planIndexScan(query.addFilter(filter('b', '==', 1)), indexes)).to.be
+      .null;
+    expect(planIndexScan(query.addFilter(filter('a', '!=', 1)), indexes)).to.be
+      .null;
+    expect(planIndexScan(query.addFilter(filter('a', 'not-in', [1])), indexes))
+      .to.be.null;
+    expect(
+      planIndexScan(
+        Query.atPath(path('other')).addFilter(filter('a', '==', 1)),
+        indexes
+      )
+    ).to.be.null;
+  });
+}
@@ -19,12 +19,23 @@ import { IndexedDbPersistence } from '../../../src/local/indexeddb_persistence';
 import {
   ALL_STORES,
   createOrUpgradeDb,
+  DbBundle,
+  DbClientMetadata,
+  DbFieldIndex,
+  DbIndexEntry,
+  DbNamedQuery,
+  DbRemoteDocument,
   DbTarget,
+  DbTargetDocument,
+  DbTargetDocumentKey,
   DbTargetGlobal,
-  DbTargetGlobalKey
+  DbTargetGlobalKey,
+  V1_STORES
 } from '../../../src/local/indexeddb_schema';
 import { SimpleDb, SimpleDbTransaction } from '../../../src/local/simple_db';
 import { PersistencePromise } from '../../../src/local/persistence_promise';
+import * as EncodedResourcePath from '../../../src/local/encoded_resource_path';
+import { path } from '../../util/helpers';
 
 const INDEXEDDB_TEST_DATABASE = 'schemaTest';
 
@@ -93,7 +104,7 @@ describe('IndexedDbSchema: createOrUpgradeDb', () => {
     return withDb(1, db => {
       expect(db.version).to.equal(1);
       // Version 1 adds all of the stores so far.
-      expect(getAllObjectStores(db)).to.have.members(ALL_STORES);
+      expect(getAllObjectStores(db)).to.have.members(V1_STORES);
       return Promise.resolve();
     });
   });
@@ -103,7 +114,7 @@ describe('IndexedDbSchema: createOrUpgradeDb', () => {
       expect(db.version).to.equal(2);
       // We should have all of the stores, we should have the target global row
       // and we should not have any targets counted, because there are none.
-      expect(getAllObjectStores(db)).to.have.members(ALL_STORES);
+      expect(getAllObjectStores(db)).to.have.members(V1_STORES);
       // Check the target count. We haven't added any targets, so we expect 0.
       return getTargetCount(db).then(targetCount => {
         expect(targetCount).to.equal(0);
@@ -128,11 +139,93 @@ describe('IndexedDbSchema: createOrUpgradeDb', () => {
     }).then(() =>
       withDb(2, db => {
         expect(db.version).to.equal(2);
-        expect(getAllObjectStores(db)).to.have.members(ALL_STORES);
+        expect(getAllObjectStores(db)).to.have.members(V1_STORES);
         return getTargetCount(db).then(targetCount => {
           expect(targetCount).to.equal(expectedTargetCount);
         });
       })
     );
   });
+
+  it('can upgrade from schema version 2 to 3', () => {
+    const paths = ['docs/a', 'docs/b', 'docs/c/subcollection/d'];
+    return withDb(2, db => {
+      const sdb = new SimpleDb(db);
+      // Add some remote documents so the next migration can add sentinel rows
+      // for them.
+      return sdb.runTransaction('readwrite', [DbRemoteDocument.store], txn => {
+        const store = txn.store(DbRemoteDocument.store);
+        return PersistencePromise.waitFor(
+          paths.map(docPath => store.put(path(docPath).toArray(), {}))
+        );
+      });
+    }).then(() =>
+      withDb(3, db => {
+        expect(db.version).to.equal(3);
+        expect(getAllObjectStores(db)).to.have.members(V1_STORES);
+        const sdb = new SimpleDb(db);
+        return sdb.runTransaction('readonly', [DbTargetDocument.store], txn => {
+          const store = txn.store<DbTargetDocumentKey, DbTargetDocument>(
+            DbTargetDocument.store
+          );
+          return PersistencePromise.map(
+            paths.map(docPath =>
+              store.get([
+                DbTargetDocument.sentinelTargetId,
+                EncodedResourcePath.encode(path(docPath))
+              ])
+            )
+          ).next(sentinels => {
+            for (const sentinel of sentinels) {
+              expect(sentinel).to.not.equal(null);
+              expect(sentinel!.sequenceNumber).to.equal(0);
+            }
+          });
+        });
+      })
+    );
+  });
+
+  it('can upgrade from schema version 3 to 4', () => {
+    return withDb(3, db => Promise.resolve()).then(() =>
+      withDb(4, db => {
+        expect(db.version).to.equal(4);
+        // Version 4 adds the client metadata store.
+        expect(getAllObjectStores(db)).to.have.members([
+          ...V1_STORES,
+          DbClientMetadata.store
+        ]);
+        return Promise.resolve();
+      })
+    );
+  });
+
+  it('can upgrade from schema version 4 to 5', () => {
+    return withDb(4, db => Promise.resolve()).then(() =>
+      withDb(5, db => {
+        expect(db.version).to.equal(5);
+        // Version 5 adds the bundle and named query stores.
+        expect(getAllObjectStores(db)).to.have.members([
+          ...V1_STORES,
+          DbClientMetadata.store,
+          DbBundle.store,
+          DbNamedQuery.store
+        ]);
+        return Promise.resolve();
+      })
+    );
+  });
+
+  it('can upgrade from schema version 5 to 6', () => {
+    return withDb(5, db => Promise.resolve()).then(() =>
+      withDb(6, db => {
+        expect(db.version).to.equal(6);
+        // Version 6 adds the field index and index entry stores.
+        expect(getAllObjectStores(db)).to.have.members(ALL_STORES);
+        expect(getAllObjectStores(db)).to.include(DbFieldIndex.store);
+        expect(getAllObjectStores(db)).to.include(DbIndexEntry.store);
+        return Promise.resolve();
+      })
+    );
+  });
 });
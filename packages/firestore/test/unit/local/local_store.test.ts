@@ -28,7 +28,8 @@ import { Persistence } from '../../../src/local/persistence';
 import {
   documentKeySet,
   DocumentMap,
-  MaybeDocumentMap
+  MaybeDocumentMap,
+  maybeDocumentMap
 } from '../../../src/model/collections';
 import {
   Document,
@@ -40,6 +41,8 @@ import {
   MutationBatch,
   MutationBatchResult
 } from '../../../src/model/mutation_batch';
+import { FieldIndex } from '../../../src/model/field_index';
+import { ResourcePath } from '../../../src/model/path';
 import { emptyByteString } from '../../../src/platform/platform';
 import { RemoteEvent } from '../../../src/remote/remote_event';
 import {
@@ -56,6 +59,8 @@ import {
   docAddedRemoteEvent,
   docUpdateRemoteEvent,
   expectEqual,
+  field,
+  filter,
   key,
   localViewChanges,
   mapAsArray,
@@ -121,6 +126,24 @@ class LocalStoreTester {
     return this;
   }
 
+  afterBundleDocuments(
+    bundleId: string,
+    ...docs: Document[]
+  ): LocalStoreTester {
+    let documents = maybeDocumentMap();
+    for (const doc of docs) {
+      documents = documents.insert(doc.key, doc);
+    }
+    this.promiseChain = this.promiseChain
+      .then(() => {
+        return this.localStore.applyBundleDocuments(documents, bundleId);
+      })
+      .then((result: MaybeDocumentMap) => {
+        this.lastChanges = result;
+      });
+    return this;
+  }
+
   afterAcknowledgingMutation(options: {
     documentVersion: TestSnapshotVersion;
   }): LocalStoreTester {
@@ -801,6 +824,30 @@ function genericLocalStoreTests(
       .finish();
   });
 
+  it('keeps bundled documents after garbage collection', () => {
+    return expectLocalStore()
+      .afterBundleDocuments('bundle', doc('foo/bar', 1, { foo: 'bar' }))
+      .toReturnChanged(doc('foo/bar', 1, { foo: 'bar' }))
+      .afterGC()
+      .toContain(doc('foo/bar', 1, { foo: 'bar' }))
+      .finish();
+  });
+
+  it('releases documents that are no longer in a reloaded bundle', () => {
+    return expectLocalStore()
+      .afterBundleDocuments(
+        'bundle',
+        doc('foo/bar', 1, { foo: 'bar' }),
+        doc('foo/baz', 1, { foo: 'baz' })
+      )
+      .afterBundleDocuments('bundle', doc('foo/bar', 2, { foo: 'bar' }))
+      .toReturnChanged(doc('foo/bar', 2, { foo: 'bar' }))
+      .afterGC()
+      .toContain(doc('foo/bar', 2, { foo: 'bar' }))
+      .toNotContain('foo/baz')
+      .finish();
+  });
+
   it('throws away documents with unknown target-ids immediately', () => {
     const targetId = 321;
     return expectLocalStore()
@@ -848,6 +895,30 @@ function genericLocalStoreTests(
       });
   });
 
+  it('can execute collection group queries', async () => {
+    const query = new Query(ResourcePath.EMPTY_PATH, 'foo');
+    const queryData = await localStore.allocateQuery(query);
+    expect(queryData.targetId).to.equal(2);
+    await localStore.applyRemoteEvent(
+      docAddedRemoteEvent(doc('foo/baz', 10, { a: 'b' }), [2], [])
+    );
+    await localStore.applyRemoteEvent(
+      docAddedRemoteEvent(doc('bar/1/foo/baz', 10, { a: 'b' }), [2], [])
+    );
+    await localStore.localWrite([
+      setMutation('foo/bonk', { a: 'b' }),
+      setMutation('bar/2/foo/bonk', { a: 'b' }),
+      setMutation('bar/2/baz/bonk', { a: 'b' })
+    ]);
+    const docs = await localStore.executeQuery(query);
+    expect(mapAsArray(docs).map(entry => entry.key)).to.deep.equal([
+      key('bar/1/foo/baz'),
+      key('bar/2/foo/bonk'),
+      key('foo/baz'),
+      key('foo/bonk')
+    ]);
+  });
+
   it('can execute mixed collection queries', async () => {
     const query = Query.atPath(path('foo'));
     const queryData = await localStore.allocateQuery(query);
@@ -870,6 +941,33 @@ function genericLocalStoreTests(
     ]);
   });
 
+  it('can execute queries with field indexes', async () => {
+    const query = Query.atPath(path('foo'));
+    const queryData = await localStore.allocateQuery(query);
+    expect(queryData.targetId).to.equal(2);
+    await localStore.applyRemoteEvent(
+      docAddedRemoteEvent(doc('foo/bar', 10, { a: 1 }), [2], [])
+    );
+    await localStore.configureFieldIndexes([new FieldIndex('foo', field('a'))]);
+    await localStore.applyRemoteEvent(
+      docAddedRemoteEvent(doc('foo/baz', 10, { a: 2 }), [2], [])
+    );
+    await localStore.applyRemoteEvent(
+      docAddedRemoteEvent(doc('foo/qux', 10, { a: 1 }), [2], [])
+    );
+    await localStore.localWrite([
+      setMutation('foo/bonk', { a: 1 }),
+      patchMutation('foo/qux', { a: 2 })
+    ]);
+    const docs = await localStore.executeQuery(
+      query.addFilter(filter('a', '==', 1))
+    );
+    expect(mapAsArray(docs).map(entry => entry.key)).to.deep.equal([
+      key('foo/bar'),
+      key('foo/bonk')
+    ]);
+  });
+
   it('persists resume tokens', async () => {
     await restartWithNoOpGarbageCollector();
     const query = Query.atPath(path('foo/bar'));
@@ -0,0 +1,440 @@
+/**
+ * Copyright 2018 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { User } from '../../../src/auth/user';
+import { ListenSequence } from '../../../src/core/listen_sequence';
+import { Query } from '../../../src/core/query';
+import { ListenSequenceNumber, TargetId } from '../../../src/core/types';
+import { IndexedDbPersistence } from '../../../src/local/indexeddb_persistence';
+import { EagerGarbageCollector } from '../../../src/local/eager_garbage_collector';
+import { IndexedDbQueryCache } from '../../../src/local/indexeddb_query_cache';
+import { LocalStore } from '../../../src/local/local_store';
+import {
+  ActiveTargets,
+  LruDelegate,
+  LruGarbageCollector,
+  LruParams,
+  LruScheduler
+} from '../../../src/local/lru_garbage_collector';
+import { PersistenceTransaction } from '../../../src/local/persistence';
+import { PersistencePromise } from '../../../src/local/persistence_promise';
+import { QueryData, QueryPurpose } from '../../../src/local/query_data';
+import { ReferenceSet } from '../../../src/local/reference_set';
+import { RemoteDocumentCache } from '../../../src/local/remote_document_cache';
+import { DocumentKeySet, documentKeySet } from '../../../src/model/collections';
+import { DocumentKey } from '../../../src/model/document_key';
+import { AsyncQueue, TimerId } from '../../../src/util/async_queue';
+import { doc, path } from '../../util/helpers';
+
+import * as persistenceHelpers from './persistence_test_helpers';
+
+describe('IndexedDbLruGarbageCollector', () => {
+  if (!IndexedDbPersistence.isAvailable()) {
+    console.warn('No IndexedDB. Skipping IndexedDbLruGarbageCollector tests.');
+    return;
+  }
+
+  let persistence: IndexedDbPersistence;
+  let queryCache: IndexedDbQueryCache;
+  let documentCache: RemoteDocumentCache;
+  let garbageCollector: LruGarbageCollector;
+  let localViewReferences: ReferenceSet;
+  let listenSequence: ListenSequence;
+  let previousTargetId: TargetId;
+  let previousDocNum: number;
+
+  function initializeGarbageCollector(params: LruParams): void {
+    garbageCollector = new LruGarbageCollector(persistence.lruDelegate, params);
+    garbageCollector.addGarbageSource(localViewReferences);
+    garbageCollector.addGarbageSource(queryCache);
+  }
+
+  beforeEach(async () => {
+    persistence = await persistenceHelpers.testIndexedDbPersistence();
+    queryCache = persistence.getQueryCache() as IndexedDbQueryCache;
+    documentCache = persistence.getRemoteDocumentCache();
+    localViewReferences = new ReferenceSet();
+    listenSequence = new ListenSequence(0);
+    previousTargetId = 0;
+    previousDocNum = 0;
+    await persistence.runTransaction('Start query cache', false, txn =>
+      queryCache.start(txn)
+    );
+    initializeGarbageCollector(LruParams.DEFAULT);
+  });
+
+  afterEach(() => persistence.shutdown(/* deleteData= */ true));
+
+  function nextQueryData(): QueryData {
+    const targetId = ++previousTargetId;
+    return new QueryData(
+      Query.atPath(path('path' + targetId)),
+      targetId,
+      QueryPurpose.Listen,
+      listenSequence.next()
+    );
+  }
+
+  function addNextTarget(): Promise<QueryData> {
+    const queryData = nextQueryData();
+    return persistence
+      .runTransaction('Add query', false, txn =>
+        queryCache.addQueryData(txn, queryData)
+      )
+      .then(() => queryData);
+  }
+
+  function nextTestDocumentKey(): DocumentKey {
+    return DocumentKey.fromPathString('docs/doc_' + ++previousDocNum);
+  }
+
+  /** Adds a document to the remote document cache and to the given target. */
+  function addDocumentToTarget(targetId: TargetId): Promise<DocumentKey> {
+    const docKey = nextTestDocumentKey();
+    return persistence
+      .runTransaction('Add document to target', false, txn =>
+        documentCache
+          .addEntry(txn, doc(docKey.path.toString(), 1000, { foo: 'bar' }))
+          .next(() =>
+            queryCache.addMatchingKeys(
+              txn,
+              documentKeySet().add(docKey),
+              targetId
+            )
+          )
+      )
+      .then(() => docKey);
+  }
+
+  /**
+   * Adds a document to the remote document cache that is not part of any
+   * target, recording the next sequence number as its last use.
+   */
+  function addOrphanedDocument(): Promise<DocumentKey> {
+    const docKey = nextTestDocumentKey();
+    return persistence
+      .runTransaction('Add orphaned document', false, txn =>
+        documentCache
+          .addEntry(txn, doc(docKey.path.toString(), 1000, { foo: 'bar' }))
+          .next(() =>
+            queryCache.updateDocumentSequenceNumbers(
+              txn,
+              documentKeySet().add(docKey),
+              listenSequence.next()
+            )
+          )
+      )
+      .then(() => docKey);
+  }
+
+  function calculateTargetCount(percentile: number): Promise<number> {
+    return persistence.runTransaction('Calculate target count', false, txn =>
+      garbageCollector.calculateTargetCount(txn, percentile)
+    );
+  }
+
+  function nthSequenceNumber(n: number): Promise<ListenSequenceNumber> {
+    return persistence.runTransaction('nth sequence number', false, txn =>
+      garbageCollector.nthSequenceNumber(txn, n)
+    );
+  }
+
+  function removeTargets(
+    upperBound: ListenSequenceNumber,
+    activeTargetIds: ActiveTargets
+  ): Promise<number> {
+    return persistence.runTransaction('Remove targets', false, txn =>
+      garbageCollector.removeTargets(txn, upperBound, activeTargetIds)
+    );
+  }
+
+  function removeOrphanedDocuments(
+    upperBound: ListenSequenceNumber
+  ): Promise<number> {
+    return persistence.runTransaction('Remove orphaned documents', false, txn =>
+      garbageCollector.removeOrphanedDocuments(txn, upperBound)
+    );
+  }
+
+  function readDocument(docKey: DocumentKey): Promise<{} | null> {
+    return persistence.runTransaction('Read document', false, txn =>
+      documentCache.getEntry(txn, docKey)
+    );
+  }
+
+  it('picks sequence number percentile', async () => {
+    const testCases = [
+      { targets: 0, expected: 0 },
+      { targets: 10, expected: 1 },
+      { targets: 9, expected: 0 },
+      { targets: 50, expected: 5 },
+      { targets: 49, expected: 4 }
+    ];
+
+    for (const { targets, expected } of testCases) {
+      await persistence.shutdown(/* deleteData= */ true);
+      persistence = await persistenceHelpers.testIndexedDbPersistence();
+      queryCache = persistence.getQueryCache() as IndexedDbQueryCache;
+      await persistence.runTransaction('Start query cache', false, txn =>
+        queryCache.start(txn)
+      );
+      initializeGarbageCollector(LruParams.DEFAULT);
+      for (let i = 0; i < targets; i++) {
+        await addNextTarget();
+      }
+      expect(await calculateTargetCount(10)).to.equal(expected);
+    }
+  });
+
+  it('sequence number for no targets', async () => {
+    expect(await nthSequenceNumber(0)).to.equal(ListenSequence.INVALID);
+  });
+
+  it('sequence number for 50 targets', async () => {
+    // Add 50 queries sequentially, aim to collect 10 of them.
+    // The sequence number to collect should be 10 past the initial sequence
+    // number.
+    for (let i = 0; i < 50; i++) {
+      await addNextTarget();
+    }
+    expect(await nthSequenceNumber(10)).to.equal(10);
+  });
+
+  it('sequence number with orphaned documents', async () => {
+    // Add 10 targets followed by 10 orphaned documents, aim to collect 15.
+    // The orphaned documents count towards the sequence numbers to collect.
+    for (let i = 0; i < 10; i++) {
+      await addNextTarget();
+    }
+    for (let i = 0; i < 10; i++) {
+      await addOrphanedDocument();
+    }
+    expect(await nthSequenceNumber(15)).to.equal(15);
+  });
+
+  it('removes targets up through sequence number', async () => {
+    const activeTargetIds: ActiveTargets = {};
+    for (let i = 0; i < 100; i++) {
+      const queryData = await addNextTarget();
+      // Mark odd queries as live so we can test filtering out live queries.
+      if (queryData.targetId % 2 === 1) {
+        activeTargetIds[queryData.targetId] = queryData;
+      }
+    }
+
+    // GC up through 20th query, which is 20%.
+    // Expect to have GC'd 10 targets, since every other target is live.
+    expect(await removeTargets(20, activeTargetIds)).to.equal(10);
+
+    // Make sure we removed the even targets with targetID <= 20.
+    await persistence.runTransaction('Verify remaining targets', false, txn =>
+      queryCache.forEachTarget(txn, queryData => {
+        if (queryData.targetId <= 20) {
+          expect(queryData.targetId % 2).to.equal(1);
+        }
+      })
+    );
+  });
+
+  it('removes orphaned documents', async () => {
+    // Add a target and a document to it, which will remain alive.
+    const queryData = await addNextTarget();
+    const targetedDoc = await addDocumentToTarget(queryData.targetId);
+
+    // Add two orphaned documents, one of which is pinned by a local view.
+    const orphanedDoc = await addOrphanedDocument();
+    const pinnedDoc = await addOrphanedDocument();
+    localViewReferences.addReference(pinnedDoc, /* id= */ 1);
+
+    // Add a recently used orphaned document that is above the upper bound.
+    listenSequence.next();
+    const recentDoc = await addOrphanedDocument();
+
+    expect(await removeOrphanedDocuments(3)).to.equal(1);
+    expect(await readDocument(targetedDoc)).to.not.equal(null);
+    expect(await readDocument(orphanedDoc)).to.equal(null);
+    expect(await readDocument(pinnedDoc)).to.not.equal(null);
+    expect(await readDocument(recentDoc)).to.not.equal(null);
+  });
+
+  it('removes documents of removed targets', async () => {
+    const queryData = await addNextTarget();
+    const docKey = await addDocumentToTarget(queryData.targetId);
+
+    // The document is part of a target and can't be collected.
+    expect(await removeOrphanedDocuments(queryData.sequenceNumber)).to.equal(0);
+
+    expect(await removeTargets(queryData.sequenceNumber, {})).to.equal(1);
+    expect(await removeOrphanedDocuments(queryData.sequenceNumber)).to.equal(1);
+    expect(await readDocument(docKey)).to.equal(null);
+  });
+
+  it('skips collection below the cache size threshold', async () => {
+    const queryData = await addNextTarget();
+    await addDocumentToTarget(queryData.targetId);
+
+    const results = await persistence.runTransaction(
+      'Collect garbage',
+      false,
+      txn => garbageCollector.collect(txn, {})
+    );
+    expect(results.didRun).to.equal(false);
+  });
+
+  it('collects the least recently used targets', async () => {
+    initializeGarbageCollector(LruParams.withCacheSize(0));
+    for (let i = 0; i < 10; i++) {
+      const queryData = await addNextTarget();
+      await addDocumentToTarget(queryData.targetId);
+    }
+
+    const results = await persistence.runTransaction(
+      'Collect garbage',
+      false,
+      txn => garbageCollector.collect(txn, {})
+    );
+    expect(results.didRun).to.equal(true);
+    expect(results.sequenceNumbersCollected).to.equal(1);
+    expect(results.targetsRemoved).to.equal(1);
+    expect(results.documentsRemoved).to.equal(1);
+    expect(
+      await readDocument(DocumentKey.fromPathString('docs/doc_1'))
+    ).to.equal(null);
+  });
+
+  it('never collects when disabled', async () => {
+    initializeGarbageCollector(LruParams.DISABLED);
+    const queryData = await addNextTarget();
+    await addDocumentToTarget(queryData.targetId);
+
+    const results = await persistence.runTransaction(
+      'Collect garbage',
+      false,
+      txn => garbageCollector.collect(txn, {})
+    );
+    expect(results.didRun).to.equal(false);
+  });
+
+  it('records sequence numbers of potential garbage', async () => {
+    const queryData = await addNextTarget();
+    const docKey = await addDocumentToTarget(queryData.targetId);
+
+    await persistence.runTransaction(
+      'Remove document from target',
+      false,
+      txn =>
+        queryCache
+          .removeMatchingKeys(
+            txn,
+            documentKeySet().add(docKey),
+            queryData.targetId
+          )
+          .next(() => garbageCollector.collectGarbage(txn))
+    );
+
+    const orphans: DocumentKey[] = [];
+    await persistence.runTransaction('Find orphaned documents', false, txn =>
+      queryCache.forEachOrphanedDocument(txn, (key, sequenceNumber) => {
+        expect(sequenceNumber).to.equal(queryData.sequenceNumber);
+        orphans.push(key);
+      })
+    );
+    expect(orphans).to.deep.equal([docKey]);
+  });
+});
+
+/** An LruDelegate that fails every operation, as if IndexedDB failed. */
+class FailingLruDelegate implements LruDelegate {
+  updateSequenceNumbers(
+    txn: PersistenceTransaction,
+    keys: DocumentKeySet
+  ): PersistencePromise<void> {
+    return this.fail();
+  }
+
+  forEachTarget(
+    txn: PersistenceTransaction,
+    f: (target: QueryData) => void
+  ): PersistencePromise<void> {
+    return this.fail();
+  }
+
+  forEachOrphanedDocumentSequenceNumber(
+    txn: PersistenceTransaction,
+    f: (sequenceNumber: ListenSequenceNumber) => void
+  ): PersistencePromise<void> {
+    return this.fail();
+  }
+
+  removeTargets(
+    txn: PersistenceTransaction,
+    upperBound: ListenSequenceNumber,
+    activeTargetIds: ActiveTargets
+  ): PersistencePromise<number> {
+    return this.fail();
+  }
+
+  removeOrphanedDocuments(
+    txn: PersistenceTransaction,
+    upperBound: ListenSequenceNumber,
+    isReferenced: (key: DocumentKey) => PersistencePromise<boolean>
+  ): PersistencePromise<number> {
+    return this.fail();
+  }
+
+  getCacheSize(txn: PersistenceTransaction): PersistencePromise<number> {
+    return this.fail();
+  }
+
+  private fail<T>(): PersistencePromise<T> {
+    return PersistencePromise.reject(
+      new Error('Firestore Test Simulated Error')
+    );
+  }
+}
+
+describe('LruScheduler', () => {
+  it('reschedules garbage collection after a failed run', async () => {
+    const persistence = await persistenceHelpers.testMemoryPersistence();
+    const localStore = new LocalStore(
+      persistence,
+      User.UNAUTHENTICATED,
+      new EagerGarbageCollector()
+    );
+    await localStore.start();
+
+    const queue = new AsyncQueue();
+    const scheduler = new LruScheduler(
+      new LruGarbageCollector(new FailingLruDelegate(), LruParams.DEFAULT),
+      queue,
+      localStore
+    );
+    await queue.enqueue(async () => scheduler.start());
+
+    await queue.runDelayedOperationsEarly(TimerId.LruGarbageCollection);
+    expect(queue.containsDelayedOperation(TimerId.LruGarbageCollection)).to.be
+      .true;
+
+    // The failure didn't fail the queue.
+    await queue.runDelayedOperationsEarly(TimerId.LruGarbageCollection);
+    expect(queue.containsDelayedOperation(TimerId.LruGarbageCollection)).to.be
+      .true;
+
+    scheduler.stop();
+    await persistence.shutdown(/* deleteData= */ true);
+  });
+});
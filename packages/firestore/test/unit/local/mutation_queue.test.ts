@@ -71,7 +71,7 @@ describe('IndexedDbMutationQueue', () => {
 
   describe('loadNextBatchIdFromDb', () => {
     function loadNextBatchId(): Promise<BatchId> {
-      return persistence.runTransaction('loadNextBatchIdFromDb', txn => {
+      return persistence.runTransaction('loadNextBatchIdFromDb', false, txn => {
         return IndexedDbMutationQueue.loadNextBatchIdFromDb(txn).next(
           batchId => {
             return batchId;
@@ -81,7 +81,7 @@ describe('IndexedDbMutationQueue', () => {
     }
 
     function addDummyBatch(userId: string, batchId: BatchId): Promise<void> {
-      return persistence.runTransaction('addDummyBatch', transaction => {
+      return persistence.runTransaction('addDummyBatch', false, transaction => {
         const txn = transaction as SimpleDbTransaction;
         const store = txn.store<[string, number], DbMutationBatch>(
           DbMutationBatch.store
@@ -19,6 +19,7 @@ import { IndexedDbPersistence } from '../../../src/local/indexeddb_persistence';
 import { MemoryPersistence } from '../../../src/local/memory_persistence';
 import { SimpleDb } from '../../../src/local/simple_db';
 import { JsonProtoSerializer } from '../../../src/remote/serializer';
+import { AutoId } from '../../../src/util/misc';
 
 /**
  * Creates and starts an IndexedDbPersistence instance for testing, destroying
@@ -33,14 +34,19 @@ export async function testIndexedDbPersistence(): Promise<
   const serializer = new JsonProtoSerializer(partition, {
     useProto3Json: true
   });
-  const persistence = new IndexedDbPersistence(prefix, serializer);
+  const persistence = new IndexedDbPersistence(
+    prefix,
+    AutoId.newId(),
+    serializer,
+    /* synchronizeTabs= */ false
+  );
   await persistence.start();
   return persistence;
 }
 
 /** Creates and starts a MemoryPersistence instance for testing. */
 export async function testMemoryPersistence(): Promise<MemoryPersistence> {
-  const persistence = new MemoryPersistence();
+  const persistence = new MemoryPersistence(AutoId.newId());
   await persistence.start();
   return persistence;
 }
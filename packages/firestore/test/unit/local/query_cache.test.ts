@@ -75,6 +75,8 @@ function genericQueryCacheTests(): void {
   const QUERY_HALLS = Query.atPath(path('halls'));
   const QUERY_GARAGES = Query.atPath(path('garages'));
 
+  let previousSequenceNumber = 0;
+
   /**
    * Creates a new QueryData object from the the given parameters, synthesizing
    * a resume token from the snapshot version.
@@ -93,6 +95,7 @@ function genericQueryCacheTests(): void {
       query,
       targetId,
       QueryPurpose.Listen,
+      ++previousSequenceNumber,
       snapshotVersion,
       resumeToken
     );
@@ -322,6 +325,38 @@ function genericQueryCacheTests(): void {
     expect(otherCache.getHighestTargetId()).to.deep.equal(42);
   });
 
+  it('can get / set highestSequenceNumber', async () => {
+    expect(cache.getHighestSequenceNumber()).to.equal(0);
+    const queryData1 = testQueryData(QUERY_ROOMS, 1);
+    await cache.addQueryData(queryData1);
+    const queryData2 = testQueryData(QUERY_HALLS, 2);
+    await cache.addQueryData(queryData2);
+    expect(cache.getHighestSequenceNumber()).to.equal(
+      queryData2.sequenceNumber
+    );
+
+    // Updating a target with a newer sequence number bumps the highest value.
+    const updated = queryData1.withSequenceNumber(
+      queryData2.sequenceNumber + 10
+    );
+    await cache.updateQueryData(updated);
+    expect(cache.getHighestSequenceNumber()).to.equal(updated.sequenceNumber);
+
+    // Sequence numbers never come down.
+    await cache.removeQueryData(updated);
+    expect(cache.getHighestSequenceNumber()).to.equal(updated.sequenceNumber);
+
+    // Verify that the highestSequenceNumber persists restarts.
+    const otherCache = new TestQueryCache(
+      persistence,
+      persistence.getQueryCache()
+    );
+    await otherCache.start();
+    expect(otherCache.getHighestSequenceNumber()).to.equal(
+      updated.sequenceNumber
+    );
+  });
+
   it('can get / set lastRemoteSnapshotVersion', () => {
     expect(cache.getLastRemoteSnapshotVersion()).to.deep.equal(
       SnapshotVersion.MIN
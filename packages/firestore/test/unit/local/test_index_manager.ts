@@ -0,0 +1,71 @@
+/**
+ * Copyright 2019 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { IndexManager } from '../../../src/local/index_manager';
+import { IndexScan } from '../../../src/local/index_query_planner';
+import { Persistence } from '../../../src/local/persistence';
+import { DocumentKeySet } from '../../../src/model/collections';
+import { Document } from '../../../src/model/document';
+import { DocumentKey } from '../../../src/model/document_key';
+import { FieldIndex } from '../../../src/model/field_index';
+
+/**
+ * A wrapper around an IndexManager that automatically creates a
+ * transaction around every operation to reduce test boilerplate.
+ */
+export class TestIndexManager {
+  constructor(
+    public persistence: Persistence,
+    public indexManager: IndexManager
+  ) {}
+
+  addFieldIndex(index: FieldIndex): Promise<void> {
+    return this.persistence.runTransaction('addFieldIndex', false, txn => {
+      return this.indexManager.addFieldIndex(txn, index);
+    });
+  }
+
+  deleteFieldIndex(index: FieldIndex): Promise<void> {
+    return this.persistence.runTransaction('deleteFieldIndex', false, txn => {
+      return this.indexManager.deleteFieldIndex(txn, index);
+    });
+  }
+
+  getFieldIndexes(collectionGroup?: string): Promise<FieldIndex[]> {
+    return this.persistence.runTransaction('getFieldIndexes', false, txn => {
+      return this.indexManager.getFieldIndexes(txn, collectionGroup);
+    });
+  }
+
+  updateIndexEntries(
+    documentKey: DocumentKey,
+    document: Document | null
+  ): Promise<void> {
+    return this.persistence.runTransaction('updateIndexEntries', false, txn => {
+      return this.indexManager.updateIndexEntries(txn, documentKey, document);
+    });
+  }
+
+  getDocumentsMatchingIndexScan(scan: IndexScan): Promise<DocumentKeySet> {
+    return this.persistence.runTransaction(
+      'getDocumentsMatchingIndexScan',
+      false,
+      txn => {
+        return this.indexManager.getDocumentsMatchingIndexScan(txn, scan);
+      }
+    );
+  }
+}
@@ -34,27 +34,27 @@ export class TestMutationQueue {
   constructor(public persistence: Persistence, public queue: MutationQueue) {}
 
   start(): Promise<void> {
-    return this.persistence.runTransaction('start', txn => {
+    return this.persistence.runTransaction('start', false, txn => {
       return this.queue.start(txn);
     });
   }
 
   checkEmpty(): Promise<boolean> {
-    return this.persistence.runTransaction('checkEmpty', txn => {
+    return this.persistence.runTransaction('checkEmpty', false, txn => {
       return this.queue.checkEmpty(txn);
     });
   }
 
   countBatches(): Promise<number> {
     return this.persistence
-      .runTransaction('countBatches', txn => {
+      .runTransaction('countBatches', false, txn => {
         return this.queue.getAllMutationBatches(txn);
       })
       .then(batches => batches.length);
   }
 
   getNextBatchId(): Promise<BatchId> {
-    return this.persistence.runTransaction('getNextBatchId', txn => {
+    return this.persistence.runTransaction('getNextBatchId', false, txn => {
       return this.queue.getNextBatchId(txn);
     });
   }
@@ -62,6 +62,7 @@ export class TestMutationQueue {
   getHighestAcknowledgedBatchId(): Promise<BatchId> {
     return this.persistence.runTransaction(
       'getHighestAcknowledgedBatchId',
+      false,
       txn => {
         return this.queue.getHighestAcknowledgedBatchId(txn);
       }
@@ -72,33 +73,41 @@ export class TestMutationQueue {
     batch: MutationBatch,
     streamToken: ProtoByteString
   ): Promise<void> {
-    return this.persistence.runTransaction('acknowledgeThroughBatchId', txn => {
-      return this.queue.acknowledgeBatch(txn, batch, streamToken);
-    });
+    return this.persistence.runTransaction(
+      'acknowledgeThroughBatchId',
+      false,
+      txn => {
+        return this.queue.acknowledgeBatch(txn, batch, streamToken);
+      }
+    );
   }
 
   getLastStreamToken(): Promise<string> {
-    return this.persistence.runTransaction('getLastStreamToken', txn => {
+    return this.persistence.runTransaction('getLastStreamToken', false, txn => {
       return this.queue.getLastStreamToken(txn);
     }) as AnyDuringMigration;
   }
 
   setLastStreamToken(streamToken: string): Promise<void> {
-    return this.persistence.runTransaction('setLastStreamToken', txn => {
+    return this.persistence.runTransaction('setLastStreamToken', false, txn => {
       return this.queue.setLastStreamToken(txn, streamToken);
     });
   }
 
   addMutationBatch(mutations: Mutation[]): Promise<MutationBatch> {
-    return this.persistence.runTransaction('addMutationBatch', txn => {
+    return this.persistence.runTransaction('addMutationBatch', false, txn => {
       return this.queue.addMutationBatch(txn, Timestamp.now(), mutations);
     });
   }
 
   lookupMutationBatch(batchId: BatchId): Promise<MutationBatch | null> {
-    return this.persistence.runTransaction('lookupMutationBatch', txn => {
-      return this.queue.lookupMutationBatch(txn, batchId);
-    });
+    return this.persistence.runTransaction(
+      'lookupMutationBatch',
+      false,
+      txn => {
+        return this.queue.lookupMutationBatch(txn, batchId);
+      }
+    );
   }
 
   getNextMutationBatchAfterBatchId(
@@ -106,6 +115,7 @@ export class TestMutationQueue {
   ): Promise<MutationBatch | null> {
     return this.persistence.runTransaction(
       'getNextMutationBatchAfterBatchId',
+      false,
       txn => {
         return this.queue.getNextMutationBatchAfterBatchId(txn, batchId);
       }
@@ -113,9 +123,13 @@ export class TestMutationQueue {
   }
 
   getAllMutationBatches(): Promise<MutationBatch[]> {
-    return this.persistence.runTransaction('getAllMutationBatches', txn => {
-      return this.queue.getAllMutationBatches(txn);
-    });
+    return this.persistence.runTransaction(
+      'getAllMutationBatches',
+      false,
+      txn => {
+        return this.queue.getAllMutationBatches(txn);
+      }
+    );
   }
 
   getAllMutationBatchesThroughBatchId(
@@ -123,6 +137,7 @@ export class TestMutationQueue {
   ): Promise<MutationBatch[]> {
     return this.persistence.runTransaction(
       'getAllMutationBatchesThroughBatchId',
+      false,
       txn => {
         return this.queue.getAllMutationBatchesThroughBatchId(txn, batchId);
       }
@@ -134,6 +149,7 @@ export class TestMutationQueue {
   ): Promise<MutationBatch[]> {
     return this.persistence.runTransaction(
       'getAllMutationBatchesAffectingDocumentKey',
+      false,
       txn => {
         return this.queue.getAllMutationBatchesAffectingDocumentKey(
           txn,
@@ -146,6 +162,7 @@ export class TestMutationQueue {
   getAllMutationBatchesAffectingQuery(query: Query): Promise<MutationBatch[]> {
     return this.persistence.runTransaction(
       'getAllMutationBatchesAffectingQuery',
+      false,
       txn => {
         return this.queue.getAllMutationBatchesAffectingQuery(txn, query);
       }
@@ -153,13 +170,17 @@ export class TestMutationQueue {
   }
 
   removeMutationBatches(batches: MutationBatch[]): Promise<void> {
-    return this.persistence.runTransaction('removeMutationBatches', txn => {
-      return this.queue.removeMutationBatches(txn, batches);
-    });
+    return this.persistence.runTransaction(
+      'removeMutationBatches',
+      false,
+      txn => {
+        return this.queue.removeMutationBatches(txn, batches);
+      }
+    );
   }
 
   collectGarbage(gc: GarbageCollector): Promise<DocumentKeySet> {
-    return this.persistence.runTransaction('garbageCollection', txn => {
+    return this.persistence.runTransaction('garbageCollection', false, txn => {
       return gc.collectGarbage(txn);
     });
   }
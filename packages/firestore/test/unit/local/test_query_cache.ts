@@ -16,7 +16,7 @@
 
 import { Query } from '../../../src/core/query';
 import { SnapshotVersion } from '../../../src/core/snapshot_version';
-import { TargetId } from '../../../src/core/types';
+import { ListenSequenceNumber, TargetId } from '../../../src/core/types';
 import { Persistence } from '../../../src/local/persistence';
 import { QueryCache } from '../../../src/local/query_cache';
 import { QueryData } from '../../../src/local/query_data';
@@ -31,19 +31,19 @@ export class TestQueryCache {
   constructor(public persistence: Persistence, public cache: QueryCache) {}
 
   start(): Promise<void> {
-    return this.persistence.runTransaction('start', txn =>
+    return this.persistence.runTransaction('start', false, txn =>
       this.cache.start(txn)
     );
   }
 
   addQueryData(queryData: QueryData): Promise<void> {
-    return this.persistence.runTransaction('addQueryData', txn => {
+    return this.persistence.runTransaction('addQueryData', false, txn => {
       return this.cache.addQueryData(txn, queryData);
     });
   }
 
   updateQueryData(queryData: QueryData): Promise<void> {
-    return this.persistence.runTransaction('updateQueryData', txn => {
+    return this.persistence.runTransaction('updateQueryData', false, txn => {
       return this.cache.updateQueryData(txn, queryData);
     });
   }
@@ -53,13 +53,13 @@ export class TestQueryCache {
   }
 
   removeQueryData(queryData: QueryData): Promise<void> {
-    return this.persistence.runTransaction('addQueryData', txn => {
+    return this.persistence.runTransaction('addQueryData', false, txn => {
       return this.cache.removeQueryData(txn, queryData);
     });
   }
 
   getQueryData(query: Query): Promise<QueryData | null> {
-    return this.persistence.runTransaction('getQueryData', txn => {
+    return this.persistence.runTransaction('getQueryData', false, txn => {
       return this.cache.getQueryData(txn, query);
     });
   }
@@ -72,8 +72,12 @@ export class TestQueryCache {
     return this.cache.getHighestTargetId();
   }
 
+  getHighestSequenceNumber(): ListenSequenceNumber {
+    return this.cache.getHighestSequenceNumber();
+  }
+
   addMatchingKeys(keys: DocumentKey[], targetId: TargetId): Promise<void> {
-    return this.persistence.runTransaction('addMatchingKeys', txn => {
+    return this.persistence.runTransaction('addMatchingKeys', false, txn => {
       let set = documentKeySet();
       for (const key of keys) {
         set = set.add(key);
@@ -83,7 +87,7 @@ export class TestQueryCache {
   }
 
   removeMatchingKeys(keys: DocumentKey[], targetId: TargetId): Promise<void> {
-    return this.persistence.runTransaction('removeMatchingKeys', txn => {
+    return this.persistence.runTransaction('removeMatchingKeys', false, txn => {
       let set = documentKeySet();
       for (const key of keys) {
         set = set.add(key);
@@ -94,7 +98,7 @@ export class TestQueryCache {
 
   getMatchingKeysForTargetId(targetId: TargetId): Promise<DocumentKey[]> {
     return this.persistence
-      .runTransaction('getMatchingKeysForTargetId', txn => {
+      .runTransaction('getMatchingKeysForTargetId', false, txn => {
         return this.cache.getMatchingKeysForTargetId(txn, targetId);
       })
       .then(keySet => {
@@ -107,6 +111,7 @@ export class TestQueryCache {
   removeMatchingKeysForTargetId(targetId: TargetId): Promise<void> {
     return this.persistence.runTransaction(
       'removeMatchingKeysForTargetId',
+      false,
       txn => {
         return this.cache.removeMatchingKeysForTargetId(txn, targetId);
       }
@@ -114,7 +119,7 @@ export class TestQueryCache {
   }
 
   containsKey(key: DocumentKey): Promise<boolean> {
-    return this.persistence.runTransaction('containsKey', txn => {
+    return this.persistence.runTransaction('containsKey', false, txn => {
       return this.cache.containsKey(txn, key);
     });
   }
@@ -122,6 +127,7 @@ export class TestQueryCache {
   setLastRemoteSnapshotVersion(version: SnapshotVersion): Promise<void> {
     return this.persistence.runTransaction(
       'setLastRemoteSnapshotVersion',
+      false,
       txn => this.cache.setLastRemoteSnapshotVersion(txn, version)
     );
   }
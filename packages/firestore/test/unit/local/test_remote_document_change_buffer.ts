@@ -35,13 +35,13 @@ export class TestRemoteDocumentChangeBuffer {
   }
 
   getEntry(documentKey: DocumentKey): Promise<MaybeDocument | null> {
-    return this.persistence.runTransaction('getEntry', txn => {
+    return this.persistence.runTransaction('getEntry', false, txn => {
       return this.buffer.getEntry(txn, documentKey);
     });
   }
 
   apply(): Promise<void> {
-    return this.persistence.runTransaction('apply', txn => {
+    return this.persistence.runTransaction('apply', false, txn => {
       return this.buffer.apply(txn);
     });
   }
@@ -19,10 +19,13 @@ import { Timestamp } from '../../../src/api/timestamp';
 import { PublicFieldValue as FieldValue } from '../../../src/api/field_value';
 import { Document, MaybeDocument } from '../../../src/model/document';
 import {
+  DoubleValue,
+  IntegerValue,
   ServerTimestampValue,
   TimestampValue
 } from '../../../src/model/field_value';
 import {
+  FieldMask,
   Mutation,
   MutationResult,
   Precondition
@@ -47,8 +50,10 @@ import { Dict } from '../../../src/util/obj';
 import { AnyJs } from '../../../src/util/misc';
 import {
   ArrayRemoveTransformOperation,
-  ArrayUnionTransformOperation
+  ArrayUnionTransformOperation,
+  NumericIncrementTransformOperation
 } from '../../../src/model/transform_operation';
+import { MAX_SAFE_INTEGER } from '../../../src/util/types';
 
 describe('Mutation', () => {
   addEqualityMatcher();
@@ -209,8 +214,8 @@ describe('Mutation', () => {
   // test once we have integration tests.
   it('can create arrayUnion() transform.', () => {
     const transform = transformMutation('collection/key', {
-      foo: FieldValue._arrayUnion('tag'),
-      'bar.baz': FieldValue._arrayUnion(true, { nested: { a: [1, 2] } })
+      foo: FieldValue.arrayUnion('tag'),
+      'bar.baz': FieldValue.arrayUnion(true, { nested: { a: [1, 2] } })
     });
     expect(transform.fieldTransforms.length).to.equal(2);
 
@@ -235,7 +240,7 @@ describe('Mutation', () => {
   // test once we have integration tests.
   it('can create arrayRemove() transform.', () => {
     const transform = transformMutation('collection/key', {
-      foo: FieldValue._arrayRemove('tag')
+      foo: FieldValue.arrayRemove('tag')
     });
     expect(transform.fieldTransforms.length).to.equal(1);
 
@@ -248,28 +253,28 @@ describe('Mutation', () => {
 
   it('can apply local arrayUnion transform to missing field', () => {
     const baseDoc = {};
-    const transform = { missing: FieldValue._arrayUnion(1, 2) };
+    const transform = { missing: FieldValue.arrayUnion(1, 2) };
     const expected = { missing: [1, 2] };
     verifyTransform(baseDoc, transform, expected);
   });
 
   it('can apply local arrayUnion transform to non-array field', () => {
     const baseDoc = { 'non-array': 42 };
-    const transform = { 'non-array': FieldValue._arrayUnion(1, 2) };
+    const transform = { 'non-array': FieldValue.arrayUnion(1, 2) };
     const expected = { 'non-array': [1, 2] };
     verifyTransform(baseDoc, transform, expected);
   });
 
   it('can apply local arrayUnion transform with non-existing elements', () => {
     const baseDoc = { array: [1, 3] };
-    const transform = { array: FieldValue._arrayUnion(2, 4) };
+    const transform = { array: FieldValue.arrayUnion(2, 4) };
     const expected = { array: [1, 3, 2, 4] };
     verifyTransform(baseDoc, transform, expected);
   });
 
   it('can apply local arrayUnion transform with existing elements', () => {
     const baseDoc = { array: [1, 3] };
-    const transform = { array: FieldValue._arrayUnion(1, 3) };
+    const transform = { array: FieldValue.arrayUnion(1, 3) };
     const expected = { array: [1, 3] };
     verifyTransform(baseDoc, transform, expected);
   });
@@ -277,7 +282,7 @@ describe('Mutation', () => {
   it('can apply local arrayUnion transform with duplicate existing elements', () => {
     // Duplicate entries in your existing array should be preserved.
     const baseDoc = { array: [1, 2, 2, 3] };
-    const transform = { array: FieldValue._arrayUnion(2) };
+    const transform = { array: FieldValue.arrayUnion(2) };
     const expected = { array: [1, 2, 2, 3] };
     verifyTransform(baseDoc, transform, expected);
   });
@@ -285,7 +290,7 @@ describe('Mutation', () => {
   it('can apply local arrayUnion transform with duplicate union elements', () => {
     // Duplicate entries in your union array should only be added once.
     const baseDoc = { array: [1, 3] };
-    const transform = { array: FieldValue._arrayUnion(2, 2) };
+    const transform = { array: FieldValue.arrayUnion(2, 2) };
     const expected = { array: [1, 3, 2] };
     verifyTransform(baseDoc, transform, expected);
   });
@@ -293,7 +298,7 @@ describe('Mutation', () => {
   it('can apply local arrayUnion transform with non-primitive elements', () => {
     // Union nested object values (one existing, one not).
     const baseDoc = { array: [1, { a: 'b' }] };
-    const transform = { array: FieldValue._arrayUnion({ a: 'b' }, { c: 'd' }) };
+    const transform = { array: FieldValue.arrayUnion({ a: 'b' }, { c: 'd' }) };
     const expected = { array: [1, { a: 'b' }, { c: 'd' }] };
     verifyTransform(baseDoc, transform, expected);
   });
@@ -301,35 +306,35 @@ describe('Mutation', () => {
   it('can apply local arrayUnion transform with partially-overlapping elements', () => {
     // Union objects that partially overlap an existing object.
     const baseDoc = { array: [1, { a: 'b', c: 'd' }] };
-    const transform = { array: FieldValue._arrayUnion({ a: 'b' }, { c: 'd' }) };
+    const transform = { array: FieldValue.arrayUnion({ a: 'b' }, { c: 'd' }) };
     const expected = { array: [1, { a: 'b', c: 'd' }, { a: 'b' }, { c: 'd' }] };
     verifyTransform(baseDoc, transform, expected);
   });
 
   it('can apply local arrayRemove transform to missing field', () => {
     const baseDoc = {};
-    const transform = { missing: FieldValue._arrayRemove(1, 2) };
+    const transform = { missing: FieldValue.arrayRemove(1, 2) };
     const expected = { missing: [] };
     verifyTransform(baseDoc, transform, expected);
   });
 
   it('can apply local arrayRemove transform to non-array field', () => {
     const baseDoc = { 'non-array': 42 };
-    const transform = { 'non-array': FieldValue._arrayRemove(1, 2) };
+    const transform = { 'non-array': FieldValue.arrayRemove(1, 2) };
     const expected = { 'non-array': [] };
     verifyTransform(baseDoc, transform, expected);
   });
 
   it('can apply local arrayRemove transform with non-existing elements', () => {
     const baseDoc = { array: [1, 3] };
-    const transform = { array: FieldValue._arrayRemove(2, 4) };
+    const transform = { array: FieldValue.arrayRemove(2, 4) };
     const expected = { array: [1, 3] };
     verifyTransform(baseDoc, transform, expected);
   });
 
   it('can apply local arrayRemove transform with existing elements', () => {
     const baseDoc = { array: [1, 2, 3, 4] };
-    const transform = { array: FieldValue._arrayRemove(1, 3) };
+    const transform = { array: FieldValue.arrayRemove(1, 3) };
     const expected = { array: [2, 4] };
     verifyTransform(baseDoc, transform, expected);
   });
@@ -338,12 +343,92 @@ describe('Mutation', () => {
     // Remove nested object values (one existing, one not).
     const baseDoc = { array: [1, { a: 'b' }] };
     const transform = {
-      array: FieldValue._arrayRemove({ a: 'b' }, { c: 'd' })
+      array: FieldValue.arrayRemove({ a: 'b' }, { c: 'd' })
     };
     const expected = { array: [1] };
     verifyTransform(baseDoc, transform, expected);
   });
 
+  // NOTE: This is more a test of UserDataConverter code than Mutation code but
+  // we don't have unit tests for it currently. We could consider removing this
+  // test once we have integration tests.
+  it('can create increment() transform.', () => {
+    const transform = transformMutation('collection/key', {
+      foo: FieldValue.increment(1),
+      bar: FieldValue.increment(1.5)
+    });
+    expect(transform.fieldTransforms.length).to.equal(2);
+
+    const first = transform.fieldTransforms[0];
+    expect(first.field).to.deep.equal(field('foo'));
+    expect(first.transform).to.deep.equal(
+      new NumericIncrementTransformOperation(new IntegerValue(1))
+    );
+
+    const second = transform.fieldTransforms[1];
+    expect(second.field).to.deep.equal(field('bar'));
+    expect(second.transform).to.deep.equal(
+      new NumericIncrementTransformOperation(new DoubleValue(1.5))
+    );
+  });
+
+  it('can apply local increment transform to missing field', () => {
+    const baseDoc = {};
+    const transform = { missing: FieldValue.increment(1) };
+    const expected = { missing: 1 };
+    verifyTransform(baseDoc, transform, expected);
+  });
+
+  it('can apply local increment transform to non-number field', () => {
+    const baseDoc = { string: 'value' };
+    const transform = { string: FieldValue.increment(1) };
+    const expected = { string: 1 };
+    verifyTransform(baseDoc, transform, expected);
+  });
+
+  it('can apply local increment transform to integer field', () => {
+    const baseDoc = { sum: 1 };
+    const transform = { sum: FieldValue.increment(2) };
+    const expected = { sum: 3 };
+    verifyTransform(baseDoc, transform, expected);
+  });
+
+  it('can apply local increment transform with double operand', () => {
+    const baseDoc = { sum: 1 };
+    const transform = { sum: FieldValue.increment(0.5) };
+    const expected = { sum: 1.5 };
+    verifyTransform(baseDoc, transform, expected);
+  });
+
+  it('can apply local increment transform to double field', () => {
+    const baseDoc = { sum: 0.5 };
+    const transform = { sum: FieldValue.increment(1) };
+    const expected = { sum: 1.5 };
+    verifyTransform(baseDoc, transform, expected);
+  });
+
+  it('caps local integer increments at the safe integer range', () => {
+    const baseDoc = { sum: MAX_SAFE_INTEGER - 1 };
+    const transform = { sum: FieldValue.increment(10) };
+    const expected = { sum: MAX_SAFE_INTEGER };
+    verifyTransform(baseDoc, transform, expected);
+  });
+
+  it('returns integer values for integer increments', () => {
+    const baseDoc = doc('collection/key', 0, { sum: 1 });
+    const transform = transformMutation('collection/key', {
+      sum: FieldValue.increment(2)
+    });
+    const transformedDoc = transform.applyToLocalView(
+      baseDoc,
+      baseDoc,
+      timestamp
+    ) as Document;
+    expect(transformedDoc.field(field('sum'))).to.deep.equal(
+      new IntegerValue(3)
+    );
+  });
+
   function verifyTransform(
     baseData: Dict<AnyJs>,
     transformData: Dict<AnyJs>,
@@ -393,8 +478,8 @@ describe('Mutation', () => {
     const docData = { array1: [1, 2], array2: ['a', 'b'] };
     const baseDoc = doc('collection/key', 0, docData);
     const transform = transformMutation('collection/key', {
-      array1: FieldValue._arrayUnion(2, 3),
-      array2: FieldValue._arrayRemove('a', 'c')
+      array1: FieldValue.arrayUnion(2, 3),
+      array2: FieldValue.arrayRemove('a', 'c')
     });
 
     // Server just sends null transform results for array operations.
@@ -414,6 +499,27 @@ describe('Mutation', () => {
     );
   });
 
+  it('can apply server-acked increment transforms to documents', () => {
+    const docData = { sum: 1 };
+    const baseDoc = doc('collection/key', 0, docData);
+    const transform = transformMutation('collection/key', {
+      sum: FieldValue.increment(2)
+    });
+
+    // The server sends back the computed value for increments.
+    const mutationResult = new MutationResult(version(1), [
+      new IntegerValue(3)
+    ]);
+    const transformedDoc = transform.applyToRemoteDocument(
+      baseDoc,
+      mutationResult
+    );
+
+    expect(transformedDoc).to.deep.equal(
+      doc('collection/key', 0, { sum: 3 }, { hasLocalMutations: false })
+    );
+  });
+
   it('can apply deletes to documents', () => {
     const baseDoc = doc('collection/key', 0, { foo: 'bar' });
 
@@ -496,3 +602,17 @@ describe('Mutation', () => {
     assertVersionTransitions(deleter, null, mutationResult, deletedV0);
   });
 });
+
+describe('FieldMask', () => {
+  it('applies to object values', () => {
+    const data = wrapObject({
+      foo: 'foo-value',
+      bar: { baz: 'baz-value', qux: 'qux-value' },
+      quux: 'quux-value'
+    });
+    const mask = new FieldMask([field('foo'), field('bar.baz'), field('xyz')]);
+    expect(mask.applyTo(data)).to.deep.equal(
+      wrapObject({ foo: 'foo-value', bar: { baz: 'baz-value' } })
+    );
+  });
+});
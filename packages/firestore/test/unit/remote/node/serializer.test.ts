@@ -22,7 +22,9 @@ import { Blob } from '../../../../src/api/blob';
 import { GeoPoint } from '../../../../src/api/geo_point';
 import { PublicFieldValue as FieldValue } from '../../../../src/api/field_value';
 import { Timestamp } from '../../../../src/api/timestamp';
+import { Aggregate } from '../../../../src/core/aggregate';
 import { DatabaseId } from '../../../../src/core/database_info';
+import { ListenSequence } from '../../../../src/core/listen_sequence';
 import {
   Direction,
   OrderBy,
@@ -40,7 +42,11 @@ import {
   Precondition,
   SetMutation
 } from '../../../../src/model/mutation';
-import { DOCUMENT_KEY_NAME, FieldPath } from '../../../../src/model/path';
+import {
+  DOCUMENT_KEY_NAME,
+  FieldPath,
+  ResourcePath
+} from '../../../../src/model/path';
 import { JsonProtoSerializer } from '../../../../src/remote/serializer';
 import {
   DocumentWatchChange,
@@ -90,6 +96,7 @@ describe('Serializer', () => {
       query,
       1,
       QueryPurpose.Listen,
+      ListenSequence.INVALID,
       SnapshotVersion.MIN,
       emptyResumeToken
     );
@@ -706,8 +713,8 @@ describe('Serializer', () => {
 
     it('TransformMutation (Array transforms)', () => {
       const mutation = transformMutation('docs/1', {
-        a: FieldValue._arrayUnion('a', 2),
-        'bar.baz': FieldValue._arrayRemove({ x: 1 })
+        a: FieldValue.arrayUnion('a', 2),
+        'bar.baz': FieldValue.arrayRemove({ x: 1 })
       });
       const proto: api.Write = {
         transform: {
@@ -730,6 +737,30 @@ describe('Serializer', () => {
       verifyMutation(mutation, proto);
     });
 
+    it('TransformMutation (Numeric increment)', () => {
+      const mutation = transformMutation('docs/1', {
+        integer: FieldValue.increment(42),
+        double: FieldValue.increment(13.37)
+      });
+      const proto: api.Write = {
+        transform: {
+          document: s.toName(mutation.key),
+          fieldTransforms: [
+            {
+              fieldPath: 'integer',
+              increment: { integerValue: '42' }
+            },
+            {
+              fieldPath: 'double',
+              increment: { doubleValue: 13.37 }
+            }
+          ]
+        },
+        currentDocument: { exists: true }
+      };
+      verifyMutation(mutation, proto);
+    });
+
     it('SetMutation with precondition', () => {
       const mutation = new SetMutation(
         key('foo/bar'),
@@ -839,6 +870,70 @@ describe('Serializer', () => {
       });
       expect(s.fromRelationFilter(actual)).to.deep.equal(input);
     });
+
+    it('converts IN', () => {
+      const input = filter('field', 'in', [42]);
+      const actual = s.toRelationFilter(input);
+      expect(actual).to.deep.equal({
+        fieldFilter: {
+          field: { fieldPath: 'field' },
+          op: 'IN',
+          value: {
+            arrayValue: {
+              values: [{ integerValue: '42' }]
+            }
+          }
+        }
+      });
+      expect(s.fromRelationFilter(actual)).to.deep.equal(input);
+    });
+
+    it('converts array-contains-any', () => {
+      const input = filter('field', 'array-contains-any', [42]);
+      const actual = s.toRelationFilter(input);
+      expect(actual).to.deep.equal({
+        fieldFilter: {
+          field: { fieldPath: 'field' },
+          op: 'ARRAY_CONTAINS_ANY',
+          value: {
+            arrayValue: {
+              values: [{ integerValue: '42' }]
+            }
+          }
+        }
+      });
+      expect(s.fromRelationFilter(actual)).to.deep.equal(input);
+    });
+
+    it('converts not-equal', () => {
+      const input = filter('field', '!=', 42);
+      const actual = s.toRelationFilter(input);
+      expect(actual).to.deep.equal({
+        fieldFilter: {
+          field: { fieldPath: 'field' },
+          op: 'NOT_EQUAL',
+          value: { integerValue: '42' }
+        }
+      });
+      expect(s.fromRelationFilter(actual)).to.deep.equal(input);
+    });
+
+    it('converts not-in', () => {
+      const input = filter('field', 'not-in', [42]);
+      const actual = s.toRelationFilter(input);
+      expect(actual).to.deep.equal({
+        fieldFilter: {
+          field: { fieldPath: 'field' },
+          op: 'NOT_IN',
+          value: {
+            arrayValue: {
+              values: [{ integerValue: '42' }]
+            }
+          }
+        }
+      });
+      expect(s.fromRelationFilter(actual)).to.deep.equal(input);
+    });
   });
 
   describe('to/from UnaryFilter', () => {
@@ -867,20 +962,59 @@ describe('Serializer', () => {
       });
       expect(s.fromUnaryFilter(actual)).to.deep.equal(input);
     });
+
+    it('converts not-equal null', () => {
+      const input = filter('field', '!=', null);
+      const actual = s.toRelationFilter(input);
+      expect(actual).to.deep.equal({
+        unaryFilter: {
+          field: { fieldPath: 'field' },
+          op: 'IS_NOT_NULL'
+        }
+      });
+      expect(s.fromUnaryFilter(actual)).to.deep.equal(input);
+    });
+
+    it('converts not-equal NaN', () => {
+      const input = filter('field', '!=', NaN);
+      const actual = s.toRelationFilter(input);
+      expect(actual).to.deep.equal({
+        unaryFilter: {
+          field: { fieldPath: 'field' },
+          op: 'IS_NOT_NAN'
+        }
+      });
+      expect(s.fromUnaryFilter(actual)).to.deep.equal(input);
+    });
   });
 
   it('encodes listen request labels', () => {
     const query = Query.atPath(path('collection/key'));
-    let queryData = new QueryData(query, 2, QueryPurpose.Listen);
+    let queryData = new QueryData(
+      query,
+      2,
+      QueryPurpose.Listen,
+      ListenSequence.INVALID
+    );
 
     let result = s.toListenRequestLabels(queryData);
     expect(result).to.be.null;
 
-    queryData = new QueryData(query, 2, QueryPurpose.LimboResolution);
+    queryData = new QueryData(
+      query,
+      2,
+      QueryPurpose.LimboResolution,
+      ListenSequence.INVALID
+    );
     result = s.toListenRequestLabels(queryData);
     expect(result).to.deep.equal({ 'goog-listen-tags': 'limbo-document' });
 
-    queryData = new QueryData(query, 2, QueryPurpose.ExistenceFilterMismatch);
+    queryData = new QueryData(
+      query,
+      2,
+      QueryPurpose.ExistenceFilterMismatch,
+      ListenSequence.INVALID
+    );
     result = s.toListenRequestLabels(queryData);
     expect(result).to.deep.equal({
       'goog-listen-tags': 'existence-filter-mismatch'
@@ -943,6 +1077,38 @@ describe('Serializer', () => {
       expect(s.fromQueryTarget(s.toQueryTarget(q))).to.deep.equal(q);
     });
 
+    it('converts collection group queries', () => {
+      const q = new Query(ResourcePath.EMPTY_PATH, 'messages');
+      const result = s.toTarget(wrapQueryData(q));
+      expect(result).to.deep.equal({
+        query: {
+          parent: 'projects/p/databases/d',
+          structuredQuery: {
+            from: [{ collectionId: 'messages', allDescendants: true }],
+            orderBy: [
+              {
+                field: { fieldPath: DOCUMENT_KEY_NAME },
+                direction: 'ASCENDING'
+              }
+            ]
+          }
+        },
+        targetId: 1
+      });
+      expect(s.fromQueryTarget(s.toQueryTarget(q))).to.deep.equal(q);
+    });
+
+    it('converts collection group queries with filters', () => {
+      const q = new Query(ResourcePath.EMPTY_PATH, 'messages').addFilter(
+        filter('prop', '<', 42)
+      );
+      const result = s.toTarget(wrapQueryData(q));
+      expect(result.query!.structuredQuery!.from).to.deep.equal([
+        { collectionId: 'messages', allDescendants: true }
+      ]);
+      expect(s.fromQueryTarget(s.toQueryTarget(q))).to.deep.equal(q);
+    });
+
     it('converts single filters at first-level collections', () => {
       const q = Query.atPath(path('docs')).addFilter(filter('prop', '<', 42));
       const result = s.toTarget(wrapQueryData(q));
@@ -1109,7 +1275,7 @@ describe('Serializer', () => {
     });
 
     it('converts limits', () => {
-      const q = Query.atPath(path('docs')).withLimit(26);
+      const q = Query.atPath(path('docs')).withLimitToFirst(26);
       const result = s.toTarget(wrapQueryData(q));
       const expected = {
         query: {
@@ -1184,6 +1350,7 @@ describe('Serializer', () => {
           q,
           1,
           QueryPurpose.Listen,
+          ListenSequence.INVALID,
           SnapshotVersion.MIN,
           new Uint8Array([1, 2, 3])
         )
@@ -1206,6 +1373,61 @@ describe('Serializer', () => {
       };
       expect(result).to.deep.equal(expected);
     });
+
+    it('converts read times without resume tokens', () => {
+      const q = Query.atPath(path('docs'));
+      const result = s.toTarget(
+        new QueryData(
+          q,
+          1,
+          QueryPurpose.Listen,
+          ListenSequence.INVALID,
+          SnapshotVersion.fromMicroseconds(5),
+          emptyResumeToken
+        )
+      );
+      const expected = {
+        query: {
+          parent: 'projects/p/databases/d',
+          structuredQuery: {
+            from: [{ collectionId: 'docs' }],
+            orderBy: [
+              {
+                field: { fieldPath: DOCUMENT_KEY_NAME },
+                direction: 'ASCENDING'
+              }
+            ]
+          }
+        },
+        readTime: s.toVersion(SnapshotVersion.fromMicroseconds(5)),
+        targetId: 1
+      };
+      expect(result).to.deep.equal(expected);
+    });
+  });
+
+  describe('toAggregation', () => {
+    it('converts count', () => {
+      expect(s.toAggregation(new Aggregate('count', 'count'))).to.deep.equal({
+        alias: 'count',
+        count: {}
+      });
+    });
+
+    it('converts sum and avg', () => {
+      expect(
+        s.toAggregation(new Aggregate('sum', 'sum', field('a.b')))
+      ).to.deep.equal({
+        alias: 'sum',
+        sum: { field: { fieldPath: 'a.b' } }
+      });
+      expect(
+        s.toAggregation(new Aggregate('average', 'avg', field('c')))
+      ).to.deep.equal({
+        alias: 'average',
+        avg: { field: { fieldPath: 'c' } }
+      });
+    });
   });
 
   describe('to/from OperatorName', () => {
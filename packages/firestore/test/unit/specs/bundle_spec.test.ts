@@ -0,0 +1,94 @@
+/**
+ * Copyright 2019 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { DatabaseId } from '../../../src/core/database_info';
+import { Query } from '../../../src/core/query';
+import { Document } from '../../../src/model/document';
+import * as bundleProto from '../../../src/protos/firestore_bundle_proto';
+import { JsonProtoSerializer } from '../../../src/remote/serializer';
+import { doc, path } from '../../util/helpers';
+
+import { describeSpec, specTest } from './describe_spec';
+import { spec } from './spec_builder';
+
+const serializer = new JsonProtoSerializer(new DatabaseId('project'), {
+  useProto3Json: true
+});
+
+/** Encodes an element of a bundle, including its length prefix. */
+function lengthPrefixed(element: bundleProto.BundleElement): string {
+  const json = JSON.stringify(element);
+  return unescape(encodeURIComponent(json)).length + json;
+}
+
+/** Returns a bundle with the given ID that contains `docs`. */
+function bundleWithDocuments(bundleId: string, ...docs: Document[]): string {
+  let elements = '';
+  for (const bundledDoc of docs) {
+    elements +=
+      lengthPrefixed({
+        documentMetadata: {
+          name: serializer.toName(bundledDoc.key),
+          readTime: serializer.toVersion(bundledDoc.version),
+          exists: true
+        }
+      }) + lengthPrefixed({ document: serializer.toDocument(bundledDoc) });
+  }
+  const metadata = lengthPrefixed({
+    metadata: {
+      id: bundleId,
+      createTime: '1970-01-01T00:00:00Z',
+      version: 1,
+      totalDocuments: docs.length,
+      totalBytes: elements.length
+    }
+  });
+  return metadata + elements;
+}
+
+describeSpec('Bundles:', [], () => {
+  specTest('Bundled documents are kept without active queries', [], () => {
+    const query = Query.atPath(path('collection'));
+    const docA = doc('collection/a', 500, { value: 'a' });
+    return spec()
+      .loadBundle(bundleWithDocuments('bundle', docA))
+      .userListens(query)
+      .expectEvents(query, { added: [docA], fromCache: true });
+  });
+
+  specTest('Newer bundled documents raise events', [], () => {
+    const query = Query.atPath(path('collection'));
+    const docA = doc('collection/a', 250, { value: 'a' });
+    const bundledDocA = doc('collection/a', 500, { value: 'b' });
+    return spec()
+      .userListens(query)
+      .watchAcksFull(query, 250, docA)
+      .expectEvents(query, { added: [docA] })
+      .loadBundle(bundleWithDocuments('bundle', bundledDocA))
+      .expectEvents(query, { modified: [bundledDocA] });
+  });
+
+  specTest('Older bundled documents are ignored', [], () => {
+    const query = Query.atPath(path('collection'));
+    const docA = doc('collection/a', 500, { value: 'a' });
+    const bundledDocA = doc('collection/a', 250, { value: 'b' });
+    return spec()
+      .userListens(query)
+      .watchAcksFull(query, 500, docA)
+      .expectEvents(query, { added: [docA] })
+      .loadBundle(bundleWithDocuments('bundle', bundledDocA));
+  });
+});
@@ -26,6 +26,9 @@ import { SpecStep } from './spec_test_runner';
 const EXCLUSIVE_TAG = 'exclusive';
 // Persistence-related tests.
 const PERSISTENCE_TAG = 'persistence';
+// Tests with multiple clients that share their persistence. These only run
+// with persistence.
+const MULTI_CLIENT_TAG = 'multi-client';
 // Explicit per-platform disable flags.
 const NO_WEB_TAG = 'no-web';
 const NO_ANDROID_TAG = 'no-android';
@@ -33,6 +36,7 @@ const NO_IOS_TAG = 'no-ios';
 const KNOWN_TAGS = [
   EXCLUSIVE_TAG,
   PERSISTENCE_TAG,
+  MULTI_CLIENT_TAG,
   NO_WEB_TAG,
   NO_ANDROID_TAG,
   NO_IOS_TAG
@@ -103,6 +107,8 @@ export function specTest(
         runner = it.only;
       } else if (!WEB_SPEC_TEST_FILTER(tags)) {
         runner = it.skip;
+      } else if (!usePersistence && tags.indexOf(MULTI_CLIENT_TAG) >= 0) {
+        runner = it.skip;
       } else {
         runner = it;
       }
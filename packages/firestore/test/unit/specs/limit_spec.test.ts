@@ -15,14 +15,14 @@
  */
 
 import { Query } from '../../../src/core/query';
-import { deletedDoc, doc, path } from '../../util/helpers';
+import { deletedDoc, doc, orderBy, path } from '../../util/helpers';
 
 import { describeSpec, specTest } from './describe_spec';
 import { spec } from './spec_builder';
 
 describeSpec('Limits:', [], () => {
   specTest('Documents in limit are replaced by remote event', [], () => {
-    const query1 = Query.atPath(path('collection')).withLimit(2);
+    const query1 = Query.atPath(path('collection')).withLimitToFirst(2);
     const doc1 = doc('collection/a', 1000, { key: 'a' });
     const doc2 = doc('collection/b', 1002, { key: 'b' });
     const doc3 = doc('collection/c', 1001, { key: 'c' });
@@ -42,7 +42,7 @@ describeSpec('Limits:', [], () => {
   });
 
   specTest('Deleted Document in limbo in full limit query', [], () => {
-    const query = Query.atPath(path('collection')).withLimit(2);
+    const query = Query.atPath(path('collection')).withLimitToFirst(2);
     const doc1 = doc('collection/a', 1000, { key: 'a' });
     const doc2 = doc('collection/b', 1001, { key: 'b' });
     const doc3 = doc('collection/c', 1002, { key: 'c' });
@@ -70,7 +70,7 @@ describeSpec('Limits:', [], () => {
   });
 
   specTest('Documents in limit can handle removed messages', [], () => {
-    const query1 = Query.atPath(path('collection')).withLimit(2);
+    const query1 = Query.atPath(path('collection')).withLimitToFirst(2);
     const doc1 = doc('collection/a', 1000, { key: 'a' });
     const doc2 = doc('collection/b', 1002, { key: 'b' });
     const doc3 = doc('collection/c', 1001, { key: 'c' });
@@ -97,8 +97,8 @@ describeSpec('Limits:', [], () => {
     'Documents in limit are can handle removed messages for only one of many query',
     [],
     () => {
-      const query1 = Query.atPath(path('collection')).withLimit(2);
-      const query2 = Query.atPath(path('collection')).withLimit(3);
+      const query1 = Query.atPath(path('collection')).withLimitToFirst(2);
+      const query2 = Query.atPath(path('collection')).withLimitToFirst(3);
       const doc1 = doc('collection/a', 1000, { key: 'a' });
       const doc2 = doc('collection/b', 1002, { key: 'b' });
       const doc3 = doc('collection/c', 1001, { key: 'c' });
@@ -130,7 +130,7 @@ describeSpec('Limits:', [], () => {
   );
 
   specTest('Multiple docs in limbo in full limit query', [], () => {
-    const query1 = Query.atPath(path('collection')).withLimit(2);
+    const query1 = Query.atPath(path('collection')).withLimitToFirst(2);
     const query2 = Query.atPath(path('collection'));
     const docA = doc('collection/a', 1000, { key: 'a' });
     const docB = doc('collection/b', 1001, { key: 'b' });
@@ -217,4 +217,33 @@ describeSpec('Limits:', [], () => {
         .watchRemovesLimboTarget(docD)
     );
   });
+
+  specTest('limitToLast query keeps the last documents in order', [], () => {
+    const query1 = Query.atPath(path('collection'))
+      .addOrderBy(orderBy('sort', 'asc'))
+      .withLimitToLast(2);
+    const docA = doc('collection/a', 1000, { key: 'a', sort: 1 });
+    const docB = doc('collection/b', 1000, { key: 'b', sort: 2 });
+    const docC = doc(
+      'collection/c',
+      0,
+      { key: 'c', sort: 3 },
+      { hasLocalMutations: true }
+    );
+    return (
+      spec()
+        .userListens(query1)
+        // The backend returns the last documents in reversed order.
+        .watchAcksFull(query1, 1000, docB, docA)
+        .expectEvents(query1, {
+          added: [docA, docB]
+        })
+        .userSets('collection/c', { key: 'c', sort: 3 })
+        .expectEvents(query1, {
+          hasPendingWrites: true,
+          added: [docC],
+          removed: [docA]
+        })
+    );
+  });
 });
@@ -15,6 +15,7 @@
  */
 
 import { Query } from '../../../src/core/query';
+import { TimerId } from '../../../src/util/async_queue';
 import { doc, path } from '../../util/helpers';
 
 import { describeSpec, specTest } from './describe_spec';
@@ -181,4 +182,36 @@ describeSpec('Persistence:', ['persistence'], () => {
         })
     );
   });
+
+  specTest(
+    'Garbage collection starts when a client becomes primary',
+    ['multi-client'],
+    () => {
+      return spec()
+        .withGCEnabled(false)
+        .client(1)
+        .stealPrimaryLease()
+        .expectPrimaryState(true)
+        .runTimer(TimerId.LruGarbageCollection);
+    }
+  );
+
+  specTest(
+    'Garbage collection does not fail a client that lost its primary lease',
+    ['multi-client'],
+    () => {
+      return (
+        spec()
+          .withGCEnabled(false)
+          .client(1)
+          .stealPrimaryLease()
+          .client(0)
+          // Client 0 doesn't know yet that it lost the lease. Its garbage
+          // collection fails, but is scheduled again.
+          .runTimer(TimerId.LruGarbageCollection)
+          .expectPrimaryState(true)
+          .runTimer(TimerId.LruGarbageCollection)
+      );
+    }
+  );
 });
@@ -54,11 +54,13 @@ import { TimerId } from '../../../src/util/async_queue';
  * duplicate tests in every client.
  */
 export class SpecBuilder {
-  private config: SpecConfig = { useGarbageCollection: true };
+  private config: SpecConfig = { useGarbageCollection: true, numClients: 1 };
   private steps: SpecStep[] = [];
   // currentStep is built up (in particular, expectations can be added to it)
   // until nextStep() is called to append it to steps.
   private currentStep: SpecStep | null = null;
+  // The client that runs the steps that are added next.
+  private currentClientIndex = 0;
   private queryMapping: { [query: string]: TargetId } = {};
   private limboMapping: { [key: string]: TargetId } = {};
 
@@ -107,6 +109,21 @@ export class SpecBuilder {
     return this;
   }
 
+  /**
+   * Runs the following steps in the client with the given index. The clients
+   * share their persistence, as if they ran in different tabs. Client 0 starts
+   * first and becomes the primary client.
+   *
+   * Queries and targets are tracked across all clients, so tests with
+   * multiple clients should only listen in one of them.
+   */
+  client(clientIndex: number): SpecBuilder {
+    this.nextStep();
+    this.currentClientIndex = clientIndex;
+    this.config.numClients = Math.max(this.config.numClients, clientIndex + 1);
+    return this;
+  }
+
   userListens(query: Query, resumeToken?: string): SpecBuilder {
     this.nextStep();
 
@@ -250,6 +267,28 @@ export class SpecBuilder {
     return this;
   }
 
+  /**
+   * Makes the current client the primary client, without notifying the
+   * client that held the primary lease before.
+   */
+  stealPrimaryLease(): SpecBuilder {
+    this.nextStep();
+    this.currentStep = { stealPrimaryLease: true };
+    return this;
+  }
+
+  /**
+   * Loads the given bundle, which must not have been loaded before. Loading
+   * the bundle allocates a target ID for the umbrella target that holds the
+   * bundle's documents.
+   */
+  loadBundle(bundle: string): SpecBuilder {
+    this.nextStep();
+    this.currentStep = { loadBundle: bundle };
+    this.queryIdGenerator.next();
+    return this;
+  }
+
   /** Overrides the currently expected set of active targets. */
   expectActiveTargets(
     ...targets: Array<{ query: Query; resumeToken: string }>
@@ -587,11 +626,25 @@ export class SpecBuilder {
     return this;
   }
 
+  /** Verifies whether the current client considers itself primary. */
+  expectPrimaryState(isPrimary: boolean): SpecBuilder {
+    this.assertStep('Expectations require previous step');
+    const currentStep = this.currentStep!;
+    currentStep.stateExpect = currentStep.stateExpect || {};
+    currentStep.stateExpect.isPrimary = isPrimary;
+    return this;
+  }
+
   private static queryToSpec(query: Query): SpecQuery {
     // TODO(dimond): full query support
     const spec: SpecQuery = { path: query.path.canonicalString() };
-    if (query.hasLimit()) {
+    if (query.hasLimitToFirst()) {
       spec.limit = query.limit!;
+      spec.limitType = 'LimitToFirst';
+    }
+    if (query.hasLimitToLast()) {
+      spec.limit = query.limit!;
+      spec.limitType = 'LimitToLast';
     }
     if (query.filters) {
       spec.filters = query.filters.map((filter: Filter) => {
@@ -642,6 +695,9 @@ export class SpecBuilder {
 
   private nextStep(): void {
     if (this.currentStep !== null) {
+      if (this.currentClientIndex !== 0) {
+        this.currentStep.clientIndex = this.currentClientIndex;
+      }
       this.steps.push(this.currentStep);
       this.currentStep = null;
     }
@@ -17,6 +17,7 @@
 import { expect } from 'chai';
 import * as api from '../../../src/protos/firestore_proto_api';
 import { EmptyCredentialsProvider, Token } from '../../../src/api/credentials';
+import { LoadBundleTask } from '../../../src/api/bundle';
 import { User } from '../../../src/auth/user';
 import { DatabaseId, DatabaseInfo } from '../../../src/core/database_info';
 import {
@@ -24,6 +25,7 @@ import {
   Observer,
   QueryListener
 } from '../../../src/core/event_manager';
+import { ListenSequence } from '../../../src/core/listen_sequence';
 import { Query } from '../../../src/core/query';
 import { SnapshotVersion } from '../../../src/core/snapshot_version';
 import { SyncEngine } from '../../../src/core/sync_engine';
@@ -40,16 +42,28 @@ import {
 import { EagerGarbageCollector } from '../../../src/local/eager_garbage_collector';
 import { GarbageCollector } from '../../../src/local/garbage_collector';
 import { IndexedDbPersistence } from '../../../src/local/indexeddb_persistence';
+import {
+  createOrUpgradeDb,
+  DbOwner,
+  DbOwnerKey,
+  SCHEMA_VERSION
+} from '../../../src/local/indexeddb_schema';
 import { LocalStore } from '../../../src/local/local_store';
+import {
+  LruGarbageCollector,
+  LruParams,
+  LruScheduler
+} from '../../../src/local/lru_garbage_collector';
 import { MemoryPersistence } from '../../../src/local/memory_persistence';
 import { NoOpGarbageCollector } from '../../../src/local/no_op_garbage_collector';
 import { Persistence } from '../../../src/local/persistence';
 import { QueryData, QueryPurpose } from '../../../src/local/query_data';
+import { MemorySharedClientState } from '../../../src/local/shared_client_state';
 import { SimpleDb } from '../../../src/local/simple_db';
 import { DocumentOptions } from '../../../src/model/document';
 import { DocumentKey } from '../../../src/model/document_key';
 import { JsonObject } from '../../../src/model/field_value';
-import { Mutation } from '../../../src/model/mutation';
+import { Mutation, TransformMutation } from '../../../src/model/mutation';
 import { emptyByteString } from '../../../src/platform/platform';
 import { Connection, Stream } from '../../../src/remote/connection';
 import { Datastore } from '../../../src/remote/datastore';
@@ -72,7 +86,8 @@ import {
 import { assert, fail } from '../../../src/util/assert';
 import { AsyncQueue, TimerId } from '../../../src/util/async_queue';
 import { FirestoreError } from '../../../src/util/error';
-import { AnyDuringMigration, AnyJs } from '../../../src/util/misc';
+import { BundleReader } from '../../../src/util/bundle_reader';
+import { AnyDuringMigration, AnyJs, AutoId } from '../../../src/util/misc';
 import * as obj from '../../../src/util/obj';
 import { ObjectMap } from '../../../src/util/obj_map';
 import { Deferred, sequence } from '../../../src/util/promise';
@@ -87,6 +102,7 @@ import {
   path,
   setMutation,
   TestSnapshotVersion,
+  transformMutation,
   version
 } from '../../util/helpers';
 
@@ -339,24 +355,32 @@ abstract class TestRunner {
   private datastore: Datastore;
   private localStore: LocalStore;
   private remoteStore: RemoteStore;
-  private persistence: Persistence;
+  private lruScheduler: LruScheduler | null;
+  protected persistence: Persistence;
   private useGarbageCollection: boolean;
   private databaseInfo: DatabaseInfo;
   private user = User.UNAUTHENTICATED;
 
   private serializer: JsonProtoSerializer;
 
-  constructor(private readonly name: string, config: SpecConfig) {
+  protected readonly clientId = AutoId.newId();
+
+  constructor(config: SpecConfig) {
     this.databaseInfo = new DatabaseInfo(
       new DatabaseId('project'),
       'persistenceKey',
       'host',
-      false
+      /*ssl=*/ false,
+      /*forceLongPolling=*/ false,
+      /*autoDetectLongPolling=*/ false
     );
     this.serializer = new JsonProtoSerializer(this.databaseInfo.databaseId, {
       useProto3Json: true
     });
-    this.persistence = this.getPersistence(this.serializer);
+    this.persistence = this.getPersistence(
+      this.serializer,
+      /* synchronizeTabs= */ config.numClients > 1
+    );
 
     this.useGarbageCollection = config.useGarbageCollection;
 
@@ -376,6 +400,11 @@ abstract class TestRunner {
     );
 
     this.queue = new AsyncQueue();
+    // Like the client, run LRU garbage collection only while primary.
+    this.lruScheduler =
+      garbageCollector instanceof LruGarbageCollector
+        ? new LruScheduler(garbageCollector, this.queue, this.localStore)
+        : null;
     this.connection = new MockConnection(this.queue);
     this.datastore = new Datastore(
       this.queue,
@@ -394,52 +423,74 @@ abstract class TestRunner {
       onlineStateChangedHandler
     );
 
+    const sharedClientState = new MemorySharedClientState();
     this.syncEngine = new SyncEngine(
       this.localStore,
       this.remoteStore,
+      sharedClientState,
       this.user
     );
 
     // Setup wiring between sync engine and remote store
     this.remoteStore.syncEngine = this.syncEngine;
+    sharedClientState.syncEngine = this.syncEngine;
+    sharedClientState.onlineStateHandler = onlineStateChangedHandler;
 
     this.eventManager = new EventManager(this.syncEngine);
   }
 
   private getGarbageCollector(): GarbageCollector {
-    return this.useGarbageCollection
-      ? new EagerGarbageCollector()
+    if (this.useGarbageCollection) {
+      return new EagerGarbageCollector();
+    }
+    // Like the client, use LRU garbage collection with IndexedDB.
+    return this.persistence instanceof IndexedDbPersistence
+      ? new LruGarbageCollector(this.persistence.lruDelegate, LruParams.DEFAULT)
       : new NoOpGarbageCollector();
   }
 
   protected abstract getPersistence(
-    serializer: JsonProtoSerializer
+    serializer: JsonProtoSerializer,
+    synchronizeTabs: boolean
   ): Persistence;
-  protected abstract destroyPersistence(): Promise<void>;
+  abstract destroyPersistence(): Promise<void>;
+  /**
+   * Makes this client the owner of the primary lease in persistence, without
+   * notifying the previous primary client.
+   */
+  protected abstract writePrimaryLease(): Promise<void>;
 
   async start(): Promise<void> {
     this.connection.reset();
     await this.persistence.start();
     await this.localStore.start();
+    await this.persistence.setPrimaryStateListener(isPrimary =>
+      this.applyPrimaryState(isPrimary)
+    );
     await this.remoteStore.start();
   }
 
   async shutdown(): Promise<void> {
+    if (this.lruScheduler) {
+      this.lruScheduler.stop();
+    }
     await this.remoteStore.shutdown();
-    await this.persistence.shutdown(/* deleteData= */ true);
-    await this.destroyPersistence();
+    await this.persistence.shutdown();
   }
 
-  run(steps: SpecStep[]): Promise<void> {
-    // tslint:disable-next-line:no-console
-    console.log('Running spec: ' + this.name);
-    return sequence(steps, async step => {
-      await this.doStep(step);
-      await this.queue.drain();
-      this.validateStepExpectations(step.expect!);
-      this.validateStateExpectations(step.stateExpect!);
-      this.eventList = [];
-    });
+  async run(step: SpecStep): Promise<void> {
+    await this.doStep(step);
+    await this.queue.drain();
+    this.validateStepExpectations(step.expect!);
+    this.validateStateExpectations(step.stateExpect!);
+    this.eventList = [];
+  }
+
+  private async applyPrimaryState(isPrimary: boolean): Promise<void> {
+    await this.syncEngine.applyPrimaryState(isPrimary);
+    if (this.lruScheduler) {
+      this.lruScheduler.applyPrimaryState(isPrimary);
+    }
   }
 
   private doStep(step: SpecStep): Promise<void> {
@@ -482,6 +533,11 @@ abstract class TestRunner {
       return this.doRestart();
     } else if ('changeUser' in step) {
       return this.doChangeUser(step.changeUser!);
+    } else if ('stealPrimaryLease' in step) {
+      assert(step.stealPrimaryLease!, 'StealPrimaryLease cannot be false');
+      return this.doStealPrimaryLease();
+    } else if ('loadBundle' in step) {
+      return this.doLoadBundle(step.loadBundle!);
     } else {
       return fail('Unknown step: ' + JSON.stringify(step));
     }
@@ -538,7 +594,14 @@ abstract class TestRunner {
   }
 
   private doPatch(patchSpec: SpecUserPatch): Promise<void> {
-    return this.doMutations([patchMutation(patchSpec[0], patchSpec[1])]);
+    const mutations: Mutation[] = [patchMutation(patchSpec[0], patchSpec[1])];
+    // Array transform sentinels in the patch data are sent as a separate
+    // TransformMutation in the same batch, just like DocumentReference.update().
+    const transform = transformMutation(patchSpec[0], patchSpec[1]);
+    if (transform.fieldTransforms.length > 0) {
+      mutations.push(transform);
+    }
+    return this.doMutations(mutations);
   }
 
   private doDelete(deleteSpec: SpecUserDelete): Promise<void> {
@@ -746,8 +809,18 @@ abstract class TestRunner {
   private doWriteAck(writeAck: SpecWriteAck): Promise<void> {
     const updateTime = this.serializer.toVersion(version(writeAck.version));
     const nextWrite = this.outstandingWrites.shift()!;
+    const writeResults = nextWrite.mutations.map(mutation => {
+      const writeResult: api.WriteResult = { updateTime };
+      if (mutation instanceof TransformMutation) {
+        // The backend sends null transform results for array transforms.
+        writeResult.transformResults = mutation.fieldTransforms.map(
+          () => ({ nullValue: 'NULL_VALUE' } as api.Value)
+        );
+      }
+      return writeResult;
+    });
     return this.validateNextWriteRequest(nextWrite.mutations).then(() => {
-      this.connection.ackWrite(updateTime, [{ updateTime }]);
+      this.connection.ackWrite(updateTime, writeResults);
       if (writeAck.expectUserCallback) {
         return nextWrite.userCallback.promise;
       }
@@ -804,6 +877,9 @@ abstract class TestRunner {
   private async doRestart(): Promise<void> {
     // Reinitialize everything, except the persistence.
     // No local store to shutdown.
+    if (this.lruScheduler) {
+      this.lruScheduler.stop();
+    }
     await this.remoteStore.shutdown();
 
     this.init();
@@ -812,10 +888,20 @@ abstract class TestRunner {
     // interleaved events.
     await this.queue.enqueue(async () => {
       await this.localStore.start();
+      await this.persistence.setPrimaryStateListener(isPrimary =>
+        this.applyPrimaryState(isPrimary)
+      );
       await this.remoteStore.start();
     });
   }
 
+  private async doStealPrimaryLease(): Promise<void> {
+    await this.writePrimaryLease();
+    // Other clients only notice that they lost the lease when they next
+    // refresh it.
+    await this.queue.enqueue(() => this.applyPrimaryState(true));
+  }
+
   private doChangeUser(user: string | null): Promise<void> {
     this.user = new User(user);
     return this.queue.enqueue(() =>
@@ -823,6 +909,14 @@ abstract class TestRunner {
     );
   }
 
+  private async doLoadBundle(bundle: string): Promise<void> {
+    const reader = new BundleReader(bundle, this.serializer);
+    const task = new LoadBundleTask();
+    await this.queue.enqueue(() => this.syncEngine.loadBundle(reader, task));
+    // `loadBundle()` reports errors to the task instead of rejecting.
+    await task;
+  }
+
   private validateStepExpectations(stepExpectations: SpecExpectation[]): void {
     if (stepExpectations) {
       expect(this.eventList.length).to.equal(
@@ -865,6 +959,12 @@ abstract class TestRunner {
       if ('activeTargets' in expectation) {
         this.expectedActiveTargets = expectation.activeTargets!;
       }
+      if ('isPrimary' in expectation) {
+        expect(this.syncEngine.isPrimaryClient).to.equal(
+          expectation.isPrimary,
+          'isPrimary'
+        );
+      }
     }
 
     // Always validate that the expected limbo docs match the actual limbo docs
@@ -914,6 +1014,7 @@ abstract class TestRunner {
           this.parseQuery(expected.query),
           targetId,
           QueryPurpose.Listen,
+          ListenSequence.INVALID,
           SnapshotVersion.MIN,
           expected.resumeToken
         )
@@ -987,7 +1088,10 @@ abstract class TestRunner {
     } else {
       let query = Query.atPath(path(querySpec.path));
       if (querySpec.limit) {
-        query = query.withLimit(querySpec.limit);
+        query =
+          querySpec.limitType === 'LimitToLast'
+            ? query.withLimitToLast(querySpec.limit)
+            : query.withLimitToFirst(querySpec.limit);
       }
       if (querySpec.filters) {
         querySpec.filters.forEach(([field, op, value]) => {
@@ -1016,13 +1120,21 @@ abstract class TestRunner {
 }
 
 class MemoryTestRunner extends TestRunner {
-  protected getPersistence(serializer: JsonProtoSerializer): Persistence {
-    return new MemoryPersistence();
+  protected getPersistence(
+    serializer: JsonProtoSerializer,
+    synchronizeTabs: boolean
+  ): Persistence {
+    assert(!synchronizeTabs, 'Multiple clients require persistence');
+    return new MemoryPersistence(this.clientId);
   }
 
-  protected async destroyPersistence(): Promise<void> {
+  async destroyPersistence(): Promise<void> {
     // Nothing to do.
   }
+
+  protected writePrimaryLease(): Promise<void> {
+    return fail('Stealing the primary lease requires persistence');
+  }
 }
 
 /**
@@ -1032,18 +1144,40 @@ class MemoryTestRunner extends TestRunner {
 class IndexedDbTestRunner extends TestRunner {
   static TEST_DB_NAME = 'specs';
 
-  protected getPersistence(serializer: JsonProtoSerializer): Persistence {
+  protected getPersistence(
+    serializer: JsonProtoSerializer,
+    synchronizeTabs: boolean
+  ): Persistence {
     return new IndexedDbPersistence(
       IndexedDbTestRunner.TEST_DB_NAME,
-      serializer
+      this.clientId,
+      serializer,
+      synchronizeTabs
     );
   }
 
-  protected destroyPersistence(): Promise<void> {
+  destroyPersistence(): Promise<void> {
     return SimpleDb.delete(
       IndexedDbTestRunner.TEST_DB_NAME + IndexedDbPersistence.MAIN_DATABASE
     );
   }
+
+  protected async writePrimaryLease(): Promise<void> {
+    const db = await SimpleDb.openOrCreate(
+      IndexedDbTestRunner.TEST_DB_NAME + IndexedDbPersistence.MAIN_DATABASE,
+      SCHEMA_VERSION,
+      createOrUpgradeDb
+    );
+    try {
+      await db.runTransaction('readwrite', [DbOwner.store], txn =>
+        txn
+          .store<DbOwnerKey, DbOwner>(DbOwner.store)
+          .put('owner', new DbOwner(this.clientId, Date.now()))
+      );
+    } finally {
+      db.close();
+    }
+  }
 }
 
 /**
@@ -1057,17 +1191,23 @@ export async function runSpec(
   config: SpecConfig,
   steps: SpecStep[]
 ): Promise<void> {
-  let runner: TestRunner;
-  if (usePersistence) {
-    runner = new IndexedDbTestRunner(name, config);
-  } else {
-    runner = new MemoryTestRunner(name, config);
+  const runners: TestRunner[] = [];
+  for (let i = 0; i < config.numClients; ++i) {
+    if (usePersistence) {
+      runners.push(new IndexedDbTestRunner(config));
+    } else {
+      runners.push(new MemoryTestRunner(config));
+    }
   }
-  await runner.start();
+  // The clients start one after the other, so the first one becomes primary.
+  await sequence(runners, runner => runner.start());
   try {
-    await runner.run(steps);
+    // tslint:disable-next-line:no-console
+    console.log('Running spec: ' + name);
+    await sequence(steps, step => runners[step.clientIndex || 0].run(step));
   } finally {
-    await runner.shutdown();
+    await sequence(runners, runner => runner.shutdown());
+    await runners[0].destroyPersistence();
   }
 }
 
@@ -1075,6 +1215,12 @@ export async function runSpec(
 export interface SpecConfig {
   /** A boolean to enable / disable GC. */
   useGarbageCollection: boolean;
+
+  /**
+   * The number of clients that share the persistence layer, as if they ran
+   * in different tabs. Requires persistence if more than one.
+   */
+  numClients: number;
 }
 
 /**
@@ -1082,6 +1228,9 @@ export interface SpecConfig {
  * set and optionally expected events in the `expect` field.
  */
 export interface SpecStep {
+  /** The index of the client that runs the step. Defaults to 0. */
+  clientIndex?: number;
+
   /** Listen to a new query (must be unique) */
   userListen?: SpecUserListen;
   /** Unlisten from a query (must be listened to) */
@@ -1137,6 +1286,16 @@ export interface SpecStep {
    */
   restart?: boolean;
 
+  /**
+   * Takes over the primary lease for the client, without notifying the client
+   * that held it before. This simulates a tab that becomes primary after the
+   * lease of the previous primary expired (e.g. while its tab was throttled).
+   */
+  stealPrimaryLease?: boolean;
+
+  /** Loads the given bundle, encoded as its length-prefixed JSON elements. */
+  loadBundle?: string;
+
   /**
    * Optional list of expected events.
    * If not provided, the test will fail if the step causes events to be raised.
@@ -1245,6 +1404,7 @@ export type SpecQueryOrderBy = [string, string];
 export interface SpecQuery {
   path: string;
   limit?: number;
+  limitType?: 'LimitToFirst' | 'LimitToLast';
   filters?: SpecQueryFilter[];
   orderBys?: SpecQueryOrderBy[];
 }
@@ -1287,4 +1447,6 @@ export interface StateExpectation {
   activeTargets?: {
     [targetId: number]: { query: SpecQuery; resumeToken: string };
   };
+  /** Whether the client considers itself the primary client. */
+  isPrimary?: boolean;
 }
@@ -17,7 +17,12 @@
 import { Query } from '../../../src/core/query';
 import { Document } from '../../../src/model/document';
 import { Code } from '../../../src/util/error';
-import { doc, path } from '../../util/helpers';
+import {
+  ARRAY_REMOVE_SENTINEL,
+  ARRAY_UNION_SENTINEL,
+  doc,
+  path
+} from '../../util/helpers';
 
 import { describeSpec, specTest } from './describe_spec';
 import { spec } from './spec_builder';
@@ -636,4 +641,65 @@ describeSpec('Writes:', [], () => {
       .writeAcks(1, { expectUserCallback: false })
       .expectNumOutstandingWrites(0);
   });
+
+  specTest(
+    'Array transforms are applied locally and after the write ack',
+    [],
+    () => {
+      const query = Query.atPath(path('collection/key'));
+      const docV1 = doc('collection/key', 1000, {
+        union: [1, 2],
+        remove: ['a', 'b']
+      });
+      const docV1Local = doc(
+        'collection/key',
+        1000,
+        { union: [1, 2, 3], remove: ['b'] },
+        { hasLocalMutations: true }
+      );
+      const docV2 = doc('collection/key', 2000, {
+        union: [1, 2, 3],
+        remove: ['b']
+      });
+      return spec()
+        .userListens(query)
+        .watchAcksFull(query, 1000, docV1)
+        .expectEvents(query, { added: [docV1] })
+        .userPatches('collection/key', {
+          union: { [ARRAY_UNION_SENTINEL]: [2, 3] },
+          remove: { [ARRAY_REMOVE_SENTINEL]: ['a', 'c'] }
+        })
+        .expectEvents(query, {
+          hasPendingWrites: true,
+          modified: [docV1Local]
+        })
+        .watchSends({ affects: [query] }, docV2)
+        .watchSnapshots(2000)
+        .writeAcks(2000)
+        .expectEvents(query, { metadata: [docV2] });
+    }
+  );
+
+  specTest('Array transforms on missing fields are applied locally', [], () => {
+    const query = Query.atPath(path('collection/key'));
+    const docV1 = doc('collection/key', 1000, { v: 1 });
+    const docV1Local = doc(
+      'collection/key',
+      1000,
+      { v: 1, union: [1], remove: [] },
+      { hasLocalMutations: true }
+    );
+    return spec()
+      .userListens(query)
+      .watchAcksFull(query, 1000, docV1)
+      .expectEvents(query, { added: [docV1] })
+      .userPatches('collection/key', {
+        union: { [ARRAY_UNION_SENTINEL]: [1] },
+        remove: { [ARRAY_REMOVE_SENTINEL]: [1] }
+      })
+      .expectEvents(query, {
+        hasPendingWrites: true,
+        modified: [docV1Local]
+      });
+  });
 });
@@ -0,0 +1,161 @@
+/**
+ * Copyright 2019 Google Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { DatabaseId } from '../../../src/core/database_info';
+import * as bundleProto from '../../../src/protos/firestore_bundle_proto';
+import { JsonProtoSerializer } from '../../../src/remote/serializer';
+import { BundleReader } from '../../../src/util/bundle_reader';
+
+/** Returns the number of bytes of the UTF-8 encoding of `value`. */
+function byteLength(value: string): number {
+  return unescape(encodeURIComponent(value)).length;
+}
+
+/** Encodes an element of a bundle, including its length prefix. */
+function lengthPrefixed(element: bundleProto.BundleElement): string {
+  const json = JSON.stringify(element);
+  return byteLength(json) + json;
+}
+
+/** Converts a string that only contains ASCII characters to bytes. */
+function asciiToArrayBuffer(value: string): ArrayBuffer {
+  const bytes = new Uint8Array(value.length);
+  for (let i = 0; i < value.length; ++i) {
+    bytes[i] = value.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+describe('BundleReader', () => {
+  const serializer = new JsonProtoSerializer(new DatabaseId('p'), {
+    useProto3Json: true
+  });
+
+  const metadata: bundleProto.BundleElement = {
+    metadata: {
+      id: 'test-bundle',
+      createTime: '2019-10-01T00:00:00.000000000Z',
+      version: 1,
+      totalDocuments: 1,
+      totalBytes: 0
+    }
+  };
+
+  const namedQuery: bundleProto.BundleElement = {
+    namedQuery: {
+      name: 'limitQuery',
+      bundledQuery: {
+        parent: 'projects/p/databases/(default)/documents',
+        structuredQuery: { from: [{ collectionId: 'coll' }], limit: 1 },
+        limitType: 'FIRST'
+      },
+      readTime: '2019-10-01T00:00:00.000000000Z'
+    }
+  };
+
+  const documentMetadata: bundleProto.BundleElement = {
+    documentMetadata: {
+      name: 'projects/p/databases/(default)/documents/coll/ä',
+      readTime: '2019-10-01T00:00:00.000000000Z',
+      exists: false,
+      queries: ['limitQuery']
+    }
+  };
+
+  it('reads metadata and elements', () => {
+    const reader = new BundleReader(
+      lengthPrefixed(metadata) +
+        lengthPrefixed(namedQuery) +
+        lengthPrefixed(documentMetadata),
+      serializer
+    );
+
+    expect(reader.getMetadata()).to.deep.equal(metadata.metadata);
+
+    const first = reader.nextElement()!;
+    expect(first.payload).to.deep.equal(namedQuery);
+    expect(first.byteLength).to.equal(lengthPrefixed(namedQuery).length);
+    expect(first.isBundleMetadata()).to.be.false;
+
+    const second = reader.nextElement()!;
+    expect(second.payload).to.deep.equal(documentMetadata);
+    expect(second.byteLength).to.equal(
+      byteLength(lengthPrefixed(documentMetadata))
+    );
+
+    expect(reader.nextElement()).to.be.null;
+  });
+
+  it('reads bundles from ArrayBuffers', () => {
+    const reader = new BundleReader(
+      asciiToArrayBuffer(lengthPrefixed(metadata) + lengthPrefixed(namedQuery)),
+      serializer
+    );
+
+    expect(reader.getMetadata()).to.deep.equal(metadata.metadata);
+    expect(reader.nextElement()!.payload).to.deep.equal(namedQuery);
+    expect(reader.nextElement()).to.be.null;
+  });
+
+  it('returns metadata as first element', () => {
+    const reader = new BundleReader(lengthPrefixed(metadata), serializer);
+    expect(reader.nextElement()!.isBundleMetadata()).to.be.true;
+    expect(reader.nextElement()).to.be.null;
+  });
+
+  it('fails for bundles that do not start with metadata', () => {
+    const reader = new BundleReader(lengthPrefixed(namedQuery), serializer);
+    expect(() => reader.getMetadata()).to.throw(
+      'Invalid bundle. The first element of the bundle is not a metadata ' +
+        'element.'
+    );
+  });
+
+  it('fails for elements without length prefix', () => {
+    const reader = new BundleReader(
+      lengthPrefixed(metadata) + JSON.stringify(namedQuery),
+      serializer
+    );
+    reader.getMetadata();
+    expect(() => reader.nextElement()).to.throw(
+      /Invalid bundle. Expected the length of an element/
+    );
+  });
+
+  it('fails for truncated elements', () => {
+    const bundle = lengthPrefixed(metadata) + lengthPrefixed(namedQuery);
+    const reader = new BundleReader(
+      bundle.substring(0, bundle.length - 1),
+      serializer
+    );
+    reader.getMetadata();
+    expect(() => reader.nextElement()).to.throw(
+      /Invalid bundle. The element at offset \d+ is longer than the remaining bundle./
+    );
+  });
+
+  it('fails for elements that are not JSON', () => {
+    const reader = new BundleReader(
+      lengthPrefixed(metadata) + '5{abc}',
+      serializer
+    );
+    reader.getMetadata();
+    expect(() => reader.nextElement()).to.throw(
+      /Invalid bundle. The element at offset \d+ is not valid JSON/
+    );
+  });
+});
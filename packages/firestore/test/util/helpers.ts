@@ -25,6 +25,7 @@ import {
   UserDataConverter
 } from '../../src/api/user_data_converter';
 import { DatabaseId } from '../../src/core/database_info';
+import { ListenSequence } from '../../src/core/listen_sequence';
 import {
   Bound,
   Direction,
@@ -95,8 +96,27 @@ export type TestSnapshotVersion = number;
  */
 export const DELETE_SENTINEL = '<DELETE>';
 
+/**
+ * String sentinels that can be used as the only key of an object in
+ * patchMutation() data to apply an arrayUnion() or arrayRemove() transform
+ * with the elements stored under that key, e.g.
+ * `{ array: { [ARRAY_UNION_SENTINEL]: [1, 2] } }`.
+ */
+export const ARRAY_UNION_SENTINEL = '<ARRAY_UNION>';
+export const ARRAY_REMOVE_SENTINEL = '<ARRAY_REMOVE>';
+
 const preConverter = (input: AnyJs) => {
-  return input === DELETE_SENTINEL ? FieldValueImpl.delete() : input;
+  if (input === DELETE_SENTINEL) {
+    return FieldValueImpl.delete();
+  } else if (typeof input === 'object' && input !== null) {
+    const sentinel = input as Dict<AnyJs[]>;
+    if (ARRAY_UNION_SENTINEL in sentinel) {
+      return FieldValueImpl.arrayUnion(...sentinel[ARRAY_UNION_SENTINEL]);
+    } else if (ARRAY_REMOVE_SENTINEL in sentinel) {
+      return FieldValueImpl.arrayRemove(...sentinel[ARRAY_REMOVE_SENTINEL]);
+    }
+  }
+  return input;
 };
 
 const dataConverter = new UserDataConverter(preConverter);
@@ -244,7 +264,12 @@ export function queryData(
   queryPurpose: QueryPurpose,
   path: string
 ): QueryData {
-  return new QueryData(query(path)._query, targetId, queryPurpose);
+  return new QueryData(
+    query(path)._query,
+    targetId,
+    queryPurpose,
+    ListenSequence.INVALID
+  );
 }
 
 export function docAddedRemoteEvent(
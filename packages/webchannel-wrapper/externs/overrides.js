@@ -61,3 +61,6 @@ goog.net.WebChannel.Options.backgroundChannelTest;
 
 /** @type {boolean|undefined} */
 goog.net.WebChannel.Options.fastHandshake;
+
+/** @type {boolean|undefined} */
+goog.net.WebChannel.Options.forceLongPolling;
@@ -28,8 +28,32 @@ goog.require('goog.labs.net.webChannel.WebChannelBaseTransport');
  * whose properties are typically mangled. We override these in externs/overrides.js
  * Without those externs, this does not function properly.
  */
-goog.labs.net.webChannel.WebChannelBaseTransport.prototype['createWebChannel'] =
+var createWebChannel =
   goog.labs.net.webChannel.WebChannelBaseTransport.prototype.createWebChannel;
+/**
+ * The closure-library version we compile against does not read the
+ * `forceLongPolling` option, so we apply it to the created channel here.
+ * Without chunked mode, the back channel completes every response
+ * (long-polling) instead of streaming it.
+ *
+ * @param {string} url
+ * @param {!goog.net.WebChannel.Options=} opt_options
+ * @return {!goog.net.WebChannel}
+ * @suppress {accessControls}
+ */
+goog.labs.net.webChannel.WebChannelBaseTransport.prototype[
+  'createWebChannel'
+] = function(url, opt_options) {
+  var channel = /** @type {!goog.labs.net.webChannel.WebChannelBaseTransport.Channel} */ (createWebChannel.call(
+    this,
+    url,
+    opt_options
+  ));
+  if (opt_options && opt_options.forceLongPolling) {
+    channel.channel_.setAllowChunkedMode(false);
+  }
+  return channel;
+};
 goog.labs.net.webChannel.WebChannelBaseTransport.Channel.prototype['send'] =
   goog.labs.net.webChannel.WebChannelBaseTransport.Channel.prototype.send;
 goog.labs.net.webChannel.WebChannelBaseTransport.Channel.prototype['open'] =